@@ -0,0 +1,163 @@
+'use client';
+
+// ============================================
+// Accounts Page
+// ============================================
+
+import { useState } from 'react';
+import { PageContainer, PageSection, Grid } from '@/components/layout';
+import { Button, Modal, ModalFooter } from '@/components/ui';
+import {
+  AccountBalancesCard,
+  AccountModal,
+  AccountTransferModal,
+  AccountTransferList,
+} from '@/components/features/accounts';
+import { NetWorthChart } from '@/components/charts';
+import { useExpenses, useIncome, useAccounts, useToast } from '@/hooks';
+import { Account, AccountTransfer, NewAccount, NewAccountTransfer } from '@/types';
+
+export default function AccountsPage() {
+  const { expenses, isLoading: expensesLoading } = useExpenses();
+  const { income, isLoading: incomeLoading } = useIncome();
+  const {
+    accounts,
+    transfers,
+    balances,
+    netWorth,
+    netWorthHistory,
+    isLoading: accountsLoading,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    deleteTransfer,
+  } = useAccounts({ expenses, income });
+  const toast = useToast();
+
+  // Bumped on every open so the modals remount with a fresh form
+  const [modalKey, setModalKey] = useState(0);
+  const [isAccountModalOpen, setIsAccountModalOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+
+  const isLoading = expensesLoading || incomeLoading || accountsLoading;
+
+  const openAccountModal = (account: Account | null) => {
+    setEditingAccount(account);
+    setModalKey((prev) => prev + 1);
+    setIsAccountModalOpen(true);
+  };
+
+  const openTransferModal = () => {
+    setModalKey((prev) => prev + 1);
+    setIsTransferOpen(true);
+  };
+
+  const handleSaveAccount = async (account: NewAccount) => {
+    if (editingAccount) {
+      await updateAccount(editingAccount.id, account);
+      toast.success('Account updated');
+    } else {
+      await addAccount(account);
+      toast.success('Account added');
+    }
+  };
+
+  const handleTransfer = async (transfer: NewAccountTransfer) => {
+    try {
+      await addTransfer(transfer);
+      toast.success('Transfer recorded');
+    } catch (error) {
+      toast.error('Failed to record transfer');
+      throw error;
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!accountToDelete) return;
+
+    try {
+      await deleteAccount(accountToDelete.id);
+      toast.success('Account deleted');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete account');
+    } finally {
+      setAccountToDelete(null);
+    }
+  };
+
+  const handleDeleteTransfer = async (transfer: AccountTransfer) => {
+    try {
+      await deleteTransfer(transfer.id);
+      toast.success('Transfer deleted');
+    } catch (error) {
+      toast.error('Failed to delete transfer');
+    }
+  };
+
+  return (
+    <PageContainer title="Accounts" description="Balances across your accounts and your net worth over time">
+      <PageSection>
+        <Grid cols={2} gap="lg">
+          <AccountBalancesCard
+            balances={balances}
+            netWorth={netWorth}
+            isLoading={isLoading}
+            onAdd={() => openAccountModal(null)}
+            onEdit={openAccountModal}
+            onDelete={setAccountToDelete}
+            onTransfer={openTransferModal}
+          />
+          <NetWorthChart data={netWorthHistory} accounts={accounts} isLoading={isLoading} />
+        </Grid>
+      </PageSection>
+
+      <PageSection>
+        <AccountTransferList
+          transfers={transfers}
+          accounts={accounts}
+          isLoading={accountsLoading}
+          onDelete={handleDeleteTransfer}
+        />
+      </PageSection>
+
+      <AccountModal
+        key={`account-${modalKey}`}
+        isOpen={isAccountModalOpen}
+        account={editingAccount}
+        onClose={() => setIsAccountModalOpen(false)}
+        onSave={handleSaveAccount}
+      />
+
+      <AccountTransferModal
+        key={`transfer-${modalKey}`}
+        isOpen={isTransferOpen}
+        onClose={() => setIsTransferOpen(false)}
+        balances={balances}
+        onTransfer={handleTransfer}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={accountToDelete !== null}
+        onClose={() => setAccountToDelete(null)}
+        title="Delete Account"
+        size="sm"
+      >
+        <p className="text-gray-600 dark:text-gray-400">
+          Delete {accountToDelete?.name}? Only accounts without transactions or transfers can be deleted.
+        </p>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setAccountToDelete(null)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </PageContainer>
+  );
+}
@@ -9,14 +9,18 @@ import { format } from 'date-fns';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
 import { CategoryPieChart, MonthlyBarChart, IncomeExpenseChart } from '@/components/charts';
-import { useExpenses, useIncome, useAnalytics, useSettings, useCategories } from '@/hooks';
-import { getDateRange, getLastNMonths } from '@/lib/utils/dateUtils';
+import { EnvelopeHistoryTable } from '@/components/features/budgets';
+import { TagBreakdownCard } from '@/components/features/analytics';
+import { useExpenses, useIncome, useAnalytics, useSettings, useCategories, useBudgets } from '@/hooks';
+import { getDateRange } from '@/lib/utils/dateUtils';
 import { formatPercentage } from '@/lib/utils/formatters';
 import { CATEGORIES } from '@/lib/utils/constants';
 
 export default function MonthlyAnalyticsPage() {
-  const { expenses, isLoading: expensesLoading } = useExpenses();
-  const { income, isLoading: incomeLoading } = useIncome();
+  const dateRange = useMemo(() => getDateRange('month'), []);
+  // The trend charts' earlier months are read from their stored summaries
+  const { expenses, isLoading: expensesLoading } = useExpenses({ dateRange });
+  const { income, isLoading: incomeLoading } = useIncome({ dateRange });
   const { formatCurrency } = useSettings();
   const { getCategoryById } = useCategories();
 
@@ -33,15 +37,15 @@ export default function MonthlyAnalyticsPage() {
     return { name: categoryId, color: '#6B7280' };
   }, [getCategoryById]);
 
-  const dateRange = useMemo(() => getDateRange('month'), []);
-
   const analytics = useAnalytics({
     expenses,
     income,
     dateRange,
   });
 
-  const isLoading = expensesLoading || incomeLoading;
+  const budgets = useBudgets({ expenses });
+
+  const isLoading = expensesLoading || incomeLoading || analytics.isLoading;
 
   return (
     <PageContainer
@@ -144,10 +148,26 @@ export default function MonthlyAnalyticsPage() {
         </Grid>
       </PageSection>
 
+      {analytics.tagBreakdown.length > 0 && (
+        <PageSection>
+          <TagBreakdownCard data={analytics.tagBreakdown} isLoading={isLoading} />
+        </PageSection>
+      )}
+
       <PageSection title="Income vs Expenses Trend">
         <IncomeExpenseChart data={analytics.incomeVsExpenses} isLoading={isLoading} />
       </PageSection>
 
+      {budgets.isEnvelopeMode && budgets.budgets.length > 0 && (
+        <PageSection title="Envelopes">
+          <EnvelopeHistoryTable
+            history={budgets.envelopeHistory}
+            transfers={budgets.transfers}
+            isLoading={budgets.isLoading || expensesLoading}
+          />
+        </PageSection>
+      )}
+
       <PageSection title="6-Month History">
         <MonthlyBarChart data={analytics.monthlyTotals} isLoading={isLoading} />
       </PageSection>
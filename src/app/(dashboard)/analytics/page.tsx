@@ -9,18 +9,56 @@ import Link from 'next/link';
 import { ChevronRight, TrendingUp, TrendingDown, DollarSign, PieChart } from 'lucide-react';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui';
-import { CategoryPieChart, MonthlyBarChart, WeeklyTrendLine, IncomeExpenseChart, CategoryStreamChart } from '@/components/charts';
-import { useExpenses, useIncome, useAnalytics, useSettings, useCategories } from '@/hooks';
-import { getDateRange, getLastNMonths } from '@/lib/utils/dateUtils';
+import {
+  CategoryPieChart,
+  MonthlyBarChart,
+  WeeklyTrendLine,
+  IncomeExpenseChart,
+  CategoryStreamChart,
+  CashFlowForecastChart,
+} from '@/components/charts';
+import { TagBreakdownCard, MerchantsCard } from '@/components/features/analytics';
+import { QueryBar } from '@/components/features/search';
+import {
+  useExpenses,
+  useIncome,
+  useAnalytics,
+  useSettings,
+  useCategories,
+  useTransactionQuery,
+  useCashFlowForecast,
+} from '@/hooks';
+import { getDateRange, getCurrentPayPeriod, getLastNMonths, combineDateRanges } from '@/lib/utils/dateUtils';
 import { formatPercentage, formatChange } from '@/lib/utils/formatters';
 import { CATEGORIES } from '@/lib/utils/constants';
+import { isFilterEmpty, matchesTransactionFilter } from '@/services/analytics';
 import { cn } from '@/lib/cn';
 
+type AnalyticsPeriod = 'month' | 'payPeriod' | 'quarter' | 'year';
+
+const PERIODS: { value: AnalyticsPeriod; label: string }[] = [
+  { value: 'month', label: 'This month' },
+  { value: 'payPeriod', label: 'This pay period' },
+  { value: 'quarter', label: 'This quarter' },
+  { value: 'year', label: 'This year' },
+];
+
 export default function AnalyticsPage() {
-  const [period, setPeriod] = useState<'month' | 'quarter' | 'year'>('month');
-  const { expenses, isLoading: expensesLoading } = useExpenses();
-  const { income, isLoading: incomeLoading } = useIncome();
-  const { formatCurrency } = useSettings();
+  const { settings, formatCurrency, toBaseCurrency, paySchedule } = useSettings();
+  const [period, setPeriod] = useState<AnalyticsPeriod>(settings.periodMode === 'payPeriod' ? 'payPeriod' : 'month');
+  const [query, setQuery] = useState('');
+  const { filter, errors: queryErrors } = useTransactionQuery(query);
+  const dateRange = useMemo(
+    () => (period === 'payPeriod' ? getCurrentPayPeriod(paySchedule) : getDateRange(period)),
+    [period, paySchedule]
+  );
+  // The trend charts also show the last six months and the stream chart this year
+  const dataRange = useMemo(
+    () => combineDateRanges(dateRange, getLastNMonths(6), getDateRange('year')),
+    [dateRange]
+  );
+  const { expenses, isLoading: expensesLoading } = useExpenses({ dateRange: dataRange });
+  const { income, isLoading: incomeLoading } = useIncome({ dateRange: dataRange });
   const { getCategoryById } = useCategories();
 
   // Helper to get category name (supports both default and custom)
@@ -33,14 +71,24 @@ export default function AnalyticsPage() {
     return categoryId;
   }, [getCategoryById]);
 
-  const dateRange = useMemo(() => getDateRange(period), [period]);
-
   const analytics = useAnalytics({
     expenses,
     income,
     dateRange,
+    filter,
   });
 
+  // The stream chart sums records itself, so it gets the matching ones
+  const matchingExpenses = useMemo(
+    () =>
+      isFilterEmpty(filter)
+        ? expenses
+        : toBaseCurrency(expenses).filter((expense) => matchesTransactionFilter(expense, filter, getCategoryName)),
+    [expenses, filter, toBaseCurrency, getCategoryName]
+  );
+
+  const cashFlow = useCashFlowForecast();
+
   const isLoading = expensesLoading || incomeLoading;
 
   return (
@@ -50,19 +98,21 @@ export default function AnalyticsPage() {
     >
       {/* Period Selector */}
       <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
-        {(['month', 'quarter', 'year'] as const).map((p) => (
+        {PERIODS.map((p) => (
           <Button
-            key={p}
-            variant={period === p ? 'primary' : 'outline'}
+            key={p.value}
+            variant={period === p.value ? 'primary' : 'outline'}
             size="sm"
-            onClick={() => setPeriod(p)}
-            className="capitalize"
+            onClick={() => setPeriod(p.value)}
           >
-            This {p}
+            {p.label}
           </Button>
         ))}
       </div>
 
+      {/* Narrow every chart to matching transactions */}
+      <QueryBar value={query} onChange={setQuery} errors={queryErrors} className="mb-6" />
+
       {/* Key Insights */}
       <PageSection title="Key Insights">
         <Grid cols={3} gap="md">
@@ -148,16 +198,33 @@ export default function AnalyticsPage() {
         </Grid>
       </PageSection>
 
+      {analytics.tagBreakdown.length > 0 && (
+        <PageSection>
+          <TagBreakdownCard data={analytics.tagBreakdown} isLoading={isLoading} />
+        </PageSection>
+      )}
+
+      <PageSection>
+        <MerchantsCard />
+      </PageSection>
+
       {/* New: Category Stream Chart */}
       <PageSection title="">
-        <CategoryStreamChart expenses={expenses} isLoading={isLoading} />
+        <CategoryStreamChart expenses={matchingExpenses} isLoading={isLoading} />
       </PageSection>
 
-      <PageSection title="Income vs Expenses">
-        <IncomeExpenseChart
-          data={analytics.incomeVsExpenses}
-          isLoading={isLoading}
-        />
+      <PageSection title="Cash Flow">
+        <Grid cols={2} gap="lg">
+          <IncomeExpenseChart
+            data={analytics.incomeVsExpenses}
+            isLoading={isLoading}
+          />
+          <CashFlowForecastChart
+            forecast={cashFlow.forecast}
+            threshold={settings.forecastThreshold}
+            isLoading={cashFlow.isLoading}
+          />
+        </Grid>
       </PageSection>
 
       <PageSection title="Monthly Overview">
@@ -9,6 +9,7 @@ import { format, startOfWeek, endOfWeek, eachDayOfInterval } from 'date-fns';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
 import { Card, CardHeader, CardTitle, CardContent, Badge } from '@/components/ui';
 import { WeeklyTrendLine } from '@/components/charts';
+import { TagBreakdownCard } from '@/components/features/analytics';
 import { useExpenses, useAnalytics, useSettings, useCategories } from '@/hooks';
 import { getDateRange } from '@/lib/utils/dateUtils';
 import { formatDateSmart } from '@/lib/utils/formatters';
@@ -16,8 +17,15 @@ import { CATEGORIES } from '@/lib/utils/constants';
 import { cn } from '@/lib/cn';
 
 export default function WeeklyAnalyticsPage() {
-  const { expenses, isLoading } = useExpenses();
-  const { formatCurrency } = useSettings();
+  const dateRange = useMemo(() => {
+    const now = new Date();
+    return {
+      start: startOfWeek(now, { weekStartsOn: 0 }),
+      end: endOfWeek(now, { weekStartsOn: 0 }),
+    };
+  }, []);
+  const { expenses, isLoading } = useExpenses({ dateRange });
+  const { formatCurrency, toBaseCurrency } = useSettings();
   const { getCategoryById } = useCategories();
 
   // Helper to get category info (supports both default and custom)
@@ -33,14 +41,6 @@ export default function WeeklyAnalyticsPage() {
     return { name: categoryId, color: '#6B7280' };
   }, [getCategoryById]);
 
-  const dateRange = useMemo(() => {
-    const now = new Date();
-    return {
-      start: startOfWeek(now, { weekStartsOn: 0 }),
-      end: endOfWeek(now, { weekStartsOn: 0 }),
-    };
-  }, []);
-
   const analytics = useAnalytics({
     expenses,
     income: [],
@@ -59,10 +59,10 @@ export default function WeeklyAnalyticsPage() {
           expDate.getDate() === day.getDate()
         );
       });
-      const total = dayExpenses.reduce((sum, e) => sum + e.amount, 0);
+      const total = toBaseCurrency(dayExpenses).reduce((sum, e) => sum + e.amount, 0);
       return { day, expenses: dayExpenses, total };
     });
-  }, [expenses, dateRange]);
+  }, [expenses, dateRange, toBaseCurrency]);
 
   return (
     <PageContainer
@@ -166,7 +166,7 @@ export default function WeeklyAnalyticsPage() {
                           </div>
                         </div>
                         <p className="font-medium text-gray-900 dark:text-white">
-                          {formatCurrency(expense.amount)}
+                          {formatCurrency(expense.amount, true, expense.currency)}
                         </p>
                       </div>
                     );
@@ -184,6 +184,12 @@ export default function WeeklyAnalyticsPage() {
           ))}
         </div>
       </PageSection>
+
+      {analytics.tagBreakdown.length > 0 && (
+        <PageSection>
+          <TagBreakdownCard data={analytics.tagBreakdown} isLoading={isLoading} />
+        </PageSection>
+      )}
     </PageContainer>
   );
 }
@@ -9,14 +9,18 @@ import { format, getYear } from 'date-fns';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui';
 import { MonthlyBarChart, IncomeExpenseChart, CategoryPieChart } from '@/components/charts';
+import { TagBreakdownCard } from '@/components/features/analytics';
 import { useExpenses, useIncome, useAnalytics, useSettings, useCategories } from '@/hooks';
 import { getDateRange } from '@/lib/utils/dateUtils';
 import { formatPercentage } from '@/lib/utils/formatters';
 import { CATEGORIES, MONTHS_SHORT } from '@/lib/utils/constants';
 
 export default function YearlyAnalyticsPage() {
-  const { expenses, isLoading: expensesLoading } = useExpenses();
-  const { income, isLoading: incomeLoading } = useIncome();
+  const dateRange = useMemo(() => getDateRange('year'), []);
+  // Earlier months are read from their stored summaries
+  const currentMonth = useMemo(() => getDateRange('month'), []);
+  const { expenses, isLoading: expensesLoading } = useExpenses({ dateRange: currentMonth });
+  const { income, isLoading: incomeLoading } = useIncome({ dateRange: currentMonth });
   const { formatCurrency } = useSettings();
   const { getCategoryById } = useCategories();
 
@@ -33,26 +37,29 @@ export default function YearlyAnalyticsPage() {
     return { name: categoryId, color: '#6B7280' };
   }, [getCategoryById]);
 
-  const dateRange = useMemo(() => getDateRange('year'), []);
-
   const analytics = useAnalytics({
     expenses,
     income,
     dateRange,
   });
 
-  const isLoading = expensesLoading || incomeLoading;
+  const isLoading = expensesLoading || incomeLoading || analytics.isLoading;
+
+  // Months of this year only; the data may start in last year
+  const monthlyTotals = useMemo(
+    () => analytics.monthlyTotals.filter((m) => m.year === getYear(dateRange.start)),
+    [analytics.monthlyTotals, dateRange]
+  );
 
   // Calculate yearly summary
   const yearlyStats = useMemo(() => {
-    const totalIncome = income.reduce((sum, i) => sum + i.amount, 0);
-    const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
-    const avgMonthlyExpense = analytics.monthlyTotals.length > 0
-      ? analytics.monthlyTotals.reduce((sum, m) => sum + m.total, 0) / analytics.monthlyTotals.length
+    const { totalIncome, totalExpenses } = analytics;
+    const avgMonthlyExpense = monthlyTotals.length > 0
+      ? monthlyTotals.reduce((sum, m) => sum + m.total, 0) / monthlyTotals.length
       : 0;
 
     // Find best and worst months
-    const sortedMonths = [...analytics.monthlyTotals].sort((a, b) => a.total - b.total);
+    const sortedMonths = [...monthlyTotals].sort((a, b) => a.total - b.total);
     const bestMonth = sortedMonths[0];
     const worstMonth = sortedMonths[sortedMonths.length - 1];
 
@@ -63,7 +70,7 @@ export default function YearlyAnalyticsPage() {
       bestMonth,
       worstMonth,
     };
-  }, [income, expenses, analytics.monthlyTotals]);
+  }, [analytics, monthlyTotals]);
 
   return (
     <PageContainer
@@ -140,7 +147,7 @@ export default function YearlyAnalyticsPage() {
 
       {/* Monthly Trend */}
       <PageSection title="Monthly Spending Trend">
-        <MonthlyBarChart data={analytics.monthlyTotals} isLoading={isLoading} />
+        <MonthlyBarChart data={monthlyTotals} isLoading={isLoading} />
       </PageSection>
 
       {/* Income vs Expenses */}
@@ -201,6 +208,12 @@ export default function YearlyAnalyticsPage() {
           </Card>
         </Grid>
       </PageSection>
+
+      {analytics.tagBreakdown.length > 0 && (
+        <PageSection>
+          <TagBreakdownCard data={analytics.tagBreakdown} isLoading={isLoading} />
+        </PageSection>
+      )}
     </PageContainer>
   );
 }
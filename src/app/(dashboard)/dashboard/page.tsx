@@ -9,20 +9,45 @@ import Link from 'next/link';
 import { Plus } from 'lucide-react';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
 import { Button } from '@/components/ui';
-import { QuickStats, RecentActivity } from '@/components/features/dashboard';
+import { QuickStats, RecentActivity, PayPeriodCard } from '@/components/features/dashboard';
 import { QuickAdd } from '@/components/features/expenses';
-import { CategoryPieChart, MonthlyBarChart } from '@/components/charts';
-import { useExpenses, useIncome, useAnalytics, useToast, useSettings } from '@/hooks';
-import { getDateRange, getDaysUntilPayday } from '@/lib/utils/dateUtils';
-import { addDays, endOfMonth, addMonths } from 'date-fns';
+import { BudgetProgressList } from '@/components/features/budgets';
+import { AccountBalancesCard } from '@/components/features/accounts';
+import { CategoryPieChart, MonthlyBarChart, NetWorthChart } from '@/components/charts';
+import {
+  useExpenses,
+  useIncome,
+  useAnalytics,
+  useToast,
+  useSettings,
+  useBudgets,
+  useAccounts,
+  usePayPeriod,
+} from '@/hooks';
+import { PeriodMode } from '@/types';
+import { getDateRange, getCurrentPayPeriod, getDaysUntilPayday } from '@/lib/utils/dateUtils';
+
+const PERIOD_MODES: { value: PeriodMode; label: string }[] = [
+  { value: 'month', label: 'This month' },
+  { value: 'payPeriod', label: 'This pay period' },
+];
 
 export default function DashboardPage() {
-  const { expenses, isLoading: expensesLoading, addExpense, deleteExpense } = useExpenses();
+  const { expenses, isLoading: expensesLoading, addExpense, deleteExpense, restoreDeletedExpense } = useExpenses();
   const { income, isLoading: incomeLoading } = useIncome();
   const toast = useToast();
+  const budgets = useBudgets({ expenses });
+  const accounts = useAccounts({ expenses, income });
 
-  // Date range for current month
-  const dateRange = useMemo(() => getDateRange('month'), []);
+  const { settings, updateSettings, paySchedule } = useSettings();
+  const payPeriod = usePayPeriod({ expenses, income });
+  const isPayPeriodMode = settings.periodMode === 'payPeriod';
+
+  // Stats cover the calendar month or the pay period, as chosen
+  const dateRange = useMemo(
+    () => (isPayPeriodMode ? getCurrentPayPeriod(paySchedule) : getDateRange('month')),
+    [isPayPeriodMode, paySchedule]
+  );
 
   // Analytics
   const analytics = useAnalytics({
@@ -31,47 +56,15 @@ export default function DashboardPage() {
     dateRange,
   });
 
-  const { settings } = useSettings();
-
-  // Calculate days until next payday based on pay frequency setting
-  const daysUntilPayday = useMemo(() => {
-    const today = new Date();
-    const payFrequency = settings.payFrequency;
-
-    // For monthly pay (common for INR/salaried employees)
-    if (payFrequency === 'monthly') {
-      // Assume payday is last day of month or 1st of next month
-      const endOfCurrentMonth = endOfMonth(today);
-      const daysToEndOfMonth = getDaysUntilPayday(endOfCurrentMonth);
-
-      // If we're past the 28th, show days to end of next month
-      if (daysToEndOfMonth <= 2) {
-        return getDaysUntilPayday(endOfMonth(addMonths(today, 1)));
-      }
-      return daysToEndOfMonth;
-    }
-
-    // For weekly/bi-weekly, use last salary income to calculate
-    const salaryIncome = income
-      .filter((i) => i.type === 'salary')
-      .sort((a, b) => b.date.toMillis() - a.date.toMillis());
+  const daysUntilPayday = getDaysUntilPayday(payPeriod.status.nextPayday);
 
-    if (salaryIncome.length > 0) {
-      const lastPayday = salaryIncome[0].date.toDate();
-      const daysToAdd = payFrequency === 'weekly' ? 7 : 14;
-      let nextPayday = addDays(lastPayday, daysToAdd);
-
-      // If next payday is in the past, keep adding until it's in the future
-      while (nextPayday < today) {
-        nextPayday = addDays(nextPayday, daysToAdd);
-      }
-
-      return getDaysUntilPayday(nextPayday);
+  const handlePeriodModeChange = async (periodMode: PeriodMode) => {
+    try {
+      await updateSettings({ periodMode });
+    } catch (error) {
+      toast.error('Failed to save view');
     }
-
-    // No salary data yet - return undefined to show "--"
-    return undefined;
-  }, [income, settings.payFrequency]);
+  };
 
   const handleAddExpense = async (expense: Parameters<typeof addExpense>[0]) => {
     try {
@@ -85,12 +78,21 @@ export default function DashboardPage() {
   const handleDeleteExpense = async (id: string) => {
     try {
       await deleteExpense(id);
-      toast.success('Expense deleted');
+      toast.success('Expense deleted', { label: 'Undo', onClick: () => handleUndoDelete(id) });
     } catch (error) {
       toast.error('Failed to delete expense');
     }
   };
 
+  const handleUndoDelete = async (id: string) => {
+    try {
+      await restoreDeletedExpense(id);
+      toast.success('Expense restored');
+    } catch (error) {
+      toast.error('Failed to restore expense');
+    }
+  };
+
   const isLoading = expensesLoading || incomeLoading;
 
   return (
@@ -103,6 +105,20 @@ export default function DashboardPage() {
         </Link>
       }
     >
+      {/* Period Selector */}
+      <div className="flex gap-2 mb-6 overflow-x-auto pb-2">
+        {PERIOD_MODES.map((mode) => (
+          <Button
+            key={mode.value}
+            variant={settings.periodMode === mode.value ? 'primary' : 'outline'}
+            size="sm"
+            onClick={() => handlePeriodModeChange(mode.value)}
+          >
+            {mode.label}
+          </Button>
+        ))}
+      </div>
+
       {/* Quick Stats */}
       <PageSection>
         <QuickStats
@@ -110,17 +126,53 @@ export default function DashboardPage() {
           totalExpenses={analytics.totalExpenses}
           netAmount={analytics.netAmount}
           savingsRate={analytics.savingsRate}
-          momChange={analytics.momChange}
+          momChange={isPayPeriodMode ? payPeriod.status.change : analytics.momChange}
           daysUntilPayday={daysUntilPayday}
+          periodMode={settings.periodMode}
           isLoading={isLoading}
         />
       </PageSection>
 
+      {/* Pay Period */}
+      {isPayPeriodMode && (
+        <PageSection>
+          <PayPeriodCard status={payPeriod.status} isLoading={isLoading || payPeriod.isLoading} />
+        </PageSection>
+      )}
+
       {/* Quick Add */}
       <PageSection title="Quick Add Expense">
         <QuickAdd onAdd={handleAddExpense} isLoading={expensesLoading} />
       </PageSection>
 
+      {/* Budgets */}
+      <PageSection>
+        <BudgetProgressList
+          progress={budgets.progress}
+          budgets={budgets.budgets}
+          isLoading={budgets.isLoading || expensesLoading}
+          onSetBudget={budgets.setBudget}
+          onDeleteBudget={budgets.deleteBudget}
+          onTransfer={budgets.isEnvelopeMode ? budgets.transferBudget : undefined}
+        />
+      </PageSection>
+
+      {/* Accounts */}
+      <PageSection title="Accounts & Net Worth">
+        <Grid cols={2} gap="lg">
+          <AccountBalancesCard
+            balances={accounts.balances}
+            netWorth={accounts.netWorth}
+            isLoading={accounts.isLoading || isLoading}
+          />
+          <NetWorthChart
+            data={accounts.netWorthHistory}
+            accounts={accounts.accounts}
+            isLoading={accounts.isLoading || isLoading}
+          />
+        </Grid>
+      </PageSection>
+
       {/* Charts */}
       <PageSection title="Spending Overview">
         <Grid cols={2} gap="lg">
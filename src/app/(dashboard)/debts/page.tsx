@@ -0,0 +1,121 @@
+'use client';
+
+// ============================================
+// Debts Page
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { PageContainer, PageSection, Grid } from '@/components/layout';
+import { Button, Modal, ModalFooter } from '@/components/ui';
+import { DebtsCard, DebtModal, DebtPayoffPlanner } from '@/components/features/debts';
+import { DebtPayoffChart } from '@/components/charts';
+import { useExpenses, useDebts, useSettings, useToast } from '@/hooks';
+import { compareDebtStrategies } from '@/services/analytics';
+import { DebtStatus, NewDebt } from '@/types';
+
+export default function DebtsPage() {
+  const { expenses, isLoading: expensesLoading } = useExpenses();
+  const { statuses, totalBalance, totalMinimum, isLoading: debtsLoading, addDebt, updateDebt, deleteDebt } = useDebts({
+    expenses,
+  });
+  const { parseCurrency } = useSettings();
+  const toast = useToast();
+
+  // Bumped on every open so the modal remounts with a fresh form
+  const [modalKey, setModalKey] = useState(0);
+  const [isDebtModalOpen, setIsDebtModalOpen] = useState(false);
+  const [editingStatus, setEditingStatus] = useState<DebtStatus | null>(null);
+  const [debtToDelete, setDebtToDelete] = useState<DebtStatus | null>(null);
+  const [extraPayment, setExtraPayment] = useState('');
+
+  const isLoading = expensesLoading || debtsLoading;
+  const openDebts = useMemo(() => statuses.filter((status) => status.balance > 0), [statuses]);
+
+  const monthlyPayment = totalMinimum + (extraPayment ? parseCurrency(extraPayment) : 0);
+  const plans = useMemo(() => compareDebtStrategies(openDebts, monthlyPayment), [openDebts, monthlyPayment]);
+
+  const openDebtModal = (status: DebtStatus | null) => {
+    setEditingStatus(status);
+    setModalKey((prev) => prev + 1);
+    setIsDebtModalOpen(true);
+  };
+
+  const handleSaveDebt = async (debt: NewDebt) => {
+    if (editingStatus) {
+      // The balance is only re-based when it was changed, so recorded payments keep counting
+      const { balance, ...details } = debt;
+      await updateDebt(editingStatus.debt.id, balance === editingStatus.balance ? details : debt);
+      toast.success('Debt updated');
+    } else {
+      await addDebt(debt);
+      toast.success('Debt added');
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!debtToDelete) return;
+
+    try {
+      await deleteDebt(debtToDelete.debt.id);
+      toast.success('Debt deleted');
+    } catch (error) {
+      toast.error('Failed to delete debt');
+    } finally {
+      setDebtToDelete(null);
+    }
+  };
+
+  return (
+    <PageContainer title="Debts" description="What you owe and the fastest way to pay it off">
+      <PageSection>
+        <Grid cols={2} gap="lg">
+          <DebtsCard
+            statuses={statuses}
+            totalBalance={totalBalance}
+            totalMinimum={totalMinimum}
+            isLoading={isLoading}
+            onAdd={() => openDebtModal(null)}
+            onEdit={openDebtModal}
+            onDelete={setDebtToDelete}
+          />
+          <DebtPayoffChart plans={plans} isLoading={isLoading} />
+        </Grid>
+      </PageSection>
+
+      {openDebts.length > 0 && (
+        <PageSection>
+          <DebtPayoffPlanner
+            plans={plans}
+            statuses={openDebts}
+            extraPayment={extraPayment}
+            onExtraPaymentChange={setExtraPayment}
+            monthlyPayment={monthlyPayment}
+          />
+        </PageSection>
+      )}
+
+      <DebtModal
+        key={`debt-${modalKey}`}
+        isOpen={isDebtModalOpen}
+        status={editingStatus}
+        onClose={() => setIsDebtModalOpen(false)}
+        onSave={handleSaveDebt}
+      />
+
+      {/* Delete Confirmation Modal */}
+      <Modal isOpen={debtToDelete !== null} onClose={() => setDebtToDelete(null)} title="Delete Debt" size="sm">
+        <p className="text-gray-600 dark:text-gray-400">
+          Delete {debtToDelete?.debt.name}? Its payments stay in your expenses.
+        </p>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setDebtToDelete(null)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleConfirmDelete}>
+            Delete
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </PageContainer>
+  );
+}
@@ -6,38 +6,87 @@
 
 import { useState, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
+import { Split } from 'lucide-react';
 import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { PageContainer } from '@/components/layout';
-import { Card, CardContent, Button, Input, CurrencyInput, Select, DatePicker } from '@/components/ui';
-import { useExpenses, useToast, useSettings, useCategories } from '@/hooks';
-import { expenseFormSchema, ExpenseFormSchema } from '@/lib/utils/validators';
-import { formatDateForInput } from '@/lib/utils/formatters';
+import { Card, CardContent, Button, Input, CurrencyInput, Select, DatePicker, TagInput } from '@/components/ui';
+import { ExpenseSplitEditor, SplitDraft, toExpenseSplits } from '@/components/features/expenses';
+import {
+  useExpenses,
+  useToast,
+  useSettings,
+  useCategories,
+  useRecurringRules,
+  useAccounts,
+  useCategorizationRules,
+  useCategorySuggestions,
+  usePayees,
+  useDebts,
+} from '@/hooks';
+import { expenseFormSchema, ExpenseFormSchema, validateExpenseSplits } from '@/lib/utils/validators';
+import { formatDateForInput, parseDateFromInput, parseCurrencyToCents, getOrdinalSuffix } from '@/lib/utils/formatters';
+import { RECURRENCE_FREQUENCIES, CURRENCIES, CURRENCY_OPTIONS, DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
+import { getPrimarySplitCategory, getUsedTags } from '@/services/analytics';
+import { ExpenseCategory } from '@/types';
 
 export default function AddExpensePage() {
   const router = useRouter();
-  const { addExpense } = useExpenses();
-  const { allCategories } = useCategories();
+  const { expenses, addExpense } = useExpenses();
+  const { addRule } = useRecurringRules();
+  const { allCategories, getCategoryById } = useCategories();
+  const { accounts } = useAccounts();
+  const { categorize } = useCategorizationRules();
+  const { findPayee } = usePayees();
+  const { debts } = useDebts();
   const toast = useToast();
-  const { currencySymbol } = useSettings();
+  const { settings } = useSettings();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [splits, setSplits] = useState<SplitDraft[]>([]);
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  // Why the category was filled in, while the user hasn't picked one themselves
+  const [categorySource, setCategorySource] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     control,
-    formState: { errors },
+    watch,
+    setValue,
+    getValues,
+    formState: { errors, dirtyFields },
   } = useForm<ExpenseFormSchema>({
     resolver: zodResolver(expenseFormSchema),
     defaultValues: {
       amount: '',
+      currency: settings.currency,
+      accountId: DEFAULT_ACCOUNT_ID,
+      debtId: '',
       category: '',
       description: '',
       date: formatDateForInput(new Date()),
       isRecurring: false,
+      frequency: 'monthly',
     },
   });
 
+  const isRecurring = watch('isRecurring');
+  const frequency = watch('frequency');
+  const selectedDate = watch('date');
+  const currency = watch('currency');
+  const amount = watch('amount');
+  const description = watch('description');
+  const category = watch('category');
+
+  // Recurring rules carry a single category, so splitting only applies to one-off expenses
+  const isSplit = splits.length > 0 && !isRecurring;
+
+  const frequencyOptions = Object.entries(RECURRENCE_FREQUENCIES).map(([value, config]) => ({
+    value,
+    label: config.name,
+  }));
+
   // Build category options from unified categories (default + custom)
   const categoryOptions = useMemo(() =>
     allCategories.map((cat) => ({
@@ -47,16 +96,110 @@ export default function AddExpensePage() {
     [allCategories]
   );
 
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
+
+  // Learned from past expenses as the description is typed; the current category isn't offered again
+  const suggestions = useCategorySuggestions(expenses, {
+    description: description ?? '',
+    amount: parseCurrencyToCents(amount, currency),
+    currency,
+    date: parseDateFromInput(selectedDate),
+  }).filter((suggestion) => suggestion.category !== category);
+
+  const pickSuggestion = (suggested: ExpenseCategory) => {
+    setValue('category', suggested, { shouldValidate: true, shouldDirty: true });
+    setCategorySource(null);
+  };
+
+  const accountOptions = accounts.map((account) => ({ value: account.id, label: account.name }));
+  const debtOptions = [
+    { value: '', label: 'Not a debt payment' },
+    ...debts.map((debt) => ({ value: debt.id, label: debt.name })),
+  ];
+
+  const toggleSplit = () => {
+    setSplitError(null);
+    if (isSplit) {
+      setSplits([]);
+      return;
+    }
+    setSplits([
+      { category: getValues('category'), amount: getValues('amount'), note: '' },
+      { category: '', amount: '', note: '' },
+    ]);
+  };
+
+  const handleSplitsChange = (next: SplitDraft[]) => {
+    setSplits(next);
+    setSplitError(null);
+    // Keep the form's category on the largest split so the schema and list filters have one
+    const primary = getPrimarySplitCategory(toExpenseSplits(next, currency));
+    if (primary) setValue('category', primary, { shouldValidate: true });
+  };
+
+  // Fill in what matching rules and payees set, leaving a category the user picked themselves
+  const applyCategorizationRules = () => {
+    const values = getValues();
+    if (!values.description && !values.amount) return;
+
+    const result = categorize('expense', {
+      text: values.description ?? '',
+      amount: parseCurrencyToCents(values.amount, values.currency),
+      currency: values.currency,
+      date: parseDateFromInput(values.date),
+    });
+    // A rule wins over the default category of the payee the description names
+    const payee = findPayee(values.description ?? '');
+    const category = result.category ?? payee?.defaultCategory;
+    if (category && !dirtyFields.category && !isSplit) {
+      setValue('category', category, { shouldValidate: true });
+      const rule = result.matchedRules.find((r) => r.actions.category);
+      setCategorySource(rule ? `Set by rule "${rule.name}"` : `Default for ${payee!.name}`);
+    }
+    if (result.tags.length > 0) {
+      setTags((prev) => [...prev, ...result.tags.filter((tag) => !prev.includes(tag))]);
+    }
+  };
+
   const onSubmit = async (data: ExpenseFormSchema) => {
+    const amountInCents = parseCurrencyToCents(data.amount, data.currency);
+    const expenseSplits = isSplit ? toExpenseSplits(splits, data.currency) : undefined;
+    if (expenseSplits) {
+      const error = validateExpenseSplits(amountInCents, expenseSplits);
+      if (error) {
+        setSplitError(error);
+        return;
+      }
+    }
+
     setIsSubmitting(true);
     try {
-      await addExpense({
-        amount: parseFloat(data.amount) * 100, // Convert to cents
-        category: data.category as any, // Supports both default and custom category IDs
-        description: data.description,
-        date: new Date(data.date),
-        isRecurring: data.isRecurring,
-      });
+      if (data.isRecurring) {
+        // The rule creates this and every later occurrence as they come due
+        await addRule({
+          amount: parseCurrencyToCents(data.amount, data.currency),
+          currency: data.currency,
+          category: data.category as ExpenseCategory, // Supports both default and custom category IDs
+          description: data.description,
+          tags,
+          accountId: data.accountId,
+          frequency: data.frequency,
+          startDate: parseDateFromInput(data.date),
+        });
+      } else {
+        await addExpense({
+          amount: amountInCents,
+          currency: data.currency,
+          category: data.category as any, // Supports both default and custom category IDs
+          description: data.description,
+          date: new Date(data.date),
+          isRecurring: data.isRecurring,
+          tags,
+          accountId: data.accountId,
+          ...(data.debtId && { debtId: data.debtId }),
+          ...(expenseSplits && { splits: expenseSplits }),
+        });
+      }
       toast.success('Expense added successfully');
       router.push('/expenses');
     } catch (error) {
@@ -72,22 +215,73 @@ export default function AddExpensePage() {
         <CardContent>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* Amount */}
-            <CurrencyInput
-              label="Amount"
-              placeholder="0.00"
-              currency={currencySymbol}
-              error={errors.amount?.message}
-              {...register('amount')}
-            />
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <CurrencyInput
+                  label="Amount"
+                  placeholder="0.00"
+                  currency={CURRENCIES[currency]?.symbol}
+                  error={errors.amount?.message}
+                  {...register('amount', { onBlur: applyCategorizationRules })}
+                />
+              </div>
+              <Select label="Currency" options={CURRENCY_OPTIONS} {...register('currency')} />
+            </div>
 
             {/* Category */}
-            <Select
-              label="Category"
-              options={categoryOptions}
-              placeholder="Select a category"
-              error={errors.category?.message}
-              {...register('category')}
-            />
+            {!isSplit && (
+              <Select
+                label="Category"
+                options={categoryOptions}
+                placeholder="Select a category"
+                error={errors.category?.message}
+                helperText={categorySource && !dirtyFields.category ? categorySource : undefined}
+                {...register('category')}
+              />
+            )}
+
+            {/* Splits */}
+            {!isRecurring && (
+              <div className="space-y-3">
+                <button
+                  type="button"
+                  onClick={toggleSplit}
+                  className="flex items-center gap-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  <Split className="h-4 w-4" />
+                  {isSplit ? 'Use a single category' : 'Split across categories'}
+                </button>
+                {isSplit && (
+                  <ExpenseSplitEditor
+                    splits={splits}
+                    onChange={handleSplitsChange}
+                    total={parseCurrencyToCents(amount, currency)}
+                    currency={currency}
+                    error={splitError ?? errors.category?.message}
+                  />
+                )}
+              </div>
+            )}
+
+            {/* Account */}
+            {accountOptions.length > 1 && (
+              <Select
+                label="Account"
+                options={accountOptions}
+                error={errors.accountId?.message}
+                {...register('accountId')}
+              />
+            )}
+
+            {/* Debt payment */}
+            {debts.length > 0 && !isRecurring && (
+              <Select
+                label="Pays toward"
+                options={debtOptions}
+                helperText="Debt payments lower the debt's balance"
+                {...register('debtId')}
+              />
+            )}
 
             {/* Date */}
             <Controller
@@ -110,7 +304,33 @@ export default function AddExpensePage() {
               label="Description (Optional)"
               placeholder="What was this expense for?"
               error={errors.description?.message}
-              {...register('description')}
+              {...register('description', { onBlur: applyCategorizationRules })}
+            />
+            {!isSplit && suggestions.length > 0 && (
+              <div className="-mt-4 flex flex-wrap items-center gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">Suggested:</span>
+                {suggestions.map((suggestion) => (
+                  <button
+                    key={suggestion.category}
+                    type="button"
+                    onClick={() => pickSuggestion(suggestion.category)}
+                    className="px-2.5 py-1 text-xs rounded-full border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-400 transition-colors"
+                  >
+                    {getCategoryById(suggestion.category)?.name ?? suggestion.category}
+                    <span className="ml-1 text-gray-400">{Math.round(suggestion.confidence * 100)}%</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Tags */}
+            <TagInput
+              label="Tags (Optional)"
+              value={tags}
+              onChange={setTags}
+              suggestions={usedTags}
+              placeholder="e.g. japan-2026"
+              helperText="Group spending across categories, like a trip or project"
             />
 
             {/* Recurring Toggle */}
@@ -129,6 +349,21 @@ export default function AddExpensePage() {
               </label>
             </div>
 
+            {/* Recurrence */}
+            {isRecurring && (
+              <Select
+                label="Repeats"
+                options={frequencyOptions}
+                error={errors.frequency?.message}
+                helperText={
+                  frequency === 'monthly' && selectedDate
+                    ? `On the ${getOrdinalSuffix(parseDateFromInput(selectedDate).getDate())} of every month`
+                    : undefined
+                }
+                {...register('frequency')}
+              />
+            )}
+
             {/* Actions */}
             <div className="flex gap-3 pt-4">
               <Button
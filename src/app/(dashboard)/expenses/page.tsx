@@ -4,42 +4,230 @@
 // Expenses Page
 // ============================================
 
+import { useState, useMemo } from 'react';
 import Link from 'next/link';
-import { Plus } from 'lucide-react';
+import { Plus, Upload } from 'lucide-react';
 import { PageContainer } from '@/components/layout';
 import { Button, Card, CardContent } from '@/components/ui';
-import { ExpenseList } from '@/components/features/expenses';
-import { useExpenses, useToast, useSettings } from '@/hooks';
+import { ExpenseList, EditExpenseModal, RecurringRuleList } from '@/components/features/expenses';
+import { CsvImportModal } from '@/components/features/import';
+import { BudgetProgressList } from '@/components/features/budgets';
+import { RuleEditorModal } from '@/components/features/rules';
+import {
+  useExpenses,
+  useToast,
+  useSettings,
+  useRecurringRules,
+  useBudgets,
+  useCategories,
+  useCategorizationRules,
+} from '@/hooks';
+import { getUsedTags } from '@/services/analytics';
+import { suggestRuleFromEdit } from '@/services/rules';
+import { getDateRange } from '@/lib/utils/dateUtils';
+import { LIST_PAGE_SIZE } from '@/lib/utils/constants';
+import { Expense, ExpenseBulkEdit, NewExpense, NewCategorizationRule, RecurringEditScope } from '@/types';
 
 export default function ExpensesPage() {
-  const { expenses, isLoading, deleteExpense, totalAmount } = useExpenses();
+  const {
+    expenses,
+    isLoading,
+    addExpenses,
+    updateExpense,
+    deleteExpense,
+    restoreDeletedExpense,
+    updateExpensesInBulk,
+    revertExpenses,
+    deleteExpenses,
+    restoreDeletedExpenses,
+    getExpensesInRange,
+    totalAmount,
+    refresh,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useExpenses({ pageSize: LIST_PAGE_SIZE });
+  // Budgets cover this month whatever the list has scrolled through
+  const monthRange = useMemo(() => getDateRange('month'), []);
+  const { expenses: monthExpenses, isLoading: monthLoading } = useExpenses({ dateRange: monthRange });
+  const { activeRules, endRule, updateOccurrence, endOccurrence } = useRecurringRules();
+  const budgets = useBudgets({ expenses: monthExpenses });
+  const { categorize, addRule } = useCategorizationRules();
+  const { getCategoryById } = useCategories();
   const toast = useToast();
   const { formatCurrency } = useSettings();
+  const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [ruleDraft, setRuleDraft] = useState<NewCategorizationRule | null>(null);
+
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
 
   const handleDelete = async (id: string) => {
     try {
       await deleteExpense(id);
-      toast.success('Expense deleted');
+      toast.success('Expense deleted', { label: 'Undo', onClick: () => handleUndoDelete(id) });
+    } catch (error) {
+      toast.error('Failed to delete expense');
+    }
+  };
+
+  const handleUndoDelete = async (id: string) => {
+    try {
+      await restoreDeletedExpense(id);
+      toast.success('Expense restored');
+    } catch (error) {
+      toast.error('Failed to restore expense');
+    }
+  };
+
+  // Moving an expense to another category offers a rule for next time, unless a rule already does it
+  const getRuleSuggestion = (expense: Expense, updates: Partial<NewExpense>): NewCategorizationRule | null => {
+    if (!updates.category) return null;
+    const description = updates.description ?? expense.description;
+    const covered = categorize('expense', {
+      text: description,
+      amount: updates.amount ?? expense.amount,
+      currency: updates.currency ?? expense.currency,
+      date: expense.date.toDate(),
+    });
+    if (covered.category === updates.category) return null;
+
+    const name = getCategoryById(updates.category)?.name ?? updates.category;
+    return suggestRuleFromEdit({ description, category: expense.category }, updates.category, name);
+  };
+
+  const handleSave = async (
+    expense: Expense,
+    updates: Partial<NewExpense>,
+    scope: RecurringEditScope
+  ) => {
+    try {
+      if (expense.recurringId) {
+        await updateOccurrence(expense, updates, scope);
+        await refresh();
+      } else {
+        await updateExpense(expense.id, updates);
+      }
+      const suggestion = getRuleSuggestion(expense, updates);
+      toast.success(
+        'Expense updated',
+        suggestion ? { label: 'Create rule', onClick: () => setRuleDraft(suggestion) } : undefined
+      );
+    } catch (error) {
+      toast.error('Failed to update expense');
+      throw error;
+    }
+  };
+
+  const handleCreateRule = async (rule: NewCategorizationRule) => {
+    try {
+      await addRule(rule);
+      toast.success('Rule created');
+    } catch (error) {
+      toast.error('Failed to create rule');
+      throw error;
+    }
+  };
+
+  const handleEndRecurring = async (expense: Expense, scope: RecurringEditScope) => {
+    try {
+      await endOccurrence(expense, scope);
+      await refresh();
+      toast.success(scope === 'future' ? 'Recurring expense ended' : 'Expense deleted');
     } catch (error) {
       toast.error('Failed to delete expense');
     }
   };
 
+  const handleBulkEdit = async (ids: string[], edit: ExpenseBulkEdit) => {
+    try {
+      const previous = await updateExpensesInBulk(ids, edit);
+      toast.success(`Updated ${ids.length} ${ids.length === 1 ? 'expense' : 'expenses'}`, {
+        label: 'Undo',
+        onClick: () => handleUndoBulkEdit(previous),
+      });
+    } catch (error) {
+      toast.error('Failed to update expenses');
+      throw error;
+    }
+  };
+
+  const handleUndoBulkEdit = async (previous: Expense[]) => {
+    try {
+      await revertExpenses(previous);
+      toast.success('Changes undone');
+    } catch (error) {
+      toast.error('Failed to undo changes');
+    }
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    try {
+      await deleteExpenses(ids);
+      toast.success(`Deleted ${ids.length} ${ids.length === 1 ? 'expense' : 'expenses'}`, {
+        label: 'Undo',
+        onClick: () => handleUndoBulkDelete(ids),
+      });
+    } catch (error) {
+      toast.error('Failed to delete expenses');
+      throw error;
+    }
+  };
+
+  const handleUndoBulkDelete = async (ids: string[]) => {
+    try {
+      await restoreDeletedExpenses(ids);
+      toast.success(`Restored ${ids.length} ${ids.length === 1 ? 'expense' : 'expenses'}`);
+    } catch (error) {
+      toast.error('Failed to restore expenses');
+    }
+  };
+
+  const handleImport = async (rows: NewExpense[]) => {
+    try {
+      await addExpenses(rows);
+      toast.success(`Imported ${rows.length} ${rows.length === 1 ? 'expense' : 'expenses'}`);
+    } catch (error) {
+      toast.error('Failed to import expenses');
+      throw error;
+    }
+  };
+
+  const handleEndRule = async (id: string) => {
+    try {
+      await endRule(id);
+      toast.success('Recurring expense ended');
+    } catch (error) {
+      toast.error('Failed to end recurring expense');
+    }
+  };
+
   return (
     <PageContainer
       title="Expenses"
       description="Track and manage your spending"
       action={
-        <Link href="/expenses/add">
-          <Button leftIcon={<Plus className="h-4 w-4" />}>Add Expense</Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            leftIcon={<Upload className="h-4 w-4" />}
+            onClick={() => setIsImportOpen(true)}
+          >
+            Import
+          </Button>
+          <Link href="/expenses/add">
+            <Button leftIcon={<Plus className="h-4 w-4" />}>Add Expense</Button>
+          </Link>
+        </div>
       }
     >
       {/* Summary Card */}
       <Card className="mb-6">
         <CardContent className="flex items-center justify-between py-4">
           <div>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Total Expenses</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {hasMore ? 'Total Loaded' : 'Total Expenses'}
+            </p>
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
               {formatCurrency(totalAmount)}
             </p>
@@ -48,16 +236,67 @@ export default function ExpensesPage() {
             <p className="text-sm text-gray-500 dark:text-gray-400">Transactions</p>
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
               {expenses.length}
+              {hasMore && '+'}
             </p>
           </div>
         </CardContent>
       </Card>
 
+      {/* Budgets */}
+      <BudgetProgressList
+        className="mb-6"
+        progress={budgets.progress}
+        budgets={budgets.budgets}
+        isLoading={budgets.isLoading || monthLoading}
+        onSetBudget={budgets.setBudget}
+        onDeleteBudget={budgets.deleteBudget}
+        onTransfer={budgets.isEnvelopeMode ? budgets.transferBudget : undefined}
+      />
+
+      {/* Recurring Rules */}
+      <RecurringRuleList rules={activeRules} onEnd={handleEndRule} />
+
       {/* Expense List */}
       <ExpenseList
         expenses={expenses}
         isLoading={isLoading}
+        onEdit={setEditingExpense}
         onDelete={handleDelete}
+        onEndRecurring={handleEndRecurring}
+        onBulkEdit={handleBulkEdit}
+        onBulkDelete={handleBulkDelete}
+        hasMore={hasMore}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMore}
+      />
+
+      {/* Edit Modal */}
+      <EditExpenseModal
+        key={editingExpense?.id ?? 'none'}
+        expense={editingExpense}
+        onClose={() => setEditingExpense(null)}
+        onSave={handleSave}
+        tagSuggestions={usedTags}
+      />
+
+      {/* Rule Suggestion Modal */}
+      <RuleEditorModal
+        key={ruleDraft?.name ?? 'none'}
+        rule={ruleDraft}
+        isNew
+        onClose={() => setRuleDraft(null)}
+        onSave={handleCreateRule}
+        expenses={expenses}
+        income={[]}
+      />
+
+      {/* Import Modal */}
+      <CsvImportModal
+        kind="expense"
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        loadExisting={getExpensesInRange}
+        onImport={handleImport}
       />
     </PageContainer>
   );
@@ -5,6 +5,7 @@
 // ============================================
 
 import { useState, useMemo } from 'react';
+import { addMonths } from 'date-fns';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Target,
@@ -22,14 +23,23 @@ import {
   ShoppingBag,
   CreditCard,
   Shield,
+  Plus,
 } from 'lucide-react';
 import { PageContainer, PageSection, Grid } from '@/components/layout';
-import { Card, CardContent, Button, Input } from '@/components/ui';
+import { Card, CardContent, Button, Input, Skeleton } from '@/components/ui';
 import { GoalsRadarChart, HealthScoreRing, RadialProgress } from '@/components/charts';
-import { useGoals, useExpenses, useIncome, useToast, useSettings } from '@/hooks';
+import { SavingsGoalCard, SavingsGoalEditorModal, ContributionModal } from '@/components/features/goals';
+import { useGoals, useSavingsGoals, useExpenses, useIncome, useCategories, useToast, useSettings } from '@/hooks';
 import { getDateRange } from '@/lib/utils/dateUtils';
-import { GOAL_CATEGORIES } from '@/lib/utils/constants';
-import { GoalCategory, GoalAllocation, GoalInsight } from '@/types';
+import { GOAL_CATEGORIES, CHART_COLORS } from '@/lib/utils/constants';
+import {
+  GoalCategory,
+  GoalAllocation,
+  GoalInsight,
+  SavingsGoal,
+  NewSavingsGoal,
+  NewGoalContribution,
+} from '@/types';
 import { cn } from '@/lib/cn';
 
 // ============================================
@@ -265,6 +275,28 @@ const ProgressCard = ({
   );
 };
 
+// ============================================
+// Savings Goal Helpers
+// ============================================
+
+const createEmptySavingsGoal = (): NewSavingsGoal => ({
+  name: '',
+  targetAmount: 0,
+  targetDate: addMonths(new Date(), 12),
+  startingAmount: 0,
+  color: CHART_COLORS[0],
+});
+
+const toNewSavingsGoal = (goal: SavingsGoal): NewSavingsGoal => ({
+  name: goal.name,
+  targetAmount: goal.targetAmount,
+  targetDate: goal.targetDate.toDate(),
+  startingAmount: goal.startingAmount,
+  ...(goal.accountId && { accountId: goal.accountId }),
+  ...(goal.category && { category: goal.category }),
+  color: goal.color,
+});
+
 // ============================================
 // Main Page Component
 // ============================================
@@ -289,6 +321,13 @@ export default function GoalsPage() {
 
   const isLoading = expensesLoading || incomeLoading || goalsLoading;
 
+  // Savings goals span every month, so they load their own history
+  const savings = useSavingsGoals();
+  const { getCategoryById } = useCategories();
+  const [editingGoal, setEditingGoal] = useState<{ id: string | null; goal: NewSavingsGoal } | null>(null);
+  const [contributingTo, setContributingTo] = useState<SavingsGoal | null>(null);
+  const [busyGoalId, setBusyGoalId] = useState<string | null>(null);
+
   // Calculate total percentage
   const totalPercentage = useMemo(() => {
     const allocations = editedAllocations || goals?.allocations || [];
@@ -340,6 +379,64 @@ export default function GoalsPage() {
 
   const currentAllocations = editedAllocations || goals?.allocations || [];
 
+  const handleSaveGoal = async (goal: NewSavingsGoal) => {
+    try {
+      if (editingGoal?.id) {
+        // Explicit undefineds clear a link that was removed
+        await savings.updateGoal(editingGoal.id, { accountId: undefined, category: undefined, ...goal });
+        toast.success('Savings goal updated');
+      } else {
+        await savings.addGoal(goal);
+        toast.success('Savings goal created');
+      }
+    } catch (error) {
+      toast.error('Failed to save savings goal');
+      throw error;
+    }
+  };
+
+  const handleDeleteGoal = async (goal: SavingsGoal) => {
+    setBusyGoalId(goal.id);
+    try {
+      await savings.deleteGoal(goal.id);
+      toast.success(`${goal.name} deleted`);
+    } catch {
+      toast.error('Failed to delete savings goal');
+    } finally {
+      setBusyGoalId(null);
+    }
+  };
+
+  const handleContribute = async (contribution: NewGoalContribution) => {
+    if (!contributingTo) return;
+    try {
+      await savings.addContribution(contributingTo.id, contribution);
+      toast.success(contribution.amount < 0 ? 'Withdrawal recorded' : 'Contribution added');
+    } catch (error) {
+      toast.error('Failed to save contribution');
+      throw error;
+    }
+  };
+
+  const handleDeleteContribution = async (goal: SavingsGoal, contributionId: string) => {
+    setBusyGoalId(goal.id);
+    try {
+      await savings.deleteContribution(goal.id, contributionId);
+      toast.success('Contribution removed');
+    } catch {
+      toast.error('Failed to remove contribution');
+    } finally {
+      setBusyGoalId(null);
+    }
+  };
+
+  const getLinkedName = (goal: SavingsGoal): string | undefined => {
+    if (goal.accountId) {
+      return savings.accounts.find((account) => account.id === goal.accountId)?.name;
+    }
+    return goal.category ? (getCategoryById(goal.category)?.name ?? goal.category) : undefined;
+  };
+
   return (
     <PageContainer
       title="Financial Goals"
@@ -466,6 +563,56 @@ export default function GoalsPage() {
               </Grid>
             </PageSection>
 
+            {/* Savings Goals */}
+            <PageSection
+              title="Savings Goals"
+              description="Set money aside for something specific by a date"
+              action={
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Plus className="h-4 w-4" />}
+                  onClick={() => setEditingGoal({ id: null, goal: createEmptySavingsGoal() })}
+                >
+                  New Goal
+                </Button>
+              }
+            >
+              {savings.isLoading ? (
+                <Grid cols={3} gap="md">
+                  <Skeleton className="h-80 w-full" />
+                  <Skeleton className="h-80 w-full" />
+                  <Skeleton className="h-80 w-full" />
+                </Grid>
+              ) : savings.progress.length === 0 ? (
+                <Card glass className="p-6">
+                  <div className="text-center py-4">
+                    <PiggyBank className="h-8 w-8 mx-auto text-gray-400 mb-2" />
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      No savings goals yet. Add one to see what to put aside each month.
+                    </p>
+                  </div>
+                </Card>
+              ) : (
+                <Grid cols={3} gap="md">
+                  {savings.progress.map((progress) => (
+                    <SavingsGoalCard
+                      key={progress.goal.id}
+                      progress={progress}
+                      linkedTo={getLinkedName(progress.goal)}
+                      onContribute={() => setContributingTo(progress.goal)}
+                      onEdit={() => setEditingGoal({ id: progress.goal.id, goal: toNewSavingsGoal(progress.goal) })}
+                      onDelete={() => handleDeleteGoal(progress.goal)}
+                      onDeleteContribution={(contributionId) =>
+                        handleDeleteContribution(progress.goal, contributionId)
+                      }
+                      disabled={busyGoalId === progress.goal.id}
+                    />
+                  ))}
+                </Grid>
+              )}
+            </PageSection>
+
             {/* Individual Progress Cards */}
             <PageSection title="Category Progress">
               <Grid cols={3} gap="md">
@@ -543,6 +690,23 @@ export default function GoalsPage() {
           </motion.div>
         )}
       </AnimatePresence>
+
+      {/* Savings Goal Modals */}
+      <SavingsGoalEditorModal
+        key={editingGoal?.id ?? (editingGoal ? 'new' : 'none')}
+        goal={editingGoal?.goal ?? null}
+        isNew={!editingGoal?.id}
+        accounts={savings.accounts}
+        balances={savings.balances}
+        onClose={() => setEditingGoal(null)}
+        onSave={handleSaveGoal}
+      />
+      <ContributionModal
+        key={contributingTo?.id ?? 'none'}
+        goal={contributingTo}
+        onClose={() => setContributingTo(null)}
+        onSave={handleContribute}
+      />
     </PageContainer>
   );
 }
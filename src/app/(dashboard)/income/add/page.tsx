@@ -10,30 +10,36 @@ import { useForm, Controller } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { PageContainer } from '@/components/layout';
 import { Card, CardContent, Button, Input, CurrencyInput, Select, DatePicker } from '@/components/ui';
-import { useIncome, useToast, useSettings } from '@/hooks';
+import { useIncome, useToast, useSettings, useAccounts, useCategorizationRules } from '@/hooks';
 import { incomeFormSchema, IncomeFormSchema } from '@/lib/utils/validators';
-import { INCOME_TYPES } from '@/lib/utils/constants';
+import { INCOME_TYPES, CURRENCIES, CURRENCY_OPTIONS, DEFAULT_ACCOUNT_ID, PAY_FREQUENCIES } from '@/lib/utils/constants';
 import { IncomeType } from '@/types';
-import { formatDateForInput } from '@/lib/utils/formatters';
+import { formatDateForInput, formatAmountForInput, parseCurrencyToCents, parseDateFromInput } from '@/lib/utils/formatters';
 
 export default function AddIncomePage() {
   const router = useRouter();
   const { addIncome } = useIncome();
+  const { accounts } = useAccounts();
+  const { categorize } = useCategorizationRules();
   const toast = useToast();
-  const { formatCurrency, currencySymbol, settings } = useSettings();
+  const { formatCurrency, settings } = useSettings();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [typeRule, setTypeRule] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     control,
     setValue,
+    getValues,
     watch,
-    formState: { errors },
+    formState: { errors, dirtyFields },
   } = useForm<IncomeFormSchema>({
     resolver: zodResolver(incomeFormSchema),
     defaultValues: {
       amount: '',
+      currency: settings.currency,
+      accountId: DEFAULT_ACCOUNT_ID,
       type: 'salary',
       source: 'Primary Job',
       date: formatDateForInput(new Date()),
@@ -43,30 +49,52 @@ export default function AddIncomePage() {
   });
 
   const incomeType = watch('type');
+  const currency = watch('currency');
 
   const typeOptions = Object.entries(INCOME_TYPES).map(([value, config]) => ({
     value,
     label: config.name,
   }));
 
+  const accountOptions = accounts.map((account) => ({ value: account.id, label: account.name }));
+
   // Quick fill for salary - uses user's saved salary from settings
   const handleQuickFillSalary = () => {
-    setValue('amount', (settings.defaultSalary / 100).toFixed(2));
+    // The saved salary is in the base currency
+    setValue('amount', formatAmountForInput(settings.defaultSalary, settings.currency));
+    setValue('currency', settings.currency);
     setValue('type', 'salary');
     setValue('source', 'Primary Job');
     setValue('isRegular', true);
   };
 
+  // Fill in the type from matching rules unless the user picked one themselves
+  const applyCategorizationRules = () => {
+    const values = getValues();
+    const result = categorize('income', {
+      text: values.source,
+      amount: parseCurrencyToCents(values.amount, values.currency),
+      currency: values.currency,
+      date: parseDateFromInput(values.date),
+    });
+    if (result.incomeType && !dirtyFields.type) {
+      setValue('type', result.incomeType, { shouldValidate: true });
+      setTypeRule(result.matchedRules.find((rule) => rule.actions.incomeType)?.name ?? null);
+    }
+  };
+
   const onSubmit = async (data: IncomeFormSchema) => {
     setIsSubmitting(true);
     try {
       await addIncome({
-        amount: parseFloat(data.amount) * 100, // Convert to cents
+        amount: parseCurrencyToCents(data.amount, data.currency),
+        currency: data.currency,
         type: data.type as IncomeType,
         source: data.source,
         date: new Date(data.date),
         isRegular: data.isRegular,
         note: data.note,
+        accountId: data.accountId,
       });
       toast.success('Income added successfully');
       router.push('/income');
@@ -92,25 +120,31 @@ export default function AddIncomePage() {
               onClick={handleQuickFillSalary}
               className="w-full"
             >
-              Add {settings.payFrequency === 'monthly' ? 'Monthly' : settings.payFrequency === 'weekly' ? 'Weekly' : 'Bi-weekly'} Salary ({formatCurrency(settings.defaultSalary)})
+              Add {PAY_FREQUENCIES[settings.payFrequency].name} Salary ({formatCurrency(settings.defaultSalary)})
             </Button>
           </div>
 
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
             {/* Amount */}
-            <CurrencyInput
-              label="Amount"
-              placeholder="0.00"
-              currency={currencySymbol}
-              error={errors.amount?.message}
-              {...register('amount')}
-            />
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <CurrencyInput
+                  label="Amount"
+                  placeholder="0.00"
+                  currency={CURRENCIES[currency]?.symbol}
+                  error={errors.amount?.message}
+                  {...register('amount', { onBlur: applyCategorizationRules })}
+                />
+              </div>
+              <Select label="Currency" options={CURRENCY_OPTIONS} {...register('currency')} />
+            </div>
 
             {/* Type */}
             <Select
               label="Type"
               options={typeOptions}
               error={errors.type?.message}
+              helperText={typeRule && !dirtyFields.type ? `Set by rule "${typeRule}"` : undefined}
               {...register('type')}
             />
 
@@ -119,9 +153,19 @@ export default function AddIncomePage() {
               label="Source"
               placeholder="Where did this income come from?"
               error={errors.source?.message}
-              {...register('source')}
+              {...register('source', { onBlur: applyCategorizationRules })}
             />
 
+            {/* Account */}
+            {accountOptions.length > 1 && (
+              <Select
+                label="Account"
+                options={accountOptions}
+                error={errors.accountId?.message}
+                {...register('accountId')}
+              />
+            )}
+
             {/* Date */}
             <Controller
               name="date"
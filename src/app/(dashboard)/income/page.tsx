@@ -4,42 +4,148 @@
 // Income Page
 // ============================================
 
+import { useState } from 'react';
 import Link from 'next/link';
-import { Plus } from 'lucide-react';
+import { Plus, Upload } from 'lucide-react';
 import { PageContainer } from '@/components/layout';
 import { Button, Card, CardContent } from '@/components/ui';
-import { IncomeList } from '@/components/features/income';
+import { IncomeList, EditIncomeModal } from '@/components/features/income';
+import { CsvImportModal } from '@/components/features/import';
 import { useIncome, useToast, useSettings } from '@/hooks';
+import { Income, IncomeBulkEdit, NewIncome } from '@/types';
+import { LIST_PAGE_SIZE } from '@/lib/utils/constants';
 
 export default function IncomePage() {
-  const { income, isLoading, deleteIncome, totalAmount } = useIncome();
+  const {
+    income,
+    isLoading,
+    addIncomeEntries,
+    updateIncome,
+    deleteIncome,
+    restoreDeletedIncome,
+    updateIncomeInBulk,
+    revertIncome,
+    deleteIncomeEntries,
+    restoreDeletedIncomeEntries,
+    getIncomeInRange,
+    totalAmount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
+  } = useIncome({ pageSize: LIST_PAGE_SIZE });
   const toast = useToast();
   const { formatCurrency } = useSettings();
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [editingIncome, setEditingIncome] = useState<Income | null>(null);
 
   const handleDelete = async (id: string) => {
     try {
       await deleteIncome(id);
-      toast.success('Income deleted');
+      toast.success('Income deleted', { label: 'Undo', onClick: () => handleUndoDelete(id) });
     } catch (error) {
       toast.error('Failed to delete income');
     }
   };
 
+  const handleUndoDelete = async (id: string) => {
+    try {
+      await restoreDeletedIncome(id);
+      toast.success('Income restored');
+    } catch (error) {
+      toast.error('Failed to restore income');
+    }
+  };
+
+  const handleSave = async (entry: Income, updates: Partial<NewIncome>) => {
+    try {
+      await updateIncome(entry.id, updates);
+      toast.success('Income updated');
+    } catch (error) {
+      toast.error('Failed to update income');
+      throw error;
+    }
+  };
+
+  const handleBulkEdit = async (ids: string[], edit: IncomeBulkEdit) => {
+    try {
+      const previous = await updateIncomeInBulk(ids, edit);
+      toast.success(`Updated ${ids.length} income ${ids.length === 1 ? 'entry' : 'entries'}`, {
+        label: 'Undo',
+        onClick: () => handleUndoBulkEdit(previous),
+      });
+    } catch (error) {
+      toast.error('Failed to update income');
+      throw error;
+    }
+  };
+
+  const handleUndoBulkEdit = async (previous: Income[]) => {
+    try {
+      await revertIncome(previous);
+      toast.success('Changes undone');
+    } catch (error) {
+      toast.error('Failed to undo changes');
+    }
+  };
+
+  const handleBulkDelete = async (ids: string[]) => {
+    try {
+      await deleteIncomeEntries(ids);
+      toast.success(`Deleted ${ids.length} income ${ids.length === 1 ? 'entry' : 'entries'}`, {
+        label: 'Undo',
+        onClick: () => handleUndoBulkDelete(ids),
+      });
+    } catch (error) {
+      toast.error('Failed to delete income');
+      throw error;
+    }
+  };
+
+  const handleUndoBulkDelete = async (ids: string[]) => {
+    try {
+      await restoreDeletedIncomeEntries(ids);
+      toast.success(`Restored ${ids.length} income ${ids.length === 1 ? 'entry' : 'entries'}`);
+    } catch (error) {
+      toast.error('Failed to restore income');
+    }
+  };
+
+  const handleImport = async (rows: NewIncome[]) => {
+    try {
+      await addIncomeEntries(rows);
+      toast.success(`Imported ${rows.length} income ${rows.length === 1 ? 'entry' : 'entries'}`);
+    } catch (error) {
+      toast.error('Failed to import income');
+      throw error;
+    }
+  };
+
   return (
     <PageContainer
       title="Income"
       description="Track your earnings and payments"
       action={
-        <Link href="/income/add">
-          <Button leftIcon={<Plus className="h-4 w-4" />}>Add Income</Button>
-        </Link>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            leftIcon={<Upload className="h-4 w-4" />}
+            onClick={() => setIsImportOpen(true)}
+          >
+            Import
+          </Button>
+          <Link href="/income/add">
+            <Button leftIcon={<Plus className="h-4 w-4" />}>Add Income</Button>
+          </Link>
+        </div>
       }
     >
       {/* Summary Card */}
       <Card className="mb-6">
         <CardContent className="flex items-center justify-between py-4">
           <div>
-            <p className="text-sm text-gray-500 dark:text-gray-400">Total Income</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {hasMore ? 'Total Loaded' : 'Total Income'}
+            </p>
             <p className="text-2xl font-bold text-green-600 dark:text-green-400">
               {formatCurrency(totalAmount)}
             </p>
@@ -48,6 +154,7 @@ export default function IncomePage() {
             <p className="text-sm text-gray-500 dark:text-gray-400">Entries</p>
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
               {income.length}
+              {hasMore && '+'}
             </p>
           </div>
         </CardContent>
@@ -57,7 +164,30 @@ export default function IncomePage() {
       <IncomeList
         income={income}
         isLoading={isLoading}
+        onEdit={setEditingIncome}
         onDelete={handleDelete}
+        onBulkEdit={handleBulkEdit}
+        onBulkDelete={handleBulkDelete}
+        hasMore={hasMore}
+        isLoadingMore={isLoadingMore}
+        onLoadMore={loadMore}
+      />
+
+      {/* Edit Modal */}
+      <EditIncomeModal
+        key={editingIncome?.id ?? 'none'}
+        income={editingIncome}
+        onClose={() => setEditingIncome(null)}
+        onSave={handleSave}
+      />
+
+      {/* Import Modal */}
+      <CsvImportModal
+        kind="income"
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        loadExisting={getIncomeInRange}
+        onImport={handleImport}
       />
     </PageContainer>
   );
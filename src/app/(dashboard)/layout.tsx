@@ -7,6 +7,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/hooks/useAuth';
+import { useRecurringMaterializer } from '@/hooks/useRecurring';
+import { usePayeeMigration } from '@/hooks/usePayees';
 import { Header, Sidebar, MobileNav } from '@/components/layout';
 import { SplashScreen } from '@/components/ui';
 
@@ -16,6 +18,9 @@ export default function DashboardLayout({
   children: React.ReactNode;
 }) {
   const { loading, isAuthenticated } = useAuth();
+  // Recurring rules may still name the old Amazon category, so they're migrated first
+  const migrated = usePayeeMigration();
+  const recurringReady = useRecurringMaterializer(migrated);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const router = useRouter();
 
@@ -26,7 +31,8 @@ export default function DashboardLayout({
     }
   }, [loading, isAuthenticated, router]);
 
-  if (loading) {
+  // Wait for due recurring expenses to be created so pages load them
+  if (loading || !recurringReady) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950">
         <div className="flex flex-col items-center gap-4">
@@ -9,13 +9,39 @@ import { useRouter } from 'next/navigation';
 import { User, CreditCard, Bell, Palette, Shield, LogOut, Check } from 'lucide-react';
 import { PageContainer, PageSection } from '@/components/layout';
 import { Card, CardHeader, CardTitle, CardContent, Button, Input, Select, CurrencyInput } from '@/components/ui';
+import { DataBackupCard, ExchangeRatesCard, TrashCard } from '@/components/features/settings';
+import { RulesCard } from '@/components/features/rules';
+import { PayeesCard } from '@/components/features/payees';
 import { useAuth, useToast, useSettings } from '@/hooks';
-import { CurrencyCode, CURRENCIES } from '@/lib/utils/constants';
-import { isDevMode } from '@/services/firebase';
+import { CurrencyCode, CURRENCIES, CURRENCY_OPTIONS, DAYS, PAY_FREQUENCIES } from '@/lib/utils/constants';
+import {
+  formatAmountForInput,
+  formatDateForInput,
+  parseCurrencyToCents,
+  parseDateFromInput,
+  getOrdinalSuffix,
+} from '@/lib/utils/formatters';
+import { getNextPayday } from '@/lib/utils/dateUtils';
+import { isDevMode, updatePaySchedule, assignLegacyCurrency } from '@/services/firebase';
+import { convertAmount, findExchangeRate } from '@/services/analytics';
+import { BudgetMode, PayFrequency } from '@/types';
+
+const PAY_FREQUENCY_OPTIONS = (Object.keys(PAY_FREQUENCIES) as PayFrequency[]).map((value) => ({
+  value,
+  label: PAY_FREQUENCIES[value].name,
+}));
+
+const WEEKDAY_OPTIONS = DAYS.map((day, index) => ({ value: String(index), label: day }));
+
+// 31 stands for the last day, whatever the month's length
+const MONTH_DAY_OPTIONS = Array.from({ length: 31 }, (_, i) => ({
+  value: String(i + 1),
+  label: i === 30 ? 'Last day' : getOrdinalSuffix(i + 1),
+}));
 
 export default function SettingsPage() {
   const { user, logout } = useAuth();
-  const { settings, updateSettings, isLoading: settingsLoading } = useSettings();
+  const { settings, updateSettings, paySchedule, isLoading: settingsLoading } = useSettings();
   const toast = useToast();
   const router = useRouter();
   const [isLoggingOut, setIsLoggingOut] = useState(false);
@@ -25,11 +51,18 @@ export default function SettingsPage() {
   const [currency, setCurrency] = useState<CurrencyCode>(settings.currency);
   const [theme, setTheme] = useState(settings.theme);
   const [dateFormat, setDateFormat] = useState(settings.dateFormat);
-  const [defaultSalary, setDefaultSalary] = useState((settings.defaultSalary / 100).toFixed(2));
+  const [defaultSalary, setDefaultSalary] = useState(formatAmountForInput(settings.defaultSalary, settings.currency));
   const [payFrequency, setPayFrequency] = useState(settings.payFrequency);
+  const [payWeekday, setPayWeekday] = useState(settings.payWeekday);
+  const [payMonthDay, setPayMonthDay] = useState(settings.payMonthDay);
+  const [paySemimonthlyDays, setPaySemimonthlyDays] = useState(settings.paySemimonthlyDays);
+  const [nextPayday, setNextPayday] = useState(formatDateForInput(getNextPayday(paySchedule)));
+  const [budgetMode, setBudgetMode] = useState<BudgetMode>(settings.budgetMode);
+  const [forecastThreshold, setForecastThreshold] = useState(
+    formatAmountForInput(settings.forecastThreshold, settings.currency)
+  );
 
   // Notification settings (local storage for now)
-  const [budgetWarnings, setBudgetWarnings] = useState(true);
   const [weeklySummary, setWeeklySummary] = useState(true);
   const [paydayReminder, setPaydayReminder] = useState(true);
 
@@ -39,19 +72,62 @@ export default function SettingsPage() {
       setCurrency(settings.currency);
       setTheme(settings.theme);
       setDateFormat(settings.dateFormat);
-      setDefaultSalary((settings.defaultSalary / 100).toFixed(2));
+      setDefaultSalary(formatAmountForInput(settings.defaultSalary, settings.currency));
       setPayFrequency(settings.payFrequency);
+      setPayWeekday(settings.payWeekday);
+      setPayMonthDay(settings.payMonthDay);
+      setPaySemimonthlyDays(settings.paySemimonthlyDays);
+      setNextPayday(formatDateForInput(getNextPayday(paySchedule)));
+      setBudgetMode(settings.budgetMode);
+      setForecastThreshold(formatAmountForInput(settings.forecastThreshold, settings.currency));
+    }
+  }, [settings, settingsLoading, paySchedule]);
+
+  // Amounts left as they were keep their worth in the new base currency; edited ones are read in it.
+  // Null when an unchanged amount has no exchange rate to convert it with.
+  const toBaseAmount = (input: string, stored: number): number | null => {
+    if (input !== formatAmountForInput(stored, settings.currency)) return parseCurrencyToCents(input, currency);
+    if (stored !== 0 && findExchangeRate(settings.exchangeRates, settings.currency, currency, new Date()) === null) {
+      return null;
     }
-  }, [settings, settingsLoading]);
+    return convertAmount(stored, settings.currency, currency, new Date(), settings.exchangeRates);
+  };
 
   const handleSaveFinancial = async () => {
+    const salaryAmount = toBaseAmount(defaultSalary, settings.defaultSalary);
+    const thresholdAmount = toBaseAmount(forecastThreshold, settings.forecastThreshold);
+    if (salaryAmount === null || thresholdAmount === null) {
+      toast.error(`Add an exchange rate from ${settings.currency} to ${currency} before changing currency`);
+      return;
+    }
+
     setIsSaving(true);
     try {
+      // Older records without a currency are in the current one, so they're labelled before it changes
+      if (currency !== settings.currency && user) await assignLegacyCurrency(user.uid, settings.currency);
+
+      // Bi-weekly pay is counted from the chosen payday, which also fixes its weekday
+      const payday = nextPayday ? parseDateFromInput(nextPayday) : null;
+      const weekday = payFrequency === 'biweekly' && payday ? payday.getDay() : payWeekday;
       await updateSettings({
         currency,
-        defaultSalary: Math.round(parseFloat(defaultSalary) * 100),
+        defaultSalary: salaryAmount,
         payFrequency,
+        payWeekday: weekday,
+        payMonthDay,
+        paySemimonthlyDays,
+        nextPayday: payFrequency === 'biweekly' ? nextPayday : '',
+        budgetMode,
+        forecastThreshold: thresholdAmount,
       });
+      if (user) {
+        await updatePaySchedule(user.uid, {
+          frequency: payFrequency,
+          weekday,
+          anchor: payday ?? new Date(),
+          monthDays: payFrequency === 'semimonthly' ? paySemimonthlyDays : [payMonthDay],
+        });
+      }
       toast.success('Financial settings saved');
     } catch (error) {
       toast.error('Failed to save settings');
@@ -75,6 +151,14 @@ export default function SettingsPage() {
     }
   };
 
+  const handleToggleBudgetWarnings = async (enabled: boolean) => {
+    try {
+      await updateSettings({ notifyOnBudgetWarning: enabled });
+    } catch (error) {
+      toast.error('Failed to save settings');
+    }
+  };
+
   const handleLogout = async () => {
     setIsLoggingOut(true);
     try {
@@ -87,11 +171,6 @@ export default function SettingsPage() {
     }
   };
 
-  const currencyOptions = Object.values(CURRENCIES).map((c) => ({
-    value: c.code,
-    label: `${c.code} (${c.symbol}) - ${c.name}`,
-  }));
-
   return (
     <PageContainer title="Settings" description="Manage your preferences">
       {/* Profile Section */}
@@ -146,24 +225,81 @@ export default function SettingsPage() {
                 value={defaultSalary}
                 onChange={(e) => setDefaultSalary(e.target.value)}
                 currency={CURRENCIES[currency]?.symbol || '$'}
-                helperText="Your bi-weekly salary amount"
+                helperText={`Your ${PAY_FREQUENCIES[payFrequency].name.toLowerCase()} salary amount`}
               />
               <Select
                 label="Pay Frequency"
-                options={[
-                  { value: 'weekly', label: 'Weekly' },
-                  { value: 'biweekly', label: 'Bi-weekly' },
-                  { value: 'monthly', label: 'Monthly' },
-                ]}
+                options={PAY_FREQUENCY_OPTIONS}
                 value={payFrequency}
-                onChange={(e) => setPayFrequency(e.target.value as 'weekly' | 'biweekly' | 'monthly')}
+                onChange={(e) => setPayFrequency(e.target.value as PayFrequency)}
+                helperText={PAY_FREQUENCIES[payFrequency].description}
               />
             </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {payFrequency === 'weekly' && (
+                <Select
+                  label="Payday"
+                  options={WEEKDAY_OPTIONS}
+                  value={String(payWeekday)}
+                  onChange={(e) => setPayWeekday(Number(e.target.value))}
+                />
+              )}
+              {payFrequency === 'biweekly' && (
+                <Input
+                  label="Next Payday"
+                  type="date"
+                  value={nextPayday}
+                  onChange={(e) => setNextPayday(e.target.value)}
+                  helperText="Paydays repeat every two weeks from this date"
+                />
+              )}
+              {payFrequency === 'semimonthly' &&
+                paySemimonthlyDays.map((day, index) => (
+                  <Select
+                    key={index}
+                    label={index === 0 ? 'First Payday' : 'Second Payday'}
+                    options={MONTH_DAY_OPTIONS}
+                    value={String(day)}
+                    onChange={(e) => {
+                      const days: [number, number] = [...paySemimonthlyDays];
+                      days[index] = Number(e.target.value);
+                      setPaySemimonthlyDays(days);
+                    }}
+                  />
+                ))}
+              {payFrequency === 'monthly' && (
+                <Select
+                  label="Payday"
+                  options={MONTH_DAY_OPTIONS}
+                  value={String(payMonthDay)}
+                  onChange={(e) => setPayMonthDay(Number(e.target.value))}
+                  helperText="Moved to the last day in shorter months"
+                />
+              )}
+            </div>
             <Select
-              label="Currency"
-              options={currencyOptions}
+              label="Base Currency"
+              options={CURRENCY_OPTIONS}
               value={currency}
               onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+              helperText="Totals and budgets are shown in this currency; others are converted with your exchange rates"
+            />
+            <Select
+              label="Budget Mode"
+              options={[
+                { value: 'monthly', label: 'Monthly (resets each month)' },
+                { value: 'envelope', label: 'Envelope (unspent money rolls over)' },
+              ]}
+              value={budgetMode}
+              onChange={(e) => setBudgetMode(e.target.value as BudgetMode)}
+              helperText="Envelopes carry leftovers and overspending into the next month"
+            />
+            <CurrencyInput
+              label="Low Balance Alert"
+              value={forecastThreshold}
+              onChange={(e) => setForecastThreshold(e.target.value)}
+              currency={CURRENCIES[currency]?.symbol || '$'}
+              helperText="The cash-flow forecast flags days projected to fall below this balance"
             />
             <Button
               variant="primary"
@@ -177,6 +313,21 @@ export default function SettingsPage() {
         </Card>
       </PageSection>
 
+      {/* Exchange Rates */}
+      <PageSection>
+        <ExchangeRatesCard />
+      </PageSection>
+
+      {/* Categorization Rules */}
+      <PageSection>
+        <RulesCard />
+      </PageSection>
+
+      {/* Payees */}
+      <PageSection>
+        <PayeesCard />
+      </PageSection>
+
       {/* Appearance */}
       <PageSection>
         <Card>
@@ -242,8 +393,8 @@ export default function SettingsPage() {
               </div>
               <input
                 type="checkbox"
-                checked={budgetWarnings}
-                onChange={(e) => setBudgetWarnings(e.target.checked)}
+                checked={settings.notifyOnBudgetWarning}
+                onChange={(e) => handleToggleBudgetWarnings(e.target.checked)}
                 className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
               />
             </div>
@@ -279,6 +430,16 @@ export default function SettingsPage() {
         </Card>
       </PageSection>
 
+      {/* Data & Backup */}
+      <PageSection>
+        <DataBackupCard />
+      </PageSection>
+
+      {/* Trash */}
+      <PageSection>
+        <TrashCard />
+      </PageSection>
+
       {/* Security & Account */}
       <PageSection>
         <Card>
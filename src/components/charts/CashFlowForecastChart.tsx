@@ -0,0 +1,164 @@
+'use client';
+
+// ============================================
+// Cash-Flow Forecast Chart
+// ============================================
+
+import { useState } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { format } from 'date-fns';
+import { CashFlowForecast, ForecastPoint } from '@/types';
+import { CURRENCIES } from '@/lib/utils/constants';
+import { fromMinorUnits, formatDateSmart } from '@/lib/utils/formatters';
+import { Button } from '@/components/ui';
+import { useSettings } from '@/hooks';
+import { ChartContainer } from './ChartContainer';
+
+// ============================================
+// Types
+// ============================================
+
+interface CashFlowForecastChartProps {
+  forecast: CashFlowForecast;
+  threshold: number;
+  isLoading?: boolean;
+}
+
+type ChartPoint = ForecastPoint & {
+  label: string;
+  band: [number, number];
+  // Only set below the threshold, so those stretches draw in red
+  shortfall: number | null;
+};
+
+const HORIZONS = [30, 60, 90] as const;
+
+// ============================================
+// Custom Tooltip
+// ============================================
+
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: ChartPoint }>;
+  formatCurrency: (cents: number) => string;
+}
+
+const CustomTooltip = ({ active, payload, formatCurrency }: TooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 px-4 py-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 min-w-[180px]">
+      <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{format(point.date, 'EEE, MMM d')}</p>
+      <div className="flex justify-between items-center gap-4">
+        <span className="text-xs text-gray-500">Balance</span>
+        <span className={`text-sm font-bold ${point.isBelowThreshold ? 'text-red-600' : 'text-indigo-600'}`}>
+          {formatCurrency(point.balance)}
+        </span>
+      </div>
+      <p className="text-xs text-gray-400 mb-1.5">
+        Likely {formatCurrency(point.low)} – {formatCurrency(point.high)}
+      </p>
+      <div className="space-y-0.5 pt-1.5 border-t border-gray-100 dark:border-gray-700">
+        {point.income > 0 && (
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Payday</span>
+            <span className="text-green-600">+{formatCurrency(point.income)}</span>
+          </div>
+        )}
+        {point.bills > 0 && (
+          <div className="flex justify-between text-xs">
+            <span className="text-gray-500">Bills</span>
+            <span className="text-red-600">−{formatCurrency(point.bills)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-xs">
+          <span className="text-gray-500">Everyday spending</span>
+          <span className="text-gray-600 dark:text-gray-400">−{formatCurrency(point.variable)}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Component
+// ============================================
+
+const CashFlowForecastChart = ({ forecast, threshold, isLoading }: CashFlowForecastChartProps) => {
+  const { formatCurrency, settings } = useSettings();
+  const currencySymbol = CURRENCIES[settings.currency].symbol;
+  const [horizon, setHorizon] = useState<(typeof HORIZONS)[number]>(90);
+
+  const points = forecast.points.slice(0, horizon + 1);
+  const chartData: ChartPoint[] = points.map((point) => ({
+    ...point,
+    label: format(point.date, 'MMM d'),
+    band: [point.low, point.high],
+    shortfall: point.isBelowThreshold ? point.balance : null,
+  }));
+  const shortfall = points.find((point) => point.isBelowThreshold);
+
+  return (
+    <ChartContainer
+      title="Cash-Flow Forecast"
+      action={
+        <div className="flex gap-1">
+          {HORIZONS.map((days) => (
+            <Button
+              key={days}
+              variant={horizon === days ? 'primary' : 'ghost'}
+              size="sm"
+              onClick={() => setHorizon(days)}
+            >
+              {days}d
+            </Button>
+          ))}
+        </div>
+      }
+      description={
+        <span className={shortfall ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+          {shortfall
+            ? `Projected below ${formatCurrency(threshold)} from ${formatDateSmart(shortfall.date)}`
+            : `Projected to stay above ${formatCurrency(threshold)} for the next ${horizon} days`}
+        </span>
+      }
+      isLoading={isLoading}
+      isEmpty={chartData.length === 0}
+      height={300}
+    >
+      <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+        <XAxis
+          dataKey="label"
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+          minTickGap={24}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+          tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toFixed(0)}`}
+        />
+        <ReferenceLine y={threshold} stroke="#ef4444" strokeDasharray="4 4" />
+        <Tooltip
+          content={({ active, payload }) => (
+            <CustomTooltip
+              active={active}
+              payload={payload as unknown as Array<{ payload: ChartPoint }>}
+              formatCurrency={formatCurrency}
+            />
+          )}
+        />
+        <Area type="monotone" dataKey="band" stroke="none" fill="#6366f1" fillOpacity={0.15} />
+        <Line type="monotone" dataKey="balance" stroke="#6366f1" strokeWidth={2} dot={false} />
+        <Line type="monotone" dataKey="shortfall" stroke="#ef4444" strokeWidth={2.5} dot={false} connectNulls={false} />
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
+
+export { CashFlowForecastChart };
@@ -19,6 +19,8 @@ import {
 import { Check, Layers } from 'lucide-react';
 import { Expense } from '@/types';
 import { MONTHS_SHORT } from '@/lib/utils/constants';
+import { fromMinorUnits } from '@/lib/utils/formatters';
+import { getExpenseAllocations } from '@/services/analytics';
 import { useSettings, useCategories } from '@/hooks';
 import { cn } from '@/lib/cn';
 import { getMonth, getYear } from 'date-fns';
@@ -162,7 +164,7 @@ const CustomTooltip = ({
 // ============================================
 
 const CategoryStreamChart = ({ expenses, isLoading }: CategoryStreamChartProps) => {
-  const { formatCurrency, settings } = useSettings();
+  const { formatCurrency, settings, toBaseCurrency } = useSettings();
   const { allCategoriesIncludingDeleted, getCategoryById } = useCategories();
 
   // Initialize with all categories selected by default
@@ -216,21 +218,24 @@ const CategoryStreamChart = ({ expenses, isLoading }: CategoryStreamChartProps)
       ...Object.fromEntries(allCategoryIds.map((cat) => [cat, 0])),
     }));
 
-    expenses.forEach((expense) => {
+    toBaseCurrency(expenses).forEach((expense) => {
       const date = expense.date.toDate();
       const year = getYear(date);
       const month = getMonth(date);
-      const categoryId = expense.category as string;
+      if (year !== currentYear) return;
 
-      // Only include current year expenses for selected categories
-      if (year === currentYear && effectiveSelectedIds.includes(categoryId)) {
-        (monthlyData[month] as Record<string, number>)[categoryId] =
-          ((monthlyData[month] as Record<string, number>)[categoryId] || 0) + expense.amount;
-      }
+      // Only include current year expenses for selected categories, split by split
+      getExpenseAllocations(expense).forEach(({ category, amount }) => {
+        const categoryId = category as string;
+        if (effectiveSelectedIds.includes(categoryId)) {
+          (monthlyData[month] as Record<string, number>)[categoryId] =
+            ((monthlyData[month] as Record<string, number>)[categoryId] || 0) + amount;
+        }
+      });
     });
 
     return monthlyData;
-  }, [expenses, effectiveSelectedIds, allCategoriesIncludingDeleted]);
+  }, [expenses, effectiveSelectedIds, allCategoriesIncludingDeleted, toBaseCurrency]);
 
   // Get gradient definitions for each category
   const gradientDefs = useMemo(() => {
@@ -333,7 +338,7 @@ const CategoryStreamChart = ({ expenses, isLoading }: CategoryStreamChartProps)
               tickLine={false}
               axisLine={false}
               tick={{ fill: '#94a3b8', fontSize: 12 }}
-              tickFormatter={(value) => `${currencySymbol}${(value / 100).toLocaleString()}`}
+              tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toLocaleString()}`}
               width={70}
             />
             <Tooltip
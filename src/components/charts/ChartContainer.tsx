@@ -16,6 +16,8 @@ import { Card, CardHeader, CardTitle, CardContent, Skeleton } from '@/components
 
 interface ChartContainerProps {
   title?: string;
+  // Shown under the title
+  description?: ReactNode;
   action?: ReactNode;
   height?: number;
   mobileHeight?: number;
@@ -53,6 +55,7 @@ const useResponsiveHeight = (height: number, mobileHeight?: number) => {
 
 const ChartContainer = ({
   title,
+  description,
   action,
   height = 300,
   mobileHeight,
@@ -69,6 +72,7 @@ const ChartContainer = ({
       {title && (
         <CardHeader action={action}>
           <CardTitle>{title}</CardTitle>
+          {description && <div className="text-xs mt-1">{description}</div>}
         </CardHeader>
       )}
       <CardContent className="p-3 sm:p-4 pt-0">
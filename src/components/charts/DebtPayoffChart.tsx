@@ -0,0 +1,132 @@
+'use client';
+
+// ============================================
+// Debt Payoff Comparison Chart
+// ============================================
+
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from 'recharts';
+import { format } from 'date-fns';
+import { DebtPayoffPlan, PayoffStrategy } from '@/types';
+import { CURRENCIES } from '@/lib/utils/constants';
+import { fromMinorUnits } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+import { ChartContainer } from './ChartContainer';
+
+// ============================================
+// Types
+// ============================================
+
+interface DebtPayoffChartProps {
+  plans: Record<PayoffStrategy, DebtPayoffPlan>;
+  isLoading?: boolean;
+}
+
+interface ChartPoint {
+  label: string;
+  month: Date;
+  snowball: number;
+  avalanche: number;
+}
+
+const STRATEGY_LINES: { key: PayoffStrategy; name: string; color: string }[] = [
+  { key: 'snowball', name: 'Snowball', color: '#3B82F6' },
+  { key: 'avalanche', name: 'Avalanche', color: '#8B5CF6' },
+];
+
+// ============================================
+// Custom Tooltip
+// ============================================
+
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: ChartPoint }>;
+  formatCurrency: (cents: number) => string;
+}
+
+const CustomTooltip = ({ active, payload, formatCurrency }: TooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 px-4 py-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 min-w-[180px]">
+      <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{format(point.month, 'MMMM yyyy')}</p>
+      <div className="space-y-1">
+        {STRATEGY_LINES.map(({ key, name, color }) => (
+          <div key={key} className="flex justify-between items-center gap-4">
+            <div className="flex items-center gap-2">
+              <div className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: color }} />
+              <span className="text-xs text-gray-500">{name}</span>
+            </div>
+            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">{formatCurrency(point[key])}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Component
+// ============================================
+
+const DebtPayoffChart = ({ plans, isLoading }: DebtPayoffChartProps) => {
+  const { formatCurrency, settings } = useSettings();
+  const currencySymbol = CURRENCIES[settings.currency].symbol;
+
+  // The shorter plan sits at zero once it's done
+  const longest = plans.snowball.months.length >= plans.avalanche.months.length ? plans.snowball : plans.avalanche;
+  const chartData: ChartPoint[] = longest.months.map(({ month }, index) => ({
+    label: format(month, 'MMM yy'),
+    month,
+    snowball: plans.snowball.months[index]?.totalBalance ?? 0,
+    avalanche: plans.avalanche.months[index]?.totalBalance ?? 0,
+  }));
+
+  return (
+    <ChartContainer
+      title="Balance Over Time"
+      isLoading={isLoading}
+      isEmpty={chartData.length === 0}
+      emptyMessage="Add a debt to see its payoff"
+      height={300}
+    >
+      <LineChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+        <XAxis
+          dataKey="label"
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+          minTickGap={24}
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+          tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toFixed(0)}`}
+        />
+        <Tooltip
+          content={({ active, payload }) => (
+            <CustomTooltip
+              active={active}
+              payload={payload as unknown as Array<{ payload: ChartPoint }>}
+              formatCurrency={formatCurrency}
+            />
+          )}
+        />
+        <Legend
+          iconType="circle"
+          iconSize={8}
+          wrapperStyle={{ paddingTop: 16 }}
+          formatter={(value) => <span className="text-xs text-gray-600 dark:text-gray-400">{value}</span>}
+        />
+        {STRATEGY_LINES.map(({ key, name, color }) => (
+          <Line key={key} type="monotone" dataKey={key} name={name} stroke={color} strokeWidth={2} dot={false} />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  );
+};
+
+export { DebtPayoffChart };
@@ -16,7 +16,7 @@ import {
   ReferenceLine,
 } from 'recharts';
 import { IncomeVsExpense } from '@/types';
-import { formatPercentage } from '@/lib/utils/formatters';
+import { formatPercentage, fromMinorUnits } from '@/lib/utils/formatters';
 import { useSettings } from '@/hooks';
 import { ChartContainer } from './ChartContainer';
 
@@ -125,7 +125,7 @@ const IncomeExpenseChart = ({ data, isLoading }: IncomeExpenseChartProps) => {
           tickLine={false}
           axisLine={false}
           tick={{ fill: '#6b7280', fontSize: 12 }}
-          tickFormatter={(value) => `${currencySymbol}${(value / 100 / 1000).toFixed(0)}k`}
+          tickFormatter={(value) => `${currencySymbol}${(fromMinorUnits(value, settings.currency) / 1000).toFixed(0)}k`}
         />
         <Tooltip content={<CustomTooltip formatCurrency={formatCurrency} />} cursor={{ fill: 'rgba(0, 0, 0, 0.05)' }} />
         <Legend
@@ -6,6 +6,7 @@
 
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { MonthlyTotal } from '@/types';
+import { fromMinorUnits } from '@/lib/utils/formatters';
 import { useSettings } from '@/hooks';
 import { ChartContainer } from './ChartContainer';
 
@@ -81,7 +82,7 @@ const MonthlyBarChart = ({ data, isLoading, budget }: MonthlyBarChartProps) => {
           tickLine={false}
           axisLine={false}
           tick={{ fill: '#6b7280', fontSize: 12 }}
-          tickFormatter={(value) => `${currencySymbol}${(value / 100).toLocaleString()}`}
+          tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toLocaleString()}`}
         />
         <Tooltip
           content={({ active, payload, label }) => (
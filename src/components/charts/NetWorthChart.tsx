@@ -0,0 +1,153 @@
+'use client';
+
+// ============================================
+// Net Worth Over Time Chart
+// ============================================
+
+import {
+  ComposedChart,
+  Area,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ReferenceLine,
+} from 'recharts';
+import { format } from 'date-fns';
+import { Account, NetWorthPoint } from '@/types';
+import { CHART_COLORS, CURRENCIES } from '@/lib/utils/constants';
+import { fromMinorUnits } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+import { ChartContainer } from './ChartContainer';
+
+// ============================================
+// Types
+// ============================================
+
+interface NetWorthChartProps {
+  data: NetWorthPoint[];
+  accounts: Account[];
+  isLoading?: boolean;
+}
+
+// ============================================
+// Custom Tooltip
+// ============================================
+
+interface TooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: NetWorthPoint }>;
+  accounts: Account[];
+  formatCurrency: (cents: number) => string;
+}
+
+const CustomTooltip = ({ active, payload, accounts, formatCurrency }: TooltipProps) => {
+  if (!active || !payload?.length) return null;
+
+  const point = payload[0].payload;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 px-4 py-3 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 min-w-[180px]">
+      <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">{format(point.month, 'MMMM yyyy')}</p>
+      <div className="space-y-1">
+        {accounts.map((account, index) => (
+          <div key={account.id} className="flex justify-between items-center gap-4">
+            <div className="flex items-center gap-2">
+              <div
+                className="w-2.5 h-2.5 rounded-full"
+                style={{ backgroundColor: CHART_COLORS[index % CHART_COLORS.length] }}
+              />
+              <span className="text-xs text-gray-500">{account.name}</span>
+            </div>
+            <span className="text-xs font-medium text-gray-700 dark:text-gray-300">
+              {formatCurrency(point.balances[account.id] ?? 0)}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex justify-between items-center pt-1.5 mt-1.5 border-t border-gray-100 dark:border-gray-700">
+        <span className="text-xs text-gray-500">Net worth</span>
+        <span className={`text-sm font-bold ${point.netWorth >= 0 ? 'text-indigo-600' : 'text-red-600'}`}>
+          {formatCurrency(point.netWorth)}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+// ============================================
+// Component
+// ============================================
+
+const NetWorthChart = ({ data, accounts, isLoading }: NetWorthChartProps) => {
+  const { formatCurrency, settings } = useSettings();
+  const currencySymbol = CURRENCIES[settings.currency].symbol;
+
+  // Flatten per-account balances so each account can be its own line
+  const chartData = data.map((point) => ({
+    ...point,
+    ...point.balances,
+    label: format(point.month, 'MMM yy'),
+  }));
+
+  return (
+    <ChartContainer
+      title="Net Worth"
+      isLoading={isLoading}
+      isEmpty={chartData.length === 0}
+      height={300}
+    >
+      <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+        <defs>
+          <linearGradient id="colorNetWorth" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="#6366f1" stopOpacity={0.3} />
+            <stop offset="95%" stopColor="#6366f1" stopOpacity={0} />
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+        <XAxis dataKey="label" tickLine={false} axisLine={false} tick={{ fill: '#6b7280', fontSize: 12 }} />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          tick={{ fill: '#6b7280', fontSize: 12 }}
+          tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toFixed(0)}`}
+        />
+        <ReferenceLine y={0} stroke="#9ca3af" />
+        <Tooltip
+          content={({ active, payload }) => (
+            <CustomTooltip
+              active={active}
+              payload={payload as unknown as Array<{ payload: NetWorthPoint }>}
+              accounts={accounts}
+              formatCurrency={formatCurrency}
+            />
+          )}
+        />
+        <Area
+          type="monotone"
+          dataKey="netWorth"
+          stroke="#6366f1"
+          strokeWidth={2}
+          fillOpacity={1}
+          fill="url(#colorNetWorth)"
+        />
+        {accounts.length > 1 &&
+          accounts.map((account, index) => (
+            <Line
+              key={account.id}
+              type="monotone"
+              dataKey={account.id}
+              name={account.name}
+              stroke={CHART_COLORS[index % CHART_COLORS.length]}
+              strokeWidth={1.5}
+              strokeDasharray="4 4"
+              dot={false}
+            />
+          ))}
+      </ComposedChart>
+    </ChartContainer>
+  );
+};
+
+export { NetWorthChart };
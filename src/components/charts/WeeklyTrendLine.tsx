@@ -15,6 +15,7 @@ import {
   Line,
 } from 'recharts';
 import { WeeklyTrend } from '@/types';
+import { fromMinorUnits } from '@/lib/utils/formatters';
 import { useSettings } from '@/hooks';
 import { format } from 'date-fns';
 import { ChartContainer } from './ChartContainer';
@@ -109,7 +110,7 @@ const WeeklyTrendLine = ({ data, isLoading }: WeeklyTrendLineProps) => {
           tickLine={false}
           axisLine={false}
           tick={{ fill: '#6b7280', fontSize: 12 }}
-          tickFormatter={(value) => `${currencySymbol}${(value / 100).toFixed(0)}`}
+          tickFormatter={(value) => `${currencySymbol}${fromMinorUnits(value, settings.currency).toFixed(0)}`}
         />
         <Tooltip
           content={({ active, payload, label }) => (
@@ -10,3 +10,6 @@ export * from './IncomeExpenseChart';
 export * from './CategoryStreamChart';
 export * from './GoalsRadarChart';
 export * from './RadialProgress';
+export * from './NetWorthChart';
+export * from './CashFlowForecastChart';
+export * from './DebtPayoffChart';
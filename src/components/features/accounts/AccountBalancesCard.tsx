@@ -0,0 +1,162 @@
+'use client';
+
+// ============================================
+// Account Balances Card Component
+// ============================================
+
+import { ArrowRightLeft, Edit2, Plus, Trash2 } from 'lucide-react';
+import * as LucideIcons from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Skeleton } from '@/components/ui';
+import { Account, AccountBalance } from '@/types';
+import { ACCOUNT_TYPES, DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
+import { useSettings } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface AccountBalancesCardProps {
+  balances: AccountBalance[];
+  netWorth: number;
+  isLoading?: boolean;
+  onAdd?: () => void;
+  onEdit?: (account: Account) => void;
+  onDelete?: (account: Account) => void;
+  onTransfer?: () => void;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const AccountBalancesCard = ({
+  balances,
+  netWorth,
+  isLoading,
+  onAdd,
+  onEdit,
+  onDelete,
+  onTransfer,
+  className,
+}: AccountBalancesCardProps) => {
+  const { formatCurrency, settings } = useSettings();
+
+  return (
+    <Card className={className}>
+      <CardHeader
+        action={
+          <div className="flex items-center gap-2">
+            {onTransfer && balances.length > 1 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={onTransfer}
+                leftIcon={<ArrowRightLeft className="h-4 w-4" />}
+              >
+                Transfer
+              </Button>
+            )}
+            {onAdd && (
+              <Button variant="primary" size="sm" onClick={onAdd} leftIcon={<Plus className="h-4 w-4" />}>
+                Add
+              </Button>
+            )}
+          </div>
+        }
+      >
+        <div>
+          <CardTitle>Accounts</CardTitle>
+          {!isLoading && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Net worth{' '}
+              <span
+                className={cn(
+                  'font-semibold',
+                  netWorth < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                )}
+              >
+                {formatCurrency(netWorth)}
+              </span>
+            </p>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-12 w-full" />
+            ))}
+          </div>
+        ) : balances.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">No accounts yet.</p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {balances.map(({ account, balance, baseBalance }) => {
+              const typeConfig = ACCOUNT_TYPES[account.type];
+              const IconComponent = LucideIcons[typeConfig.icon as keyof typeof LucideIcons] as React.ElementType;
+              const isForeign = account.currency !== settings.currency;
+
+              return (
+                <div key={account.id} className="group flex items-center gap-3 py-3">
+                  <div
+                    className="flex-shrink-0 h-10 w-10 rounded-xl flex items-center justify-center"
+                    style={{ backgroundColor: `${typeConfig.color}15` }}
+                  >
+                    {IconComponent && <IconComponent className="h-5 w-5" style={{ color: typeConfig.color }} />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{account.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {typeConfig.name}
+                      {isForeign && ` • ${account.currency}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p
+                      className={cn(
+                        'text-sm font-semibold',
+                        balance < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+                      )}
+                    >
+                      {formatCurrency(balance, true, account.currency)}
+                    </p>
+                    {isForeign && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">≈ {formatCurrency(baseBalance)}</p>
+                    )}
+                  </div>
+                  {(onEdit || onDelete) && (
+                    <div className="flex items-center gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                      {onEdit && (
+                        <button
+                          onClick={() => onEdit(account)}
+                          className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                          aria-label={`Edit ${account.name}`}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                      )}
+                      {onDelete && account.id !== DEFAULT_ACCOUNT_ID && (
+                        <button
+                          onClick={() => onDelete(account)}
+                          className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500 transition-colors"
+                          aria-label={`Delete ${account.name}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { AccountBalancesCard };
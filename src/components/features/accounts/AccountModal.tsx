@@ -0,0 +1,134 @@
+'use client';
+
+// ============================================
+// Account Modal Component
+// ============================================
+
+import { useState } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select } from '@/components/ui';
+import { Account, AccountType, NewAccount } from '@/types';
+import { ACCOUNT_TYPES, CURRENCIES, CURRENCY_OPTIONS, CurrencyCode } from '@/lib/utils/constants';
+import { accountSchema } from '@/lib/utils/validators';
+import { formatAmountForInput, parseCurrencyToCents } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface AccountModalProps {
+  isOpen: boolean;
+  account?: Account | null; // Edit this account instead of creating one
+  onClose: () => void;
+  onSave: (account: NewAccount) => Promise<void>;
+}
+
+const typeOptions = Object.entries(ACCOUNT_TYPES).map(([value, config]) => ({
+  value,
+  label: config.name,
+}));
+
+// Credit cards are entered as the amount owed and stored as a negative balance
+const isLiability = (type: AccountType) => type === 'credit_card';
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per account (or per open) so the form resets
+const AccountModal = ({ isOpen, account, onClose, onSave }: AccountModalProps) => {
+  const { settings } = useSettings();
+
+  const initialType = account?.type ?? 'checking';
+  const initialCurrency = account?.currency ?? settings.currency;
+  const [name, setName] = useState(account?.name ?? '');
+  const [type, setType] = useState<AccountType>(initialType);
+  const [currency, setCurrency] = useState<CurrencyCode>(initialCurrency);
+  const [balance, setBalance] = useState(
+    account
+      ? formatAmountForInput(isLiability(initialType) ? -account.openingBalance : account.openingBalance, initialCurrency)
+      : ''
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const entered = parseCurrencyToCents(balance, currency);
+    const result = accountSchema.safeParse({
+      name,
+      type,
+      currency,
+      openingBalance: isLiability(type) ? -entered : entered,
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(result.data);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save account');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={account ? 'Edit Account' : 'Add Account'}
+      size="md"
+    >
+      <div className="space-y-4 py-2">
+        <Input
+          label="Name"
+          placeholder="e.g. Everyday Checking"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <Select
+            label="Type"
+            options={typeOptions}
+            value={type}
+            onChange={(e) => setType(e.target.value as AccountType)}
+          />
+          <Select
+            label="Currency"
+            options={CURRENCY_OPTIONS}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+          />
+        </div>
+        <CurrencyInput
+          label={isLiability(type) ? 'Amount Owed' : 'Opening Balance'}
+          placeholder="0.00"
+          value={balance}
+          onChange={(e) => setBalance(e.target.value)}
+          currency={CURRENCIES[currency].symbol}
+          helperText={
+            isLiability(type)
+              ? 'What you owed before the first transaction recorded here'
+              : 'What the account held before the first transaction recorded here'
+          }
+        />
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSave} isLoading={isSaving} disabled={!name.trim()}>
+          {account ? 'Save Changes' : 'Add Account'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { AccountModal };
@@ -0,0 +1,95 @@
+'use client';
+
+// ============================================
+// Account Transfer List Component
+// ============================================
+
+import { ArrowRight, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Skeleton } from '@/components/ui';
+import { Account, AccountTransfer } from '@/types';
+import { formatDateSmart } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface AccountTransferListProps {
+  transfers: AccountTransfer[];
+  accounts: Account[];
+  isLoading?: boolean;
+  onDelete?: (transfer: AccountTransfer) => void;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const AccountTransferList = ({ transfers, accounts, isLoading, onDelete, className }: AccountTransferListProps) => {
+  const { formatCurrency } = useSettings();
+
+  const accountsById = new Map(accounts.map((account) => [account.id, account]));
+  const getName = (accountId: string) => accountsById.get(accountId)?.name ?? 'Deleted account';
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>Transfers</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : transfers.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+            Transfers between your accounts appear here.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {transfers.map((transfer) => {
+              const from = accountsById.get(transfer.fromAccountId);
+              const to = accountsById.get(transfer.toAccountId);
+
+              return (
+                <div key={transfer.id} className="group flex items-center gap-3 py-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="flex items-center gap-1.5 text-sm font-medium text-gray-900 dark:text-white">
+                      <span className="truncate">{getName(transfer.fromAccountId)}</span>
+                      <ArrowRight className="h-3.5 w-3.5 flex-shrink-0 text-gray-400" />
+                      <span className="truncate">{getName(transfer.toAccountId)}</span>
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDateSmart(transfer.date)}
+                      {transfer.note && ` • ${transfer.note}`}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white">
+                      {formatCurrency(transfer.amount, true, from?.currency)}
+                    </p>
+                    {transfer.toAmount !== undefined && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        → {formatCurrency(transfer.toAmount, true, to?.currency)}
+                      </p>
+                    )}
+                  </div>
+                  {onDelete && (
+                    <button
+                      onClick={() => onDelete(transfer)}
+                      className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500 transition-colors sm:opacity-0 sm:group-hover:opacity-100"
+                      aria-label="Delete transfer"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { AccountTransferList };
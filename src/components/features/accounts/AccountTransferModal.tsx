@@ -0,0 +1,146 @@
+'use client';
+
+// ============================================
+// Account Transfer Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { ArrowDown } from 'lucide-react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select, DatePicker } from '@/components/ui';
+import { AccountBalance, NewAccountTransfer } from '@/types';
+import { CURRENCIES } from '@/lib/utils/constants';
+import { formatDateForInput, parseDateFromInput, parseCurrencyToCents } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface AccountTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  balances: AccountBalance[];
+  onTransfer: (transfer: NewAccountTransfer) => Promise<unknown>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key that changes on open so the form starts empty
+const AccountTransferModal = ({ isOpen, onClose, balances, onTransfer }: AccountTransferModalProps) => {
+  const { formatCurrency } = useSettings();
+
+  const [fromAccountId, setFromAccountId] = useState('');
+  const [toAccountId, setToAccountId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [toAmount, setToAmount] = useState('');
+  const [date, setDate] = useState(formatDateForInput(new Date()));
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountOptions = useMemo(
+    () =>
+      balances.map(({ account, balance }) => ({
+        value: account.id,
+        label: `${account.name} (${formatCurrency(balance, true, account.currency)})`,
+      })),
+    [balances, formatCurrency]
+  );
+
+  const from = balances.find(({ account }) => account.id === fromAccountId)?.account;
+  const to = balances.find(({ account }) => account.id === toAccountId)?.account;
+
+  // Across currencies the received amount is asked for, since fees and rates vary
+  const isCrossCurrency = Boolean(from && to && from.currency !== to.currency);
+
+  const amountInCents = from ? parseCurrencyToCents(amount, from.currency) : 0;
+  const toAmountInCents = to ? parseCurrencyToCents(toAmount, to.currency) : 0;
+  const isValid =
+    from && to && from.id !== to.id && amountInCents > 0 && date && (!isCrossCurrency || toAmountInCents > 0);
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onTransfer({
+        fromAccountId,
+        toAccountId,
+        amount: amountInCents,
+        ...(isCrossCurrency && { toAmount: toAmountInCents }),
+        date: parseDateFromInput(date),
+        ...(note.trim() && { note: note.trim() }),
+      });
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Transfer Between Accounts"
+      description="Moving money doesn't count as income or spending"
+      size="md"
+    >
+      <div className="space-y-4 py-2">
+        <Select
+          label="From"
+          placeholder="Select an account"
+          options={accountOptions}
+          value={fromAccountId}
+          onChange={(e) => setFromAccountId(e.target.value)}
+        />
+        <div className="flex justify-center">
+          <ArrowDown className="h-5 w-5 text-gray-400" />
+        </div>
+        <Select
+          label="To"
+          placeholder="Select an account"
+          options={accountOptions.filter((option) => option.value !== fromAccountId)}
+          value={toAccountId}
+          onChange={(e) => setToAccountId(e.target.value)}
+        />
+        <div className={isCrossCurrency ? 'grid grid-cols-2 gap-3' : undefined}>
+          <CurrencyInput
+            label={isCrossCurrency ? 'Amount Sent' : 'Amount'}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            currency={from ? CURRENCIES[from.currency].symbol : undefined}
+          />
+          {isCrossCurrency && to && (
+            <CurrencyInput
+              label="Amount Received"
+              value={toAmount}
+              onChange={(e) => setToAmount(e.target.value)}
+              currency={CURRENCIES[to.currency].symbol}
+            />
+          )}
+        </div>
+        <DatePicker label="Date" value={date} onChange={setDate} />
+        <Input
+          label="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. Credit card payment"
+        />
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSubmit} isLoading={isSaving} disabled={!isValid}>
+          Transfer
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { AccountTransferModal };
@@ -0,0 +1,8 @@
+// ============================================
+// Account Features Barrel Export
+// ============================================
+
+export * from './AccountBalancesCard';
+export * from './AccountModal';
+export * from './AccountTransferModal';
+export * from './AccountTransferList';
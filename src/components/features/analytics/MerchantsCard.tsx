@@ -0,0 +1,159 @@
+'use client';
+
+// ============================================
+// Merchants Card Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Store, Plus, Sparkles } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Badge, Skeleton } from '@/components/ui';
+import { PayeeEditorModal } from '@/components/features/payees';
+import { NewPayee } from '@/types';
+import { getDateRange, getLastNMonths } from '@/lib/utils/dateUtils';
+import { formatPercentage } from '@/lib/utils/formatters';
+import { calculateMerchantBreakdown, findNewMerchants } from '@/services/analytics';
+import { useExpenses, usePayees, useSettings, useToast } from '@/hooks';
+
+// ============================================
+// Helpers
+// ============================================
+
+// A merchant counts as new when it hasn't been paid in the rest of this window
+const WINDOW_MONTHS = 12;
+const TOP_LIMIT = 8;
+
+// ============================================
+// Component
+// ============================================
+
+const MerchantsCard = () => {
+  const range = useMemo(() => getLastNMonths(WINDOW_MONTHS), []);
+  const thisMonth = useMemo(() => getDateRange('month'), []);
+  const { expenses, isLoading: expensesLoading } = useExpenses({ dateRange: range });
+  const { payees, isLoading: payeesLoading, addPayee } = usePayees();
+  const { formatCurrency, toBaseCurrency } = useSettings();
+  const toast = useToast();
+
+  const [draft, setDraft] = useState<NewPayee | null>(null);
+
+  const breakdown = useMemo(
+    () => calculateMerchantBreakdown(toBaseCurrency(expenses), payees, range),
+    [expenses, payees, range, toBaseCurrency]
+  );
+  const newMerchants = useMemo(() => findNewMerchants(breakdown, thisMonth), [breakdown, thisMonth]);
+  const top = breakdown.slice(0, TOP_LIMIT);
+
+  const handleSave = async (payee: NewPayee) => {
+    try {
+      await addPayee(payee);
+      toast.success('Payee created');
+    } catch (error) {
+      toast.error('Failed to save payee');
+      throw error;
+    }
+  };
+
+  const isLoading = expensesLoading || payeesLoading;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <Store className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+            <div>
+              <CardTitle>Top Merchants</CardTitle>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Last {WINDOW_MONTHS} months</p>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          {isLoading ? (
+            <div className="space-y-3">
+              {Array.from({ length: 3 }).map((_, i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : top.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+              Add descriptions to expenses to see where your money goes.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-3">
+                {top.map((merchant) => {
+                  const peak = Math.max(...merchant.monthly.map((month) => month.amount), 1);
+                  return (
+                    <div key={merchant.key} className="flex items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                            {merchant.name}
+                          </span>
+                          {!merchant.payeeId && (
+                            <button
+                              type="button"
+                              onClick={() => setDraft({ name: merchant.name, aliases: [merchant.name] })}
+                              className="text-gray-400 hover:text-indigo-600"
+                              aria-label={`Create a payee for ${merchant.name}`}
+                              title="Create payee"
+                            >
+                              <Plus className="h-3.5 w-3.5" />
+                            </button>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {formatCurrency(merchant.amount)} • {merchant.count}{' '}
+                          {merchant.count === 1 ? 'expense' : 'expenses'} • {formatPercentage(merchant.percentage, 0)}
+                        </p>
+                      </div>
+                      {/* Spend per month, oldest first */}
+                      <div className="flex items-end gap-0.5 h-8" aria-hidden>
+                        {merchant.monthly.map((month) => (
+                          <div
+                            key={month.monthKey}
+                            className="w-1.5 rounded-sm bg-teal-500/80"
+                            style={{ height: `${Math.max((month.amount / peak) * 100, month.amount > 0 ? 8 : 2)}%` }}
+                            title={`${month.monthKey}: ${formatCurrency(month.amount)}`}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {newMerchants.length > 0 && (
+                <div className="space-y-2">
+                  <p className="flex items-center gap-1.5 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+                    <Sparkles className="h-3.5 w-3.5" />
+                    New this month
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {newMerchants.map((merchant) => (
+                      <Badge key={merchant.key} variant="info" size="sm">
+                        {merchant.name} · {formatCurrency(merchant.amount)}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payee Editor Modal */}
+      <PayeeEditorModal
+        key={draft?.name ?? 'none'}
+        payee={draft}
+        isNew
+        onClose={() => setDraft(null)}
+        onSave={handleSave}
+        expenses={expenses}
+      />
+    </>
+  );
+};
+
+export { MerchantsCard };
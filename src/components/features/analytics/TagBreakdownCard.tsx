@@ -0,0 +1,85 @@
+'use client';
+
+// ============================================
+// Tag Breakdown Card Component
+// ============================================
+
+import { Hash } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Skeleton } from '@/components/ui';
+import { TagBreakdown } from '@/types';
+import { formatPercentage, formatTag } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface TagBreakdownCardProps {
+  data: TagBreakdown[];
+  isLoading?: boolean;
+  title?: string;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const TagBreakdownCard = ({ data, isLoading, title = 'Spending by Tag', className }: TagBreakdownCardProps) => {
+  const { formatCurrency } = useSettings();
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : data.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-6 text-center">
+            <Hash className="h-6 w-6 text-gray-300 dark:text-gray-600" />
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Tag expenses, like a trip or project, to total them across categories.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {data.map((item) => (
+              <div key={item.tag} className="flex items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex justify-between items-center mb-1 gap-2">
+                    <span className="text-sm font-medium text-indigo-600 dark:text-indigo-400 truncate">
+                      {formatTag(item.tag)}
+                    </span>
+                    <span className="text-sm text-gray-500 whitespace-nowrap">
+                      {formatCurrency(item.amount)}
+                      <span className="text-xs text-gray-400">
+                        {' '}• {item.count} {item.count === 1 ? 'expense' : 'expenses'}
+                      </span>
+                    </span>
+                  </div>
+                  <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                    <div
+                      className="h-full rounded-full bg-indigo-500 transition-all duration-500"
+                      style={{ width: `${Math.min(item.percentage, 100)}%` }}
+                    />
+                  </div>
+                </div>
+                <span className="text-xs text-gray-500 w-12 text-right">
+                  {formatPercentage(item.percentage, 0)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { TagBreakdownCard };
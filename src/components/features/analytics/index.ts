@@ -2,5 +2,5 @@
 // Analytics Features Barrel Export
 // ============================================
 
-// Placeholder for future analytics components
-// Will be expanded with more specific analytics views
+export * from './TagBreakdownCard';
+export * from './MerchantsCard';
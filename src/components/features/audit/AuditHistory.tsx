@@ -0,0 +1,165 @@
+'use client';
+
+// ============================================
+// Audit History Component
+// ============================================
+
+import { useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { History, ChevronDown, ChevronUp } from 'lucide-react';
+import { Badge, Skeleton } from '@/components/ui';
+import { AuditAction, AuditEntry, AuditSource, ExpenseSplit, FieldChange } from '@/types';
+import { CurrencyCode, INCOME_TYPES } from '@/lib/utils/constants';
+import { formatDate } from '@/lib/utils/formatters';
+import { useAuditLog, useSettings, useCategories, useAccounts } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface AuditHistoryProps {
+  kind: AuditEntry['kind'];
+  recordId: string;
+  // The record's current currency, used for amounts when a change didn't touch it
+  currency?: CurrencyCode;
+}
+
+const actionLabels: Record<AuditAction, string> = {
+  create: 'Created',
+  update: 'Edited',
+  delete: 'Deleted',
+  restore: 'Restored',
+};
+
+const sourceLabels: Record<AuditSource, string> = {
+  manual: 'Manual edit',
+  import: 'Import',
+  recurring: 'Recurring rule',
+  bulk: 'Bulk edit',
+};
+
+const fieldLabels: Record<string, string> = {
+  amount: 'Amount',
+  currency: 'Currency',
+  category: 'Category',
+  description: 'Description',
+  date: 'Date',
+  tags: 'Tags',
+  splits: 'Splits',
+  accountId: 'Account',
+  isRecurring: 'Recurring',
+  recurringId: 'Recurring rule',
+  type: 'Type',
+  source: 'Source',
+  note: 'Note',
+  isRegular: 'Regular',
+};
+
+// ============================================
+// Component
+// ============================================
+
+const AuditHistory = ({ kind, recordId, currency }: AuditHistoryProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // Only read once the section is opened
+  const { entries, isLoading, error } = useAuditLog(kind, isOpen ? recordId : null);
+  const { settings, formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const { accounts } = useAccounts();
+
+  const formatValue = (field: string, value: unknown, valueCurrency: CurrencyCode): string => {
+    if (value === null || value === '') return '—';
+    if (value instanceof Timestamp) return formatDate(value);
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+
+    switch (field) {
+      case 'amount':
+        return formatCurrency(value as number, true, valueCurrency);
+      case 'category':
+        return getCategoryById(value as string)?.name || (value as string);
+      case 'accountId':
+        return accounts.find((account) => account.id === value)?.name || (value as string);
+      case 'type':
+        return INCOME_TYPES[value as keyof typeof INCOME_TYPES]?.name || (value as string);
+      case 'tags':
+        return (value as string[]).length > 0 ? (value as string[]).join(', ') : '—';
+      case 'splits':
+        return (value as ExpenseSplit[])
+          .map(
+            (split) =>
+              `${getCategoryById(split.category)?.name || split.category} ${formatCurrency(split.amount, true, valueCurrency)}`
+          )
+          .join(', ');
+      default:
+        return String(value);
+    }
+  };
+
+  // Amounts are in the currency the record had on each side of the change
+  const renderChange = (change: FieldChange, entry: AuditEntry) => {
+    const currencyChange = entry.changes.find((item) => item.field === 'currency');
+    const current = currency ?? settings.currency;
+    const fromCurrency = ((currencyChange ? currencyChange.from : current) ?? settings.currency) as CurrencyCode;
+    const toCurrency = ((currencyChange ? currencyChange.to : current) ?? settings.currency) as CurrencyCode;
+
+    return (
+      <li key={change.field} className="text-xs text-gray-600 dark:text-gray-400">
+        <span className="font-medium text-gray-700 dark:text-gray-300">
+          {fieldLabels[change.field] || change.field}:
+        </span>{' '}
+        <span className="line-through">{formatValue(change.field, change.from, fromCurrency)}</span>
+        {' → '}
+        {formatValue(change.field, change.to, toCurrency)}
+      </li>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-100 dark:border-gray-800 pt-3">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className="flex w-full items-center justify-between text-sm font-medium text-gray-700 dark:text-gray-300"
+      >
+        <span className="flex items-center gap-2">
+          <History className="h-4 w-4" />
+          History
+        </span>
+        {isOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 max-h-64 overflow-y-auto space-y-3">
+          {isLoading ? (
+            <>
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </>
+          ) : error ? (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No changes have been recorded yet.</p>
+          ) : (
+            entries.map((entry) => (
+              <div key={entry.id} className="space-y-1">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">{actionLabels[entry.action]}</p>
+                  <Badge size="sm">{sourceLabels[entry.source]}</Badge>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatDate(entry.changedAt, 'MMM d, yyyy h:mm a')}
+                  </p>
+                </div>
+                {/* Creates and restores list every field, so only edits show their details */}
+                {entry.action === 'update' && (
+                  <ul className="space-y-0.5">{entry.changes.map((change) => renderChange(change, entry))}</ul>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { AuditHistory };
@@ -0,0 +1,5 @@
+// ============================================
+// Audit Features Barrel Export
+// ============================================
+
+export * from './AuditHistory';
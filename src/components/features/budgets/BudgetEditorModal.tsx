@@ -0,0 +1,112 @@
+'use client';
+
+// ============================================
+// Budget Editor Modal Component
+// ============================================
+
+import { useState } from 'react';
+import * as LucideIcons from 'lucide-react';
+import { Modal, ModalFooter, Button, CurrencyInput } from '@/components/ui';
+import { CategoryBudget, CategoryId } from '@/types';
+import { formatAmountForInput } from '@/lib/utils/formatters';
+import { useSettings, useCategories, useToast } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface BudgetEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  budgets: CategoryBudget[];
+  onSetBudget: (category: CategoryId, amount: number) => Promise<void>;
+  onDeleteBudget: (category: CategoryId) => Promise<void>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key that changes on open so the inputs start from the saved budgets
+const BudgetEditorModal = ({ isOpen, onClose, budgets, onSetBudget, onDeleteBudget }: BudgetEditorModalProps) => {
+  const { settings, currencySymbol, parseCurrency } = useSettings();
+  const { allCategories } = useCategories();
+  const toast = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [amounts, setAmounts] = useState<Record<string, string>>(() =>
+    Object.fromEntries(budgets.map((budget) => [budget.category, formatAmountForInput(budget.amount, settings.currency)]))
+  );
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // Only write categories whose budget actually changed
+      for (const category of allCategories) {
+        const existing = budgets.find((budget) => budget.category === category.id);
+        const amount = parseCurrency(amounts[category.id] || '');
+
+        if (amount > 0 && amount !== existing?.amount) {
+          await onSetBudget(category.id, amount);
+        } else if (amount <= 0 && existing) {
+          await onDeleteBudget(category.id);
+        }
+      }
+      onClose();
+    } catch {
+      // Keep the form open so the budgets can be saved again
+      toast.error('Failed to save budgets');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Monthly Budgets"
+      description="Leave a category empty to have no budget for it"
+      size="lg"
+    >
+      <div className="space-y-3 py-2 max-h-[60vh] overflow-y-auto">
+        {allCategories.map((category) => {
+          const IconComponent = LucideIcons[category.icon as keyof typeof LucideIcons] as React.ElementType;
+
+          return (
+            <div key={category.id} className="flex items-center gap-3">
+              <div
+                className="flex-shrink-0 h-9 w-9 rounded-full flex items-center justify-center"
+                style={{ backgroundColor: `${category.color}20` }}
+              >
+                {IconComponent && <IconComponent className="h-4 w-4" style={{ color: category.color }} />}
+              </div>
+              <p className="flex-1 text-sm font-medium text-gray-900 dark:text-white truncate">
+                {category.name}
+              </p>
+              <div className="w-40">
+                <CurrencyInput
+                  value={amounts[category.id] || ''}
+                  onChange={(e) => setAmounts((prev) => ({ ...prev, [category.id]: e.target.value }))}
+                  currency={currencySymbol}
+                  placeholder="No budget"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSave} isLoading={isSaving}>
+          Save Budgets
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { BudgetEditorModal };
@@ -0,0 +1,168 @@
+'use client';
+
+// ============================================
+// Budget Progress List Component
+// ============================================
+
+import { useState } from 'react';
+import { PiggyBank, Pencil, ArrowLeftRight } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Skeleton } from '@/components/ui';
+import { BudgetProgress, BudgetStatus, CategoryBudget, CategoryId, NewBudgetTransfer } from '@/types';
+import { formatPercentage } from '@/lib/utils/formatters';
+import { useSettings, useCategories } from '@/hooks';
+import { cn } from '@/lib/cn';
+import { BudgetEditorModal } from './BudgetEditorModal';
+import { EnvelopeTransferModal } from './EnvelopeTransferModal';
+
+// ============================================
+// Types
+// ============================================
+
+interface BudgetProgressListProps {
+  progress: BudgetProgress[];
+  budgets: CategoryBudget[];
+  isLoading?: boolean;
+  onSetBudget: (category: CategoryId, amount: number) => Promise<void>;
+  onDeleteBudget: (category: CategoryId) => Promise<void>;
+  // Only passed in envelope mode, where money can move between categories
+  onTransfer?: (transfer: NewBudgetTransfer) => Promise<void>;
+  className?: string;
+}
+
+const barColors: Record<BudgetStatus, string> = {
+  ok: 'bg-green-500',
+  warning: 'bg-amber-500',
+  exceeded: 'bg-red-500',
+};
+
+// ============================================
+// Component
+// ============================================
+
+const BudgetProgressList = ({
+  progress,
+  budgets,
+  isLoading,
+  onSetBudget,
+  onDeleteBudget,
+  onTransfer,
+  className,
+}: BudgetProgressListProps) => {
+  const { formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
+
+  // Most-used budgets first
+  const sorted = [...progress].sort((a, b) => b.percentage - a.percentage);
+
+  return (
+    <>
+      <Card className={className}>
+        <CardHeader
+          action={
+            <div className="flex items-center gap-1">
+              {onTransfer && progress.length > 1 && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsTransferOpen(true)}
+                  leftIcon={<ArrowLeftRight className="h-4 w-4" />}
+                >
+                  Move
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setIsEditorOpen(true)}
+                leftIcon={<Pencil className="h-4 w-4" />}
+              >
+                Edit
+              </Button>
+            </div>
+          }
+        >
+          <div className="flex items-center gap-2">
+            <PiggyBank className="h-5 w-5 text-indigo-500" />
+            <CardTitle>{onTransfer ? 'Envelopes' : 'Monthly Budgets'}</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-10 w-full" />
+              ))}
+            </div>
+          ) : sorted.length === 0 ? (
+            <div className="text-center py-6">
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Set a monthly limit for a category to track it here.
+              </p>
+              <Button variant="outline" size="sm" onClick={() => setIsEditorOpen(true)}>
+                Set Budgets
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {sorted.map(({ budget, available, spent, remaining, percentage, status }) => {
+                const category = getCategoryById(budget.category);
+
+                return (
+                  <div key={budget.id}>
+                    <div className="flex justify-between items-center mb-1 gap-3">
+                      <span className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {category?.name || budget.category}
+                      </span>
+                      <span className="text-sm text-gray-500 whitespace-nowrap">
+                        {formatCurrency(spent)} / {formatCurrency(available)}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-gray-100 dark:bg-gray-800 rounded-full overflow-hidden">
+                      <div
+                        className={cn('h-full rounded-full transition-all duration-500', barColors[status])}
+                        style={{ width: `${Math.min(percentage, 100)}%` }}
+                      />
+                    </div>
+                    <p
+                      className={cn(
+                        'text-xs mt-1',
+                        status === 'exceeded' ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'
+                      )}
+                    >
+                      {remaining >= 0
+                        ? `${formatCurrency(remaining)} left • ${formatPercentage(percentage, 0)} used`
+                        : `${formatCurrency(-remaining)} over budget`}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <BudgetEditorModal
+        key={isEditorOpen ? 'open' : 'closed'}
+        isOpen={isEditorOpen}
+        onClose={() => setIsEditorOpen(false)}
+        budgets={budgets}
+        onSetBudget={onSetBudget}
+        onDeleteBudget={onDeleteBudget}
+      />
+
+      {onTransfer && (
+        <EnvelopeTransferModal
+          key={isTransferOpen ? 'open' : 'closed'}
+          isOpen={isTransferOpen}
+          onClose={() => setIsTransferOpen(false)}
+          progress={progress}
+          onTransfer={onTransfer}
+        />
+      )}
+    </>
+  );
+};
+
+export { BudgetProgressList };
@@ -0,0 +1,155 @@
+'use client';
+
+// ============================================
+// Envelope History Table Component
+// ============================================
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Skeleton } from '@/components/ui';
+import { BudgetTransfer, EnvelopeMonth } from '@/types';
+import { getMonthYearKey } from '@/lib/utils/dateUtils';
+import { useSettings, useCategories } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface EnvelopeHistoryTableProps {
+  history: EnvelopeMonth[];
+  transfers: BudgetTransfer[];
+  isLoading?: boolean;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const EnvelopeHistoryTable = ({ history, transfers, isLoading, className }: EnvelopeHistoryTableProps) => {
+  const { formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+
+  // Offset back from the latest month, so new data keeps the view on the current month
+  const [offset, setOffset] = useState(0);
+  const index = Math.max(history.length - 1 - offset, 0);
+  const current = history[index];
+
+  const monthTransfers = current
+    ? transfers.filter((transfer) => getMonthYearKey(transfer.date.toDate()) === current.monthKey)
+    : [];
+
+  const getName = (category: string) => getCategoryById(category)?.name || category;
+
+  const signed = (amount: number) => (amount > 0 ? `+${formatCurrency(amount)}` : formatCurrency(amount));
+
+  return (
+    <Card className={className}>
+      <CardHeader
+        action={
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOffset((prev) => prev + 1)}
+              disabled={index === 0}
+              aria-label="Previous month"
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-600 dark:text-gray-400 min-w-24 text-center">
+              {current ? format(current.month, 'MMMM yyyy') : '—'}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setOffset((prev) => prev - 1)}
+              disabled={offset === 0}
+              aria-label="Next month"
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        }
+      >
+        <CardTitle>Envelope History</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : !current ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+            Envelope balances appear here once a budget is set.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-800">
+                    <th className="py-2 pr-3 font-medium">Envelope</th>
+                    <th className="py-2 px-3 font-medium text-right">Carried In</th>
+                    <th className="py-2 px-3 font-medium text-right">Budgeted</th>
+                    <th className="py-2 px-3 font-medium text-right">Moved</th>
+                    <th className="py-2 px-3 font-medium text-right">Spent</th>
+                    <th className="py-2 pl-3 font-medium text-right">Carried Out</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {current.envelopes.map((envelope) => (
+                    <tr key={envelope.category} className="border-b border-gray-50 dark:border-gray-800/50">
+                      <td className="py-2 pr-3 font-medium text-gray-900 dark:text-white">
+                        {getName(envelope.category)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                        {formatCurrency(envelope.opening)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                        {formatCurrency(envelope.allocation)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                        {envelope.transfers === 0 ? '—' : signed(envelope.transfers)}
+                      </td>
+                      <td className="py-2 px-3 text-right text-gray-600 dark:text-gray-400">
+                        {formatCurrency(envelope.spent)}
+                      </td>
+                      <td
+                        className={cn(
+                          'py-2 pl-3 text-right font-medium',
+                          envelope.closing < 0
+                            ? 'text-red-600 dark:text-red-400'
+                            : 'text-gray-900 dark:text-white'
+                        )}
+                      >
+                        {formatCurrency(envelope.closing)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {monthTransfers.length > 0 && (
+              <div className="mt-4 space-y-1">
+                <p className="text-xs font-medium uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                  Transfers
+                </p>
+                {monthTransfers.map((transfer) => (
+                  <p key={transfer.id} className="text-sm text-gray-600 dark:text-gray-400">
+                    {format(transfer.date.toDate(), 'MMM d')}: {formatCurrency(transfer.amount)} from{' '}
+                    {getName(transfer.fromCategory)} to {getName(transfer.toCategory)}
+                    {transfer.note && ` — ${transfer.note}`}
+                  </p>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { EnvelopeHistoryTable };
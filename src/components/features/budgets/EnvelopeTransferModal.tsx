@@ -0,0 +1,125 @@
+'use client';
+
+// ============================================
+// Envelope Transfer Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { ArrowDown } from 'lucide-react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select } from '@/components/ui';
+import { BudgetProgress, NewBudgetTransfer } from '@/types';
+import { useSettings, useCategories, useToast } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface EnvelopeTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  progress: BudgetProgress[];
+  onTransfer: (transfer: NewBudgetTransfer) => Promise<void>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key that changes on open so the form starts empty
+const EnvelopeTransferModal = ({ isOpen, onClose, progress, onTransfer }: EnvelopeTransferModalProps) => {
+  const { formatCurrency, currencySymbol, parseCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const toast = useToast();
+
+  const [fromCategory, setFromCategory] = useState('');
+  const [toCategory, setToCategory] = useState('');
+  const [amount, setAmount] = useState('');
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const envelopeOptions = useMemo(
+    () =>
+      progress.map(({ budget, remaining }) => ({
+        value: budget.category,
+        label: `${getCategoryById(budget.category)?.name || budget.category} (${formatCurrency(remaining)})`,
+      })),
+    [progress, getCategoryById, formatCurrency]
+  );
+
+  const amountInCents = parseCurrency(amount);
+  const isValid = fromCategory && toCategory && fromCategory !== toCategory && amountInCents > 0;
+
+  const handleSubmit = async () => {
+    if (!isValid) return;
+
+    setIsSaving(true);
+    try {
+      await onTransfer({
+        fromCategory,
+        toCategory,
+        amount: amountInCents,
+        date: new Date(),
+        ...(note.trim() && { note: note.trim() }),
+      });
+      onClose();
+    } catch {
+      // Keep the form open so the transfer can be tried again
+      toast.error('Failed to move money');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Move Money"
+      description="Shift this month's budget from one envelope to another"
+      size="md"
+    >
+      <div className="space-y-4 py-2">
+        <Select
+          label="From"
+          placeholder="Select an envelope"
+          options={envelopeOptions}
+          value={fromCategory}
+          onChange={(e) => setFromCategory(e.target.value)}
+        />
+        <div className="flex justify-center">
+          <ArrowDown className="h-5 w-5 text-gray-400" />
+        </div>
+        <Select
+          label="To"
+          placeholder="Select an envelope"
+          options={envelopeOptions.filter((option) => option.value !== fromCategory)}
+          value={toCategory}
+          onChange={(e) => setToCategory(e.target.value)}
+        />
+        <CurrencyInput
+          label="Amount"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          currency={currencySymbol}
+        />
+        <Input
+          label="Note (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="e.g. Dinner with friends ran over"
+        />
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSubmit} isLoading={isSaving} disabled={!isValid}>
+          Move Money
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { EnvelopeTransferModal };
@@ -0,0 +1,8 @@
+// ============================================
+// Budget Features Barrel Export
+// ============================================
+
+export * from './BudgetProgressList';
+export * from './BudgetEditorModal';
+export * from './EnvelopeTransferModal';
+export * from './EnvelopeHistoryTable';
@@ -0,0 +1,135 @@
+'use client';
+
+// ============================================
+// Pay Period Card Component
+// ============================================
+
+import { Wallet } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Skeleton } from '@/components/ui';
+import { PayPeriodStatus } from '@/types';
+import { formatDate, formatDateSmart, formatChange } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface PayPeriodCardProps {
+  status: PayPeriodStatus;
+  isLoading?: boolean;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const PayPeriodCard = ({ status, isLoading, className }: PayPeriodCardProps) => {
+  const { formatCurrency } = useSettings();
+
+  // The current period is drawn after the previous ones, on the same scale
+  const bars = [
+    ...status.previous.map((summary) => ({ key: summary.start.getTime(), spent: summary.spent, isCurrent: false })),
+    { key: status.period.start.getTime(), spent: status.spent, isCurrent: true },
+  ];
+  const peak = Math.max(...bars.map((bar) => bar.spent), 1);
+  const hasHistory = status.previous.some((summary) => summary.spent > 0);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <Wallet className="h-5 w-5 text-cyan-600 dark:text-cyan-400" />
+          <div>
+            <CardTitle>This Pay Period</CardTitle>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatDate(status.period.start, 'MMM d')} – {formatDate(status.period.end, 'MMM d')} • Next payday{' '}
+              {formatDateSmart(status.nextPayday)}
+            </p>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        {isLoading ? (
+          <div className="space-y-3">
+            <Skeleton className="h-12 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Spent since payday</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatCurrency(status.spent)}</p>
+                {hasHistory && (
+                  <p
+                    className={cn(
+                      'text-xs',
+                      status.change > 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'
+                    )}
+                  >
+                    {formatChange(status.change)} vs usual by now
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">Safe to spend per day</p>
+                <p
+                  className={cn(
+                    'text-2xl font-bold',
+                    status.safeToSpend > 0 ? 'text-gray-900 dark:text-white' : 'text-red-600 dark:text-red-400'
+                  )}
+                >
+                  {formatCurrency(status.safeToSpendPerDay)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {status.daysLeft} {status.daysLeft === 1 ? 'day' : 'days'} left
+                </p>
+              </div>
+            </div>
+
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                <span>{status.income > 0 ? 'Paid this period' : 'Expected pay'}</span>
+                <span>{formatCurrency(status.expectedPay)}</span>
+              </div>
+              <div className="flex justify-between text-gray-600 dark:text-gray-400">
+                <span>Bills due before payday</span>
+                <span>−{formatCurrency(status.upcomingBills)}</span>
+              </div>
+              <div className="flex justify-between font-medium text-gray-900 dark:text-white">
+                <span>Left to spend</span>
+                <span>{formatCurrency(status.safeToSpend)}</span>
+              </div>
+            </div>
+
+            {hasHistory && (
+              <div>
+                <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+                  Previous pay periods
+                </p>
+                {/* Spend per period, oldest first */}
+                <div className="flex items-end gap-1 h-12" aria-hidden>
+                  {bars.map((bar) => (
+                    <div
+                      key={bar.key}
+                      className={cn('flex-1 rounded-sm', bar.isCurrent ? 'bg-cyan-500' : 'bg-gray-300 dark:bg-gray-700')}
+                      style={{ height: `${Math.max((bar.spent / peak) * 100, 4)}%` }}
+                      title={formatCurrency(bar.spent)}
+                    />
+                  ))}
+                </div>
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  Usually {formatCurrency(status.averageSpentToDate)} spent by this point
+                </p>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { PayPeriodCard };
@@ -10,6 +10,7 @@ import { TrendingUp, TrendingDown, Minus, DollarSign, CreditCard, PiggyBank, Cal
 import { cn } from '@/lib/cn';
 import { formatPercentage, formatChange } from '@/lib/utils/formatters';
 import { useSettings } from '@/hooks';
+import { PeriodMode } from '@/types';
 
 // ============================================
 // Types
@@ -22,6 +23,8 @@ interface QuickStatsProps {
   savingsRate: number;
   momChange?: number;
   daysUntilPayday?: number;
+  // Which period the totals cover, for the labels
+  periodMode?: PeriodMode;
   isLoading?: boolean;
 }
 
@@ -37,6 +40,7 @@ interface StatCardProps {
   glowColor: string;
   delay?: number;
   isCurrency?: boolean;
+  periodLabel?: string;
 }
 
 // ============================================
@@ -92,6 +96,7 @@ const StatCard = ({
   glowColor,
   delay = 0,
   isCurrency = true,
+  periodLabel = 'This month',
 }: StatCardProps) => {
   const { formatCurrency } = useSettings();
   const animatedValue = useAnimatedCounter(value, 1200);
@@ -174,7 +179,7 @@ const StatCard = ({
             ) : (
               <div className="flex items-center gap-1 sm:gap-1.5 text-[10px] sm:text-xs text-gray-400">
                 <Sparkles className="h-2.5 w-2.5 sm:h-3 sm:w-3" />
-                <span>This month</span>
+                <span>{periodLabel}</span>
               </div>
             )}
           </div>
@@ -224,8 +229,11 @@ const QuickStats = ({
   savingsRate,
   momChange,
   daysUntilPayday,
+  periodMode = 'month',
   isLoading,
 }: QuickStatsProps) => {
+  const periodLabel = periodMode === 'payPeriod' ? 'This pay period' : 'This month';
+
   if (isLoading) {
     return (
       <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 auto-rows-fr">
@@ -245,12 +253,13 @@ const QuickStats = ({
         gradient="linear-gradient(135deg, #11998e 0%, #38ef7d 100%)"
         glowColor="#22c55e"
         delay={0}
+        periodLabel={periodLabel}
       />
       <StatCard
         label="Total Expenses"
         value={totalExpenses}
         change={momChange}
-        changeLabel="vs last month"
+        changeLabel={periodMode === 'payPeriod' ? 'vs usual pay period' : 'vs last month'}
         icon={CreditCard}
         gradient="linear-gradient(135deg, #eb3349 0%, #f45c43 100%)"
         glowColor="#ef4444"
@@ -269,6 +278,7 @@ const QuickStats = ({
         }
         glowColor={netAmount >= 0 ? "#8b5cf6" : "#f97316"}
         delay={0.2}
+        periodLabel={periodLabel}
       />
       <StatCard
         label="Next Payday"
@@ -11,7 +11,7 @@ import { ChevronRight, Trash2 } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
 import { Card, CardHeader, CardTitle, CardContent, Button, Badge } from '@/components/ui';
 import { Expense } from '@/types';
-import { CATEGORIES } from '@/lib/utils/constants';
+import { CATEGORIES, CurrencyCode } from '@/lib/utils/constants';
 import { formatDateSmart } from '@/lib/utils/formatters';
 import { useSettings, useCategories } from '@/hooks';
 import { cn } from '@/lib/cn';
@@ -34,7 +34,7 @@ interface ActivityItemProps {
   expense: Expense;
   index: number;
   onDelete?: (id: string) => void;
-  formatCurrency: (cents: number) => string;
+  formatCurrency: (cents: number, showCents?: boolean, currency?: CurrencyCode) => string;
   getCategoryInfo: (id: string) => { name: string; icon: string; color: string; type: string };
 }
 
@@ -78,7 +78,7 @@ const ActivityItem = ({ expense, index, onDelete, formatCurrency, getCategoryInf
       {/* Amount */}
       <div className="flex items-center gap-2">
         <p className="text-sm font-semibold text-gray-900 dark:text-white">
-          -{formatCurrency(expense.amount)}
+          -{formatCurrency(expense.amount, true, expense.currency)}
         </p>
         {onDelete && (
           <button
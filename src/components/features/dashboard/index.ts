@@ -4,3 +4,4 @@
 
 export * from './QuickStats';
 export * from './RecentActivity';
+export * from './PayPeriodCard';
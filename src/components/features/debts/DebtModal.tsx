@@ -0,0 +1,130 @@
+'use client';
+
+// ============================================
+// Debt Modal Component
+// ============================================
+
+import { useState } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput } from '@/components/ui';
+import { DebtStatus, NewDebt } from '@/types';
+import { debtSchema } from '@/lib/utils/validators';
+import { formatAmountForInput } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface DebtModalProps {
+  isOpen: boolean;
+  status?: DebtStatus | null; // Edit this debt instead of creating one
+  onClose: () => void;
+  onSave: (debt: NewDebt) => Promise<void>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per debt (or per open) so the form resets
+const DebtModal = ({ isOpen, status, onClose, onSave }: DebtModalProps) => {
+  const { settings, currencySymbol, parseCurrency } = useSettings();
+  const debt = status?.debt;
+
+  const [name, setName] = useState(debt?.name ?? '');
+  const [balance, setBalance] = useState(status ? formatAmountForInput(status.balance, settings.currency) : '');
+  const [apr, setApr] = useState(debt ? String(debt.apr) : '');
+  const [minimumPayment, setMinimumPayment] = useState(
+    debt ? formatAmountForInput(debt.minimumPayment, settings.currency) : ''
+  );
+  const [dueDay, setDueDay] = useState(debt ? String(debt.dueDay) : '1');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    const result = debtSchema.safeParse({
+      name,
+      balance: parseCurrency(balance),
+      apr: parseFloat(apr),
+      minimumPayment: minimumPayment ? parseCurrency(minimumPayment) : 0,
+      dueDay: parseInt(dueDay, 10),
+    });
+    if (!result.success) {
+      setError(result.error.issues[0].message);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(result.data);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save debt');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={debt ? 'Edit Debt' : 'Add Debt'} size="md">
+      <div className="space-y-4 py-2">
+        <Input
+          label="Name"
+          placeholder="e.g. Visa card, Car loan"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput
+            label="Balance"
+            placeholder="0.00"
+            value={balance}
+            onChange={(e) => setBalance(e.target.value)}
+            currency={currencySymbol}
+            helperText="Owed today. Payments from today on come off it."
+          />
+          <Input
+            label="APR (%)"
+            type="number"
+            inputMode="decimal"
+            min={0}
+            step="0.01"
+            placeholder="e.g. 19.99"
+            value={apr}
+            onChange={(e) => setApr(e.target.value)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput
+            label="Minimum payment"
+            placeholder="0.00"
+            value={minimumPayment}
+            onChange={(e) => setMinimumPayment(e.target.value)}
+            currency={currencySymbol}
+          />
+          <Input
+            label="Due day"
+            type="number"
+            min={1}
+            max={31}
+            value={dueDay}
+            onChange={(e) => setDueDay(e.target.value)}
+            helperText="Day of the month"
+          />
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button variant="primary" onClick={handleSave} isLoading={isSaving} disabled={!name.trim()}>
+          {debt ? 'Save Changes' : 'Add Debt'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { DebtModal };
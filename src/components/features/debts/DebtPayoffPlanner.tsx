@@ -0,0 +1,223 @@
+'use client';
+
+// ============================================
+// Debt Payoff Planner Component
+// ============================================
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronUp, Mountain, Snowflake } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, CurrencyInput, Badge } from '@/components/ui';
+import { DebtPayoffPlan, DebtStatus, PayoffStrategy } from '@/types';
+import { useSettings } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface DebtPayoffPlannerProps {
+  plans: Record<PayoffStrategy, DebtPayoffPlan>;
+  statuses: DebtStatus[];
+  // Added on top of the minimums
+  extraPayment: string;
+  onExtraPaymentChange: (value: string) => void;
+  monthlyPayment: number;
+  className?: string;
+}
+
+const strategyConfig = {
+  snowball: {
+    name: 'Snowball',
+    description: 'Smallest balance first, for quick wins',
+    icon: Snowflake,
+    color: 'text-blue-500 bg-blue-500/10',
+  },
+  avalanche: {
+    name: 'Avalanche',
+    description: 'Highest interest rate first, for the least interest',
+    icon: Mountain,
+    color: 'text-violet-500 bg-violet-500/10',
+  },
+} as const;
+
+const STRATEGIES: PayoffStrategy[] = ['snowball', 'avalanche'];
+
+// ============================================
+// Component
+// ============================================
+
+const DebtPayoffPlanner = ({
+  plans,
+  statuses,
+  extraPayment,
+  onExtraPaymentChange,
+  monthlyPayment,
+  className,
+}: DebtPayoffPlannerProps) => {
+  const { formatCurrency, currencySymbol } = useSettings();
+  const [showSchedule, setShowSchedule] = useState(false);
+
+  const names = new Map(statuses.map(({ debt }) => [debt.id, debt.name]));
+  const savings = plans.snowball.totalInterest - plans.avalanche.totalInterest;
+  const cheaper: PayoffStrategy | null = savings > 0 ? 'avalanche' : savings < 0 ? 'snowball' : null;
+  const longest = Math.max(plans.snowball.months.length, plans.avalanche.months.length);
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div>
+          <CardTitle>Payoff Planner</CardTitle>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Paying {formatCurrency(monthlyPayment)} a month across all debts
+          </p>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <CurrencyInput
+          label="Extra each month"
+          placeholder="0.00"
+          value={extraPayment}
+          onChange={(e) => onExtraPaymentChange(e.target.value)}
+          currency={currencySymbol}
+          helperText="On top of the minimums. It goes to one debt at a time, and each paid-off minimum rolls into the next."
+        />
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          {STRATEGIES.map((strategy) => {
+            const plan = plans[strategy];
+            const config = strategyConfig[strategy];
+            const Icon = config.icon;
+
+            return (
+              <div
+                key={strategy}
+                className={cn(
+                  'rounded-xl border p-4 space-y-3',
+                  cheaper === strategy
+                    ? 'border-emerald-500/40 bg-emerald-500/5'
+                    : 'border-gray-200 dark:border-gray-700'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <div className={cn('p-2 rounded-lg', config.color)}>
+                      <Icon className="h-4 w-4" />
+                    </div>
+                    <div>
+                      <p className="font-semibold text-gray-900 dark:text-white">{config.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{config.description}</p>
+                    </div>
+                  </div>
+                  {cheaper === strategy && (
+                    <Badge variant="success" size="sm">
+                      Saves {formatCurrency(Math.abs(savings))}
+                    </Badge>
+                  )}
+                </div>
+
+                <div className="space-y-1.5">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">Debt-free</span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {plan.payoffDate ? format(plan.payoffDate, 'MMM yyyy') : 'Never'}
+                    </span>
+                  </div>
+                  {plan.payoffDate && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-500 dark:text-gray-400">Months</span>
+                      <span className="font-medium text-gray-900 dark:text-white">{plan.months.length}</span>
+                    </div>
+                  )}
+                  <div className="flex justify-between text-sm">
+                    <span className="text-gray-500 dark:text-gray-400">Total interest</span>
+                    <span className="font-medium text-red-600 dark:text-red-400">
+                      {formatCurrency(plan.totalInterest)}
+                    </span>
+                  </div>
+                </div>
+
+                {/* Payoff order */}
+                <ol className="space-y-1 pt-2 border-t border-gray-100 dark:border-gray-800">
+                  {plan.debts.map(({ debtId, payoffDate }, index) => (
+                    <li key={debtId} className="flex justify-between gap-2 text-xs">
+                      <span className="text-gray-600 dark:text-gray-300 truncate">
+                        {index + 1}. {names.get(debtId) ?? debtId}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400 shrink-0">
+                        {payoffDate ? format(payoffDate, 'MMM yyyy') : '—'}
+                      </span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            );
+          })}
+        </div>
+
+        {plans.snowball.payoffDate === null && plans.avalanche.payoffDate === null && longest > 0 && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            These payments don&apos;t keep up with the interest. Add to the monthly payment to see a payoff date.
+          </p>
+        )}
+
+        {/* Month by month */}
+        {longest > 0 && (
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowSchedule(!showSchedule)}
+              className="flex items-center gap-1 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              {showSchedule ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              Month by month
+            </button>
+            {showSchedule && (
+              <div className="mt-3 max-h-80 overflow-y-auto rounded-lg border border-gray-100 dark:border-gray-800">
+                <table className="w-full text-xs">
+                  <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">Month</th>
+                      {STRATEGIES.map((strategy) => (
+                        <th key={strategy} className="px-3 py-2 text-right font-medium">
+                          {strategyConfig[strategy].name}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {Array.from({ length: longest }).map((_, index) => {
+                      const { month } = plans.snowball.months[index] ?? plans.avalanche.months[index];
+                      return (
+                        <tr key={month.getTime()}>
+                          <td className="px-3 py-1.5 text-gray-600 dark:text-gray-300">
+                            {index + 1}. {format(month, 'MMM yyyy')}
+                          </td>
+                          {STRATEGIES.map((strategy) => {
+                            const row = plans[strategy].months[index];
+                            return (
+                              <td key={strategy} className="px-3 py-1.5 text-right">
+                                <span className="font-medium text-gray-900 dark:text-white">
+                                  {formatCurrency(row?.totalBalance ?? 0)}
+                                </span>
+                                {row && row.interest > 0 && (
+                                  <span className="block text-red-500">+{formatCurrency(row.interest)} interest</span>
+                                )}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { DebtPayoffPlanner };
@@ -0,0 +1,147 @@
+'use client';
+
+// ============================================
+// Debts Card Component
+// ============================================
+
+import { Edit2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Skeleton } from '@/components/ui';
+import { DebtStatus } from '@/types';
+import { formatDateSmart } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface DebtsCardProps {
+  statuses: DebtStatus[];
+  totalBalance: number;
+  totalMinimum: number;
+  isLoading?: boolean;
+  onAdd?: () => void;
+  onEdit?: (status: DebtStatus) => void;
+  onDelete?: (status: DebtStatus) => void;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const DebtsCard = ({
+  statuses,
+  totalBalance,
+  totalMinimum,
+  isLoading,
+  onAdd,
+  onEdit,
+  onDelete,
+  className,
+}: DebtsCardProps) => {
+  const { formatCurrency } = useSettings();
+
+  return (
+    <Card className={className}>
+      <CardHeader
+        action={
+          onAdd && (
+            <Button variant="primary" size="sm" onClick={onAdd} leftIcon={<Plus className="h-4 w-4" />}>
+              Add
+            </Button>
+          )
+        }
+      >
+        <div>
+          <CardTitle>Debts</CardTitle>
+          {!isLoading && statuses.length > 0 && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Owed{' '}
+              <span className="font-semibold text-gray-900 dark:text-white">{formatCurrency(totalBalance)}</span>
+              {' • '}
+              {formatCurrency(totalMinimum)}/mo minimum
+            </p>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <Skeleton key={i} className="h-14 w-full" />
+            ))}
+          </div>
+        ) : statuses.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-6">
+            No debts yet. Add a loan or card balance to plan paying it off.
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100 dark:divide-gray-800">
+            {statuses.map((status) => {
+              const { debt, balance, paid, nextDueDate } = status;
+              const start = debt.balance;
+              const paidShare = start > 0 ? Math.min(100, (paid / start) * 100) : 100;
+
+              return (
+                <div key={debt.id} className="group py-3">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{debt.name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {debt.apr}% APR • {formatCurrency(debt.minimumPayment)} min
+                        {balance > 0 && ` • due ${formatDateSmart(nextDueDate)}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p
+                        className={cn(
+                          'text-sm font-semibold',
+                          balance === 0 ? 'text-emerald-600 dark:text-emerald-400' : 'text-gray-900 dark:text-white'
+                        )}
+                      >
+                        {balance === 0 ? 'Paid off' : formatCurrency(balance)}
+                      </p>
+                      {paid > 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">{formatCurrency(paid)} paid</p>
+                      )}
+                    </div>
+                    {(onEdit || onDelete) && (
+                      <div className="flex items-center gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+                        {onEdit && (
+                          <button
+                            onClick={() => onEdit(status)}
+                            className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+                            aria-label={`Edit ${debt.name}`}
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                        )}
+                        {onDelete && (
+                          <button
+                            onClick={() => onDelete(status)}
+                            className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500 transition-colors"
+                            aria-label={`Delete ${debt.name}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                  {paid > 0 && (
+                    <div className="mt-2 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                      <div className="h-full rounded-full bg-emerald-500" style={{ width: `${paidShare}%` }} />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { DebtsCard };
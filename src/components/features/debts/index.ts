@@ -0,0 +1,7 @@
+// ============================================
+// Debt Features Barrel Export
+// ============================================
+
+export * from './DebtsCard';
+export * from './DebtModal';
+export * from './DebtPayoffPlanner';
@@ -0,0 +1,197 @@
+'use client';
+
+// ============================================
+// Bulk Edit Expenses Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Modal, ModalFooter, Button, Input, Select, TagInput } from '@/components/ui';
+import { ExpenseBulkEdit, ExpenseCategory } from '@/types';
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
+import { normalizeTag } from '@/lib/utils/formatters';
+import { useCategories } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+export type ExpenseBulkAction = 'category' | 'tags' | 'shiftDate' | 'recurring' | 'delete';
+
+interface BulkEditExpensesModalProps {
+  action: ExpenseBulkAction | null;
+  selectedCount: number;
+  onClose: () => void;
+  onApply: (edit: ExpenseBulkEdit) => Promise<void>;
+  onDelete: () => Promise<void>;
+  tagSuggestions?: string[];
+}
+
+const titles: Record<ExpenseBulkAction, string> = {
+  category: 'Change Category',
+  tags: 'Edit Tags',
+  shiftDate: 'Shift Date',
+  recurring: 'Mark Recurring',
+  delete: 'Delete Expenses',
+};
+
+const recurringOptions = [
+  { value: 'true', label: 'Recurring' },
+  { value: 'false', label: 'One-off' },
+];
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with key={action} so the form resets for each action
+const BulkEditExpensesModal = ({
+  action,
+  selectedCount,
+  onClose,
+  onApply,
+  onDelete,
+  tagSuggestions,
+}: BulkEditExpensesModalProps) => {
+  const { allCategories } = useCategories();
+
+  const [category, setCategory] = useState<string>('');
+  const [tagMode, setTagMode] = useState<'add' | 'remove'>('add');
+  const [tags, setTags] = useState<string[]>([]);
+  const [days, setDays] = useState('');
+  const [isRecurring, setIsRecurring] = useState('true');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryOptions = useMemo(
+    () => [
+      { value: '', label: 'Select a category' },
+      ...allCategories.map((cat) => ({ value: cat.id, label: cat.name })),
+    ],
+    [allCategories]
+  );
+
+  const dayCount = parseInt(days, 10);
+  const noun = selectedCount === 1 ? 'expense' : 'expenses';
+
+  const getEdit = (): ExpenseBulkEdit | null => {
+    switch (action) {
+      case 'category':
+        return category ? { type: 'category', category: category as ExpenseCategory } : null;
+      case 'tags': {
+        const normalized = tags.map(normalizeTag).filter(Boolean);
+        if (normalized.length === 0) return null;
+        return tagMode === 'add'
+          ? { type: 'addTags', tags: normalized }
+          : { type: 'removeTags', tags: normalized };
+      }
+      case 'shiftDate':
+        return Number.isInteger(dayCount) && dayCount !== 0 ? { type: 'shiftDate', days: dayCount } : null;
+      case 'recurring':
+        return { type: 'recurring', isRecurring: isRecurring === 'true' };
+      default:
+        return null;
+    }
+  };
+
+  const edit = getEdit();
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      if (action === 'delete') {
+        await onDelete();
+      } else if (edit) {
+        await onApply(edit);
+      }
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={action !== null}
+      onClose={onClose}
+      title={action ? titles[action] : ''}
+      size="sm"
+    >
+      <div className="space-y-4 py-2">
+        {action === 'category' && (
+          <Select
+            label={`Category for ${selectedCount} ${noun}`}
+            options={categoryOptions}
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          />
+        )}
+
+        {action === 'tags' && (
+          <>
+            <div className="flex gap-2">
+              {(['add', 'remove'] as const).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setTagMode(mode)}
+                  className={cn(
+                    'flex-1 py-2 rounded-lg border text-sm font-medium transition-colors',
+                    tagMode === mode
+                      ? 'border-indigo-500 bg-indigo-50 text-indigo-700 dark:bg-indigo-900/20 dark:text-indigo-300'
+                      : 'border-gray-200 text-gray-700 dark:border-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800'
+                  )}
+                >
+                  {mode === 'add' ? 'Add tags' : 'Remove tags'}
+                </button>
+              ))}
+            </div>
+            <TagInput label="Tags" value={tags} onChange={setTags} suggestions={tagSuggestions} />
+          </>
+        )}
+
+        {action === 'shiftDate' && (
+          <Input
+            label="Days"
+            type="number"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            helperText={`Moves each of the ${selectedCount} ${noun} by this many days. Use a negative number to move them earlier.`}
+          />
+        )}
+
+        {action === 'recurring' && (
+          <Select
+            label={`Mark ${selectedCount} ${noun} as`}
+            options={recurringOptions}
+            value={isRecurring}
+            onChange={(e) => setIsRecurring(e.target.value)}
+          />
+        )}
+
+        {action === 'delete' && (
+          <p className="text-gray-600 dark:text-gray-400">
+            {selectedCount} {noun} will be moved to the trash, where they can be restored for {TRASH_RETENTION_DAYS} days.
+          </p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant={action === 'delete' ? 'danger' : 'primary'}
+          onClick={handleConfirm}
+          isLoading={isSaving}
+          disabled={action !== 'delete' && !edit}
+        >
+          {action === 'delete' ? 'Delete' : 'Apply'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { BulkEditExpensesModal };
@@ -0,0 +1,259 @@
+'use client';
+
+// ============================================
+// Edit Expense Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Repeat, Split } from 'lucide-react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select, DatePicker, TagInput } from '@/components/ui';
+import { Expense, ExpenseCategory, NewExpense, RecurringEditScope } from '@/types';
+import { formatDateForInput, parseDateFromInput, parseCurrencyToCents, formatAmountForInput } from '@/lib/utils/formatters';
+import { CURRENCIES, CURRENCY_OPTIONS, CurrencyCode, DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
+import { validateExpenseSplits } from '@/lib/utils/validators';
+import { getPrimarySplitCategory } from '@/services/analytics';
+import { useSettings, useCategories, useAccounts, useDebts } from '@/hooks';
+import { cn } from '@/lib/cn';
+import { AuditHistory } from '@/components/features/audit';
+import { ExpenseSplitEditor, SplitDraft, toSplitDrafts, toExpenseSplits } from './ExpenseSplitEditor';
+
+// ============================================
+// Types
+// ============================================
+
+interface EditExpenseModalProps {
+  expense: Expense | null;
+  onClose: () => void;
+  onSave: (expense: Expense, updates: Partial<NewExpense>, scope: RecurringEditScope) => Promise<void>;
+  tagSuggestions?: string[];
+}
+
+const scopeOptions: { value: RecurringEditScope; label: string; description: string }[] = [
+  { value: 'occurrence', label: 'This occurrence only', description: 'Other occurrences stay as they are' },
+  { value: 'future', label: 'This and future', description: 'Also updates the recurring rule' },
+];
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with key={expense.id} so the form resets for each expense
+const EditExpenseModal = ({ expense, onClose, onSave, tagSuggestions }: EditExpenseModalProps) => {
+  const { settings } = useSettings();
+  const { allCategories } = useCategories();
+  const { accounts } = useAccounts();
+  const { debts } = useDebts();
+
+  const originalCurrency = expense?.currency ?? settings.currency;
+  const [currency, setCurrency] = useState<CurrencyCode>(originalCurrency);
+  const [amount, setAmount] = useState(expense ? formatAmountForInput(expense.amount, originalCurrency) : '');
+  const [category, setCategory] = useState<string>(expense?.category ?? '');
+  const originalAccountId = expense?.accountId || DEFAULT_ACCOUNT_ID;
+  const [accountId, setAccountId] = useState(originalAccountId);
+  const [debtId, setDebtId] = useState(expense?.debtId ?? '');
+  const [description, setDescription] = useState(expense?.description ?? '');
+  const [date, setDate] = useState(expense ? formatDateForInput(expense.date.toDate()) : '');
+  const [tags, setTags] = useState<string[]>(expense?.tags ?? []);
+  const [splits, setSplits] = useState<SplitDraft[]>(
+    expense?.splits ? toSplitDrafts(expense.splits, originalCurrency) : []
+  );
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const [scope, setScope] = useState<RecurringEditScope>('occurrence');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isSplit = splits.length > 0;
+  const amountInCents = parseCurrencyToCents(amount, currency);
+
+  const categoryOptions = useMemo(
+    () => allCategories.map((cat) => ({ value: cat.id, label: cat.name })),
+    [allCategories]
+  );
+
+  const accountOptions = accounts.map((account) => ({ value: account.id, label: account.name }));
+  const debtOptions = [
+    { value: '', label: 'Not a debt payment' },
+    ...debts.map((debt) => ({ value: debt.id, label: debt.name })),
+  ];
+
+  const toggleSplit = () => {
+    setSplitError(null);
+    if (isSplit) {
+      setSplits([]);
+      return;
+    }
+    // Start with the whole amount in the current category and an empty second split
+    setSplits([
+      { category, amount, note: '' },
+      { category: '', amount: '', note: '' },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!expense) return;
+
+    const newSplits = toExpenseSplits(splits, currency);
+    if (isSplit) {
+      const error = validateExpenseSplits(amountInCents, newSplits);
+      if (error) {
+        setSplitError(error);
+        return;
+      }
+    }
+
+    // Only send fields that actually changed
+    const updates: Partial<NewExpense> = {};
+    if (amountInCents !== expense.amount) updates.amount = amountInCents;
+    if (currency !== originalCurrency) updates.currency = currency;
+    if (isSplit) {
+      // The parent category follows the largest split so filters still have one to go on
+      updates.splits = newSplits;
+      const primary = getPrimarySplitCategory(newSplits);
+      if (primary !== expense.category) updates.category = primary;
+    } else {
+      // An empty list clears any previous split
+      if (expense.splits) updates.splits = [];
+      if (category !== expense.category) updates.category = category as ExpenseCategory;
+    }
+    if (accountId !== originalAccountId) updates.accountId = accountId;
+    // An empty id clears the link
+    if (debtId !== (expense.debtId ?? '')) updates.debtId = debtId;
+    if (description !== expense.description) updates.description = description;
+    if (date !== formatDateForInput(expense.date.toDate())) updates.date = parseDateFromInput(date);
+    if (tags.join() !== (expense.tags ?? []).join()) updates.tags = tags;
+
+    if (Object.keys(updates).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(expense, updates, scope);
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={expense !== null} onClose={onClose} title="Edit Expense" size="md">
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <CurrencyInput
+              label="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              currency={CURRENCIES[currency].symbol}
+            />
+          </div>
+          <Select
+            label="Currency"
+            options={CURRENCY_OPTIONS}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+          />
+        </div>
+        {!isSplit && (
+          <Select
+            label="Category"
+            options={categoryOptions}
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+          />
+        )}
+        <div className="space-y-3">
+          <button
+            type="button"
+            onClick={toggleSplit}
+            className="flex items-center gap-2 text-sm font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            <Split className="h-4 w-4" />
+            {isSplit ? 'Use a single category' : 'Split across categories'}
+          </button>
+          {isSplit && (
+            <ExpenseSplitEditor
+              splits={splits}
+              onChange={(next) => {
+                setSplits(next);
+                setSplitError(null);
+              }}
+              total={amountInCents}
+              currency={currency}
+              error={splitError}
+            />
+          )}
+        </div>
+        {accountOptions.length > 1 && (
+          <Select
+            label="Account"
+            options={accountOptions}
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+          />
+        )}
+        {(debts.length > 0 || debtId) && (
+          <Select
+            label="Pays toward"
+            options={debtOptions}
+            value={debtId}
+            onChange={(e) => setDebtId(e.target.value)}
+          />
+        )}
+        <DatePicker label="Date" value={date} onChange={setDate} />
+        <Input
+          label="Description"
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+        />
+        <TagInput label="Tags" value={tags} onChange={setTags} suggestions={tagSuggestions} />
+
+        {/* Recurring scope */}
+        {expense?.recurringId && (
+          <div className="space-y-2">
+            <p className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <Repeat className="h-4 w-4" />
+              Apply changes to
+            </p>
+            {scopeOptions.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setScope(option.value)}
+                className={cn(
+                  'w-full text-left p-3 rounded-lg border transition-colors',
+                  scope === option.value
+                    ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                )}
+              >
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {expense && <AuditHistory kind="expense" recordId={expense.id} currency={expense.currency} />}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          isLoading={isSaving}
+          disabled={!amount || parseFloat(amount) <= 0 || (!isSplit && !category) || !date}
+        >
+          Save Changes
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { EditExpenseModal };
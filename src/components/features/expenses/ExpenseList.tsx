@@ -7,14 +7,17 @@
 import { useState, useCallback, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
-import { Trash2, Edit2, Filter, Search } from 'lucide-react';
+import { Trash2, Edit2, Filter, Repeat, ChevronDown, Hash, CheckSquare, Tag, CalendarClock, Folder } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import { Card, Button, Input, Badge, Modal, ModalFooter } from '@/components/ui';
-import { Expense, ExpenseCategory } from '@/types';
-import { CATEGORIES } from '@/lib/utils/constants';
-import { formatDateSmart } from '@/lib/utils/formatters';
-import { useSettings, useCategories } from '@/hooks';
+import { Card, Button, Badge, Modal, ModalFooter, LoadMoreTrigger, BulkActionBar } from '@/components/ui';
+import { Expense, ExpenseBulkEdit, RecurringEditScope } from '@/types';
+import { CATEGORIES, CurrencyCode, TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
+import { formatDateSmart, formatTag } from '@/lib/utils/formatters';
+import { getExpenseAllocations, getUsedTags, isFilterEmpty, matchesTransactionFilter } from '@/services/analytics';
+import { useSettings, useCategories, useSelection, useTransactionQuery } from '@/hooks';
+import { QueryBar } from '@/components/features/search';
 import { cn } from '@/lib/cn';
+import { BulkEditExpensesModal, ExpenseBulkAction } from './BulkEditExpensesModal';
 
 // ============================================
 // Types
@@ -25,6 +28,14 @@ interface ExpenseListProps {
   isLoading?: boolean;
   onEdit?: (expense: Expense) => void;
   onDelete?: (id: string) => Promise<void>;
+  onEndRecurring?: (expense: Expense, scope: RecurringEditScope) => Promise<void>;
+  // Infinite scroll: older expenses are asked for as the end of the list comes into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Bulk actions; passing either lets rows be selected
+  onBulkEdit?: (ids: string[], edit: ExpenseBulkEdit) => Promise<void>;
+  onBulkDelete?: (ids: string[]) => Promise<void>;
 }
 
 // ============================================
@@ -36,13 +47,27 @@ interface ExpenseRowProps {
   index: number;
   onEdit?: (expense: Expense) => void;
   onDelete?: (id: string) => void;
-  formatCurrency: (cents: number) => string;
+  formatCurrency: (cents: number, showCents?: boolean, currency?: CurrencyCode) => string;
   getCategoryInfo: (id: string) => { name: string; icon: string; color: string; type: string };
+  // Shown with a checkbox while selecting; shift-click extends from the last toggled row
+  isSelected?: boolean;
+  onToggleSelect?: (extend: boolean) => void;
 }
 
-const ExpenseRow = ({ expense, index, onEdit, onDelete, formatCurrency, getCategoryInfo }: ExpenseRowProps) => {
+const ExpenseRow = ({
+  expense,
+  index,
+  onEdit,
+  onDelete,
+  formatCurrency,
+  getCategoryInfo,
+  isSelected,
+  onToggleSelect,
+}: ExpenseRowProps) => {
+  const [isExpanded, setIsExpanded] = useState(false);
   const category = getCategoryInfo(expense.category as string);
   const IconComponent = LucideIcons[category.icon as keyof typeof LucideIcons] as React.ElementType;
+  const splits = expense.splits ?? [];
 
   return (
     <motion.div
@@ -50,61 +75,121 @@ const ExpenseRow = ({ expense, index, onEdit, onDelete, formatCurrency, getCateg
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, x: -100 }}
       transition={{ delay: index * 0.02, duration: 0.2 }}
-      className="group flex items-center gap-4 p-4 bg-white dark:bg-gray-900 rounded-xl border border-gray-100 dark:border-gray-800 hover:shadow-md transition-shadow"
+      className={cn(
+        'group p-4 bg-white dark:bg-gray-900 rounded-xl border hover:shadow-md transition-shadow',
+        isSelected ? 'border-indigo-400 dark:border-indigo-600' : 'border-gray-100 dark:border-gray-800'
+      )}
     >
-      {/* Category Icon */}
-      <div
-        className="flex-shrink-0 h-12 w-12 rounded-xl flex items-center justify-center"
-        style={{ backgroundColor: `${category.color}15` }}
-      >
-        {IconComponent && (
-          <IconComponent className="h-6 w-6" style={{ color: category.color }} />
+      <div className="flex items-center gap-4">
+        {onToggleSelect && (
+          <input
+            type="checkbox"
+            checked={isSelected}
+            readOnly
+            onClick={(e) => onToggleSelect(e.shiftKey)}
+            className="h-4 w-4 flex-shrink-0 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            aria-label="Select expense"
+          />
         )}
-      </div>
 
-      {/* Details */}
-      <div className="flex-1 min-w-0">
-        <div className="flex items-center gap-2 mb-1">
-          <p className="text-sm font-semibold text-gray-900 dark:text-white">
-            {category.name}
-          </p>
-          <Badge
-            variant={category.type === 'fixed' ? 'info' : 'warning'}
-            size="sm"
-          >
-            {category.type}
-          </Badge>
+        {/* Category Icon */}
+        <div
+          className="flex-shrink-0 h-12 w-12 rounded-xl flex items-center justify-center"
+          style={{ backgroundColor: `${category.color}15` }}
+        >
+          {IconComponent && (
+            <IconComponent className="h-6 w-6" style={{ color: category.color }} />
+          )}
         </div>
-        <p className="text-xs text-gray-500 dark:text-gray-400">
-          {formatDateSmart(expense.date)}
-          {expense.description && ` • ${expense.description}`}
-        </p>
-      </div>
 
-      {/* Amount & Actions */}
-      <div className="flex items-center gap-3">
-        <p className="text-lg font-bold text-gray-900 dark:text-white">
-          {formatCurrency(expense.amount)}
-        </p>
-        <div className="flex items-center gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
-          {onEdit && (
-            <button
-              onClick={() => onEdit(expense)}
-              className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
-            >
-              <Edit2 className="h-4 w-4" />
-            </button>
-          )}
-          {onDelete && (
-            <button
-              onClick={() => onDelete(expense.id)}
-              className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500 transition-colors"
+        {/* Details */}
+        <div className="flex-1 min-w-0">
+          <div className="flex items-center gap-2 mb-1">
+            <p className="text-sm font-semibold text-gray-900 dark:text-white">
+              {category.name}
+            </p>
+            <Badge
+              variant={category.type === 'fixed' ? 'info' : 'warning'}
+              size="sm"
             >
-              <Trash2 className="h-4 w-4" />
-            </button>
-          )}
+              {category.type}
+            </Badge>
+            {expense.recurringId && (
+              <Repeat className="h-3.5 w-3.5 text-indigo-500" aria-label="Recurring" />
+            )}
+            {splits.length > 0 && (
+              <button
+                onClick={() => setIsExpanded((prev) => !prev)}
+                className="flex items-center gap-0.5 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                aria-expanded={isExpanded}
+              >
+                Split {splits.length} ways
+                <ChevronDown className={cn('h-3.5 w-3.5 transition-transform', isExpanded && 'rotate-180')} />
+              </button>
+            )}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatDateSmart(expense.date)}
+            {expense.description && ` • ${expense.description}`}
+            {expense.tags?.map((tag) => (
+              <span key={tag} className="ml-1.5 text-indigo-600 dark:text-indigo-400">
+                {formatTag(tag)}
+              </span>
+            ))}
+          </p>
+        </div>
+
+        {/* Amount & Actions */}
+        <div className="flex items-center gap-3">
+          <p className="text-lg font-bold text-gray-900 dark:text-white">
+            {formatCurrency(expense.amount, true, expense.currency)}
+          </p>
+          <div className="flex items-center gap-1 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity">
+            {onEdit && (
+              <button
+                onClick={() => onEdit(expense)}
+                className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors"
+              >
+                <Edit2 className="h-4 w-4" />
+              </button>
+            )}
+            {onDelete && (
+              <button
+                onClick={() => onDelete(expense.id)}
+                className="p-2 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 text-gray-400 hover:text-red-500 transition-colors"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            )}
+          </div>
         </div>
       </div>
+
+      {/* Split breakdown */}
+      {isExpanded && splits.length > 0 && (
+        <div className="mt-3 ml-16 space-y-1.5 border-l-2 border-gray-100 dark:border-gray-800 pl-3">
+          {splits.map((split, splitIndex) => {
+            const splitCategory = getCategoryInfo(split.category as string);
+            return (
+              <div key={splitIndex} className="flex items-center justify-between gap-3 text-sm">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span
+                    className="h-2 w-2 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: splitCategory.color }}
+                  />
+                  <span className="text-gray-700 dark:text-gray-300">{splitCategory.name}</span>
+                  {split.note && (
+                    <span className="text-xs text-gray-500 dark:text-gray-400 truncate">• {split.note}</span>
+                  )}
+                </div>
+                <span className="text-gray-900 dark:text-white font-medium">
+                  {formatCurrency(split.amount, true, expense.currency)}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
     </motion.div>
   );
 };
@@ -113,12 +198,27 @@ const ExpenseRow = ({ expense, index, onEdit, onDelete, formatCurrency, getCateg
 // Main Component
 // ============================================
 
-const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps) => {
+const ExpenseList = ({
+  expenses,
+  isLoading,
+  onEdit,
+  onDelete,
+  onEndRecurring,
+  hasMore = false,
+  isLoadingMore,
+  onLoadMore,
+  onBulkEdit,
+  onBulkDelete,
+}: ExpenseListProps) => {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [deleteId, setDeleteId] = useState<string | null>(null);
-  const { formatCurrency } = useSettings();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [bulkAction, setBulkAction] = useState<ExpenseBulkAction | null>(null);
+  const { formatCurrency, toBaseCurrency } = useSettings();
   const { allCategories, getCategoryById } = useCategories();
+  const { filter, errors: queryErrors } = useTransactionQuery(searchQuery);
 
   // Helper to get category info (supports both default and custom)
   const getCategoryInfo = useCallback((categoryId: string) => {
@@ -133,29 +233,71 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
     return { name: categoryId, icon: 'CreditCard', color: '#6B7280', type: 'variable' };
   }, [getCategoryById]);
 
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
+
+  // Amount conditions are in the base currency, so match against converted copies
+  const baseExpenses = useMemo(
+    () => new Map(toBaseCurrency(expenses).map((expense) => [expense.id, expense])),
+    [expenses, toBaseCurrency]
+  );
+
   // Filter expenses
-  const filteredExpenses = useMemo(() => expenses.filter((expense) => {
-    const catInfo = getCategoryInfo(expense.category as string);
-    const matchesSearch =
-      searchQuery === '' ||
-      catInfo.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      expense.description?.toLowerCase().includes(searchQuery.toLowerCase());
-
-    const matchesCategory =
-      selectedCategory === 'all' || expense.category === selectedCategory;
-
-    return matchesSearch && matchesCategory;
-  }), [expenses, searchQuery, selectedCategory, getCategoryInfo]);
-
-  // Group by date
-  const groupedExpenses = filteredExpenses.reduce((groups, expense) => {
-    const date = format(expense.date.toDate(), 'yyyy-MM-dd');
-    if (!groups[date]) {
-      groups[date] = [];
-    }
-    groups[date].push(expense);
-    return groups;
-  }, {} as Record<string, Expense[]>);
+  const filteredExpenses = useMemo(() => {
+    const hasQuery = !isFilterEmpty(filter);
+    const getCategoryName = (id: string) => getCategoryInfo(id).name;
+
+    return expenses.filter((expense) => {
+      // A split expense matches any of its categories, not just the primary one
+      const categoryIds = getExpenseAllocations(expense).map((allocation) => allocation.category as string);
+      const matchesQuery =
+        !hasQuery || matchesTransactionFilter(baseExpenses.get(expense.id) ?? expense, filter, getCategoryName);
+
+      const matchesCategory =
+        selectedCategory === 'all' || categoryIds.includes(selectedCategory);
+
+      const matchesTag = selectedTag === null || expense.tags?.includes(selectedTag);
+
+      return matchesQuery && matchesCategory && matchesTag;
+    });
+  }, [expenses, baseExpenses, filter, selectedCategory, selectedTag, getCategoryInfo]);
+
+  // Group by date, newest day first
+  const dayGroups = useMemo(() => {
+    const groupedExpenses = filteredExpenses.reduce((groups, expense) => {
+      const date = format(expense.date.toDate(), 'yyyy-MM-dd');
+      if (!groups[date]) {
+        groups[date] = [];
+      }
+      groups[date].push(expense);
+      return groups;
+    }, {} as Record<string, Expense[]>);
+    return Object.entries(groupedExpenses).sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime());
+  }, [filteredExpenses]);
+
+  // Selection follows the order rows are shown in, so shift-click ranges match what's on screen
+  const visibleIds = useMemo(
+    () => dayGroups.flatMap(([, dayExpenses]) => dayExpenses.map((expense) => expense.id)),
+    [dayGroups]
+  );
+  const selection = useSelection(visibleIds);
+  const canSelect = Boolean(onBulkEdit || onBulkDelete);
+
+  const stopSelecting = () => {
+    selection.clear();
+    setIsSelecting(false);
+  };
+
+  const handleBulkEdit = async (edit: ExpenseBulkEdit) => {
+    if (!onBulkEdit) return;
+    await onBulkEdit(selection.selectedIds, edit);
+    selection.clear();
+  };
+
+  const handleBulkDelete = async () => {
+    if (!onBulkDelete) return;
+    await onBulkDelete(selection.selectedIds);
+    selection.clear();
+  };
 
   const handleConfirmDelete = async () => {
     if (deleteId && onDelete) {
@@ -164,6 +306,17 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
     }
   };
 
+  // Recurring occurrences can end the whole series instead of a single row
+  const expenseToDelete = deleteId ? expenses.find((e) => e.id === deleteId) : undefined;
+  const isRecurringDelete = Boolean(expenseToDelete?.recurringId && onEndRecurring);
+
+  const handleConfirmEndRecurring = async (scope: RecurringEditScope) => {
+    if (expenseToDelete && onEndRecurring) {
+      await onEndRecurring(expenseToDelete, scope);
+      setDeleteId(null);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-4">
@@ -188,14 +341,7 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
     <>
       {/* Filters */}
       <div className="flex flex-col gap-3 mb-6">
-        <div className="w-full">
-          <Input
-            placeholder="Search expenses..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            leftIcon={<Search className="h-4 w-4" />}
-          />
-        </div>
+        <QueryBar value={searchQuery} onChange={setSearchQuery} errors={queryErrors} />
         <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
           <Button
             variant={selectedCategory === 'all' ? 'primary' : 'outline'}
@@ -217,13 +363,96 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
             </Button>
           ))}
         </div>
+        {usedTags.length > 0 && (
+          <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
+            {usedTags.map((tag) => (
+              <Button
+                key={tag}
+                variant={selectedTag === tag ? 'primary' : 'outline'}
+                size="sm"
+                onClick={() => setSelectedTag(selectedTag === tag ? null : tag)}
+                leftIcon={<Hash className="h-3.5 w-3.5" />}
+                className="flex-shrink-0 whitespace-nowrap"
+              >
+                {tag}
+              </Button>
+            ))}
+          </div>
+        )}
+        {canSelect && (isSelecting ? (
+          <BulkActionBar
+            selectedCount={selection.selectedIds.length}
+            totalCount={visibleIds.length}
+            onSelectAll={selection.selectAll}
+            onClear={stopSelecting}
+          >
+            {onBulkEdit && (
+              <>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Folder className="h-3.5 w-3.5" />}
+                  onClick={() => setBulkAction('category')}
+                >
+                  Category
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Tag className="h-3.5 w-3.5" />}
+                  onClick={() => setBulkAction('tags')}
+                >
+                  Tags
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<CalendarClock className="h-3.5 w-3.5" />}
+                  onClick={() => setBulkAction('shiftDate')}
+                >
+                  Shift Date
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  leftIcon={<Repeat className="h-3.5 w-3.5" />}
+                  onClick={() => setBulkAction('recurring')}
+                >
+                  Recurring
+                </Button>
+              </>
+            )}
+            {onBulkDelete && (
+              <Button
+                variant="danger"
+                size="sm"
+                leftIcon={<Trash2 className="h-3.5 w-3.5" />}
+                onClick={() => setBulkAction('delete')}
+              >
+                Delete
+              </Button>
+            )}
+          </BulkActionBar>
+        ) : (
+          <div>
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<CheckSquare className="h-4 w-4" />}
+              onClick={() => setIsSelecting(true)}
+              disabled={visibleIds.length === 0}
+            >
+              Select
+            </Button>
+          </div>
+        ))}
       </div>
 
       {/* Expense List */}
-      {Object.keys(groupedExpenses).length === 0 ? (
+      {dayGroups.length === 0 ? (
         <Card className="p-8 text-center">
           <p className="text-gray-500 dark:text-gray-400 mb-4">
-            {searchQuery || selectedCategory !== 'all'
+            {searchQuery || selectedCategory !== 'all' || selectedTag
               ? 'No expenses match your filters'
               : 'No expenses yet'}
           </p>
@@ -231,32 +460,46 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
       ) : (
         <div className="space-y-6">
           <AnimatePresence mode="popLayout">
-            {Object.entries(groupedExpenses)
-              .sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime())
-              .map(([date, dayExpenses]) => (
-                <div key={date}>
-                  <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
-                    {format(new Date(date), 'EEEE, MMMM d, yyyy')}
-                  </p>
-                  <div className="space-y-3">
-                    {dayExpenses.map((expense, index) => (
-                      <ExpenseRow
-                        key={expense.id}
-                        expense={expense}
-                        index={index}
-                        onEdit={onEdit}
-                        onDelete={() => setDeleteId(expense.id)}
-                        formatCurrency={formatCurrency}
-                        getCategoryInfo={getCategoryInfo}
-                      />
-                    ))}
-                  </div>
+            {dayGroups.map(([date, dayExpenses]) => (
+              <div key={date}>
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-3">
+                  {format(new Date(date), 'EEEE, MMMM d, yyyy')}
+                </p>
+                <div className="space-y-3">
+                  {dayExpenses.map((expense, index) => (
+                    <ExpenseRow
+                      key={expense.id}
+                      expense={expense}
+                      index={index}
+                      onEdit={onEdit}
+                      onDelete={() => setDeleteId(expense.id)}
+                      formatCurrency={formatCurrency}
+                      getCategoryInfo={getCategoryInfo}
+                      isSelected={selection.isSelected(expense.id)}
+                      onToggleSelect={isSelecting ? (extend) => selection.toggle(expense.id, extend) : undefined}
+                    />
+                  ))}
                 </div>
-              ))}
+              </div>
+            ))}
           </AnimatePresence>
         </div>
       )}
 
+      {/* Filters only see what's loaded, so keep reading while there's more to search */}
+      {onLoadMore && <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} />}
+
+      {/* Bulk Edit Modal */}
+      <BulkEditExpensesModal
+        key={bulkAction ?? 'none'}
+        action={bulkAction}
+        selectedCount={selection.selectedIds.length}
+        onClose={() => setBulkAction(null)}
+        onApply={handleBulkEdit}
+        onDelete={handleBulkDelete}
+        tagSuggestions={usedTags}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={deleteId !== null}
@@ -265,15 +508,28 @@ const ExpenseList = ({ expenses, isLoading, onEdit, onDelete }: ExpenseListProps
         size="sm"
       >
         <p className="text-gray-600 dark:text-gray-400">
-          Are you sure you want to delete this expense? This action cannot be undone.
+          {isRecurringDelete
+            ? 'This is a recurring expense. Delete only this occurrence, or this and all future occurrences?'
+            : `This expense will be moved to the trash, where it can be restored for ${TRASH_RETENTION_DAYS} days.`}
         </p>
         <ModalFooter>
           <Button variant="secondary" onClick={() => setDeleteId(null)}>
             Cancel
           </Button>
-          <Button variant="danger" onClick={handleConfirmDelete}>
-            Delete
-          </Button>
+          {isRecurringDelete ? (
+            <>
+              <Button variant="outline" onClick={() => handleConfirmEndRecurring('occurrence')}>
+                This occurrence
+              </Button>
+              <Button variant="danger" onClick={() => handleConfirmEndRecurring('future')}>
+                This and future
+              </Button>
+            </>
+          ) : (
+            <Button variant="danger" onClick={handleConfirmDelete}>
+              Delete
+            </Button>
+          )}
         </ModalFooter>
       </Modal>
     </>
@@ -0,0 +1,146 @@
+'use client';
+
+// ============================================
+// Expense Split Editor Component
+// ============================================
+
+import { useMemo } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button, Input, CurrencyInput, Select } from '@/components/ui';
+import { ExpenseCategory, ExpenseSplit } from '@/types';
+import { CURRENCIES, CurrencyCode } from '@/lib/utils/constants';
+import { formatAmountForInput, parseCurrencyToCents } from '@/lib/utils/formatters';
+import { useSettings, useCategories } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+// Form state for one split; amounts stay as typed until saved
+export interface SplitDraft {
+  category: string;
+  amount: string;
+  note: string;
+}
+
+interface ExpenseSplitEditorProps {
+  splits: SplitDraft[];
+  onChange: (splits: SplitDraft[]) => void;
+  total: number; // Expense amount in minor units
+  currency: CurrencyCode;
+  error?: string | null;
+}
+
+// ============================================
+// Draft Conversion
+// ============================================
+
+export const toSplitDrafts = (splits: ExpenseSplit[], currency: CurrencyCode): SplitDraft[] =>
+  splits.map((split) => ({
+    category: split.category,
+    amount: formatAmountForInput(split.amount, currency),
+    note: split.note ?? '',
+  }));
+
+export const toExpenseSplits = (drafts: SplitDraft[], currency: CurrencyCode): ExpenseSplit[] =>
+  drafts.map((draft) => ({
+    category: draft.category as ExpenseCategory,
+    amount: parseCurrencyToCents(draft.amount, currency),
+    ...(draft.note.trim() && { note: draft.note.trim() }),
+  }));
+
+// ============================================
+// Component
+// ============================================
+
+const ExpenseSplitEditor = ({ splits, onChange, total, currency, error }: ExpenseSplitEditorProps) => {
+  const { formatCurrency } = useSettings();
+  const { allCategories } = useCategories();
+
+  const categoryOptions = useMemo(
+    () => allCategories.map((cat) => ({ value: cat.id, label: cat.name })),
+    [allCategories]
+  );
+
+  const assigned = toExpenseSplits(splits, currency).reduce((sum, split) => sum + split.amount, 0);
+  const remaining = total - assigned;
+
+  const updateSplit = (index: number, changes: Partial<SplitDraft>) => {
+    onChange(splits.map((split, i) => (i === index ? { ...split, ...changes } : split)));
+  };
+
+  const addSplit = () => {
+    // Start the new split with whatever is still unassigned
+    const amount = remaining > 0 ? formatAmountForInput(remaining, currency) : '';
+    onChange([...splits, { category: '', amount, note: '' }]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {splits.map((split, index) => (
+        <div
+          key={index}
+          className="p-3 rounded-lg border border-gray-200 dark:border-gray-700 space-y-2"
+        >
+          <div className="flex items-start gap-2">
+            <div className="flex-1 grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <Select
+                options={categoryOptions}
+                placeholder="Category"
+                value={split.category}
+                onChange={(e) => updateSplit(index, { category: e.target.value })}
+                aria-label={`Split ${index + 1} category`}
+              />
+              <CurrencyInput
+                placeholder="0.00"
+                value={split.amount}
+                onChange={(e) => updateSplit(index, { amount: e.target.value })}
+                currency={CURRENCIES[currency].symbol}
+                aria-label={`Split ${index + 1} amount`}
+              />
+            </div>
+            {splits.length > 2 && (
+              <button
+                type="button"
+                onClick={() => onChange(splits.filter((_, i) => i !== index))}
+                className="mt-2 p-1 rounded text-gray-400 hover:text-red-500 transition-colors"
+                aria-label="Remove split"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            )}
+          </div>
+          <Input
+            placeholder="Note (optional)"
+            value={split.note}
+            onChange={(e) => updateSplit(index, { note: e.target.value })}
+            aria-label={`Split ${index + 1} note`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between gap-3">
+        <Button type="button" variant="ghost" size="sm" onClick={addSplit} leftIcon={<Plus className="h-4 w-4" />}>
+          Add Split
+        </Button>
+        <p
+          className={cn(
+            'text-sm',
+            remaining === 0 ? 'text-green-600 dark:text-green-400' : 'text-amber-600 dark:text-amber-400'
+          )}
+        >
+          {remaining === 0
+            ? 'Fully assigned'
+            : remaining > 0
+              ? `${formatCurrency(remaining, true, currency)} left to assign`
+              : `${formatCurrency(-remaining, true, currency)} over the total`}
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export { ExpenseSplitEditor };
@@ -8,12 +8,14 @@ import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import * as LucideIcons from 'lucide-react';
 import { Plus, Settings2, X, AlertTriangle } from 'lucide-react';
-import { Card, CardHeader, CardTitle, CardContent, Button, Modal, ModalFooter, CurrencyInput } from '@/components/ui';
+import { Card, CardHeader, CardTitle, CardContent, Button, Modal, ModalFooter, Input, CurrencyInput, TagInput } from '@/components/ui';
 import { NewExpense, NewCustomCategory, Expense } from '@/types';
 import { cn } from '@/lib/cn';
-import { useSettings, useCategories, useExpenses } from '@/hooks';
+import { useSettings, useCategories, useExpenses, useCategorizationRules } from '@/hooks';
 import { useToast } from '@/hooks';
 import { AddCategoryModal } from '@/components/features/categories';
+import { getUsedTags } from '@/services/analytics';
+import { formatTag } from '@/lib/utils/formatters';
 import type { UnifiedCategory } from '@/hooks/useCategories';
 
 // ============================================
@@ -153,19 +155,37 @@ const AddCategoryButton = ({ onClick, delay, disabled }: AddCategoryButtonProps)
 // ============================================
 
 const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
-  const { currencySymbol } = useSettings();
+  const { settings, currencySymbol, parseCurrency } = useSettings();
   const { fixedCategories, variableCategories, customCategories, addCustomCategory, deleteCustomCategory, getCategoryById } = useCategories();
   const { expenses } = useExpenses();
+  const { categorize } = useCategorizationRules();
   const toast = useToast();
 
   const [selectedCategory, setSelectedCategory] = useState<UnifiedCategory | null>(null);
   const [amount, setAmount] = useState('');
+  const [description, setDescription] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  // Set when the user turns down the category a rule picked
+  const [keepCategory, setKeepCategory] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAddCategoryOpen, setIsAddCategoryOpen] = useState(false);
   const [isEditMode, setIsEditMode] = useState(false);
   const [categoryToDelete, setCategoryToDelete] = useState<UnifiedCategory | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
 
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
+
+  // Rules can file the expense under another category and add tags; both are shown before it's added
+  const ruleResult = useMemo(
+    () => (amount || description ? categorize('expense', { text: description, amount: parseCurrency(amount) }) : null),
+    [amount, description, categorize, parseCurrency]
+  );
+  const ruleCategory =
+    !keepCategory && ruleResult?.category && ruleResult.category !== selectedCategory?.id
+      ? getCategoryById(ruleResult.category)
+      : undefined;
+  const ruleTags = (ruleResult?.tags ?? []).filter((tag) => !tags.includes(tag));
+
   // Count expenses using a category
   const getExpenseCount = (categoryId: string) => {
     return expenses.filter(e => e.category === categoryId).length;
@@ -178,6 +198,9 @@ const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
     if (isEditMode) return;
     setSelectedCategory(category);
     setAmount('');
+    setDescription('');
+    setTags([]);
+    setKeepCategory(false);
   };
 
   const handleSubmit = async () => {
@@ -186,12 +209,17 @@ const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
     setIsSubmitting(true);
     try {
       await onAdd({
-        amount: parseFloat(amount) * 100, // Convert to cents
-        category: selectedCategory.id as any, // Type assertion for custom categories
+        amount: parseCurrency(amount), // Base currency, in minor units
+        currency: settings.currency,
+        category: (ruleCategory ?? selectedCategory).id as any, // Type assertion for custom categories
+        description: description.trim(),
         date: new Date(),
+        tags: [...tags, ...ruleTags],
       });
       setSelectedCategory(null);
       setAmount('');
+      setDescription('');
+      setTags([]);
     } catch (error) {
       console.error('Error adding expense:', error);
     } finally {
@@ -202,6 +230,8 @@ const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
   const handleClose = () => {
     setSelectedCategory(null);
     setAmount('');
+    setDescription('');
+    setTags([]);
   };
 
   const handleAddCategory = async (category: NewCustomCategory) => {
@@ -327,7 +357,7 @@ const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
         title={`Add ${selectedCategory?.name || ''} Expense`}
         size="sm"
       >
-        <div className="py-4">
+        <div className="py-4 space-y-4">
           <CurrencyInput
             label="Amount"
             value={amount}
@@ -336,6 +366,36 @@ const QuickAdd = ({ onAdd, isLoading }: QuickAddProps) => {
             currency={currencySymbol}
             autoFocus
           />
+          <Input
+            label="Description (optional)"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="e.g. Netflix"
+          />
+          <TagInput
+            label="Tags (optional)"
+            value={tags}
+            onChange={setTags}
+            suggestions={usedTags}
+            placeholder="e.g. japan-2026"
+          />
+          {(ruleCategory || ruleTags.length > 0) && (
+            <div className="p-3 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 text-sm text-indigo-800 dark:text-indigo-200 space-y-1">
+              {ruleCategory && (
+                <p>
+                  A rule files this under <span className="font-medium">{ruleCategory.name}</span>.{' '}
+                  <button
+                    type="button"
+                    onClick={() => setKeepCategory(true)}
+                    className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                  >
+                    Keep {selectedCategory?.name}
+                  </button>
+                </p>
+              )}
+              {ruleTags.length > 0 && <p>Rules add {ruleTags.map(formatTag).join(' ')}</p>}
+            </div>
+          )}
         </div>
 
         <ModalFooter>
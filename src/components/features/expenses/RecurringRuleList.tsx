@@ -0,0 +1,116 @@
+'use client';
+
+// ============================================
+// Recurring Rule List Component
+// ============================================
+
+import { useState } from 'react';
+import { Repeat, CalendarX } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Modal, ModalFooter } from '@/components/ui';
+import { RecurringRule } from '@/types';
+import { RECURRENCE_FREQUENCIES } from '@/lib/utils/constants';
+import { formatDateSmart } from '@/lib/utils/formatters';
+import { getNextRecurrenceDate } from '@/lib/utils/dateUtils';
+import { useSettings, useCategories } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface RecurringRuleListProps {
+  rules: RecurringRule[];
+  onEnd: (id: string) => Promise<void>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const RecurringRuleList = ({ rules, onEnd }: RecurringRuleListProps) => {
+  const { formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const [ruleToEnd, setRuleToEnd] = useState<RecurringRule | null>(null);
+  const [isEnding, setIsEnding] = useState(false);
+
+  if (rules.length === 0) return null;
+
+  const handleConfirmEnd = async () => {
+    if (!ruleToEnd) return;
+
+    setIsEnding(true);
+    try {
+      await onEnd(ruleToEnd.id);
+      setRuleToEnd(null);
+    } finally {
+      setIsEnding(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <Repeat className="h-5 w-5 text-indigo-500" />
+            <CardTitle>Recurring Expenses</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="divide-y divide-gray-100 dark:divide-gray-800">
+          {rules.map((rule) => {
+            const category = getCategoryById(rule.category);
+            const nextDate = getNextRecurrenceDate(
+              rule.startDate.toDate(),
+              rule.frequency,
+              new Date(),
+              rule.dayOfMonth
+            );
+
+            return (
+              <div key={rule.id} className="flex items-center justify-between gap-3 py-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-semibold text-gray-900 dark:text-white truncate">
+                    {rule.description || category?.name || rule.category}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {formatCurrency(rule.amount, true, rule.currency)} / {RECURRENCE_FREQUENCIES[rule.frequency].shortName}
+                    {' • '}Next {formatDateSmart(nextDate)}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRuleToEnd(rule)}
+                  leftIcon={<CalendarX className="h-4 w-4" />}
+                >
+                  End
+                </Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      {/* End Confirmation Modal */}
+      <Modal
+        isOpen={ruleToEnd !== null}
+        onClose={() => setRuleToEnd(null)}
+        title="End Recurring Expense"
+        size="sm"
+      >
+        <p className="text-gray-600 dark:text-gray-400">
+          No new occurrences will be created after today. Expenses already recorded are kept.
+        </p>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setRuleToEnd(null)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleConfirmEnd} isLoading={isEnding}>
+            End
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+};
+
+export { RecurringRuleList };
@@ -4,3 +4,7 @@
 
 export * from './QuickAdd';
 export * from './ExpenseList';
+export * from './EditExpenseModal';
+export * from './BulkEditExpensesModal';
+export * from './RecurringRuleList';
+export * from './ExpenseSplitEditor';
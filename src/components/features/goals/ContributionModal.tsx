@@ -0,0 +1,102 @@
+'use client';
+
+// ============================================
+// Goal Contribution Modal Component
+// ============================================
+
+import { useState } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, DatePicker } from '@/components/ui';
+import { NewGoalContribution, SavingsGoal } from '@/types';
+import { formatDateForInput, parseDateFromInput } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface ContributionModalProps {
+  // The goal being contributed to; null closes the modal
+  goal: SavingsGoal | null;
+  onClose: () => void;
+  onSave: (contribution: NewGoalContribution) => Promise<void>;
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per goal so the form resets
+const ContributionModal = ({ goal, onClose, onSave }: ContributionModalProps) => {
+  const { currencySymbol, parseCurrency } = useSettings();
+
+  const [isWithdrawal, setIsWithdrawal] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(formatDateForInput(new Date()));
+  const [note, setNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const amountInCents = amount ? parseCurrency(amount) : 0;
+  const isValid = amountInCents > 0 && date !== '';
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      await onSave({
+        amount: isWithdrawal ? -amountInCents : amountInCents,
+        date: parseDateFromInput(date),
+        ...(note.trim() && { note: note.trim() }),
+      });
+      onClose();
+    } catch (error) {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={goal !== null} onClose={onClose} title={goal ? `Update ${goal.name}` : 'Update Goal'}>
+      <div className="space-y-4 py-2">
+        <div className="flex rounded-lg bg-gray-100 dark:bg-gray-800 p-1">
+          {[false, true].map((withdrawal) => (
+            <button
+              key={String(withdrawal)}
+              type="button"
+              onClick={() => setIsWithdrawal(withdrawal)}
+              className={cn(
+                'flex-1 rounded-md px-3 py-1.5 text-sm font-medium transition-colors',
+                isWithdrawal === withdrawal
+                  ? 'bg-white dark:bg-gray-700 text-gray-900 dark:text-white shadow-sm'
+                  : 'text-gray-500 dark:text-gray-400'
+              )}
+            >
+              {withdrawal ? 'Withdraw' : 'Contribute'}
+            </button>
+          ))}
+        </div>
+        <CurrencyInput
+          label="Amount"
+          currency={currencySymbol}
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder="0.00"
+        />
+        <DatePicker label="Date" value={date} onChange={setDate} maxDate={new Date()} />
+        <Input label="Note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" />
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!isValid}>
+          {isWithdrawal ? 'Withdraw' : 'Add Contribution'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { ContributionModal };
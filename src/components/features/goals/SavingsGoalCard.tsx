@@ -0,0 +1,202 @@
+'use client';
+
+// ============================================
+// Savings Goal Card Component
+// ============================================
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { format } from 'date-fns';
+import { Plus, Edit2, Trash2, X, Landmark, Tag } from 'lucide-react';
+import { Button, Badge } from '@/components/ui';
+import { RadialProgress } from '@/components/charts';
+import { SavingsGoalProgress } from '@/types';
+import { formatDateSmart } from '@/lib/utils/formatters';
+import { useSettings } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface SavingsGoalCardProps {
+  progress: SavingsGoalProgress;
+  // Name of the linked account or category, if any
+  linkedTo?: string;
+  onContribute: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+  onDeleteContribution: (contributionId: string) => void;
+  disabled?: boolean;
+}
+
+// Entries shown before the history is expanded
+const HISTORY_PREVIEW = 3;
+
+const statusConfig = {
+  completed: { label: 'Reached', variant: 'success' },
+  on_track: { label: 'On Track', variant: 'info' },
+  behind: { label: 'Behind', variant: 'warning' },
+  overdue: { label: 'Overdue', variant: 'danger' },
+} as const;
+
+// ============================================
+// Component
+// ============================================
+
+const SavingsGoalCard = ({
+  progress,
+  linkedTo,
+  onContribute,
+  onEdit,
+  onDelete,
+  onDeleteContribution,
+  disabled,
+}: SavingsGoalCardProps) => {
+  const { formatCurrency } = useSettings();
+  const [showAllHistory, setShowAllHistory] = useState(false);
+
+  const { goal, currentAmount, remaining, percentage, requiredMonthly, averageMonthly, projectedDate, status } =
+    progress;
+  const targetDate = goal.targetDate.toDate();
+  const history = showAllHistory ? progress.history : progress.history.slice(0, HISTORY_PREVIEW);
+
+  return (
+    <motion.div whileHover={{ y: -4 }} className="glass-card rounded-xl p-4 h-full flex flex-col">
+      <div className="flex items-start justify-between gap-2 mb-4">
+        <div className="min-w-0">
+          <p className="font-semibold text-gray-900 dark:text-white truncate">{goal.name}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {formatCurrency(goal.targetAmount)} by {format(targetDate, 'MMM d, yyyy')}
+          </p>
+          {linkedTo && (
+            <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 mt-0.5">
+              {goal.accountId ? <Landmark className="h-3 w-3" /> : <Tag className="h-3 w-3" />}
+              {linkedTo}
+            </p>
+          )}
+        </div>
+        <Badge variant={statusConfig[status].variant} size="sm">
+          {statusConfig[status].label}
+        </Badge>
+      </div>
+
+      {/* Progress ring */}
+      <div className="flex justify-center mb-4">
+        <RadialProgress
+          percentage={percentage}
+          size={120}
+          strokeWidth={10}
+          color={goal.color}
+          label={formatCurrency(currentAmount)}
+        />
+      </div>
+
+      {/* Stats */}
+      <div className="space-y-2 mb-4">
+        <div className="flex justify-between text-sm">
+          <span className="text-gray-500 dark:text-gray-400">Still needed</span>
+          <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(remaining)}</span>
+        </div>
+        {remaining > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Needed per month</span>
+            <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(requiredMonthly)}</span>
+          </div>
+        )}
+        {averageMonthly !== 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Saving per month</span>
+            <span className="font-medium text-gray-900 dark:text-white">{formatCurrency(averageMonthly)}</span>
+          </div>
+        )}
+        {remaining > 0 && (
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-500 dark:text-gray-400">Projected</span>
+            <span
+              className={
+                projectedDate && projectedDate <= targetDate
+                  ? 'font-medium text-emerald-500'
+                  : 'font-medium text-amber-500'
+              }
+            >
+              {projectedDate ? format(projectedDate, 'MMM yyyy') : 'Not enough history'}
+            </span>
+          </div>
+        )}
+      </div>
+
+      {/* Contribution history */}
+      {goal.accountId ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Progress follows the account balance.</p>
+      ) : (
+        progress.history.length > 0 && (
+          <div className="mb-4 border-t border-gray-100 dark:border-gray-800 pt-3">
+            <p className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-2">History</p>
+            <div className="space-y-1.5">
+              {history.map((entry, index) => (
+                <div key={`${entry.id}-${index}`} className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-500 dark:text-gray-400 w-16 shrink-0">
+                    {formatDateSmart(entry.date)}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate text-gray-600 dark:text-gray-300">
+                    {entry.note ?? (entry.source === 'category' ? 'Expense' : 'Contribution')}
+                  </span>
+                  <span className={entry.amount < 0 ? 'text-red-500' : 'text-emerald-500'}>
+                    {entry.amount > 0 && '+'}
+                    {formatCurrency(entry.amount)}
+                  </span>
+                  {entry.source === 'manual' ? (
+                    <button
+                      type="button"
+                      onClick={() => onDeleteContribution(entry.id)}
+                      disabled={disabled}
+                      className="text-gray-400 hover:text-red-500 disabled:opacity-50"
+                      aria-label="Remove contribution"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  ) : (
+                    <span className="w-3" />
+                  )}
+                </div>
+              ))}
+            </div>
+            {progress.history.length > HISTORY_PREVIEW && (
+              <button
+                type="button"
+                onClick={() => setShowAllHistory(!showAllHistory)}
+                className="text-xs text-indigo-600 dark:text-indigo-400 hover:underline mt-2"
+              >
+                {showAllHistory ? 'Show less' : `Show all ${progress.history.length}`}
+              </button>
+            )}
+          </div>
+        )
+      )}
+
+      {/* Actions */}
+      <div className="flex items-center gap-2 mt-auto">
+        {!goal.accountId && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            leftIcon={<Plus className="h-4 w-4" />}
+            onClick={onContribute}
+            disabled={disabled}
+          >
+            Contribute
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={onEdit} disabled={disabled} aria-label="Edit">
+          <Edit2 className="h-4 w-4 text-gray-500" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onDelete} disabled={disabled} aria-label="Delete">
+          <Trash2 className="h-4 w-4 text-gray-400" />
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export { SavingsGoalCard };
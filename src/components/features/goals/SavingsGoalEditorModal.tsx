@@ -0,0 +1,186 @@
+'use client';
+
+// ============================================
+// Savings Goal Editor Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select, DatePicker } from '@/components/ui';
+import { Account, AccountBalance, ExpenseCategory, NewSavingsGoal } from '@/types';
+import { CHART_COLORS } from '@/lib/utils/constants';
+import { formatAmountForInput, formatDateForInput, parseDateFromInput } from '@/lib/utils/formatters';
+import { useSettings, useCategories } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface SavingsGoalEditorModalProps {
+  // The goal to edit; null closes the modal
+  goal: NewSavingsGoal | null;
+  isNew: boolean;
+  accounts: Account[];
+  // Current balances in the base currency
+  balances: AccountBalance[];
+  onClose: () => void;
+  onSave: (goal: NewSavingsGoal) => Promise<void>;
+}
+
+type LinkType = 'none' | 'account' | 'category';
+
+const linkOptions = [
+  { value: 'none', label: 'Nothing - log contributions by hand' },
+  { value: 'account', label: 'An account - its balance is the progress' },
+  { value: 'category', label: 'A category - spending in it counts' },
+];
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per goal so the form resets
+const SavingsGoalEditorModal = ({ goal, isNew, accounts, balances, onClose, onSave }: SavingsGoalEditorModalProps) => {
+  const { settings, currencySymbol, parseCurrency, formatCurrency } = useSettings();
+  const { allCategories } = useCategories();
+
+  const [name, setName] = useState(goal?.name ?? '');
+  const [targetAmount, setTargetAmount] = useState(
+    goal?.targetAmount ? formatAmountForInput(goal.targetAmount, settings.currency) : ''
+  );
+  const [targetDate, setTargetDate] = useState(goal ? formatDateForInput(goal.targetDate) : '');
+  const [startingAmount, setStartingAmount] = useState(
+    goal?.startingAmount && !goal.accountId ? formatAmountForInput(goal.startingAmount, settings.currency) : ''
+  );
+  const [linkType, setLinkType] = useState<LinkType>(
+    goal?.accountId ? 'account' : goal?.category ? 'category' : 'none'
+  );
+  const [accountId, setAccountId] = useState(goal?.accountId ?? accounts[0]?.id ?? '');
+  const [category, setCategory] = useState<string>(goal?.category ?? allCategories[0]?.id ?? '');
+  const [color, setColor] = useState(goal?.color ?? CHART_COLORS[0]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountOptions = useMemo(
+    () => accounts.map((account) => ({ value: account.id, label: account.name })),
+    [accounts]
+  );
+  const categoryOptions = useMemo(
+    () => allCategories.map((cat) => ({ value: cat.id, label: cat.name })),
+    [allCategories]
+  );
+
+  // A linked account starts from its balance when linked, so only later saving counts as pace
+  const accountStart =
+    goal?.accountId === accountId
+      ? goal.startingAmount
+      : (balances.find(({ account }) => account.id === accountId)?.baseBalance ?? 0);
+
+  const draft: NewSavingsGoal = {
+    name: name.trim(),
+    targetAmount: targetAmount ? parseCurrency(targetAmount) : 0,
+    targetDate: targetDate ? parseDateFromInput(targetDate) : new Date(),
+    startingAmount: linkType === 'account' ? accountStart : startingAmount ? parseCurrency(startingAmount) : 0,
+    ...(linkType === 'account' && accountId && { accountId }),
+    ...(linkType === 'category' && category && { category: category as ExpenseCategory }),
+    color,
+  };
+  const isValid = draft.name !== '' && draft.targetAmount > 0 && targetDate !== '';
+
+  const handleSave = async () => {
+    if (!isValid) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={goal !== null} onClose={onClose} title={isNew ? 'New Savings Goal' : 'Edit Savings Goal'}>
+      <div className="space-y-4 py-2">
+        <Input
+          label="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Emergency fund, New car"
+        />
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput
+            label="Target"
+            currency={currencySymbol}
+            value={targetAmount}
+            onChange={(e) => setTargetAmount(e.target.value)}
+            placeholder="0.00"
+          />
+          <DatePicker label="Target date" value={targetDate} onChange={setTargetDate} minDate={new Date()} />
+        </div>
+        <Select
+          label="Linked to"
+          options={linkOptions}
+          value={linkType}
+          onChange={(e) => setLinkType(e.target.value as LinkType)}
+        />
+        {linkType === 'account' && (
+          <Select
+            label="Account"
+            options={accountOptions}
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+            helperText={`Saving is measured from its balance of ${formatCurrency(accountStart)}`}
+          />
+        )}
+        {linkType === 'category' && (
+          <Select
+            label="Category"
+            options={categoryOptions}
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            helperText="Expenses in this category after the goal is created count as contributions"
+          />
+        )}
+        {linkType !== 'account' && (
+          <CurrencyInput
+            label="Already saved"
+            currency={currencySymbol}
+            value={startingAmount}
+            onChange={(e) => setStartingAmount(e.target.value)}
+            placeholder="0.00"
+          />
+        )}
+        <div>
+          <p className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">Color</p>
+          <div className="flex flex-wrap gap-2">
+            {CHART_COLORS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setColor(option)}
+                className={cn(
+                  'h-7 w-7 rounded-full transition-transform',
+                  color === option && 'ring-2 ring-offset-2 ring-gray-400 dark:ring-offset-gray-900 scale-110'
+                )}
+                style={{ backgroundColor: option }}
+                aria-label={`Color ${option}`}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!isValid}>
+          {isNew ? 'Create Goal' : 'Save'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { SavingsGoalEditorModal };
@@ -0,0 +1,7 @@
+// ============================================
+// Savings Goal Features Barrel Export
+// ============================================
+
+export * from './SavingsGoalCard';
+export * from './SavingsGoalEditorModal';
+export * from './ContributionModal';
@@ -0,0 +1,417 @@
+'use client';
+
+// ============================================
+// CSV Import Modal Component
+// ============================================
+
+import { useState, useMemo, useCallback, useEffect, ChangeEvent } from 'react';
+import { Upload, FileText, AlertTriangle } from 'lucide-react';
+import { Modal, ModalFooter, Button, Select, Badge } from '@/components/ui';
+import {
+  Expense,
+  Income,
+  NewExpense,
+  NewIncome,
+  ExpenseCategory,
+  IncomeType,
+  ColumnMapping,
+  DateRange,
+  ImportField,
+  ImportPreviewRow,
+} from '@/types';
+import {
+  EXPENSE_IMPORT_FIELDS,
+  INCOME_IMPORT_FIELDS,
+  INCOME_TYPES,
+  DEFAULT_ACCOUNT_ID,
+} from '@/lib/utils/constants';
+import { parseCsv, detectCsvDelimiter } from '@/lib/utils/csv';
+import { formatDate } from '@/lib/utils/formatters';
+import {
+  guessColumnMapping,
+  isMappingComplete,
+  getImportDateRange,
+  buildExpenseImportRows,
+  buildIncomeImportRows,
+} from '@/services/import';
+import { useSettings, useCategories, useAccounts, useCategorizationRules } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+type CsvImportModalProps = {
+  isOpen: boolean;
+  onClose: () => void;
+} & (
+  // Reads the saved records in the file's date span; duplicates are looked for among them
+  | {
+      kind: 'expense';
+      loadExisting: (range: DateRange) => Promise<Expense[]>;
+      onImport: (rows: NewExpense[]) => Promise<void>;
+    }
+  | {
+      kind: 'income';
+      loadExisting: (range: DateRange) => Promise<Income[]>;
+      onImport: (rows: NewIncome[]) => Promise<void>;
+    }
+);
+
+interface ExistingRecords {
+  range: DateRange;
+  records: Expense[] | Income[];
+  failed?: boolean;
+}
+
+type PreviewRow = ImportPreviewRow<NewExpense> | ImportPreviewRow<NewIncome>;
+
+const PREVIEW_LIMIT = 20;
+
+// ============================================
+// Component
+// ============================================
+
+const CsvImportModal = (props: CsvImportModalProps) => {
+  const { isOpen, onClose, kind } = props;
+  const { settings, formatCurrency } = useSettings();
+  const { allCategories, getCategoryById } = useCategories();
+  const { accounts } = useAccounts();
+  const { categorize } = useCategorizationRules();
+
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [defaultCategory, setDefaultCategory] = useState<string>('miscellaneous');
+  const [defaultType, setDefaultType] = useState<IncomeType>('other');
+  const [accountId, setAccountId] = useState(DEFAULT_ACCOUNT_ID);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [existing, setExisting] = useState<ExistingRecords | null>(null);
+
+  const fields = kind === 'expense' ? EXPENSE_IMPORT_FIELDS : INCOME_IMPORT_FIELDS;
+
+  // A statement's amounts are in the currency of the account it came from
+  const currency = accounts.find((account) => account.id === accountId)?.currency ?? settings.currency;
+
+  const reset = () => {
+    setFileName(null);
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setParseError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const rows = parseCsv(text, detectCsvDelimiter(text));
+
+    if (rows.length < 2) {
+      setParseError('The file needs a header row and at least one data row.');
+      return;
+    }
+
+    setParseError(null);
+    setFileName(file.name);
+    setHeaders(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping(guessColumnMapping(rows[0], fields));
+  };
+
+  // Match a CSV category/type cell against known ids and display names
+  const resolveCategory = useCallback(
+    (value: string): ExpenseCategory | null => {
+      const needle = value.trim().toLowerCase();
+      const match = allCategories.find(
+        (cat) => cat.id.toLowerCase() === needle || cat.name.toLowerCase() === needle
+      );
+      return match ? (match.id as ExpenseCategory) : null;
+    },
+    [allCategories]
+  );
+
+  const resolveType = useCallback((value: string): IncomeType | null => {
+    const needle = value.trim().toLowerCase();
+    const match = Object.entries(INCOME_TYPES).find(
+      ([id, config]) => id === needle || config.name.toLowerCase() === needle
+    );
+    return match ? (match[0] as IncomeType) : null;
+  }, []);
+
+  // Rows the file leaves uncategorized go through the user's rules
+  const categorizeRow = useCallback(
+    (text: string, amount: number, date: Date) => categorize(kind, { text, amount, currency, date }),
+    [categorize, kind, currency]
+  );
+
+  // Saved records outside the file's dates can't be duplicates, so only its span is read
+  const dateColumn = mapping.date;
+  const importRange = useMemo(
+    () => (dateColumn === undefined ? null : getImportDateRange(dataRows, { date: dateColumn }, settings.dateFormat)),
+    [dataRows, dateColumn, settings.dateFormat]
+  );
+  const { loadExisting } = props;
+
+  useEffect(() => {
+    if (!importRange) return;
+    let isCurrent = true;
+    loadExisting(importRange)
+      .then((records) => {
+        if (isCurrent) setExisting({ range: importRange, records });
+      })
+      .catch((error) => {
+        console.error('Error reading records to check for duplicates:', error);
+        if (isCurrent) setExisting({ range: importRange, records: [], failed: true });
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [importRange, loadExisting]);
+
+  const existingRecords = existing && existing.range === importRange ? existing : null;
+  const isCheckingDuplicates = importRange !== null && !existingRecords;
+
+  const previewRows: PreviewRow[] = useMemo(() => {
+    if (dataRows.length === 0 || !isMappingComplete(mapping, fields)) return [];
+
+    if (props.kind === 'expense') {
+      return buildExpenseImportRows(dataRows, {
+        mapping,
+        dateFormat: settings.dateFormat,
+        currency,
+        accountId,
+        resolveCategory,
+        defaultCategory: defaultCategory as ExpenseCategory,
+        existing: (existingRecords?.records ?? []) as Expense[],
+        categorize: categorizeRow,
+      });
+    }
+
+    return buildIncomeImportRows(dataRows, {
+      mapping,
+      dateFormat: settings.dateFormat,
+      currency,
+      accountId,
+      resolveType,
+      defaultType,
+      existing: (existingRecords?.records ?? []) as Income[],
+      categorize: categorizeRow,
+    });
+  }, [props.kind, existingRecords, dataRows, mapping, fields, settings.dateFormat, currency, accountId, resolveCategory, resolveType, defaultCategory, defaultType, categorizeRow]);
+
+  const readyRows = previewRows.filter((row) => row.data && !(skipDuplicates && row.isDuplicate));
+  const duplicateCount = previewRows.filter((row) => row.isDuplicate).length;
+  const errorCount = previewRows.filter((row) => !row.data).length;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    try {
+      if (props.kind === 'expense') {
+        await props.onImport(readyRows.map((row) => row.data as NewExpense));
+      } else {
+        await props.onImport(readyRows.map((row) => row.data as NewIncome));
+      }
+      handleClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const columnOptions = [
+    { value: '', label: '— Not mapped —' },
+    ...headers.map((header, index) => ({ value: String(index), label: header || `Column ${index + 1}` })),
+  ];
+
+  const getRowLabel = (row: PreviewRow): { text: string; detail: string } => {
+    if (!row.data) return { text: '', detail: '' };
+    if ('category' in row.data) {
+      return {
+        text: row.data.description || '—',
+        detail: getCategoryById(row.data.category)?.name ?? row.data.category,
+      };
+    }
+    return { text: row.data.source, detail: INCOME_TYPES[row.data.type].name };
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title={kind === 'expense' ? 'Import Expenses' : 'Import Income'}
+      description={`Dates are read as ${settings.dateFormat}`}
+      size="full"
+    >
+      <div className="space-y-6 py-2">
+        {/* File Picker */}
+        <label className="flex flex-col items-center justify-center gap-2 p-6 rounded-xl border-2 border-dashed border-gray-300 dark:border-gray-600 hover:border-indigo-400 cursor-pointer transition-colors">
+          {fileName ? (
+            <FileText className="h-8 w-8 text-indigo-500" />
+          ) : (
+            <Upload className="h-8 w-8 text-gray-400" />
+          )}
+          <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+            {fileName ?? 'Choose a CSV file'}
+          </span>
+          {fileName && (
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              {dataRows.length} rows • click to choose another file
+            </span>
+          )}
+          <input type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+        </label>
+
+        {parseError && (
+          <p className="text-sm text-red-600 dark:text-red-400">{parseError}</p>
+        )}
+
+        {headers.length > 0 && (
+          <>
+            {/* Column Mapping */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {fields.map(({ field, label, required }) => (
+                <Select
+                  key={field}
+                  label={required ? `${label} *` : label}
+                  options={columnOptions}
+                  value={mapping[field] === undefined ? '' : String(mapping[field])}
+                  onChange={(e) =>
+                    setMapping((prev) => ({
+                      ...prev,
+                      [field as ImportField]: e.target.value === '' ? undefined : Number(e.target.value),
+                    }))
+                  }
+                />
+              ))}
+              {kind === 'expense' ? (
+                <Select
+                  label="Default category"
+                  helperText="Used when the category column is empty or unknown"
+                  options={allCategories.map((cat) => ({ value: cat.id, label: cat.name }))}
+                  value={defaultCategory}
+                  onChange={(e) => setDefaultCategory(e.target.value)}
+                />
+              ) : (
+                <Select
+                  label="Default type"
+                  helperText="Used when the type column is empty or unknown"
+                  options={Object.entries(INCOME_TYPES).map(([value, config]) => ({ value, label: config.name }))}
+                  value={defaultType}
+                  onChange={(e) => setDefaultType(e.target.value as IncomeType)}
+                />
+              )}
+              {accounts.length > 1 && (
+                <Select
+                  label="Account"
+                  helperText={`Amounts are read in ${currency}`}
+                  options={accounts.map((account) => ({ value: account.id, label: account.name }))}
+                  value={accountId}
+                  onChange={(e) => setAccountId(e.target.value)}
+                />
+              )}
+            </div>
+
+            {/* Summary */}
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant="success">{readyRows.length} to import</Badge>
+              {duplicateCount > 0 && <Badge variant="warning">{duplicateCount} likely duplicates</Badge>}
+              {errorCount > 0 && <Badge variant="danger">{errorCount} unreadable</Badge>}
+              {isCheckingDuplicates && <Badge variant="default">Checking for duplicates...</Badge>}
+              {existingRecords?.failed && <Badge variant="warning">Couldn&apos;t check for duplicates</Badge>}
+              <label className="ml-auto flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={skipDuplicates}
+                  onChange={(e) => setSkipDuplicates(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                />
+                Skip likely duplicates
+              </label>
+            </div>
+
+            {/* Preview */}
+            {previewRows.length === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-amber-600 dark:text-amber-400">
+                <AlertTriangle className="h-4 w-4" />
+                Map all required (*) columns to preview the import.
+              </p>
+            ) : (
+              <div className="overflow-x-auto rounded-lg border border-gray-200 dark:border-gray-800">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-800/50 text-left text-xs uppercase text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Date</th>
+                      <th className="px-3 py-2">{kind === 'expense' ? 'Description' : 'Source'}</th>
+                      <th className="px-3 py-2">{kind === 'expense' ? 'Category' : 'Type'}</th>
+                      <th className="px-3 py-2 text-right">Amount</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+                    {previewRows.slice(0, PREVIEW_LIMIT).map((row) => {
+                      const label = getRowLabel(row);
+                      return (
+                        <tr key={row.rowNumber} className="text-gray-700 dark:text-gray-300">
+                          <td className="px-3 py-2 text-gray-400">{row.rowNumber}</td>
+                          <td className="px-3 py-2 whitespace-nowrap">
+                            {row.data ? formatDate(row.data.date) : '—'}
+                          </td>
+                          <td className="px-3 py-2 max-w-[200px] truncate">{label.text}</td>
+                          <td className="px-3 py-2">{label.detail}</td>
+                          <td className="px-3 py-2 text-right whitespace-nowrap">
+                            {row.data ? formatCurrency(row.data.amount, true, row.data.currency) : '—'}
+                          </td>
+                          <td className="px-3 py-2">
+                            {row.error ? (
+                              <span className="text-xs text-red-600 dark:text-red-400">{row.error}</span>
+                            ) : row.isDuplicate ? (
+                              <Badge variant="warning" size="sm">Duplicate</Badge>
+                            ) : (
+                              <Badge variant="success" size="sm">Ready</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {previewRows.length > PREVIEW_LIMIT && (
+                  <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    Showing the first {PREVIEW_LIMIT} of {previewRows.length} rows
+                  </p>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={handleClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleImport}
+          isLoading={isImporting}
+          disabled={readyRows.length === 0 || isCheckingDuplicates}
+        >
+          Import {readyRows.length > 0 ? readyRows.length : ''} {readyRows.length === 1 ? 'row' : 'rows'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { CsvImportModal };
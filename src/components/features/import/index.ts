@@ -0,0 +1,5 @@
+// ============================================
+// Import Features Barrel Export
+// ============================================
+
+export * from './CsvImportModal';
@@ -0,0 +1,149 @@
+'use client';
+
+// ============================================
+// Bulk Edit Income Modal Component
+// ============================================
+
+import { useState } from 'react';
+import { Modal, ModalFooter, Button, Input, Select } from '@/components/ui';
+import { IncomeBulkEdit, IncomeType } from '@/types';
+import { INCOME_TYPES, TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
+
+// ============================================
+// Types
+// ============================================
+
+export type IncomeBulkAction = 'incomeType' | 'shiftDate' | 'regular' | 'delete';
+
+interface BulkEditIncomeModalProps {
+  action: IncomeBulkAction | null;
+  selectedCount: number;
+  onClose: () => void;
+  onApply: (edit: IncomeBulkEdit) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+const titles: Record<IncomeBulkAction, string> = {
+  incomeType: 'Change Type',
+  shiftDate: 'Shift Date',
+  regular: 'Mark Regular',
+  delete: 'Delete Income',
+};
+
+const typeOptions = Object.entries(INCOME_TYPES).map(([value, config]) => ({
+  value,
+  label: config.name,
+}));
+
+const regularOptions = [
+  { value: 'true', label: 'Regular' },
+  { value: 'false', label: 'One-off' },
+];
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with key={action} so the form resets for each action
+const BulkEditIncomeModal = ({ action, selectedCount, onClose, onApply, onDelete }: BulkEditIncomeModalProps) => {
+  const [incomeType, setIncomeType] = useState<IncomeType>('salary');
+  const [days, setDays] = useState('');
+  const [isRegular, setIsRegular] = useState('true');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayCount = parseInt(days, 10);
+  const noun = selectedCount === 1 ? 'entry' : 'entries';
+
+  const getEdit = (): IncomeBulkEdit | null => {
+    switch (action) {
+      case 'incomeType':
+        return { type: 'incomeType', incomeType };
+      case 'shiftDate':
+        return Number.isInteger(dayCount) && dayCount !== 0 ? { type: 'shiftDate', days: dayCount } : null;
+      case 'regular':
+        return { type: 'regular', isRegular: isRegular === 'true' };
+      default:
+        return null;
+    }
+  };
+
+  const edit = getEdit();
+
+  const handleConfirm = async () => {
+    setIsSaving(true);
+    try {
+      if (action === 'delete') {
+        await onDelete();
+      } else if (edit) {
+        await onApply(edit);
+      }
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={action !== null}
+      onClose={onClose}
+      title={action ? titles[action] : ''}
+      size="sm"
+    >
+      <div className="space-y-4 py-2">
+        {action === 'incomeType' && (
+          <Select
+            label={`Type for ${selectedCount} ${noun}`}
+            options={typeOptions}
+            value={incomeType}
+            onChange={(e) => setIncomeType(e.target.value as IncomeType)}
+          />
+        )}
+
+        {action === 'shiftDate' && (
+          <Input
+            label="Days"
+            type="number"
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+            helperText={`Moves each of the ${selectedCount} ${noun} by this many days. Use a negative number to move them earlier.`}
+          />
+        )}
+
+        {action === 'regular' && (
+          <Select
+            label={`Mark ${selectedCount} ${noun} as`}
+            options={regularOptions}
+            value={isRegular}
+            onChange={(e) => setIsRegular(e.target.value)}
+          />
+        )}
+
+        {action === 'delete' && (
+          <p className="text-gray-600 dark:text-gray-400">
+            {selectedCount} income {noun} will be moved to the trash, where they can be restored for{' '}
+            {TRASH_RETENTION_DAYS} days.
+          </p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant={action === 'delete' ? 'danger' : 'primary'}
+          onClick={handleConfirm}
+          isLoading={isSaving}
+          disabled={action !== 'delete' && !edit}
+        >
+          {action === 'delete' ? 'Delete' : 'Apply'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { BulkEditIncomeModal };
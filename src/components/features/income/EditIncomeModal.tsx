@@ -0,0 +1,153 @@
+'use client';
+
+// ============================================
+// Edit Income Modal Component
+// ============================================
+
+import { useState } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select, DatePicker } from '@/components/ui';
+import { AuditHistory } from '@/components/features/audit';
+import { Income, IncomeType, NewIncome } from '@/types';
+import { formatDateForInput, parseDateFromInput, parseCurrencyToCents, formatAmountForInput } from '@/lib/utils/formatters';
+import { CURRENCIES, CURRENCY_OPTIONS, CurrencyCode, DEFAULT_ACCOUNT_ID, INCOME_TYPES } from '@/lib/utils/constants';
+import { useSettings, useAccounts } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface EditIncomeModalProps {
+  income: Income | null;
+  onClose: () => void;
+  onSave: (income: Income, updates: Partial<NewIncome>) => Promise<void>;
+}
+
+const typeOptions = Object.entries(INCOME_TYPES).map(([value, config]) => ({
+  value,
+  label: config.name,
+}));
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with key={income.id} so the form resets for each entry
+const EditIncomeModal = ({ income, onClose, onSave }: EditIncomeModalProps) => {
+  const { settings } = useSettings();
+  const { accounts } = useAccounts();
+
+  const originalCurrency = income?.currency ?? settings.currency;
+  const [currency, setCurrency] = useState<CurrencyCode>(originalCurrency);
+  const [amount, setAmount] = useState(income ? formatAmountForInput(income.amount, originalCurrency) : '');
+  const [type, setType] = useState<IncomeType>(income?.type ?? 'salary');
+  const [source, setSource] = useState(income?.source ?? '');
+  const originalAccountId = income?.accountId || DEFAULT_ACCOUNT_ID;
+  const [accountId, setAccountId] = useState(originalAccountId);
+  const [date, setDate] = useState(income ? formatDateForInput(income.date.toDate()) : '');
+  const [note, setNote] = useState(income?.note ?? '');
+  const [isRegular, setIsRegular] = useState(income?.isRegular ?? false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const accountOptions = accounts.map((account) => ({ value: account.id, label: account.name }));
+
+  const handleSave = async () => {
+    if (!income) return;
+
+    // Only send fields that actually changed
+    const updates: Partial<NewIncome> = {};
+    const amountInCents = parseCurrencyToCents(amount, currency);
+    if (amountInCents !== income.amount) updates.amount = amountInCents;
+    if (currency !== originalCurrency) updates.currency = currency;
+    if (type !== income.type) updates.type = type;
+    if (source !== income.source) updates.source = source;
+    if (accountId !== originalAccountId) updates.accountId = accountId;
+    if (date !== formatDateForInput(income.date.toDate())) updates.date = parseDateFromInput(date);
+    if (note !== (income.note ?? '')) updates.note = note;
+    if (isRegular !== income.isRegular) updates.isRegular = isRegular;
+
+    if (Object.keys(updates).length === 0) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await onSave(income, updates);
+      onClose();
+    } catch {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={income !== null} onClose={onClose} title="Edit Income" size="md">
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <CurrencyInput
+              label="Amount"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              currency={CURRENCIES[currency].symbol}
+            />
+          </div>
+          <Select
+            label="Currency"
+            options={CURRENCY_OPTIONS}
+            value={currency}
+            onChange={(e) => setCurrency(e.target.value as CurrencyCode)}
+          />
+        </div>
+        <Select
+          label="Type"
+          options={typeOptions}
+          value={type}
+          onChange={(e) => setType(e.target.value as IncomeType)}
+        />
+        <Input label="Source" value={source} onChange={(e) => setSource(e.target.value)} />
+        {accountOptions.length > 1 && (
+          <Select
+            label="Account"
+            options={accountOptions}
+            value={accountId}
+            onChange={(e) => setAccountId(e.target.value)}
+          />
+        )}
+        <DatePicker label="Date" value={date} onChange={setDate} />
+        <Input label="Note" value={note} onChange={(e) => setNote(e.target.value)} />
+        <div className="flex items-center gap-3">
+          <input
+            type="checkbox"
+            id="editIsRegular"
+            checked={isRegular}
+            onChange={(e) => setIsRegular(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          />
+          <label htmlFor="editIsRegular" className="text-sm text-gray-700 dark:text-gray-300">
+            This is regular income (salary, recurring payment)
+          </label>
+        </div>
+
+        {income && <AuditHistory kind="income" recordId={income.id} currency={income.currency} />}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          onClick={handleSave}
+          isLoading={isSaving}
+          disabled={!amount || parseFloat(amount) <= 0 || !source.trim() || !date}
+        >
+          Save Changes
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { EditIncomeModal };
@@ -4,16 +4,18 @@
 // Income List Component
 // ============================================
 
-import { useState } from 'react';
+import { useState, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { format } from 'date-fns';
-import { Trash2, Edit2, Plus } from 'lucide-react';
+import { Trash2, Edit2, Plus, CheckSquare, CalendarClock, Repeat, Shapes } from 'lucide-react';
 import * as LucideIcons from 'lucide-react';
-import { Card, Button, Badge, Modal, ModalFooter } from '@/components/ui';
-import { Income } from '@/types';
-import { INCOME_TYPES } from '@/lib/utils/constants';
+import { Card, Button, Badge, Modal, ModalFooter, LoadMoreTrigger, BulkActionBar } from '@/components/ui';
+import { Income, IncomeBulkEdit } from '@/types';
+import { INCOME_TYPES, CurrencyCode, TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
 import { formatDateSmart } from '@/lib/utils/formatters';
-import { useSettings } from '@/hooks';
+import { useSettings, useSelection } from '@/hooks';
+import { cn } from '@/lib/cn';
+import { BulkEditIncomeModal, IncomeBulkAction } from './BulkEditIncomeModal';
 
 // ============================================
 // Types
@@ -24,6 +26,13 @@ interface IncomeListProps {
   isLoading?: boolean;
   onEdit?: (income: Income) => void;
   onDelete?: (id: string) => Promise<void>;
+  // Infinite scroll: older entries are asked for as the end of the list comes into view
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+  // Bulk actions; passing either lets rows be selected
+  onBulkEdit?: (ids: string[], edit: IncomeBulkEdit) => Promise<void>;
+  onBulkDelete?: (ids: string[]) => Promise<void>;
 }
 
 // ============================================
@@ -35,10 +44,13 @@ interface IncomeRowProps {
   index: number;
   onEdit?: (income: Income) => void;
   onDelete?: (id: string) => void;
-  formatCurrency: (cents: number) => string;
+  formatCurrency: (cents: number, showCents?: boolean, currency?: CurrencyCode) => string;
+  // Shown with a checkbox while selecting; shift-click extends from the last toggled row
+  isSelected?: boolean;
+  onToggleSelect?: (extend: boolean) => void;
 }
 
-const IncomeRow = ({ income, index, onEdit, onDelete, formatCurrency }: IncomeRowProps) => {
+const IncomeRow = ({ income, index, onEdit, onDelete, formatCurrency, isSelected, onToggleSelect }: IncomeRowProps) => {
   const typeConfig = INCOME_TYPES[income.type];
   const IconComponent = LucideIcons[typeConfig.icon as keyof typeof LucideIcons] as React.ElementType;
 
@@ -48,8 +60,22 @@ const IncomeRow = ({ income, index, onEdit, onDelete, formatCurrency }: IncomeRo
       animate={{ opacity: 1, y: 0 }}
       exit={{ opacity: 0, x: -100 }}
       transition={{ delay: index * 0.02, duration: 0.2 }}
-      className="group flex items-center gap-3 p-4 bg-white dark:bg-gray-900 rounded-xl border border-gray-100 dark:border-gray-800 hover:shadow-md transition-shadow"
+      className={cn(
+        'group flex items-center gap-3 p-4 bg-white dark:bg-gray-900 rounded-xl border hover:shadow-md transition-shadow',
+        isSelected ? 'border-indigo-400 dark:border-indigo-600' : 'border-gray-100 dark:border-gray-800'
+      )}
     >
+      {onToggleSelect && (
+        <input
+          type="checkbox"
+          checked={isSelected}
+          readOnly
+          onClick={(e) => onToggleSelect(e.shiftKey)}
+          className="h-4 w-4 flex-shrink-0 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+          aria-label="Select income"
+        />
+      )}
+
       {/* Type Icon */}
       <div
         className="flex-shrink-0 h-10 w-10 rounded-xl flex items-center justify-center"
@@ -83,7 +109,7 @@ const IncomeRow = ({ income, index, onEdit, onDelete, formatCurrency }: IncomeRo
 
       {/* Amount */}
       <p className="text-sm font-bold text-green-600 dark:text-green-400 whitespace-nowrap flex-shrink-0">
-        +{formatCurrency(income.amount)}
+        +{formatCurrency(income.amount, true, income.currency)}
       </p>
 
       {/* Actions - always visible on mobile, hover on desktop */}
@@ -113,19 +139,59 @@ const IncomeRow = ({ income, index, onEdit, onDelete, formatCurrency }: IncomeRo
 // Main Component
 // ============================================
 
-const IncomeList = ({ income, isLoading, onEdit, onDelete }: IncomeListProps) => {
+const IncomeList = ({
+  income,
+  isLoading,
+  onEdit,
+  onDelete,
+  hasMore = false,
+  isLoadingMore,
+  onLoadMore,
+  onBulkEdit,
+  onBulkDelete,
+}: IncomeListProps) => {
   const [deleteId, setDeleteId] = useState<string | null>(null);
-  const { formatCurrency } = useSettings();
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [bulkAction, setBulkAction] = useState<IncomeBulkAction | null>(null);
+  const { formatCurrency, toBaseCurrency } = useSettings();
 
-  // Group by month
-  const groupedIncome = income.reduce((groups, inc) => {
-    const month = format(inc.date.toDate(), 'yyyy-MM');
-    if (!groups[month]) {
-      groups[month] = [];
-    }
-    groups[month].push(inc);
-    return groups;
-  }, {} as Record<string, Income[]>);
+  // Group by month, newest first
+  const monthGroups = useMemo(() => {
+    const groupedIncome = income.reduce((groups, inc) => {
+      const month = format(inc.date.toDate(), 'yyyy-MM');
+      if (!groups[month]) {
+        groups[month] = [];
+      }
+      groups[month].push(inc);
+      return groups;
+    }, {} as Record<string, Income[]>);
+    return Object.entries(groupedIncome).sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime());
+  }, [income]);
+
+  // Selection follows the order rows are shown in, so shift-click ranges match what's on screen
+  const visibleIds = useMemo(
+    () => monthGroups.flatMap(([, monthIncome]) => monthIncome.map((inc) => inc.id)),
+    [monthGroups]
+  );
+  const selection = useSelection(visibleIds);
+  const canSelect = Boolean(onBulkEdit || onBulkDelete);
+
+  const stopSelecting = () => {
+    selection.clear();
+    setIsSelecting(false);
+  };
+
+  const handleBulkEdit = async (edit: IncomeBulkEdit) => {
+    if (!onBulkEdit) return;
+    await onBulkEdit(selection.selectedIds, edit);
+    selection.clear();
+  };
+
+  const handleBulkDelete = async () => {
+    if (!onBulkDelete) return;
+    await onBulkDelete(selection.selectedIds);
+    selection.clear();
+  };
 
   const handleConfirmDelete = async () => {
     if (deleteId && onDelete) {
@@ -164,37 +230,110 @@ const IncomeList = ({ income, isLoading, onEdit, onDelete }: IncomeListProps) =>
 
   return (
     <>
+      {canSelect && (
+        <div className="mb-4">
+          {isSelecting ? (
+            <BulkActionBar
+              selectedCount={selection.selectedIds.length}
+              totalCount={visibleIds.length}
+              onSelectAll={selection.selectAll}
+              onClear={stopSelecting}
+            >
+              {onBulkEdit && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<Shapes className="h-3.5 w-3.5" />}
+                    onClick={() => setBulkAction('incomeType')}
+                  >
+                    Type
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<CalendarClock className="h-3.5 w-3.5" />}
+                    onClick={() => setBulkAction('shiftDate')}
+                  >
+                    Shift Date
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<Repeat className="h-3.5 w-3.5" />}
+                    onClick={() => setBulkAction('regular')}
+                  >
+                    Regular
+                  </Button>
+                </>
+              )}
+              {onBulkDelete && (
+                <Button
+                  variant="danger"
+                  size="sm"
+                  leftIcon={<Trash2 className="h-3.5 w-3.5" />}
+                  onClick={() => setBulkAction('delete')}
+                >
+                  Delete
+                </Button>
+              )}
+            </BulkActionBar>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<CheckSquare className="h-4 w-4" />}
+              onClick={() => setIsSelecting(true)}
+            >
+              Select
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className="space-y-6">
         <AnimatePresence mode="popLayout">
-          {Object.entries(groupedIncome)
-            .sort(([a], [b]) => new Date(b).getTime() - new Date(a).getTime())
-            .map(([month, monthIncome]) => (
-              <div key={month}>
-                <div className="flex items-center justify-between mb-3">
-                  <p className="text-sm font-medium text-gray-500 dark:text-gray-400">
-                    {format(new Date(month + '-01'), 'MMMM yyyy')}
-                  </p>
-                  <p className="text-sm font-semibold text-green-600">
-                    Total: {formatCurrency(monthIncome.reduce((sum, i) => sum + i.amount, 0))}
-                  </p>
-                </div>
-                <div className="space-y-3">
-                  {monthIncome.map((inc, index) => (
-                    <IncomeRow
-                      key={inc.id}
-                      income={inc}
-                      index={index}
-                      onEdit={onEdit}
-                      onDelete={() => setDeleteId(inc.id)}
-                      formatCurrency={formatCurrency}
-                    />
-                  ))}
-                </div>
+          {monthGroups.map(([month, monthIncome]) => (
+            <div key={month}>
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm font-medium text-gray-500 dark:text-gray-400">
+                  {format(new Date(month + '-01'), 'MMMM yyyy')}
+                </p>
+                <p className="text-sm font-semibold text-green-600">
+                  Total: {formatCurrency(toBaseCurrency(monthIncome).reduce((sum, i) => sum + i.amount, 0))}
+                </p>
               </div>
-            ))}
+              <div className="space-y-3">
+                {monthIncome.map((inc, index) => (
+                  <IncomeRow
+                    key={inc.id}
+                    income={inc}
+                    index={index}
+                    onEdit={onEdit}
+                    onDelete={() => setDeleteId(inc.id)}
+                    formatCurrency={formatCurrency}
+                    isSelected={selection.isSelected(inc.id)}
+                    onToggleSelect={isSelecting ? (extend) => selection.toggle(inc.id, extend) : undefined}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
         </AnimatePresence>
       </div>
 
+      {onLoadMore && <LoadMoreTrigger hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} />}
+
+      {/* Bulk Edit Modal */}
+      <BulkEditIncomeModal
+        key={bulkAction ?? 'none'}
+        action={bulkAction}
+        selectedCount={selection.selectedIds.length}
+        onClose={() => setBulkAction(null)}
+        onApply={handleBulkEdit}
+        onDelete={handleBulkDelete}
+      />
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={deleteId !== null}
@@ -203,7 +342,7 @@ const IncomeList = ({ income, isLoading, onEdit, onDelete }: IncomeListProps) =>
         size="sm"
       >
         <p className="text-gray-600 dark:text-gray-400">
-          Are you sure you want to delete this income entry? This action cannot be undone.
+          This income entry will be moved to the trash, where it can be restored for {TRASH_RETENTION_DAYS} days.
         </p>
         <ModalFooter>
           <Button variant="secondary" onClick={() => setDeleteId(null)}>
@@ -3,3 +3,5 @@
 // ============================================
 
 export * from './IncomeList';
+export * from './EditIncomeModal';
+export * from './BulkEditIncomeModal';
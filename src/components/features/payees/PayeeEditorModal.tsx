@@ -0,0 +1,110 @@
+'use client';
+
+// ============================================
+// Payee Editor Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Modal, ModalFooter, Button, Input, Select } from '@/components/ui';
+import { Expense, ExpenseCategory, NewPayee, Payee } from '@/types';
+import { matchPayee } from '@/services/analytics';
+import { useCategories } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface PayeeEditorModalProps {
+  // The payee to edit or a prefilled draft; null closes the modal
+  payee: NewPayee | null;
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (payee: NewPayee) => Promise<void>;
+  // Past expenses the aliases are tested against
+  expenses: Expense[];
+}
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per payee so the form resets
+const PayeeEditorModal = ({ payee, isNew, onClose, onSave, expenses }: PayeeEditorModalProps) => {
+  const { allCategories } = useCategories();
+
+  const [name, setName] = useState(payee?.name ?? '');
+  const [aliases, setAliases] = useState((payee?.aliases ?? []).join(', '));
+  const [defaultCategory, setDefaultCategory] = useState<string>(payee?.defaultCategory ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryOptions = useMemo(
+    () => [{ value: '', label: 'None' }, ...allCategories.map((cat) => ({ value: cat.id, label: cat.name }))],
+    [allCategories]
+  );
+
+  const draft: NewPayee = {
+    name: name.trim(),
+    aliases: aliases
+      .split(',')
+      .map((alias) => alias.trim())
+      .filter(Boolean),
+    ...(defaultCategory && { defaultCategory: defaultCategory as ExpenseCategory }),
+  };
+
+  // Matched on its own, so other payees' aliases don't hide what this one would claim
+  const probe = { ...draft, id: '' } as Payee;
+  const matchCount = draft.name
+    ? expenses.filter((expense) => matchPayee(expense.description || '', [probe])).length
+    : 0;
+
+  const handleSave = async () => {
+    if (!draft.name) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={payee !== null} onClose={onClose} title={isNew ? 'New Payee' : 'Edit Payee'}>
+      <div className="space-y-4 py-2">
+        <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Amazon" />
+        <Input
+          label="Also appears as"
+          value={aliases}
+          onChange={(e) => setAliases(e.target.value)}
+          placeholder="e.g. amzn, amazon mktp"
+          helperText="Comma-separated words from statement descriptions. Numbers and card prefixes are ignored."
+        />
+        <Select
+          label="Default category"
+          options={categoryOptions}
+          value={defaultCategory}
+          onChange={(e) => setDefaultCategory(e.target.value)}
+          helperText="Filled in when a new expense's description names this payee"
+        />
+        {draft.name && (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Matches {matchCount} of {expenses.length} recent expenses.
+          </p>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!draft.name}>
+          {isNew ? 'Create Payee' : 'Save'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { PayeeEditorModal };
@@ -0,0 +1,154 @@
+'use client';
+
+// ============================================
+// Payees Card Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Store, Plus, Edit2, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Skeleton } from '@/components/ui';
+import { NewPayee, Payee } from '@/types';
+import { getLastNMonths } from '@/lib/utils/dateUtils';
+import { usePayees, useExpenses, useCategories, useToast } from '@/hooks';
+import { PayeeEditorModal } from './PayeeEditorModal';
+
+// ============================================
+// Helpers
+// ============================================
+
+// Aliases are tested against the last year of expenses
+const PREVIEW_MONTHS = 12;
+
+const emptyPayee: NewPayee = { name: '', aliases: [] };
+
+// ============================================
+// Component
+// ============================================
+
+const PayeesCard = () => {
+  const { payees, isLoading, addPayee, updatePayee, deletePayee } = usePayees();
+  const previewRange = useMemo(() => getLastNMonths(PREVIEW_MONTHS), []);
+  const { expenses } = useExpenses({ dateRange: previewRange });
+  const { getCategoryById } = useCategories();
+  const toast = useToast();
+
+  const [editing, setEditing] = useState<{ id: string | null; payee: NewPayee } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleSave = async (payee: NewPayee) => {
+    try {
+      if (editing?.id) {
+        // An explicit undefined clears a default that was removed
+        await updatePayee(editing.id, { defaultCategory: undefined, ...payee });
+        toast.success('Payee updated');
+      } else {
+        await addPayee(payee);
+        toast.success('Payee created');
+      }
+    } catch (error) {
+      toast.error('Failed to save payee');
+      throw error;
+    }
+  };
+
+  const handleDelete = async (payee: Payee) => {
+    setBusyId(payee.id);
+    try {
+      await deletePayee(payee.id);
+      toast.success(`${payee.name} deleted`);
+    } catch (error) {
+      toast.error('Failed to delete payee');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-full bg-teal-100 dark:bg-teal-900/30 flex items-center justify-center">
+                <Store className="h-5 w-5 text-teal-600 dark:text-teal-400" />
+              </div>
+              <CardTitle>Payees</CardTitle>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Plus className="h-4 w-4" />}
+              onClick={() => setEditing({ id: null, payee: emptyPayee })}
+            >
+              New Payee
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Payees group the different ways a merchant shows up on statements, like &ldquo;AMZN Mktp US&rdquo; and
+            &ldquo;Amazon.com&rdquo;, for merchant analytics and a default category.
+          </p>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : payees.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No payees yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100 dark:divide-gray-800 border-t border-gray-100 dark:border-gray-800">
+              {payees.map((payee) => (
+                <div key={payee.id} className="flex items-center gap-3 py-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{payee.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {[
+                        payee.aliases.length > 0 && `Also ${payee.aliases.join(', ')}`,
+                        payee.defaultCategory &&
+                          `→ ${getCategoryById(payee.defaultCategory)?.name ?? payee.defaultCategory}`,
+                      ]
+                        .filter(Boolean)
+                        .join(' ')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing({ id: payee.id, payee })}
+                    disabled={busyId !== null}
+                    aria-label="Edit"
+                  >
+                    <Edit2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(payee)}
+                    disabled={busyId !== null}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-gray-400" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Payee Editor Modal */}
+      <PayeeEditorModal
+        key={editing?.id ?? (editing ? 'new' : 'none')}
+        payee={editing?.payee ?? null}
+        isNew={!editing?.id}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        expenses={expenses}
+      />
+    </>
+  );
+};
+
+export { PayeesCard };
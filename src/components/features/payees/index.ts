@@ -0,0 +1,6 @@
+// ============================================
+// Payee Features Barrel Export
+// ============================================
+
+export * from './PayeesCard';
+export * from './PayeeEditorModal';
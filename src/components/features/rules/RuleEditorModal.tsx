@@ -0,0 +1,239 @@
+'use client';
+
+// ============================================
+// Rule Editor Modal Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Modal, ModalFooter, Button, Input, CurrencyInput, Select, TagInput } from '@/components/ui';
+import { Expense, Income, ImportKind, IncomeType, ExpenseCategory, NewCategorizationRule, RuleMatchMode } from '@/types';
+import { INCOME_TYPES } from '@/lib/utils/constants';
+import { formatAmountForInput, formatDate, normalizeTag } from '@/lib/utils/formatters';
+import { getPatternError, previewRule } from '@/services/rules';
+import { getUsedTags } from '@/services/analytics';
+import { useSettings, useCategories } from '@/hooks';
+
+// ============================================
+// Types
+// ============================================
+
+interface RuleEditorModalProps {
+  // The rule to edit or a prefilled draft; null closes the modal
+  rule: NewCategorizationRule | null;
+  isNew: boolean;
+  onClose: () => void;
+  onSave: (rule: NewCategorizationRule) => Promise<void>;
+  // Past transactions the rule is tested against
+  expenses: Expense[];
+  income: Income[];
+}
+
+const kindOptions = [
+  { value: 'expense', label: 'Expenses' },
+  { value: 'income', label: 'Income' },
+];
+
+const modeOptions = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'regex', label: 'Matches regex' },
+];
+
+const typeOptions = [
+  { value: '', label: "Don't change" },
+  ...Object.entries(INCOME_TYPES).map(([value, config]) => ({ value, label: config.name })),
+];
+
+const PREVIEW_LIMIT = 5;
+
+// ============================================
+// Component
+// ============================================
+
+// Mount with a key per rule so the form resets
+const RuleEditorModal = ({ rule, isNew, onClose, onSave, expenses, income }: RuleEditorModalProps) => {
+  const { settings, currencySymbol, parseCurrency, formatCurrency, toBaseCurrency } = useSettings();
+  const { allCategories, getCategoryById } = useCategories();
+
+  const [name, setName] = useState(rule?.name ?? '');
+  const [kind, setKind] = useState<ImportKind>(rule?.kind ?? 'expense');
+  const [text, setText] = useState(rule?.conditions.text ?? '');
+  const [textMode, setTextMode] = useState<RuleMatchMode>(rule?.conditions.textMode ?? 'contains');
+  const [minAmount, setMinAmount] = useState(
+    rule?.conditions.minAmount !== undefined ? formatAmountForInput(rule.conditions.minAmount, settings.currency) : ''
+  );
+  const [maxAmount, setMaxAmount] = useState(
+    rule?.conditions.maxAmount !== undefined ? formatAmountForInput(rule.conditions.maxAmount, settings.currency) : ''
+  );
+  const [category, setCategory] = useState<string>(rule?.actions.category ?? '');
+  const [tags, setTags] = useState<string[]>(rule?.actions.tags ?? []);
+  const [incomeType, setIncomeType] = useState<string>(rule?.actions.incomeType ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const categoryOptions = useMemo(
+    () => [
+      { value: '', label: "Don't change" },
+      ...allCategories.map((cat) => ({ value: cat.id, label: cat.name })),
+    ],
+    [allCategories]
+  );
+
+  const usedTags = useMemo(() => getUsedTags(expenses), [expenses]);
+
+  const patternError = textMode === 'regex' && text.trim() ? getPatternError(text.trim()) : null;
+
+  const draft: NewCategorizationRule = {
+    name: name.trim(),
+    kind,
+    conditions: {
+      textMode,
+      ...(text.trim() && { text: text.trim() }),
+      ...(minAmount && { minAmount: parseCurrency(minAmount) }),
+      ...(maxAmount && { maxAmount: parseCurrency(maxAmount) }),
+    },
+    actions:
+      kind === 'expense'
+        ? {
+            ...(category && { category: category as ExpenseCategory }),
+            tags: tags.map(normalizeTag).filter(Boolean),
+          }
+        : { ...(incomeType && { incomeType: incomeType as IncomeType }) },
+  };
+
+  const { text: draftText, minAmount: draftMin, maxAmount: draftMax } = draft.conditions;
+  const hasCondition = Boolean(draftText) || draftMin !== undefined || draftMax !== undefined;
+  const hasAction = Boolean(draft.actions.category || draft.actions.tags?.length || draft.actions.incomeType);
+  const amountError =
+    draftMin !== undefined && draftMax !== undefined && draftMin > draftMax ? 'Minimum is above the maximum' : undefined;
+  const canSave = Boolean(draft.name) && hasCondition && hasAction && !patternError && !amountError;
+
+  // Rules compare amounts in the base currency, so the history is converted first
+  const history = useMemo<(Expense | Income)[]>(
+    () => (kind === 'expense' ? toBaseCurrency(expenses) : toBaseCurrency(income)),
+    [kind, expenses, income, toBaseCurrency]
+  );
+  const preview = hasCondition && !patternError ? previewRule(draft, history) : null;
+
+  const describe = (record: Expense | Income): string =>
+    'category' in record
+      ? record.description || getCategoryById(record.category)?.name || record.category
+      : record.source;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } catch (error) {
+      // The caller reports the failure; keep the form open
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={rule !== null} onClose={onClose} title={isNew ? 'New Rule' : 'Edit Rule'} size="lg">
+      <div className="space-y-4 py-2">
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Input label="Name" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Streaming" />
+          </div>
+          <Select
+            label="Applies to"
+            options={kindOptions}
+            value={kind}
+            onChange={(e) => setKind(e.target.value as ImportKind)}
+          />
+        </div>
+
+        {/* Conditions */}
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">When</p>
+        <div className="grid grid-cols-3 gap-3">
+          <div className="col-span-2">
+            <Input
+              label={kind === 'expense' ? 'Description' : 'Source'}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={textMode === 'regex' ? 'e.g. ^(uber|lyft)' : 'e.g. netflix'}
+              error={patternError ?? undefined}
+            />
+          </div>
+          <Select
+            label="Match"
+            options={modeOptions}
+            value={textMode}
+            onChange={(e) => setTextMode(e.target.value as RuleMatchMode)}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-3">
+          <CurrencyInput
+            label="Amount at least"
+            value={minAmount}
+            onChange={(e) => setMinAmount(e.target.value)}
+            placeholder="Any"
+            currency={currencySymbol}
+            error={amountError}
+          />
+          <CurrencyInput
+            label="Amount at most"
+            value={maxAmount}
+            onChange={(e) => setMaxAmount(e.target.value)}
+            placeholder="Any"
+            currency={currencySymbol}
+          />
+        </div>
+
+        {/* Actions */}
+        <p className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">Then</p>
+        {kind === 'expense' ? (
+          <>
+            <Select
+              label="Set category"
+              options={categoryOptions}
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+            />
+            <TagInput label="Add tags" value={tags} onChange={setTags} suggestions={usedTags} />
+          </>
+        ) : (
+          <Select
+            label="Set income type"
+            options={typeOptions}
+            value={incomeType}
+            onChange={(e) => setIncomeType(e.target.value)}
+          />
+        )}
+
+        {/* History Preview */}
+        {preview && (
+          <div className="rounded-lg bg-gray-50 dark:bg-gray-800/50 p-3 space-y-2">
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              Matches {preview.matches.length} of {history.length} recent{' '}
+              {kind === 'expense' ? 'expenses' : 'income entries'}
+              {preview.matches.length > 0 && hasAction && `, and would change ${preview.changed.length}`}.
+            </p>
+            {preview.matches.slice(0, PREVIEW_LIMIT).map((record) => (
+              <div key={record.id} className="flex items-center justify-between gap-3 text-xs">
+                <span className="text-gray-600 dark:text-gray-400 truncate">
+                  {formatDate(record.date)} · {describe(record)}
+                </span>
+                <span className="text-gray-900 dark:text-white font-medium">{formatCurrency(record.amount)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <ModalFooter>
+        <Button variant="secondary" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} isLoading={isSaving} disabled={!canSave}>
+          {isNew ? 'Create Rule' : 'Save'}
+        </Button>
+      </ModalFooter>
+    </Modal>
+  );
+};
+
+export { RuleEditorModal };
@@ -0,0 +1,217 @@
+'use client';
+
+// ============================================
+// Rules Card Component
+// ============================================
+
+import { useState, useMemo } from 'react';
+import { Wand2, Plus, ChevronUp, ChevronDown, Edit2, Trash2 } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Badge, Skeleton } from '@/components/ui';
+import { CategorizationRule, NewCategorizationRule } from '@/types';
+import { INCOME_TYPES } from '@/lib/utils/constants';
+import { formatTag } from '@/lib/utils/formatters';
+import { getLastNMonths } from '@/lib/utils/dateUtils';
+import { useCategorizationRules, useExpenses, useIncome, useSettings, useCategories, useToast } from '@/hooks';
+import { cn } from '@/lib/cn';
+import { RuleEditorModal } from './RuleEditorModal';
+
+// ============================================
+// Helpers
+// ============================================
+
+// Rules are tested against the last year of transactions
+const PREVIEW_MONTHS = 12;
+
+const emptyRule: NewCategorizationRule = {
+  name: '',
+  kind: 'expense',
+  conditions: { textMode: 'contains' },
+  actions: {},
+};
+
+// ============================================
+// Component
+// ============================================
+
+const RulesCard = () => {
+  const { rules, isLoading, addRule, updateRule, deleteRule, moveRule } = useCategorizationRules();
+  const previewRange = useMemo(() => getLastNMonths(PREVIEW_MONTHS), []);
+  const { expenses } = useExpenses({ dateRange: previewRange });
+  const { income } = useIncome({ dateRange: previewRange });
+  const { formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const toast = useToast();
+
+  const [editing, setEditing] = useState<{ id: string | null; rule: NewCategorizationRule } | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const describeConditions = (rule: CategorizationRule): string => {
+    const { text, textMode, minAmount, maxAmount } = rule.conditions;
+    const field = rule.kind === 'expense' ? 'Description' : 'Source';
+    const parts = [
+      text && (textMode === 'regex' ? `${field} matches /${text}/` : `${field} contains "${text}"`),
+      minAmount !== undefined && maxAmount !== undefined
+        ? `${formatCurrency(minAmount)}–${formatCurrency(maxAmount)}`
+        : minAmount !== undefined
+          ? `at least ${formatCurrency(minAmount)}`
+          : maxAmount !== undefined && `at most ${formatCurrency(maxAmount)}`,
+    ];
+    return parts.filter(Boolean).join(', ');
+  };
+
+  const describeActions = (rule: CategorizationRule): string => {
+    const { category, tags, incomeType } = rule.actions;
+    const parts = [
+      category && `→ ${getCategoryById(category)?.name ?? category}`,
+      ...(tags ?? []).map(formatTag),
+      incomeType && `→ ${INCOME_TYPES[incomeType]?.name ?? incomeType}`,
+    ];
+    return parts.filter(Boolean).join(' ');
+  };
+
+  const handleSave = async (rule: NewCategorizationRule) => {
+    try {
+      if (editing?.id) {
+        await updateRule(editing.id, rule);
+        toast.success('Rule updated');
+      } else {
+        await addRule(rule);
+        toast.success('Rule created');
+      }
+    } catch (error) {
+      toast.error('Failed to save rule');
+      throw error;
+    }
+  };
+
+  // Run a change against one rule, locking the list while it saves
+  const withRule = async (rule: CategorizationRule, action: () => Promise<void>, failure: string) => {
+    setBusyId(rule.id);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center">
+                <Wand2 className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+              </div>
+              <CardTitle>Categorization Rules</CardTitle>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              leftIcon={<Plus className="h-4 w-4" />}
+              onClick={() => setEditing({ id: null, rule: emptyRule })}
+            >
+              New Rule
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Rules fill in the category, tags or income type as you add and import transactions. They run from top to
+            bottom, and the first rule to set a field wins it.
+          </p>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No rules yet.</p>
+          ) : (
+            <div className="divide-y divide-gray-100 dark:divide-gray-800 border-t border-gray-100 dark:border-gray-800">
+              {rules.map((rule, index) => (
+                <div key={rule.id} className={cn('flex items-center gap-3 py-2', !rule.isActive && 'opacity-60')}>
+                  <div className="flex flex-col">
+                    <button
+                      type="button"
+                      onClick={() => withRule(rule, () => moveRule(rule.id, -1), 'Failed to reorder rules')}
+                      disabled={index === 0 || busyId !== null}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      aria-label="Run earlier"
+                    >
+                      <ChevronUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => withRule(rule, () => moveRule(rule.id, 1), 'Failed to reorder rules')}
+                      disabled={index === rules.length - 1 || busyId !== null}
+                      className="text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      aria-label="Run later"
+                    >
+                      <ChevronDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{rule.name}</p>
+                      <Badge variant={rule.kind === 'expense' ? 'warning' : 'success'} size="sm">
+                        {rule.kind}
+                      </Badge>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {describeConditions(rule)} {describeActions(rule)}
+                    </p>
+                  </div>
+                  <input
+                    type="checkbox"
+                    checked={rule.isActive}
+                    onChange={(e) =>
+                      withRule(rule, () => updateRule(rule.id, { isActive: e.target.checked }), 'Failed to update rule')
+                    }
+                    disabled={busyId !== null}
+                    className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                    aria-label="Active"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditing({ id: rule.id, rule })}
+                    disabled={busyId !== null}
+                    aria-label="Edit"
+                  >
+                    <Edit2 className="h-4 w-4 text-gray-500" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => withRule(rule, () => deleteRule(rule.id), 'Failed to delete rule')}
+                    disabled={busyId !== null}
+                    aria-label="Delete"
+                  >
+                    <Trash2 className="h-4 w-4 text-gray-400" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Rule Editor Modal */}
+      <RuleEditorModal
+        key={editing?.id ?? (editing ? 'new' : 'none')}
+        rule={editing?.rule ?? null}
+        isNew={!editing?.id}
+        onClose={() => setEditing(null)}
+        onSave={handleSave}
+        expenses={expenses}
+        income={income}
+      />
+    </>
+  );
+};
+
+export { RulesCard };
@@ -0,0 +1,6 @@
+// ============================================
+// Rules Features Barrel Export
+// ============================================
+
+export * from './RulesCard';
+export * from './RuleEditorModal';
@@ -0,0 +1,184 @@
+'use client';
+
+// ============================================
+// Query Bar Component
+// ============================================
+
+import { useState } from 'react';
+import { Search, Bookmark, X } from 'lucide-react';
+import { Button, Input, Modal, ModalFooter } from '@/components/ui';
+import { useSettings, useToast } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface QueryBarProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Parse errors for the current query
+  errors?: string[];
+  placeholder?: string;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const QueryBar = ({
+  value,
+  onChange,
+  errors = [],
+  placeholder = 'Search, e.g. >50 category:groceries #work date:last-month',
+  className,
+}: QueryBarProps) => {
+  const { settings, updateSettings } = useSettings();
+  const toast = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const query = value.trim();
+  const savedFilters = settings.savedFilters;
+  const existing = savedFilters.find((saved) => saved.name.toLowerCase() === name.trim().toLowerCase());
+
+  const openSave = () => {
+    setName(savedFilters.find((saved) => saved.query === query)?.name ?? '');
+    setIsSaveOpen(true);
+  };
+
+  // Saving under an existing name replaces that filter
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    setIsSaving(true);
+    try {
+      await updateSettings({
+        savedFilters: [
+          ...savedFilters.filter((saved) => saved.name.toLowerCase() !== trimmed.toLowerCase()),
+          { name: trimmed, query },
+        ],
+      });
+      toast.success(`Saved "${trimmed}"`);
+      setIsSaveOpen(false);
+    } catch (error) {
+      toast.error('Failed to save filter');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (filterName: string) => {
+    try {
+      await updateSettings({ savedFilters: savedFilters.filter((saved) => saved.name !== filterName) });
+    } catch (error) {
+      toast.error('Failed to remove filter');
+    }
+  };
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex gap-2">
+        <div className="flex-1">
+          <Input
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            leftIcon={<Search className="h-4 w-4" />}
+            rightIcon={
+              value ? (
+                <button type="button" onClick={() => onChange('')} aria-label="Clear search">
+                  <X className="h-4 w-4" />
+                </button>
+              ) : undefined
+            }
+          />
+        </div>
+        <Button
+          variant="outline"
+          onClick={openSave}
+          disabled={!query}
+          leftIcon={<Bookmark className="h-4 w-4" />}
+          aria-label="Save filter"
+        >
+          <span className="hidden sm:inline">Save</span>
+        </Button>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="space-y-0.5">
+          {errors.map((error) => (
+            <p key={error} className="text-xs text-red-600 dark:text-red-400">
+              {error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      {/* Saved filters */}
+      {savedFilters.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto pb-2 -mx-4 px-4 scrollbar-hide">
+          {savedFilters.map((saved) => {
+            const isActive = saved.query === query;
+            return (
+              <div
+                key={saved.name}
+                className={cn(
+                  'flex flex-shrink-0 items-center rounded-lg border text-sm',
+                  isActive
+                    ? 'border-indigo-600 bg-indigo-600 text-white'
+                    : 'border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300'
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onChange(isActive ? '' : saved.query)}
+                  className="pl-3 pr-1.5 py-1.5 whitespace-nowrap"
+                  title={saved.query}
+                >
+                  {saved.name}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRemove(saved.name)}
+                  className={cn('pr-2 py-1.5', isActive ? 'text-indigo-200 hover:text-white' : 'text-gray-400 hover:text-gray-600')}
+                  aria-label={`Remove ${saved.name}`}
+                >
+                  <X className="h-3.5 w-3.5" />
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {/* Save Filter Modal */}
+      <Modal isOpen={isSaveOpen} onClose={() => setIsSaveOpen(false)} title="Save Filter" size="sm">
+        <div className="space-y-4">
+          <Input
+            label="Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Big grocery runs"
+            helperText={existing ? `Replaces the saved filter "${existing.name}"` : undefined}
+            autoFocus
+          />
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono break-all">{query}</p>
+        </div>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setIsSaveOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} isLoading={isSaving} disabled={!name.trim()}>
+            Save
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </div>
+  );
+};
+
+export { QueryBar };
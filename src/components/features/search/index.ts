@@ -0,0 +1,5 @@
+// ============================================
+// Search Features Barrel Export
+// ============================================
+
+export * from './QueryBar';
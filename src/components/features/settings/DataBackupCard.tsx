@@ -0,0 +1,258 @@
+'use client';
+
+// ============================================
+// Data Backup Card Component
+// ============================================
+
+import { useState, ChangeEvent } from 'react';
+import { Database, Download, Upload, FileJson, RefreshCw } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Modal, ModalFooter } from '@/components/ui';
+import { BackupCollection, RestoreMode } from '@/types';
+import { BackupSchema } from '@/lib/utils/validators';
+import { formatDate } from '@/lib/utils/formatters';
+import { useBackup, useRollups, useToast } from '@/hooks';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Options
+// ============================================
+
+const csvCollections: { value: BackupCollection; label: string }[] = [
+  { value: 'expenses', label: 'Expenses' },
+  { value: 'income', label: 'Income' },
+  { value: 'accounts', label: 'Accounts' },
+  { value: 'accountTransfers', label: 'Transfers' },
+  { value: 'customCategories', label: 'Categories' },
+  { value: 'budgets', label: 'Budgets' },
+  { value: 'goals', label: 'Goals' },
+  { value: 'exchangeRates', label: 'Exchange Rates' },
+  { value: 'settings', label: 'Settings' },
+];
+
+const restoreModes: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: 'merge',
+    label: 'Merge',
+    description: 'Add records from the backup. Records that already exist are overwritten.',
+  },
+  {
+    value: 'replace',
+    label: 'Replace',
+    description: 'Delete everything that is not in the backup, then restore it.',
+  },
+];
+
+// ============================================
+// Component
+// ============================================
+
+const DataBackupCard = () => {
+  const { isExporting, isRestoring, exportJson, exportCsv, readBackupFile, restore } = useBackup();
+  // Only the rebuild is needed here, not the summaries themselves
+  const { isRebuilding, rebuild } = useRollups({ enabled: false });
+  const toast = useToast();
+
+  const [backup, setBackup] = useState<BackupSchema | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+
+  const handleExportJson = async () => {
+    try {
+      await exportJson();
+    } catch (error) {
+      toast.error('Failed to export data');
+    }
+  };
+
+  const handleExportCsv = async (collection: BackupCollection) => {
+    try {
+      await exportCsv(collection);
+    } catch (error) {
+      toast.error('Failed to export data');
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setBackup(await readBackupFile(file));
+      setFileName(file.name);
+    } catch (error) {
+      setBackup(null);
+      setFileName(null);
+      toast.error(error instanceof Error ? error.message : 'Invalid backup file');
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    try {
+      await restore(backup, mode);
+      toast.success('Backup restored');
+      setBackup(null);
+      setFileName(null);
+      setIsConfirmOpen(false);
+    } catch (error) {
+      toast.error('Failed to restore backup');
+    }
+  };
+
+  const handleRebuild = async () => {
+    try {
+      await rebuild();
+      toast.success('Analytics rebuilt');
+    } catch (error) {
+      toast.error('Failed to rebuild analytics');
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="h-10 w-10 rounded-full bg-amber-100 dark:bg-amber-900/30 flex items-center justify-center">
+              <Database className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+            </div>
+            <CardTitle>Data & Backup</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {/* Export */}
+          <div className="space-y-3">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">Export</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                A JSON backup holds everything and can be restored here. CSV files open in any spreadsheet.
+              </p>
+            </div>
+            <Button
+              variant="primary"
+              onClick={handleExportJson}
+              isLoading={isExporting}
+              leftIcon={<FileJson className="h-4 w-4" />}
+            >
+              Download Backup
+            </Button>
+            <div className="flex flex-wrap gap-2">
+              {csvCollections.map((collection) => (
+                <Button
+                  key={collection.value}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExportCsv(collection.value)}
+                  disabled={isExporting}
+                  leftIcon={<Download className="h-4 w-4" />}
+                >
+                  {collection.label} CSV
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Restore */}
+          <div className="space-y-3 pt-6 border-t border-gray-100 dark:border-gray-800">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">Restore</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Load a JSON backup, for example to move from development mode to a Firebase project.
+              </p>
+            </div>
+            <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors">
+              <Upload className="h-4 w-4" />
+              {fileName ?? 'Choose backup file'}
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleFileChange} />
+            </label>
+
+            {backup && (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  Exported {formatDate(new Date(backup.exportedAt))}: {backup.expenses.length} expenses,{' '}
+                  {backup.income.length} income entries, {backup.customCategories.length} custom categories
+                  {backup.recurringRules.length > 0 && `, ${backup.recurringRules.length} recurring expenses`}
+                  {backup.categorizationRules.length > 0 &&
+                    `, ${backup.categorizationRules.length} categorization rules`}
+                  {backup.accounts.length > 0 && `, ${backup.accounts.length} accounts`}
+                  {backup.payees.length > 0 && `, ${backup.payees.length} payees`}
+                  {backup.savingsGoals.length > 0 && `, ${backup.savingsGoals.length} savings goals`}
+                  {backup.debts.length > 0 && `, ${backup.debts.length} debts`}
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {restoreModes.map((option) => (
+                    <button
+                      key={option.value}
+                      type="button"
+                      onClick={() => setMode(option.value)}
+                      className={cn(
+                        'text-left p-3 rounded-lg border transition-colors',
+                        mode === option.value
+                          ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/20'
+                          : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                      )}
+                    >
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">{option.label}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{option.description}</p>
+                    </button>
+                  ))}
+                </div>
+                <Button
+                  variant={mode === 'replace' ? 'danger' : 'primary'}
+                  onClick={() => (mode === 'replace' ? setIsConfirmOpen(true) : handleRestore())}
+                  isLoading={isRestoring && !isConfirmOpen}
+                >
+                  Restore Backup
+                </Button>
+              </>
+            )}
+          </div>
+
+          {/* Repair */}
+          <div className="space-y-3 pt-6 border-t border-gray-100 dark:border-gray-800">
+            <div>
+              <p className="font-medium text-gray-900 dark:text-white">Rebuild Analytics</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Past months are summarized as you go. If their totals look wrong, recount them from your transactions.
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              onClick={handleRebuild}
+              isLoading={isRebuilding}
+              leftIcon={<RefreshCw className="h-4 w-4" />}
+            >
+              Rebuild Analytics
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Replace Confirmation Modal */}
+      <Modal
+        isOpen={isConfirmOpen}
+        onClose={() => setIsConfirmOpen(false)}
+        title="Replace All Data"
+        size="sm"
+      >
+        <p className="text-gray-600 dark:text-gray-400">
+          Expenses, income, categories, budgets, goals and settings that are not in this backup will be permanently
+          deleted. This cannot be undone.
+        </p>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setIsConfirmOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleRestore} isLoading={isRestoring}>
+            Replace
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+};
+
+export { DataBackupCard };
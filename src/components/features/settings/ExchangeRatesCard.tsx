@@ -0,0 +1,202 @@
+'use client';
+
+// ============================================
+// Exchange Rates Card Component
+// ============================================
+
+import { useState, useMemo, ChangeEvent } from 'react';
+import { ArrowRightLeft, Plus, Trash2, Upload, AlertTriangle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Input, Select, DatePicker } from '@/components/ui';
+import { ExchangeRate } from '@/types';
+import { CurrencyCode, CURRENCY_OPTIONS } from '@/lib/utils/constants';
+import { exchangeRateSchema } from '@/lib/utils/validators';
+import { formatDateForInput, formatDate, parseDateFromInput } from '@/lib/utils/formatters';
+import { findMissingExchangeRates } from '@/services/analytics';
+import { parseExchangeRateFile, mergeExchangeRates } from '@/services/import';
+import { useSettings, useExpenses, useIncome, useToast } from '@/hooks';
+
+// ============================================
+// Component
+// ============================================
+
+const ExchangeRatesCard = () => {
+  const { settings, updateSettings } = useSettings();
+  const { expenses } = useExpenses();
+  const { income } = useIncome();
+  const toast = useToast();
+
+  const rates = settings.exchangeRates;
+
+  const [from, setFrom] = useState<CurrencyCode>(settings.currency === 'EUR' ? 'USD' : 'EUR');
+  const [to, setTo] = useState<CurrencyCode>(settings.currency);
+  const [rate, setRate] = useState('');
+  const [date, setDate] = useState(formatDateForInput(new Date()));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Currencies the user has spent or earned in that can't be converted yet
+  const missing = useMemo(
+    () => findMissingExchangeRates([...expenses, ...income], settings.currency, rates),
+    [expenses, income, settings.currency, rates]
+  );
+
+  const saveRates = async (next: ExchangeRate[]) => {
+    setIsSaving(true);
+    try {
+      await updateSettings({ exchangeRates: next });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const result = exchangeRateSchema.safeParse({ from, to, rate: parseFloat(rate), date });
+    if (!result.success) {
+      toast.error(result.error.issues[0].message);
+      return;
+    }
+
+    try {
+      await saveRates(mergeExchangeRates(rates, [result.data]));
+      setRate('');
+      toast.success('Exchange rate saved');
+    } catch (error) {
+      toast.error('Failed to save exchange rate');
+    }
+  };
+
+  const handleDelete = async (entry: ExchangeRate) => {
+    try {
+      await saveRates(rates.filter((existing) => existing !== entry));
+    } catch (error) {
+      toast.error('Failed to delete exchange rate');
+    }
+  };
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: imported, errors } = parseExchangeRateFile(await file.text());
+    if (imported.length === 0) {
+      toast.error(errors[0] ?? 'No exchange rates found in file');
+      return;
+    }
+
+    try {
+      await saveRates(mergeExchangeRates(rates, imported));
+      toast.success(
+        `Imported ${imported.length} rate${imported.length === 1 ? '' : 's'}` +
+          (errors.length > 0 ? `, skipped ${errors.length} invalid row${errors.length === 1 ? '' : 's'}` : '')
+      );
+    } catch (error) {
+      toast.error('Failed to import exchange rates');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <div className="h-10 w-10 rounded-full bg-sky-100 dark:bg-sky-900/30 flex items-center justify-center">
+            <ArrowRightLeft className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+          </div>
+          <CardTitle>Exchange Rates</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Totals are shown in {settings.currency}. Each transaction is converted with the latest rate on or before
+          its date.
+        </p>
+
+        {missing.length > 0 && (
+          <p className="flex items-start gap-2 text-sm text-amber-600 dark:text-amber-400 bg-amber-50 dark:bg-amber-900/20 px-3 py-2 rounded-lg">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+            No rate into {settings.currency} for {missing.join(', ')}. Those amounts are counted at face value until
+            one is added.
+          </p>
+        )}
+
+        {/* Add a rate */}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <Select
+            label="1 unit of"
+            options={CURRENCY_OPTIONS}
+            value={from}
+            onChange={(e) => setFrom(e.target.value as CurrencyCode)}
+          />
+          <Select
+            label="Equals, in"
+            options={CURRENCY_OPTIONS}
+            value={to}
+            onChange={(e) => setTo(e.target.value as CurrencyCode)}
+          />
+          <Input
+            label="Rate"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min="0"
+            placeholder="1.00"
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <DatePicker label="From date" value={date} onChange={setDate} />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            variant="primary"
+            onClick={handleAdd}
+            isLoading={isSaving}
+            disabled={!rate}
+            leftIcon={<Plus className="h-4 w-4" />}
+          >
+            Add Rate
+          </Button>
+          <label className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800 cursor-pointer transition-colors">
+            <Upload className="h-4 w-4" />
+            Import CSV or JSON
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+          </label>
+        </div>
+
+        {/* Rate table */}
+        {rates.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">No exchange rates yet.</p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border-t border-gray-100 dark:border-gray-800">
+            {rates.map((entry) => (
+              <div key={`${entry.from}-${entry.to}-${entry.date}`} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    1 {entry.from} = {entry.rate} {entry.to}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    From {formatDate(parseDateFromInput(entry.date))}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleDelete(entry)}
+                  disabled={isSaving}
+                  aria-label="Delete rate"
+                >
+                  <Trash2 className="h-4 w-4 text-gray-400" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export { ExchangeRatesCard };
@@ -0,0 +1,170 @@
+'use client';
+
+// ============================================
+// Trash Card Component
+// ============================================
+
+import { useState } from 'react';
+import { differenceInCalendarDays, addDays } from 'date-fns';
+import { Trash2, RotateCcw, ArrowDownCircle, ArrowUpCircle } from 'lucide-react';
+import { Card, CardHeader, CardTitle, CardContent, Button, Modal, ModalFooter, Skeleton } from '@/components/ui';
+import { TrashItem } from '@/types';
+import { formatDate, formatRelativeTime } from '@/lib/utils/formatters';
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
+import { useTrash, useSettings, useCategories, useToast } from '@/hooks';
+
+// ============================================
+// Component
+// ============================================
+
+const TrashCard = () => {
+  const { items, isLoading, restore, purge, emptyTrash } = useTrash();
+  const { formatCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const toast = useToast();
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isConfirmOpen, setIsConfirmOpen] = useState(false);
+  const [isEmptying, setIsEmptying] = useState(false);
+
+  const getLabel = (item: TrashItem): string =>
+    item.kind === 'expense'
+      ? item.record.description || getCategoryById(item.record.category)?.name || item.record.category
+      : item.record.source;
+
+  const getDaysLeft = (item: TrashItem): number =>
+    Math.max(0, differenceInCalendarDays(addDays(item.deletedAt.toDate(), TRASH_RETENTION_DAYS), new Date()));
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await restore([item.id]);
+      toast.success(item.kind === 'expense' ? 'Expense restored' : 'Income restored');
+    } catch (error) {
+      toast.error('Failed to restore item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    setBusyId(item.id);
+    try {
+      await purge([item.id]);
+    } catch (error) {
+      toast.error('Failed to delete item');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    setIsEmptying(true);
+    try {
+      await emptyTrash();
+      toast.success('Trash emptied');
+      setIsConfirmOpen(false);
+    } catch (error) {
+      toast.error('Failed to empty trash');
+    } finally {
+      setIsEmptying(false);
+    }
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <div className="h-10 w-10 rounded-full bg-gray-100 dark:bg-gray-800 flex items-center justify-center">
+                <Trash2 className="h-5 w-5 text-gray-600 dark:text-gray-400" />
+              </div>
+              <CardTitle>Trash</CardTitle>
+            </div>
+            {items.length > 0 && (
+              <Button variant="outline" size="sm" onClick={() => setIsConfirmOpen(true)}>
+                Empty Trash
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Deleted expenses and income stay here for {TRASH_RETENTION_DAYS} days before they are removed for good.
+          </p>
+
+          {isLoading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : items.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-4">The trash is empty.</p>
+          ) : (
+            <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-800 border-t border-gray-100 dark:border-gray-800">
+              {items.map((item) => {
+                const Icon = item.kind === 'expense' ? ArrowUpCircle : ArrowDownCircle;
+                return (
+                  <div key={item.id} className="flex items-center gap-3 py-2">
+                    <Icon
+                      className={
+                        item.kind === 'expense' ? 'h-5 w-5 shrink-0 text-red-500' : 'h-5 w-5 shrink-0 text-green-500'
+                      }
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                        {getLabel(item)} · {formatCurrency(item.record.amount, true, item.record.currency)}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {formatDate(item.record.date)} · Deleted {formatRelativeTime(item.deletedAt)} ·{' '}
+                        {getDaysLeft(item)} days left
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRestore(item)}
+                      disabled={busyId !== null}
+                      isLoading={busyId === item.id}
+                      aria-label="Restore"
+                    >
+                      <RotateCcw className="h-4 w-4 text-gray-500" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handlePurge(item)}
+                      disabled={busyId !== null}
+                      aria-label="Delete permanently"
+                    >
+                      <Trash2 className="h-4 w-4 text-gray-400" />
+                    </Button>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Empty Trash Confirmation Modal */}
+      <Modal isOpen={isConfirmOpen} onClose={() => setIsConfirmOpen(false)} title="Empty Trash" size="sm">
+        <p className="text-gray-600 dark:text-gray-400">
+          {items.length} deleted {items.length === 1 ? 'item' : 'items'} will be removed permanently. This cannot be
+          undone.
+        </p>
+        <ModalFooter>
+          <Button variant="secondary" onClick={() => setIsConfirmOpen(false)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleEmpty} isLoading={isEmptying}>
+            Empty Trash
+          </Button>
+        </ModalFooter>
+      </Modal>
+    </>
+  );
+};
+
+export { TrashCard };
@@ -0,0 +1,7 @@
+// ============================================
+// Settings Features Barrel Export
+// ============================================
+
+export * from './DataBackupCard';
+export * from './ExchangeRatesCard';
+export * from './TrashCard';
@@ -7,10 +7,11 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Menu, X, Bell, Settings, LogOut, User, Sparkles, Plus } from 'lucide-react';
+import { Menu, X, Bell, Settings, LogOut, User, Sparkles, Plus, CloudOff, RefreshCw, CircleAlert } from 'lucide-react';
 import { cn } from '@/lib/cn';
 import { Button } from '@/components/ui';
 import { useAuth } from '@/hooks/useAuth';
+import { useSyncStatus } from '@/hooks/useSyncStatus';
 
 // ============================================
 // Notification Storage Key
@@ -27,6 +28,95 @@ interface HeaderProps {
   showMenuButton?: boolean;
 }
 
+// ============================================
+// Sync Indicator
+// ============================================
+
+// Shows only while something is waiting to sync or has failed to
+const SyncIndicator = () => {
+  const { isOnline, isSyncing, pending, failed, lastError, retry, discard } = useSyncStatus();
+  const [showDetails, setShowDetails] = useState(false);
+
+  const pillClass = 'flex items-center gap-1.5 px-2.5 py-1 rounded-full text-xs font-medium';
+
+  if (failed > 0) {
+    return (
+      <div className="relative">
+        <button
+          onClick={() => setShowDetails(!showDetails)}
+          className={cn(pillClass, 'bg-red-50 text-red-700 hover:bg-red-100 dark:bg-red-900/30 dark:text-red-400')}
+        >
+          <CircleAlert className="h-3.5 w-3.5" />
+          {failed} not synced
+        </button>
+
+        {showDetails && (
+          <>
+            <div className="fixed inset-0 z-40" onClick={() => setShowDetails(false)} />
+            <div
+              className={cn(
+                'absolute right-0 top-full mt-2 w-72 p-3 z-50',
+                'bg-white dark:bg-gray-900 rounded-lg shadow-lg',
+                'border border-gray-200 dark:border-gray-800'
+              )}
+            >
+              <p className="text-sm font-medium text-gray-900 dark:text-white">
+                {failed} {failed === 1 ? 'change was' : 'changes were'} rejected by the server
+              </p>
+              {lastError && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 break-words">{lastError}</p>
+              )}
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  className="flex-1"
+                  onClick={() => {
+                    setShowDetails(false);
+                    discard().catch((err) => console.error('Error discarding changes:', err));
+                  }}
+                >
+                  Discard
+                </Button>
+                <Button
+                  size="sm"
+                  className="flex-1"
+                  onClick={() => {
+                    setShowDetails(false);
+                    retry().catch((err) => console.error('Error retrying sync:', err));
+                  }}
+                >
+                  Retry
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  if (!isOnline) {
+    return (
+      <span className={cn(pillClass, 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-300')}>
+        <CloudOff className="h-3.5 w-3.5" />
+        Offline{pending > 0 && ` • ${pending} pending`}
+      </span>
+    );
+  }
+
+  if (pending > 0) {
+    return (
+      <span className={cn(pillClass, 'bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300')}>
+        <RefreshCw className={cn('h-3.5 w-3.5', isSyncing && 'animate-spin')} />
+        {pending} pending
+      </span>
+    );
+  }
+
+  return null;
+};
+
 // ============================================
 // Component
 // ============================================
@@ -85,6 +175,9 @@ const Header = ({ onMenuClick, showMenuButton = true }: HeaderProps) => {
 
         {/* Right Side */}
         <div className="flex items-center gap-2">
+          {/* Offline Sync */}
+          {isAuthenticated && <SyncIndicator />}
+
           {/* Notifications */}
           <div className="relative">
             <Button
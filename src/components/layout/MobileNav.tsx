@@ -18,6 +18,8 @@ import {
   Target,
   Settings,
   BarChart2,
+  Landmark,
+  CreditCard,
 } from 'lucide-react';
 import { cn } from '@/lib/cn';
 
@@ -145,6 +147,22 @@ const MobileNav = () => {
             className="fixed bottom-28 right-4 z-50 lg:hidden"
           >
             <div className="flex flex-col gap-2 bg-white dark:bg-gray-800 rounded-2xl shadow-xl p-2 min-w-[160px]">
+              <Link
+                href="/accounts"
+                onClick={closeAllMenus}
+                className="flex items-center gap-3 px-4 py-3 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+              >
+                <Landmark className="h-5 w-5 text-indigo-500" />
+                <span className="font-medium text-gray-900 dark:text-white">Accounts</span>
+              </Link>
+              <Link
+                href="/debts"
+                onClick={closeAllMenus}
+                className="flex items-center gap-3 px-4 py-3 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-xl transition-colors"
+              >
+                <CreditCard className="h-5 w-5 text-rose-500" />
+                <span className="font-medium text-gray-900 dark:text-white">Debts</span>
+              </Link>
               <Link
                 href="/settings"
                 onClick={closeAllMenus}
@@ -18,6 +18,8 @@ import {
   Calendar,
   PieChart,
   Target,
+  Landmark,
+  CreditCard,
 } from 'lucide-react';
 import { cn } from '@/lib/cn';
 import { Button } from '@/components/ui';
@@ -46,6 +48,8 @@ const navItems: NavItem[] = [
   { label: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { label: 'Expenses', href: '/expenses', icon: Receipt },
   { label: 'Income', href: '/income', icon: Wallet },
+  { label: 'Accounts', href: '/accounts', icon: Landmark },
+  { label: 'Debts', href: '/debts', icon: CreditCard },
   { label: 'Goals', href: '/goals', icon: Target },
   {
     label: 'Analytics',
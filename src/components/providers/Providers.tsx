@@ -8,6 +8,7 @@ import { ReactNode } from 'react';
 import { AuthProvider } from '@/hooks/useAuth';
 import { ToastProvider, useToast } from '@/hooks/useToast';
 import { SettingsProvider } from '@/hooks/useSettings';
+import { LiveDataProvider } from '@/hooks/useLiveData';
 import { ToastContainer } from '@/components/ui';
 
 // ============================================
@@ -31,12 +32,14 @@ interface ProvidersProps {
 const Providers = ({ children }: ProvidersProps) => {
   return (
     <AuthProvider>
-      <SettingsProvider>
-        <ToastProvider>
-          {children}
-          <ToastDisplay />
-        </ToastProvider>
-      </SettingsProvider>
+      <LiveDataProvider>
+        <SettingsProvider>
+          <ToastProvider>
+            {children}
+            <ToastDisplay />
+          </ToastProvider>
+        </SettingsProvider>
+      </LiveDataProvider>
     </AuthProvider>
   );
 };
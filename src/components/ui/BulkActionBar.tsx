@@ -0,0 +1,66 @@
+'use client';
+
+// ============================================
+// Bulk Action Bar Component
+// ============================================
+
+import { ReactNode } from 'react';
+import { X } from 'lucide-react';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  // How many rows the current filters show, all of which "Select all" picks
+  totalCount: number;
+  onSelectAll: () => void;
+  onClear: () => void;
+  // Action buttons, shown once something is selected
+  children: ReactNode;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+const BulkActionBar = ({ selectedCount, totalCount, onSelectAll, onClear, children, className }: BulkActionBarProps) => {
+  return (
+    <div
+      className={cn(
+        'sticky top-2 z-10 flex flex-wrap items-center gap-2 p-3 rounded-xl border border-indigo-200 dark:border-indigo-900 bg-indigo-50 dark:bg-indigo-950/60 backdrop-blur',
+        className
+      )}
+    >
+      <button
+        type="button"
+        onClick={onClear}
+        className="p-1 rounded-md text-indigo-600 dark:text-indigo-400 hover:bg-indigo-100 dark:hover:bg-indigo-900/40"
+        aria-label="Stop selecting"
+      >
+        <X className="h-4 w-4" />
+      </button>
+      <p className="text-sm font-medium text-indigo-900 dark:text-indigo-200">{selectedCount} selected</p>
+      {selectedCount < totalCount && (
+        <button
+          type="button"
+          onClick={onSelectAll}
+          className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          Select all {totalCount}
+        </button>
+      )}
+      {selectedCount > 0 && <div className="flex flex-wrap items-center gap-2 sm:ml-auto">{children}</div>}
+    </div>
+  );
+};
+
+// ============================================
+// Exports
+// ============================================
+
+export { BulkActionBar };
+export type { BulkActionBarProps };
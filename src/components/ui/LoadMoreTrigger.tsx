@@ -0,0 +1,61 @@
+'use client';
+
+// ============================================
+// Load More Trigger Component
+// ============================================
+
+import { useEffect, useRef } from 'react';
+import { Loader2 } from 'lucide-react';
+import { cn } from '@/lib/cn';
+
+// ============================================
+// Types
+// ============================================
+
+interface LoadMoreTriggerProps {
+  hasMore: boolean;
+  isLoading?: boolean;
+  onLoadMore: () => void;
+  className?: string;
+}
+
+// ============================================
+// Component
+// ============================================
+
+/**
+ * Placed after the last item of a list; asks for more once it scrolls near the viewport.
+ * It asks again after each load while it's still in view, so short pages keep filling.
+ */
+const LoadMoreTrigger = ({ hasMore, isLoading = false, onLoadMore, className }: LoadMoreTriggerProps) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: '200px' }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={ref} className={cn('flex justify-center py-6', className)}>
+      {isLoading && <Loader2 className="h-5 w-5 animate-spin text-gray-400" aria-label="Loading more" />}
+    </div>
+  );
+};
+
+// ============================================
+// Exports
+// ============================================
+
+export { LoadMoreTrigger };
+export type { LoadMoreTriggerProps };
@@ -0,0 +1,178 @@
+'use client';
+
+// ============================================
+// Tag Input Component
+// ============================================
+
+import { useState, KeyboardEvent } from 'react';
+import { X, Hash } from 'lucide-react';
+import { cn } from '@/lib/cn';
+import { normalizeTag } from '@/lib/utils/formatters';
+
+// ============================================
+// Types
+// ============================================
+
+interface TagInputProps {
+  label?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Previously used tags, most relevant first
+  placeholder?: string;
+  helperText?: string;
+  id?: string;
+}
+
+const MAX_SUGGESTIONS = 6;
+
+// ============================================
+// Component
+// ============================================
+
+const TagInput = ({
+  label,
+  value,
+  onChange,
+  suggestions = [],
+  placeholder = 'Add a tag...',
+  helperText,
+  id,
+}: TagInputProps) => {
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const inputId = id || label?.toLowerCase().replace(/\s+/g, '-');
+
+  const query = normalizeTag(draft);
+  const matches = suggestions
+    .filter((tag) => !value.includes(tag) && tag.includes(query))
+    .sort((a, b) => Number(b.startsWith(query)) - Number(a.startsWith(query)))
+    .slice(0, MAX_SUGGESTIONS);
+  const showSuggestions = isFocused && matches.length > 0;
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setDraft('');
+    setHighlighted(-1);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(value.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Keep Enter from submitting the surrounding form
+      e.preventDefault();
+      if (highlighted >= 0 && matches[highlighted]) {
+        addTag(matches[highlighted]);
+      } else if (draft.trim()) {
+        addTag(draft);
+      }
+    } else if (e.key === 'Backspace' && draft === '' && value.length > 0) {
+      removeTag(value[value.length - 1]);
+    } else if (e.key === 'ArrowDown' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((prev) => (prev + 1) % matches.length);
+    } else if (e.key === 'ArrowUp' && matches.length > 0) {
+      e.preventDefault();
+      setHighlighted((prev) => (prev <= 0 ? matches.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setHighlighted(-1);
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="w-full">
+      {label && (
+        <label
+          htmlFor={inputId}
+          className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5"
+        >
+          {label}
+        </label>
+      )}
+      <div className="relative">
+        <div
+          className={cn(
+            'flex flex-wrap items-center gap-1.5 min-h-10 px-2 py-1.5 rounded-lg border bg-white',
+            'border-gray-300 dark:border-gray-600 dark:bg-gray-900',
+            'focus-within:ring-2 focus-within:ring-indigo-500 focus-within:border-transparent',
+            'transition-colors duration-200'
+          )}
+        >
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-full bg-indigo-50 dark:bg-indigo-900/30 pl-2 pr-1 py-0.5 text-xs font-medium text-indigo-700 dark:text-indigo-300"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => removeTag(tag)}
+                className="rounded-full p-0.5 hover:bg-indigo-100 dark:hover:bg-indigo-800/50"
+                aria-label={`Remove tag ${tag}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            id={inputId}
+            type="text"
+            value={draft}
+            onChange={(e) => {
+              setDraft(e.target.value);
+              setHighlighted(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              if (draft.trim()) addTag(draft);
+            }}
+            placeholder={value.length === 0 ? placeholder : undefined}
+            className="flex-1 min-w-[6rem] h-7 px-1 bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder:text-gray-400 dark:placeholder:text-gray-500 focus:outline-none"
+            autoComplete="off"
+          />
+        </div>
+
+        {showSuggestions && (
+          <ul
+            role="listbox"
+            className="absolute z-20 mt-1 w-full rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900 py-1 shadow-lg"
+          >
+            {matches.map((tag, index) => (
+              <li key={tag} role="option" aria-selected={index === highlighted}>
+                <button
+                  type="button"
+                  // Mouse down fires before the input blurs, so the pick isn't lost
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    addTag(tag);
+                  }}
+                  className={cn(
+                    'flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-300',
+                    index === highlighted ? 'bg-gray-100 dark:bg-gray-800' : 'hover:bg-gray-50 dark:hover:bg-gray-800/60'
+                  )}
+                >
+                  <Hash className="h-3.5 w-3.5 text-gray-400" />
+                  {tag}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {helperText && (
+        <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">{helperText}</p>
+      )}
+    </div>
+  );
+};
+
+export { TagInput };
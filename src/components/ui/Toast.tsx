@@ -38,7 +38,7 @@ const iconStyles = {
   info: 'text-blue-500',
 };
 
-const ToastItem = ({ id, type, message, onClose }: ToastItemProps) => {
+const ToastItem = ({ id, type, message, action, onClose }: ToastItemProps) => {
   const Icon = icons[type];
 
   return (
@@ -56,6 +56,17 @@ const ToastItem = ({ id, type, message, onClose }: ToastItemProps) => {
     >
       <Icon className={cn('h-5 w-5 flex-shrink-0', iconStyles[type])} />
       <p className="flex-1 text-sm font-medium">{message}</p>
+      {action && (
+        <button
+          onClick={() => {
+            action.onClick();
+            onClose(id);
+          }}
+          className="flex-shrink-0 px-2 py-1 rounded-md text-sm font-semibold underline-offset-2 hover:underline"
+        >
+          {action.label}
+        </button>
+      )}
       <button
         onClick={() => onClose(id)}
         className="flex-shrink-0 p-1 rounded-full hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
@@ -11,4 +11,7 @@ export * from './Badge';
 export * from './Skeleton';
 export * from './Toast';
 export * from './DatePicker';
+export * from './TagInput';
 export * from './SplashScreen';
+export * from './LoadMoreTrigger';
+export * from './BulkActionBar';
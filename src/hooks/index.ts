@@ -3,10 +3,29 @@
 // ============================================
 
 export * from './useAuth';
+export * from './useLiveData';
+export * from './usePagedLiveData';
 export * from './useExpenses';
 export * from './useIncome';
 export * from './useToast';
+export * from './useRollups';
+export * from './useTrash';
+export * from './useAuditLog';
+export * from './useSelection';
+export * from './useTransactionQuery';
 export * from './useAnalytics';
 export * from './useSettings';
 export * from './useGoals';
+export * from './useSavingsGoals';
+export * from './useDebts';
 export * from './useCategories';
+export * from './useRecurring';
+export * from './useCategorizationRules';
+export * from './useCategorySuggestions';
+export * from './useBackup';
+export * from './useBudgets';
+export * from './useAccounts';
+export * from './usePayPeriod';
+export * from './useCashFlowForecast';
+export * from './usePayees';
+export * from './useSyncStatus';
@@ -0,0 +1,251 @@
+'use client';
+
+// ============================================
+// Accounts Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Expense,
+  Income,
+  Account,
+  NewAccount,
+  AccountTransfer,
+  NewAccountTransfer,
+  AccountBalance,
+  NetWorthPoint,
+} from '@/types';
+import {
+  getAccounts,
+  getAccountTransfers,
+  addAccount as addAccountService,
+  updateAccount as updateAccountService,
+  deleteAccount as deleteAccountService,
+  addAccountTransfer as addAccountTransferService,
+  deleteAccountTransfer as deleteAccountTransferService,
+  migrateToAccounts,
+} from '@/services/firebase';
+import { calculateAccountBalances, calculateNetWorthHistory } from '@/services/analytics';
+import { DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseAccountsOptions {
+  expenses?: Expense[];
+  income?: Income[];
+  months?: number; // How far back net worth history goes
+}
+
+interface UseAccountsReturn {
+  accounts: Account[];
+  transfers: AccountTransfer[];
+  balances: AccountBalance[];
+  netWorth: number;
+  netWorthHistory: NetWorthPoint[];
+  isLoading: boolean;
+  error: string | null;
+  addAccount: (account: NewAccount) => Promise<string>;
+  updateAccount: (id: string, updates: Partial<NewAccount>) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
+  addTransfer: (transfer: NewAccountTransfer) => Promise<string>;
+  deleteTransfer: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useAccounts = (options: UseAccountsOptions = {}): UseAccountsReturn => {
+  const { expenses, income, months = 12 } = options;
+  const { user, isAuthenticated } = useAuth();
+  const { settings, isLoading: settingsLoading } = useSettings();
+
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [transfers, setTransfers] = useState<AccountTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch accounts and transfers, creating Main for accounts that predate it
+  const fetchAccounts = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setAccounts([]);
+      setTransfers([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      let [accountData, transferData] = await Promise.all([
+        getAccounts(user.uid),
+        getAccountTransfers(user.uid),
+      ]);
+
+      // Main takes the base currency, so wait for settings before creating it
+      if (!accountData.some((account) => account.id === DEFAULT_ACCOUNT_ID) && !settingsLoading) {
+        await migrateToAccounts(user.uid, settings.currency);
+        [accountData, transferData] = await Promise.all([
+          getAccounts(user.uid),
+          getAccountTransfers(user.uid),
+        ]);
+      }
+
+      setAccounts(accountData);
+      setTransfers(transferData);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch accounts';
+      setError(message);
+      console.error('Error fetching accounts:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated, settingsLoading, settings.currency]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchAccounts();
+  }, [fetchAccounts]);
+
+  const balances = useMemo(
+    () =>
+      calculateAccountBalances(
+        accounts,
+        expenses || [],
+        income || [],
+        transfers,
+        settings.currency,
+        settings.exchangeRates
+      ),
+    [accounts, expenses, income, transfers, settings.currency, settings.exchangeRates]
+  );
+
+  const netWorthHistory = useMemo(
+    () =>
+      calculateNetWorthHistory(
+        accounts,
+        expenses || [],
+        income || [],
+        transfers,
+        settings.currency,
+        settings.exchangeRates,
+        months
+      ),
+    [accounts, expenses, income, transfers, settings.currency, settings.exchangeRates, months]
+  );
+
+  const netWorth = balances.reduce((sum, { baseBalance }) => sum + baseBalance, 0);
+
+  // Add an account
+  const addAccount = useCallback(
+    async (account: NewAccount): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addAccountService(user.uid, account);
+        await fetchAccounts();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add account';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchAccounts]
+  );
+
+  // Update an account
+  const updateAccount = useCallback(
+    async (id: string, updates: Partial<NewAccount>): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updateAccountService(user.uid, id, updates);
+        await fetchAccounts();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update account';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchAccounts]
+  );
+
+  // Delete an unused account
+  const deleteAccount = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteAccountService(user.uid, id);
+        setAccounts((prev) => prev.filter((account) => account.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete account';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Move money between two accounts
+  const addTransfer = useCallback(
+    async (transfer: NewAccountTransfer): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addAccountTransferService(user.uid, transfer);
+        await fetchAccounts();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to record transfer';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchAccounts]
+  );
+
+  // Delete a transfer
+  const deleteTransfer = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteAccountTransferService(user.uid, id);
+        setTransfers((prev) => prev.filter((transfer) => transfer.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete transfer';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  return {
+    accounts,
+    transfers,
+    balances,
+    netWorth,
+    netWorthHistory,
+    isLoading,
+    error,
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    addTransfer,
+    deleteTransfer,
+    refresh: fetchAccounts,
+  };
+};
@@ -4,31 +4,42 @@
 // Analytics Hook
 // ============================================
 
-import { useMemo } from 'react';
-import { Expense, Income, CategoryBreakdown, MonthlyTotal, WeeklyTrend, IncomeVsExpense, DailySpending, DateRange } from '@/types';
+import { useMemo, useCallback } from 'react';
+import { Expense, Income, CategoryBreakdown, TagBreakdown, MonthlyTotal, WeeklyTrend, IncomeVsExpense, DailySpending, DateRange, TransactionFilter } from '@/types';
 import {
-  calculateTotalExpenses,
-  calculateTotalIncome,
-  calculateNet,
-  calculateSavingsRate,
-  calculateCategoryBreakdown,
-  calculateMonthlyTotals,
-  calculateWeeklyTrend,
-  calculateIncomeVsExpenses,
-  calculateDailySpending,
-  calculateMoMChange,
-  getTopCategory,
+  buildRollups,
+  mergeRollupTotals,
+  toBaseRollupTotals,
+  isMonthWithin,
+  getRollupMonth,
+  getCategoryBreakdownFromRollup,
+  getTagBreakdownFromRollup,
+  getMonthlyTotalsFromRollups,
+  getIncomeVsExpensesFromRollups,
+  getDailySpendingFromRollups,
+  getWeeklyTrendFromRollups,
+  getMoMChangeFromRollups,
+  isFilterEmpty,
+  matchesTransactionFilter,
+  RollupMonths,
 } from '@/services/analytics';
-import { getDateRange, getLastNMonths } from '@/lib/utils/dateUtils';
+import { getDateRange, getLastNMonths, getMonthYearKey, combineDateRanges } from '@/lib/utils/dateUtils';
+import { useSettings } from './useSettings';
+import { useRollups } from './useRollups';
+import { useCategories } from './useCategories';
 
 // ============================================
 // Types
 // ============================================
 
 interface UseAnalyticsOptions {
+  // Raw records are only needed for months without a stored summary, i.e. the current one,
+  // and for stored months the range only partly covers
   expenses: Expense[];
   income: Income[];
   dateRange?: DateRange;
+  // Stored summaries can't be filtered, so a filter makes every month come from the raw records passed in
+  filter?: TransactionFilter;
 }
 
 interface UseAnalyticsReturn {
@@ -41,6 +52,7 @@ interface UseAnalyticsReturn {
   // Breakdowns
   categoryBreakdown: CategoryBreakdown[];
   topCategory: CategoryBreakdown | null;
+  tagBreakdown: TagBreakdown[];
   monthlyTotals: MonthlyTotal[];
   weeklyTrend: WeeklyTrend[];
   incomeVsExpenses: IncomeVsExpense[];
@@ -54,92 +66,130 @@ interface UseAnalyticsReturn {
   averageMonthlySpending: number;
   expenseCount: number;
   incomeCount: number;
+  isLoading: boolean;
 }
 
 // ============================================
 // Hook
 // ============================================
 
+/**
+ * Totals, breakdowns and trends for a date range. Closed months are read from
+ * their stored summaries; only the current month is summed from raw records.
+ */
 export const useAnalytics = ({
-  expenses,
-  income,
+  expenses: rawExpenses,
+  income: rawIncome,
   dateRange,
+  filter,
 }: UseAnalyticsOptions): UseAnalyticsReturn => {
+  const { settings, toBaseCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const activeFilter = filter && !isFilterEmpty(filter) ? filter : null;
+  const getCategoryName = useCallback((id: string) => getCategoryById(id)?.name ?? id, [getCategoryById]);
+
   // Use provided date range or default to current month
   const effectiveDateRange = useMemo(() => {
     return dateRange || getDateRange('month');
   }, [dateRange]);
 
-  // Filter data by date range
-  const filteredExpenses = useMemo(() => {
-    return expenses.filter((e) => {
-      const date = e.date.toDate();
-      return date >= effectiveDateRange.start && date <= effectiveDateRange.end;
-    });
-  }, [expenses, effectiveDateRange]);
-
-  const filteredIncome = useMemo(() => {
-    return income.filter((i) => {
-      const date = i.date.toDate();
-      return date >= effectiveDateRange.start && date <= effectiveDateRange.end;
-    });
-  }, [income, effectiveDateRange]);
-
-  // Calculate totals
-  const totalExpenses = useMemo(
-    () => calculateTotalExpenses(filteredExpenses),
-    [filteredExpenses]
-  );
-
-  const totalIncome = useMemo(
-    () => calculateTotalIncome(filteredIncome),
-    [filteredIncome]
-  );
-
-  const netAmount = useMemo(
-    () => calculateNet(filteredIncome, filteredExpenses),
-    [filteredIncome, filteredExpenses]
+  // The income chart always looks back six months, whatever the range
+  const rollupWindow = useMemo(
+    () => combineDateRanges(effectiveDateRange, getLastNMonths(6)),
+    [effectiveDateRange]
   );
+  const { rollups, isLoading } = useRollups({ window: rollupWindow });
+
+  // Stored months before this one, in the base currency. The current month keeps changing, so it's always summed fresh.
+  const closedMonths = useMemo<RollupMonths>(() => {
+    if (activeFilter) return new Map();
+    const currentMonth = getMonthYearKey(new Date());
+    return new Map(
+      rollups
+        .filter((rollup) => rollup.month < currentMonth)
+        .map((rollup) => [
+          rollup.month,
+          toBaseRollupTotals(rollup.currencies, rollup.month, settings.currency, settings.exchangeRates),
+        ])
+    );
+  }, [rollups, settings.currency, settings.exchangeRates, activeFilter]);
+
+  // Totals are only meaningful in one currency, so convert raw records before anything is summed.
+  // Records in months that have a summary are left to it. Amount filters are in the base currency too.
+  const expenses = useMemo(() => {
+    const converted = toBaseCurrency(rawExpenses.filter((e) => !closedMonths.has(getRollupMonth(e))));
+    return activeFilter
+      ? converted.filter((e) => matchesTransactionFilter(e, activeFilter, getCategoryName))
+      : converted;
+  }, [rawExpenses, closedMonths, toBaseCurrency, activeFilter, getCategoryName]);
+  const income = useMemo(() => {
+    const converted = toBaseCurrency(rawIncome.filter((i) => !closedMonths.has(getRollupMonth(i))));
+    return activeFilter ? converted.filter((i) => matchesTransactionFilter(i, activeFilter)) : converted;
+  }, [rawIncome, closedMonths, toBaseCurrency, activeFilter]);
+
+  // Every month's totals, from summaries where there are any and raw records elsewhere
+  const months = useMemo<RollupMonths>(() => {
+    const result: RollupMonths = new Map();
+    buildRollups(expenses, income).forEach((currencies, month) =>
+      result.set(month, mergeRollupTotals(Object.values(currencies)))
+    );
+    closedMonths.forEach((totals, month) => result.set(month, totals));
+    return result;
+  }, [expenses, income, closedMonths]);
+
+  // Whole months inside the range come from their summaries; records from partly covered months are summed
+  // directly, including closed ones, since a range like a pay period can start partway through a stored month
+  const periodTotals = useMemo(() => {
+    const wholeMonths = Array.from(closedMonths).filter(([month]) => isMonthWithin(month, effectiveDateRange));
+    const wholeMonthKeys = new Set(wholeMonths.map(([month]) => month));
+    const isInRange = (record: Expense | Income) => {
+      const date = record.date.toDate();
+      return date >= effectiveDateRange.start && date <= effectiveDateRange.end && !wholeMonthKeys.has(getRollupMonth(record));
+    };
+    const rangeExpenses = toBaseCurrency(rawExpenses.filter(isInRange));
+    const rangeIncome = toBaseCurrency(rawIncome.filter(isInRange));
+    const rest = Array.from(
+      buildRollups(
+        activeFilter
+          ? rangeExpenses.filter((e) => matchesTransactionFilter(e, activeFilter, getCategoryName))
+          : rangeExpenses,
+        activeFilter ? rangeIncome.filter((i) => matchesTransactionFilter(i, activeFilter)) : rangeIncome
+      ).values()
+    ).flatMap((currencies) => Object.values(currencies));
+
+    return mergeRollupTotals([...wholeMonths.map(([, totals]) => totals), ...rest]);
+  }, [rawExpenses, rawIncome, closedMonths, effectiveDateRange, toBaseCurrency, activeFilter, getCategoryName]);
 
-  const savingsRate = useMemo(
-    () => calculateSavingsRate(filteredIncome, filteredExpenses),
-    [filteredIncome, filteredExpenses]
-  );
+  // Calculate totals
+  const totalExpenses = periodTotals.expenses.amount;
+  const totalIncome = periodTotals.income.amount;
+  const netAmount = totalIncome - totalExpenses;
+  const savingsRate = totalIncome === 0 ? 0 : (netAmount / totalIncome) * 100;
 
   // Calculate breakdowns
-  const categoryBreakdown = useMemo(
-    () => calculateCategoryBreakdown(filteredExpenses),
-    [filteredExpenses]
-  );
+  const categoryBreakdown = useMemo(() => getCategoryBreakdownFromRollup(periodTotals), [periodTotals]);
 
-  const topCategory = useMemo(
-    () => getTopCategory(filteredExpenses),
-    [filteredExpenses]
-  );
+  const topCategory = categoryBreakdown[0] ?? null;
 
-  // Calculate trends using full data (not filtered)
-  const monthlyTotals = useMemo(
-    () => calculateMonthlyTotals(expenses),
-    [expenses]
-  );
+  const tagBreakdown = useMemo(() => getTagBreakdownFromRollup(periodTotals), [periodTotals]);
+
+  // Calculate trends across every month loaded (not just the range)
+  const monthlyTotals = useMemo(() => getMonthlyTotalsFromRollups(months), [months]);
 
   const weeklyTrend = useMemo(
-    () => calculateWeeklyTrend(expenses, effectiveDateRange.start, effectiveDateRange.end),
-    [expenses, effectiveDateRange]
+    () => getWeeklyTrendFromRollups(months, effectiveDateRange.start, effectiveDateRange.end),
+    [months, effectiveDateRange]
   );
 
-  const incomeVsExpenses = useMemo(
-    () => calculateIncomeVsExpenses(income, expenses),
-    [income, expenses]
-  );
+  const incomeVsExpenses = useMemo(() => getIncomeVsExpensesFromRollups(months), [months]);
 
   const dailySpending = useMemo(
-    () => calculateDailySpending(expenses, effectiveDateRange.start, effectiveDateRange.end),
-    [expenses, effectiveDateRange]
+    () => getDailySpendingFromRollups(months, effectiveDateRange.start, effectiveDateRange.end),
+    [months, effectiveDateRange]
   );
 
   // Month-over-month change
-  const momChange = useMemo(() => calculateMoMChange(expenses), [expenses]);
+  const momChange = useMemo(() => getMoMChangeFromRollups(months), [months]);
 
   // Calculate averages
   const averageDailySpending = useMemo(() => {
@@ -149,10 +199,10 @@ export const useAnalytics = ({
   }, [totalExpenses, dailySpending]);
 
   const averageMonthlySpending = useMemo(() => {
-    const months = monthlyTotals.length;
-    if (months === 0) return 0;
+    const monthCount = monthlyTotals.length;
+    if (monthCount === 0) return 0;
     const total = monthlyTotals.reduce((sum, m) => sum + m.total, 0);
-    return total / months;
+    return total / monthCount;
   }, [monthlyTotals]);
 
   return {
@@ -162,6 +212,7 @@ export const useAnalytics = ({
     savingsRate,
     categoryBreakdown,
     topCategory,
+    tagBreakdown,
     monthlyTotals,
     weeklyTrend,
     incomeVsExpenses,
@@ -169,7 +220,8 @@ export const useAnalytics = ({
     momChange,
     averageDailySpending,
     averageMonthlySpending,
-    expenseCount: filteredExpenses.length,
-    incomeCount: filteredIncome.length,
+    expenseCount: periodTotals.expenses.count,
+    incomeCount: periodTotals.income.count,
+    isLoading,
   };
 };
@@ -0,0 +1,69 @@
+'use client';
+
+// ============================================
+// Audit Log Hook
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { AuditEntry } from '@/types';
+import { getAuditLog } from '@/services/firebase';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseAuditLogReturn {
+  entries: AuditEntry[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Change history of one expense or income record, newest first.
+ * Nothing is read while `recordId` is null.
+ */
+export const useAuditLog = (kind: AuditEntry['kind'], recordId: string | null): UseAuditLogReturn => {
+  const { user, isAuthenticated } = useAuth();
+
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchAuditLog = useCallback(async () => {
+    if (!isAuthenticated || !user || !recordId) {
+      setEntries([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setEntries(await getAuditLog(user.uid, kind, recordId));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch history';
+      setError(message);
+      console.error('Error fetching audit log:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated, kind, recordId]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchAuditLog();
+  }, [fetchAuditLog]);
+
+  return {
+    entries,
+    isLoading,
+    error,
+    refresh: fetchAuditLog,
+  };
+};
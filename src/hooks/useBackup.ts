@@ -0,0 +1,209 @@
+'use client';
+
+// ============================================
+// Backup Hook
+// ============================================
+
+import { useState, useCallback } from 'react';
+import { format } from 'date-fns';
+import { BackupCollection, RestoreMode } from '@/types';
+import { BackupSchema } from '@/lib/utils/validators';
+import {
+  getExpenses,
+  getIncome,
+  getCustomCategories,
+  getRecurringRules,
+  getCategorizationRules,
+  getBudgets,
+  getBudgetTransfers,
+  getAccounts,
+  getAccountTransfers,
+  getPayees,
+  getSavingsGoals,
+  getDebts,
+  getGoals,
+} from '@/services/firebase';
+import {
+  createBackup,
+  serializeBackup,
+  getBackupCsv,
+  parseBackup,
+  restoreBackup,
+} from '@/services/backup';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseBackupReturn {
+  isExporting: boolean;
+  isRestoring: boolean;
+  error: string | null;
+  exportJson: () => Promise<void>;
+  exportCsv: (collection: BackupCollection) => Promise<void>;
+  readBackupFile: (file: File) => Promise<BackupSchema>;
+  restore: (backup: BackupSchema, mode: RestoreMode) => Promise<void>;
+}
+
+// Hand a generated file to the browser as a download
+const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// ============================================
+// Hook
+// ============================================
+
+export const useBackup = (): UseBackupReturn => {
+  const { user } = useAuth();
+  const { settings, updateSettings } = useSettings();
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Collect a fresh snapshot of the whole account
+  const buildBackup = useCallback(async (): Promise<BackupSchema> => {
+    if (!user) throw new Error('Not authenticated');
+
+    const [
+      expenses,
+      income,
+      customCategories,
+      recurringRules,
+      categorizationRules,
+      budgets,
+      budgetTransfers,
+      accounts,
+      accountTransfers,
+      payees,
+      savingsGoals,
+      debts,
+      goals,
+    ] = await Promise.all([
+      getExpenses(user.uid),
+      getIncome(user.uid),
+      getCustomCategories(user.uid),
+      getRecurringRules(user.uid),
+      getCategorizationRules(user.uid),
+      getBudgets(user.uid),
+      getBudgetTransfers(user.uid),
+      getAccounts(user.uid),
+      getAccountTransfers(user.uid),
+      getPayees(user.uid),
+      getSavingsGoals(user.uid),
+      getDebts(user.uid),
+      getGoals(user.uid),
+    ]);
+
+    return createBackup({
+      expenses,
+      income,
+      customCategories,
+      recurringRules,
+      categorizationRules,
+      budgets,
+      budgetTransfers,
+      accounts,
+      accountTransfers,
+      payees,
+      savingsGoals,
+      debts,
+      goals,
+      settings,
+    });
+  }, [user, settings]);
+
+  // Download the full account as a versioned JSON backup
+  const exportJson = useCallback(async () => {
+    try {
+      setIsExporting(true);
+      setError(null);
+      const backup = await buildBackup();
+      downloadFile(
+        `priz-backup-${format(new Date(), 'yyyy-MM-dd')}.json`,
+        serializeBackup(backup),
+        'application/json'
+      );
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to export data';
+      setError(message);
+      throw err;
+    } finally {
+      setIsExporting(false);
+    }
+  }, [buildBackup]);
+
+  // Download a single collection as CSV
+  const exportCsv = useCallback(
+    async (collection: BackupCollection) => {
+      try {
+        setIsExporting(true);
+        setError(null);
+        const backup = await buildBackup();
+        downloadFile(
+          `priz-${collection}-${format(new Date(), 'yyyy-MM-dd')}.csv`,
+          getBackupCsv(backup, collection),
+          'text/csv'
+        );
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to export data';
+        setError(message);
+        throw err;
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [buildBackup]
+  );
+
+  // Validate a backup file before anything is written
+  const readBackupFile = useCallback(async (file: File): Promise<BackupSchema> => {
+    try {
+      setError(null);
+      return parseBackup(await file.text());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Invalid backup file';
+      setError(message);
+      throw err;
+    }
+  }, []);
+
+  // Write a validated backup into the account
+  const restore = useCallback(
+    async (backup: BackupSchema, mode: RestoreMode) => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setIsRestoring(true);
+        setError(null);
+        await restoreBackup(user.uid, backup, mode);
+        await updateSettings(backup.settings);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore backup';
+        setError(message);
+        throw err;
+      } finally {
+        setIsRestoring(false);
+      }
+    },
+    [user, updateSettings]
+  );
+
+  return {
+    isExporting,
+    isRestoring,
+    error,
+    exportJson,
+    exportCsv,
+    readBackupFile,
+    restore,
+  };
+};
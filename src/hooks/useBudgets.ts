@@ -0,0 +1,257 @@
+'use client';
+
+// ============================================
+// Category Budgets & Envelopes Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  Expense,
+  CategoryBudget,
+  BudgetProgress,
+  BudgetStatus,
+  BudgetTransfer,
+  NewBudgetTransfer,
+  EnvelopeMonth,
+  CategoryId,
+} from '@/types';
+import {
+  getBudgets,
+  getBudgetTransfers,
+  setBudget as setBudgetService,
+  deleteBudget as deleteBudgetService,
+  addBudgetTransfer as addBudgetTransferService,
+} from '@/services/firebase';
+import { calculateBudgetProgress, calculateEnvelopeHistory, toBaseRollupTotals } from '@/services/analytics';
+import { getMonthYearKey } from '@/lib/utils/dateUtils';
+import { formatPercentage } from '@/lib/utils/formatters';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { useToast } from './useToast';
+import { useCategories } from './useCategories';
+import { useRollups } from './useRollups';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseBudgetsOptions {
+  expenses?: Expense[];
+  month?: Date;
+}
+
+interface UseBudgetsReturn {
+  budgets: CategoryBudget[];
+  transfers: BudgetTransfer[];
+  progress: BudgetProgress[];
+  envelopeHistory: EnvelopeMonth[];
+  isEnvelopeMode: boolean;
+  isLoading: boolean;
+  error: string | null;
+  setBudget: (category: CategoryId, amount: number) => Promise<void>;
+  deleteBudget: (category: CategoryId) => Promise<void>;
+  transferBudget: (transfer: NewBudgetTransfer) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Alert Tracking
+// ============================================
+
+// Highest alert already shown per category, per month, so each threshold toasts once
+const ALERTS_STORAGE_KEY = 'priz-budget-alerts';
+
+type AlertLog = Record<string, Record<string, BudgetStatus>>;
+
+const statusLevel: Record<BudgetStatus, number> = { ok: 0, warning: 1, exceeded: 2 };
+
+const readAlertLog = (): AlertLog => {
+  try {
+    return JSON.parse(localStorage.getItem(ALERTS_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// ============================================
+// Hook
+// ============================================
+
+export const useBudgets = (options: UseBudgetsOptions = {}): UseBudgetsReturn => {
+  const { expenses, month } = options;
+  const { user, isAuthenticated } = useAuth();
+  const { settings, toBaseCurrency } = useSettings();
+  const { getCategoryById } = useCategories();
+  const toast = useToast();
+
+  const [budgets, setBudgets] = useState<CategoryBudget[]>([]);
+  const [transfers, setTransfers] = useState<BudgetTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch budgets and envelope transfers
+  const fetchBudgets = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setBudgets([]);
+      setTransfers([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const [budgetData, transferData] = await Promise.all([
+        getBudgets(user.uid),
+        getBudgetTransfers(user.uid),
+      ]);
+      setBudgets(budgetData);
+      setTransfers(transferData);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch budgets';
+      setError(message);
+      console.error('Error fetching budgets:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchBudgets();
+  }, [fetchBudgets]);
+
+  const isEnvelopeMode = settings.budgetMode === 'envelope';
+
+  // Budgets are set in the base currency
+  const baseExpenses = useMemo(() => toBaseCurrency(expenses || []), [expenses, toBaseCurrency]);
+
+  // Envelopes roll over from the month their budget was created, so closed months are read from their summaries
+  const { rollups, isLoading: rollupsLoading } = useRollups({ enabled: isEnvelopeMode });
+  const pastSpending = useMemo(() => {
+    const currentMonth = getMonthYearKey(new Date());
+    return new Map(
+      rollups
+        .filter((rollup) => rollup.month < currentMonth)
+        .map((rollup) => {
+          const totals = toBaseRollupTotals(rollup.currencies, rollup.month, settings.currency, settings.exchangeRates);
+          return [
+            rollup.month,
+            new Map(Object.entries(totals.byCategory).map(([category, bucket]) => [category, bucket.amount])),
+          ];
+        })
+    );
+  }, [rollups, settings.currency, settings.exchangeRates]);
+
+  const progress = useMemo(
+    () =>
+      calculateBudgetProgress(budgets, baseExpenses, month, {
+        mode: settings.budgetMode,
+        transfers,
+        pastSpending,
+      }),
+    [budgets, baseExpenses, month, settings.budgetMode, transfers, pastSpending]
+  );
+
+  const envelopeHistory = useMemo(
+    () => calculateEnvelopeHistory(budgets, baseExpenses, transfers, month, pastSpending),
+    [budgets, baseExpenses, transfers, month, pastSpending]
+  );
+
+  // Toast when a budget crosses 80% or 100% for the first time this month
+  useEffect(() => {
+    if (!settings.notifyOnBudgetWarning || progress.length === 0) return;
+
+    const monthKey = getMonthYearKey(month || new Date());
+    const log = readAlertLog();
+    const alerted = log[monthKey] || {};
+    let changed = false;
+
+    progress.forEach(({ budget, percentage, status }) => {
+      const previous = alerted[budget.category] || 'ok';
+      if (statusLevel[status] <= statusLevel[previous]) return;
+
+      const name = getCategoryById(budget.category)?.name || budget.category;
+      if (status === 'exceeded') {
+        toast.error(`${name} is over budget (${formatPercentage(percentage, 0)})`);
+      } else {
+        toast.warning(`${name} has used ${formatPercentage(percentage, 0)} of its budget`);
+      }
+      alerted[budget.category] = status;
+      changed = true;
+    });
+
+    if (changed) {
+      // Older months are never alerted again, so only the current one is kept
+      localStorage.setItem(ALERTS_STORAGE_KEY, JSON.stringify({ [monthKey]: alerted }));
+    }
+  }, [progress, month, settings.notifyOnBudgetWarning, getCategoryById, toast]);
+
+  // Create or update a budget
+  const setBudget = useCallback(
+    async (category: CategoryId, amount: number): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await setBudgetService(user.uid, category, amount);
+        await fetchBudgets();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to save budget';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchBudgets]
+  );
+
+  // Remove a budget
+  const deleteBudget = useCallback(
+    async (category: CategoryId): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteBudgetService(user.uid, category);
+        setBudgets((prev) => prev.filter((budget) => budget.category !== category));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete budget';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Move money between two envelopes
+  const transferBudget = useCallback(
+    async (transfer: NewBudgetTransfer): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await addBudgetTransferService(user.uid, transfer);
+        setTransfers(await getBudgetTransfers(user.uid));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to move money';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  return {
+    budgets,
+    transfers,
+    progress,
+    envelopeHistory,
+    isEnvelopeMode,
+    isLoading: isLoading || (isEnvelopeMode && rollupsLoading),
+    error,
+    setBudget,
+    deleteBudget,
+    transferBudget,
+    refresh: fetchBudgets,
+  };
+};
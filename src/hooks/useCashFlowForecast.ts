@@ -0,0 +1,73 @@
+'use client';
+
+// ============================================
+// Cash-Flow Forecast Hook
+// ============================================
+
+import { useMemo } from 'react';
+import { CashFlowForecast } from '@/types';
+import { calculateCashFlowForecast } from '@/services/analytics';
+import { useSettings } from './useSettings';
+import { useExpenses } from './useExpenses';
+import { useIncome } from './useIncome';
+import { useAccounts } from './useAccounts';
+import { useRecurringRules } from './useRecurring';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseCashFlowForecastReturn {
+  forecast: CashFlowForecast;
+  isLoading: boolean;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Project the balance across all accounts for the next `days` days. Every
+ * record is read, since today's balance depends on the whole history.
+ */
+export const useCashFlowForecast = (days = 90): UseCashFlowForecastReturn => {
+  const { settings, toBaseCurrency, paySchedule } = useSettings();
+  const { expenses, isLoading: expensesLoading } = useExpenses();
+  const { income, isLoading: incomeLoading } = useIncome();
+  const { netWorth, isLoading: accountsLoading } = useAccounts({ expenses, income, months: 1 });
+  const { activeRules, isLoading: rulesLoading } = useRecurringRules();
+
+  const forecast = useMemo(
+    () =>
+      calculateCashFlowForecast({
+        startingBalance: netWorth,
+        expenses: toBaseCurrency(expenses),
+        income: toBaseCurrency(income),
+        rules: activeRules,
+        schedule: paySchedule,
+        defaultSalary: settings.defaultSalary,
+        currency: settings.currency,
+        rates: settings.exchangeRates,
+        threshold: settings.forecastThreshold,
+        days,
+      }),
+    [
+      netWorth,
+      expenses,
+      income,
+      toBaseCurrency,
+      activeRules,
+      paySchedule,
+      settings.defaultSalary,
+      settings.currency,
+      settings.exchangeRates,
+      settings.forecastThreshold,
+      days,
+    ]
+  );
+
+  return {
+    forecast,
+    isLoading: expensesLoading || incomeLoading || accountsLoading || rulesLoading,
+  };
+};
@@ -4,16 +4,16 @@
 // Categories Hook - Combines Default + Custom Categories
 // ============================================
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { CustomCategory, NewCustomCategory, CategoryConfig, ExpenseCategory, CategoryType } from '@/types';
 import {
-  getCustomCategories,
   addCustomCategory as addCustomCategoryService,
   updateCustomCategory as updateCustomCategoryService,
   deleteCustomCategory as deleteCustomCategoryService,
 } from '@/services/firebase';
 import { CATEGORIES, FIXED_CATEGORIES, VARIABLE_CATEGORIES } from '@/lib/utils/constants';
 import { useAuth } from './useAuth';
+import { useLiveData } from './useLiveData';
 
 // ============================================
 // Types
@@ -75,39 +75,10 @@ const defaultCategoriesAsUnified: UnifiedCategory[] = Object.entries(CATEGORIES)
 // ============================================
 
 export const useCategories = (): UseCategoriesReturn => {
-  const { user, isAuthenticated } = useAuth();
-
-  const [customCategories, setCustomCategories] = useState<CustomCategory[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { data: customCategories, isLoading, error: listenError, refresh } = useLiveData('customCategories');
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch custom categories
-  const fetchCustomCategories = useCallback(async () => {
-    if (!isAuthenticated || !user) {
-      setCustomCategories([]);
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-      setError(null);
-      const data = await getCustomCategories(user.uid);
-      setCustomCategories(data);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to fetch categories';
-      setError(message);
-      console.error('Error fetching custom categories:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [user, isAuthenticated]);
-
-  // Auto-fetch on mount
-  useEffect(() => {
-    fetchCustomCategories();
-  }, [fetchCustomCategories]);
-
   // Separate active (not deleted) from all custom categories
   const activeCustomCategories = useMemo(
     () => customCategories.filter((c) => !c.isDeleted),
@@ -183,16 +154,14 @@ export const useCategories = (): UseCategoriesReturn => {
 
       try {
         setError(null);
-        const id = await addCustomCategoryService(user.uid, category);
-        await fetchCustomCategories();
-        return id;
+        return await addCustomCategoryService(user.uid, category);
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to add category';
         setError(message);
         throw err;
       }
     },
-    [user, fetchCustomCategories]
+    [user]
   );
 
   // Update custom category
@@ -203,14 +172,13 @@ export const useCategories = (): UseCategoriesReturn => {
       try {
         setError(null);
         await updateCustomCategoryService(user.uid, id, updates);
-        await fetchCustomCategories();
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to update category';
         setError(message);
         throw err;
       }
     },
-    [user, fetchCustomCategories]
+    [user]
   );
 
   // Delete custom category (soft delete)
@@ -221,10 +189,6 @@ export const useCategories = (): UseCategoriesReturn => {
       try {
         setError(null);
         await deleteCustomCategoryService(user.uid, id);
-        // Mark as deleted in local state (soft delete)
-        setCustomCategories((prev) =>
-          prev.map((c) => (c.id === id ? { ...c, isDeleted: true } : c))
-        );
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to delete category';
         setError(message);
@@ -246,7 +210,7 @@ export const useCategories = (): UseCategoriesReturn => {
     updateCustomCategory,
     deleteCustomCategory,
     isLoading,
-    error,
-    refresh: fetchCustomCategories,
+    error: error ?? listenError,
+    refresh,
   };
 };
@@ -0,0 +1,182 @@
+'use client';
+
+// ============================================
+// Categorization Rules Hook
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { CategorizationRule, NewCategorizationRule, ImportKind, RuleResult } from '@/types';
+import {
+  getCategorizationRules,
+  addCategorizationRule as addCategorizationRuleService,
+  updateCategorizationRule as updateCategorizationRuleService,
+  deleteCategorizationRule as deleteCategorizationRuleService,
+  reorderCategorizationRules,
+} from '@/services/firebase';
+import { applyRules } from '@/services/rules';
+import { convertAmount } from '@/services/analytics';
+import { CurrencyCode } from '@/lib/utils/constants';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+
+// ============================================
+// Types
+// ============================================
+
+// A transaction being entered; amounts are converted to the base currency before matching
+interface CategorizeInput {
+  text: string;
+  amount: number;
+  currency?: CurrencyCode;
+  date?: Date;
+}
+
+interface UseCategorizationRulesReturn {
+  rules: CategorizationRule[];
+  isLoading: boolean;
+  error: string | null;
+  addRule: (rule: NewCategorizationRule) => Promise<string>;
+  updateRule: (id: string, updates: Partial<NewCategorizationRule>) => Promise<void>;
+  deleteRule: (id: string) => Promise<void>;
+  // Swap a rule with its neighbour: -1 runs it earlier, 1 later
+  moveRule: (id: string, offset: -1 | 1) => Promise<void>;
+  categorize: (kind: ImportKind, input: CategorizeInput) => RuleResult;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useCategorizationRules = (): UseCategorizationRulesReturn => {
+  const { user, isAuthenticated } = useAuth();
+  const { settings } = useSettings();
+
+  const [rules, setRules] = useState<CategorizationRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch rules
+  const fetchRules = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setRules([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setRules(await getCategorizationRules(user.uid));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch rules';
+      setError(message);
+      console.error('Error fetching categorization rules:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const addRule = useCallback(
+    async (rule: NewCategorizationRule): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addCategorizationRuleService(user.uid, rule);
+        await fetchRules();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add rule';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  const updateRule = useCallback(
+    async (id: string, updates: Partial<NewCategorizationRule>): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updateCategorizationRuleService(user.uid, id, updates);
+        await fetchRules();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update rule';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  const deleteRule = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteCategorizationRuleService(user.uid, id);
+        setRules((prev) => prev.filter((rule) => rule.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete rule';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  const moveRule = useCallback(
+    async (id: string, offset: -1 | 1): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      const index = rules.findIndex((rule) => rule.id === id);
+      const target = index + offset;
+      if (index === -1 || target < 0 || target >= rules.length) return;
+
+      const ordered = rules.map((rule) => rule.id);
+      [ordered[index], ordered[target]] = [ordered[target], ordered[index]];
+
+      try {
+        setError(null);
+        await reorderCategorizationRules(user.uid, ordered);
+        await fetchRules();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to reorder rules';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, rules, fetchRules]
+  );
+
+  // Amount conditions are in the base currency, whatever the entry is in
+  const categorize = useCallback(
+    (kind: ImportKind, { text, amount, currency = settings.currency, date = new Date() }: CategorizeInput) =>
+      applyRules(rules, kind, {
+        text,
+        amount: convertAmount(amount, currency, settings.currency, date, settings.exchangeRates),
+      }),
+    [rules, settings.currency, settings.exchangeRates]
+  );
+
+  return {
+    rules,
+    isLoading,
+    error,
+    addRule,
+    updateRule,
+    deleteRule,
+    moveRule,
+    categorize,
+    refresh: fetchRules,
+  };
+};
@@ -0,0 +1,56 @@
+'use client';
+
+// ============================================
+// Category Suggestions Hook
+// ============================================
+
+import { useMemo } from 'react';
+import { Expense } from '@/types';
+import { buildCategoryModel, suggestCategories, CategorySuggestion } from '@/services/rules';
+import { convertAmount } from '@/services/analytics';
+import { CurrencyCode } from '@/lib/utils/constants';
+import { useSettings } from './useSettings';
+import { useCategories } from './useCategories';
+
+// ============================================
+// Types
+// ============================================
+
+// The expense being entered; the amount is converted to the base currency before ranking
+interface SuggestionRequest {
+  description: string;
+  amount?: number;
+  currency?: CurrencyCode;
+  date?: Date;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Suggest categories for a description, learned from the user's own expense history
+ */
+export const useCategorySuggestions = (
+  expenses: Expense[],
+  { description, amount, currency, date }: SuggestionRequest,
+  limit = 3
+): CategorySuggestion[] => {
+  const { settings, toBaseCurrency } = useSettings();
+  const { allCategories } = useCategories();
+
+  const model = useMemo(() => buildCategoryModel(toBaseCurrency(expenses)), [expenses, toBaseCurrency]);
+
+  const baseAmount =
+    amount && amount > 0
+      ? convertAmount(amount, currency ?? settings.currency, settings.currency, date ?? new Date(), settings.exchangeRates)
+      : undefined;
+
+  return useMemo(() => {
+    // Deleted categories can't be picked any more
+    const available = new Set(allCategories.map((cat) => cat.id));
+    return suggestCategories(model, { description, amount: baseAmount }, limit + 1)
+      .filter((suggestion) => available.has(suggestion.category))
+      .slice(0, limit);
+  }, [model, description, baseAmount, allCategories, limit]);
+};
@@ -0,0 +1,155 @@
+'use client';
+
+// ============================================
+// Debts Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Debt, NewDebt, DebtStatus, Expense } from '@/types';
+import {
+  getDebts,
+  addDebt as addDebtService,
+  updateDebt as updateDebtService,
+  deleteDebt as deleteDebtService,
+} from '@/services/firebase';
+import { calculateDebtStatus } from '@/services/analytics';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseDebtsOptions {
+  // Expenses the payments are read from; pass every expense for current balances
+  expenses?: Expense[];
+}
+
+interface UseDebtsReturn {
+  debts: Debt[];
+  statuses: DebtStatus[];
+  totalBalance: number;
+  totalMinimum: number;
+  isLoading: boolean;
+  error: string | null;
+  addDebt: (debt: NewDebt) => Promise<string>;
+  updateDebt: (id: string, updates: Partial<NewDebt>) => Promise<void>;
+  deleteDebt: (id: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useDebts = (options: UseDebtsOptions = {}): UseDebtsReturn => {
+  const { expenses } = options;
+  const { user, isAuthenticated } = useAuth();
+  const { toBaseCurrency } = useSettings();
+
+  const [debts, setDebts] = useState<Debt[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch debts
+  const fetchDebts = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setDebts([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setDebts(await getDebts(user.uid));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch debts';
+      setError(message);
+      console.error('Error fetching debts:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchDebts();
+  }, [fetchDebts]);
+
+  const statuses = useMemo(() => {
+    const payments = toBaseCurrency((expenses ?? []).filter((expense) => expense.debtId));
+    return debts.map((debt) => calculateDebtStatus(debt, payments));
+  }, [debts, expenses, toBaseCurrency]);
+
+  const totalBalance = statuses.reduce((sum, status) => sum + status.balance, 0);
+  // Paid-off debts owe no minimum
+  const totalMinimum = statuses
+    .filter((status) => status.balance > 0)
+    .reduce((sum, status) => sum + Math.min(status.debt.minimumPayment, status.balance), 0);
+
+  const addDebt = useCallback(
+    async (debt: NewDebt): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addDebtService(user.uid, debt);
+        await fetchDebts();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add debt';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchDebts]
+  );
+
+  const updateDebt = useCallback(
+    async (id: string, updates: Partial<NewDebt>): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updateDebtService(user.uid, id, updates);
+        await fetchDebts();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update debt';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchDebts]
+  );
+
+  const deleteDebt = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteDebtService(user.uid, id);
+        setDebts((prev) => prev.filter((debt) => debt.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete debt';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  return {
+    debts,
+    statuses,
+    totalBalance,
+    totalMinimum,
+    isLoading,
+    error,
+    addDebt,
+    updateDebt,
+    deleteDebt,
+    refresh: fetchDebts,
+  };
+};
@@ -4,16 +4,23 @@
 // Expenses Hook
 // ============================================
 
-import { useState, useEffect, useCallback } from 'react';
-import { Expense, NewExpense, DateRange, ExpenseCategory } from '@/types';
+import { useState, useCallback, useMemo } from 'react';
+import { Expense, NewExpense, DateRange, ExpenseCategory, ExpenseBulkEdit } from '@/types';
 import {
-  getExpenses,
-  getExpensesByDateRange,
   addExpense as addExpenseService,
+  addExpenses as addExpensesService,
   updateExpense as updateExpenseService,
   deleteExpense as deleteExpenseService,
+  deleteExpenses as deleteExpensesService,
+  updateExpensesInBulk as updateExpensesInBulkService,
+  revertExpenses as revertExpensesService,
+  restoreFromTrash,
+  getTrashId,
+  getExpensesByDateRange,
 } from '@/services/firebase';
 import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { usePagedLiveData } from './usePagedLiveData';
 
 // ============================================
 // Types
@@ -23,6 +30,8 @@ interface UseExpensesOptions {
   dateRange?: DateRange;
   category?: ExpenseCategory;
   autoFetch?: boolean;
+  // Read newest first, this many at a time, instead of the whole range at once
+  pageSize?: number;
 }
 
 interface UseExpensesReturn {
@@ -30,10 +39,23 @@ interface UseExpensesReturn {
   isLoading: boolean;
   error: string | null;
   addExpense: (expense: NewExpense) => Promise<string>;
+  addExpenses: (expenses: NewExpense[]) => Promise<string[]>;
   updateExpense: (id: string, updates: Partial<NewExpense>) => Promise<void>;
   deleteExpense: (id: string) => Promise<void>;
+  // Brings back a deleted expense from the trash
+  restoreDeletedExpense: (id: string) => Promise<void>;
+  // Bulk actions; edits return the expenses as they were so they can be reverted
+  updateExpensesInBulk: (ids: string[], edit: ExpenseBulkEdit) => Promise<Expense[]>;
+  revertExpenses: (previous: Expense[]) => Promise<void>;
+  deleteExpenses: (ids: string[]) => Promise<void>;
+  restoreDeletedExpenses: (ids: string[]) => Promise<void>;
+  // Reads the whole range, including records on pages not loaded yet
+  getExpensesInRange: (range: DateRange) => Promise<Expense[]>;
   refresh: () => Promise<void>;
   totalAmount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
 }
 
 // ============================================
@@ -41,54 +63,20 @@ interface UseExpensesReturn {
 // ============================================
 
 export const useExpenses = (options: UseExpensesOptions = {}): UseExpensesReturn => {
-  const { dateRange, category, autoFetch = true } = options;
-  const { user, isAuthenticated } = useAuth();
-
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { dateRange, category, autoFetch = true, pageSize } = options;
+  const { user } = useAuth();
+  const { toBaseCurrency } = useSettings();
+  const { data, isLoading, error: listenError, refresh, hasMore, isLoadingMore, loadMore } = usePagedLiveData(
+    'expenses',
+    { enabled: autoFetch, window: dateRange, pageSize }
+  );
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch expenses
-  const fetchExpenses = useCallback(async () => {
-    if (!isAuthenticated || !user) {
-      setExpenses([]);
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      let data: Expense[];
-
-      if (dateRange) {
-        data = await getExpensesByDateRange(user.uid, dateRange);
-      } else {
-        data = await getExpenses(user.uid);
-      }
-
-      // Filter by category if specified
-      if (category) {
-        data = data.filter((expense) => expense.category === category);
-      }
-
-      setExpenses(data);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to fetch expenses';
-      setError(message);
-      console.error('Error fetching expenses:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [user, isAuthenticated, dateRange, category]);
-
-  // Auto-fetch on mount and when dependencies change
-  useEffect(() => {
-    if (autoFetch) {
-      fetchExpenses();
-    }
-  }, [fetchExpenses, autoFetch]);
+  // Only the range is read; each component narrows it to its own category
+  const expenses = useMemo(
+    () => (category ? data.filter((expense) => expense.category === category) : data),
+    [data, category]
+  );
 
   // Add expense
   const addExpense = useCallback(
@@ -97,16 +85,31 @@ export const useExpenses = (options: UseExpensesOptions = {}): UseExpensesReturn
 
       try {
         setError(null);
-        const id = await addExpenseService(user.uid, expense);
-        await fetchExpenses(); // Refresh list
-        return id;
+        return await addExpenseService(user.uid, expense);
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to add expense';
         setError(message);
         throw err;
       }
     },
-    [user, fetchExpenses]
+    [user]
+  );
+
+  // Add several expenses at once (e.g. CSV import)
+  const addExpenses = useCallback(
+    async (newExpenses: NewExpense[]): Promise<string[]> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        return await addExpensesService(user.uid, newExpenses);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add expenses';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
   );
 
   // Update expense
@@ -117,14 +120,13 @@ export const useExpenses = (options: UseExpensesOptions = {}): UseExpensesReturn
       try {
         setError(null);
         await updateExpenseService(user.uid, id, updates);
-        await fetchExpenses(); // Refresh list
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to update expense';
         setError(message);
         throw err;
       }
     },
-    [user, fetchExpenses]
+    [user]
   );
 
   // Delete expense
@@ -135,7 +137,6 @@ export const useExpenses = (options: UseExpensesOptions = {}): UseExpensesReturn
       try {
         setError(null);
         await deleteExpenseService(user.uid, id);
-        setExpenses((prev) => prev.filter((e) => e.id !== id));
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to delete expense';
         setError(message);
@@ -145,17 +146,124 @@ export const useExpenses = (options: UseExpensesOptions = {}): UseExpensesReturn
     [user]
   );
 
-  // Calculate total
-  const totalAmount = expenses.reduce((sum, e) => sum + e.amount, 0);
+  // Undo a delete
+  const restoreDeletedExpense = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await restoreFromTrash(user.uid, [getTrashId('expense', id)]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore expense';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Apply one change to every selected expense
+  const updateExpensesInBulk = useCallback(
+    async (ids: string[], edit: ExpenseBulkEdit): Promise<Expense[]> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        return await updateExpensesInBulkService(user.uid, ids, edit);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update expenses';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Undo a bulk edit
+  const revertExpenses = useCallback(
+    async (previous: Expense[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await revertExpensesService(user.uid, previous);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to revert expenses';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Delete every selected expense
+  const deleteExpenses = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteExpensesService(user.uid, ids, 'bulk');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete expenses';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Undo a bulk delete
+  const restoreDeletedExpenses = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await restoreFromTrash(user.uid, ids.map((id) => getTrashId('expense', id)));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore expenses';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Read every expense in a range, e.g. to check an import for duplicates
+  const getExpensesInRange = useCallback(
+    async (range: DateRange): Promise<Expense[]> => {
+      if (!user) throw new Error('Not authenticated');
+      return getExpensesByDateRange(user.uid, range);
+    },
+    [user]
+  );
+
+  // Total in the base currency; records in other currencies are converted first
+  const totalAmount = useMemo(
+    () => toBaseCurrency(expenses).reduce((sum, e) => sum + e.amount, 0),
+    [expenses, toBaseCurrency]
+  );
 
   return {
     expenses,
     isLoading,
-    error,
+    error: error ?? listenError,
     addExpense,
+    addExpenses,
     updateExpense,
     deleteExpense,
-    refresh: fetchExpenses,
+    restoreDeletedExpense,
+    updateExpensesInBulk,
+    revertExpenses,
+    deleteExpenses,
+    restoreDeletedExpenses,
+    getExpensesInRange,
+    refresh,
     totalAmount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
   };
 };
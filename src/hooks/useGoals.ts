@@ -4,7 +4,7 @@
 // Goals Hook
 // ============================================
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import {
   UserGoals,
   GoalAllocation,
@@ -16,11 +16,13 @@ import {
   Income,
 } from '@/types';
 import {
-  getGoals,
   saveGoals as saveGoalsService,
   resetGoals as resetGoalsService,
 } from '@/services/firebase';
+import { getExpenseAllocations } from '@/services/analytics';
 import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { useLiveData } from './useLiveData';
 import { GOAL_CATEGORIES } from '@/lib/utils/constants';
 
 // ============================================
@@ -48,10 +50,13 @@ interface UseGoalsReturn {
 // Helper Functions
 // ============================================
 
-const mapExpenseToGoalCategory = (expenseCategory: string): GoalCategory => {
+const mapExpenseToGoalCategory = (expenseCategory: string, debtId?: string): GoalCategory => {
+  // Payments toward a tracked debt count as repaying it, whatever their category
+  if (debtId) return 'debt_repayment';
+
   // Map expense categories to goal categories
   const needsCategories = ['rent', 'electricity', 'gas', 'wifi', 'groceries'];
-  const wantsCategories = ['amazon', 'eating_out', 'miscellaneous'];
+  const wantsCategories = ['shopping', 'eating_out', 'miscellaneous'];
 
   if (needsCategories.includes(expenseCategory)) return 'needs';
   if (wantsCategories.includes(expenseCategory)) return 'wants';
@@ -74,10 +79,11 @@ const calculateProgress = (
     emergency_fund: 0,
   };
 
-  // Map expenses to goal categories
+  // Map expenses to goal categories, split by split
   expenses.forEach((expense) => {
-    const goalCategory = mapExpenseToGoalCategory(expense.category);
-    actualByCategory[goalCategory] += expense.amount;
+    getExpenseAllocations(expense).forEach(({ category, amount }) => {
+      actualByCategory[mapExpenseToGoalCategory(category, expense.debtId)] += amount;
+    });
   });
 
   // Calculate savings (income - expenses)
@@ -200,49 +206,21 @@ const calculateOverallScore = (progress: GoalProgress[]): number => {
 
 export const useGoals = (options: UseGoalsOptions = {}): UseGoalsReturn => {
   const { expenses = [], income = [], autoFetch = true } = options;
-  const { user, isAuthenticated } = useAuth();
-
-  const [goals, setGoals] = useState<UserGoals | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { user } = useAuth();
+  const { toBaseCurrency } = useSettings();
+  const { data: goals, isLoading, error: listenError, refresh } = useLiveData('goals', autoFetch);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch goals
-  const fetchGoals = useCallback(async () => {
-    if (!isAuthenticated || !user) {
-      setGoals(null);
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-      setError(null);
-      const data = await getGoals(user.uid);
-      setGoals(data);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to fetch goals';
-      setError(message);
-      console.error('Error fetching goals:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [user, isAuthenticated]);
-
-  // Auto-fetch on mount
-  useEffect(() => {
-    if (autoFetch) {
-      fetchGoals();
-    }
-  }, [fetchGoals, autoFetch]);
-
   // Calculate analytics
   const analytics = useMemo((): GoalsAnalytics | null => {
     if (!goals) return null;
 
-    const totalIncome = income.reduce((sum, i) => sum + i.amount, 0);
-    const totalExpenses = expenses.reduce((sum, e) => sum + e.amount, 0);
+    const baseExpenses = toBaseCurrency(expenses);
+    const baseIncome = toBaseCurrency(income);
+    const totalIncome = baseIncome.reduce((sum, i) => sum + i.amount, 0);
+    const totalExpenses = baseExpenses.reduce((sum, e) => sum + e.amount, 0);
 
-    const progress = calculateProgress(goals.allocations, totalIncome, expenses, income);
+    const progress = calculateProgress(goals.allocations, totalIncome, baseExpenses, baseIncome);
     const insights = generateInsights(progress);
     const overallScore = calculateOverallScore(progress);
 
@@ -254,7 +232,7 @@ export const useGoals = (options: UseGoalsOptions = {}): UseGoalsReturn => {
       trend: 0, // TODO: Calculate from historical data
       insights,
     };
-  }, [goals, expenses, income]);
+  }, [goals, expenses, income, toBaseCurrency]);
 
   // Save goals
   const saveGoals = useCallback(
@@ -264,14 +242,13 @@ export const useGoals = (options: UseGoalsOptions = {}): UseGoalsReturn => {
       try {
         setError(null);
         await saveGoalsService(user.uid, allocations, monthlyIncomeTarget);
-        await fetchGoals();
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to save goals';
         setError(message);
         throw err;
       }
     },
-    [user, fetchGoals]
+    [user]
   );
 
   // Update single allocation
@@ -296,8 +273,7 @@ export const useGoals = (options: UseGoalsOptions = {}): UseGoalsReturn => {
 
     try {
       setError(null);
-      const defaultGoals = await resetGoalsService(user.uid);
-      setGoals(defaultGoals);
+      await resetGoalsService(user.uid);
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Failed to reset goals';
       setError(message);
@@ -308,11 +284,11 @@ export const useGoals = (options: UseGoalsOptions = {}): UseGoalsReturn => {
   return {
     goals,
     isLoading,
-    error,
+    error: error ?? listenError,
     analytics,
     saveGoals,
     updateAllocation,
     resetGoals,
-    refresh: fetchGoals,
+    refresh,
   };
 };
@@ -4,16 +4,23 @@
 // Income Hook
 // ============================================
 
-import { useState, useEffect, useCallback } from 'react';
-import { Income, NewIncome, DateRange, IncomeType } from '@/types';
+import { useState, useCallback, useMemo } from 'react';
+import { Income, NewIncome, DateRange, IncomeType, IncomeBulkEdit } from '@/types';
 import {
-  getIncome,
-  getIncomeByDateRange,
   addIncome as addIncomeService,
+  addIncomeEntries as addIncomeEntriesService,
   updateIncome as updateIncomeService,
   deleteIncome as deleteIncomeService,
+  deleteIncomeEntries as deleteIncomeEntriesService,
+  updateIncomeInBulk as updateIncomeInBulkService,
+  revertIncome as revertIncomeService,
+  restoreFromTrash,
+  getTrashId,
+  getIncomeByDateRange,
 } from '@/services/firebase';
 import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { usePagedLiveData } from './usePagedLiveData';
 
 // ============================================
 // Types
@@ -23,6 +30,8 @@ interface UseIncomeOptions {
   dateRange?: DateRange;
   type?: IncomeType;
   autoFetch?: boolean;
+  // Read newest first, this many at a time, instead of the whole range at once
+  pageSize?: number;
 }
 
 interface UseIncomeReturn {
@@ -30,10 +39,23 @@ interface UseIncomeReturn {
   isLoading: boolean;
   error: string | null;
   addIncome: (income: NewIncome) => Promise<string>;
+  addIncomeEntries: (entries: NewIncome[]) => Promise<string[]>;
   updateIncome: (id: string, updates: Partial<NewIncome>) => Promise<void>;
   deleteIncome: (id: string) => Promise<void>;
+  // Brings back a deleted income entry from the trash
+  restoreDeletedIncome: (id: string) => Promise<void>;
+  // Bulk actions; edits return the entries as they were so they can be reverted
+  updateIncomeInBulk: (ids: string[], edit: IncomeBulkEdit) => Promise<Income[]>;
+  revertIncome: (previous: Income[]) => Promise<void>;
+  deleteIncomeEntries: (ids: string[]) => Promise<void>;
+  restoreDeletedIncomeEntries: (ids: string[]) => Promise<void>;
+  // Reads the whole range, including records on pages not loaded yet
+  getIncomeInRange: (range: DateRange) => Promise<Income[]>;
   refresh: () => Promise<void>;
   totalAmount: number;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
 }
 
 // ============================================
@@ -41,54 +63,20 @@ interface UseIncomeReturn {
 // ============================================
 
 export const useIncome = (options: UseIncomeOptions = {}): UseIncomeReturn => {
-  const { dateRange, type, autoFetch = true } = options;
-  const { user, isAuthenticated } = useAuth();
-
-  const [income, setIncome] = useState<Income[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
+  const { dateRange, type, autoFetch = true, pageSize } = options;
+  const { user } = useAuth();
+  const { toBaseCurrency } = useSettings();
+  const { data, isLoading, error: listenError, refresh, hasMore, isLoadingMore, loadMore } = usePagedLiveData(
+    'income',
+    { enabled: autoFetch, window: dateRange, pageSize }
+  );
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch income
-  const fetchIncome = useCallback(async () => {
-    if (!isAuthenticated || !user) {
-      setIncome([]);
-      setIsLoading(false);
-      return;
-    }
-
-    try {
-      setIsLoading(true);
-      setError(null);
-
-      let data: Income[];
-
-      if (dateRange) {
-        data = await getIncomeByDateRange(user.uid, dateRange);
-      } else {
-        data = await getIncome(user.uid);
-      }
-
-      // Filter by type if specified
-      if (type) {
-        data = data.filter((inc) => inc.type === type);
-      }
-
-      setIncome(data);
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to fetch income';
-      setError(message);
-      console.error('Error fetching income:', err);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [user, isAuthenticated, dateRange, type]);
-
-  // Auto-fetch on mount and when dependencies change
-  useEffect(() => {
-    if (autoFetch) {
-      fetchIncome();
-    }
-  }, [fetchIncome, autoFetch]);
+  // Only the range is read; each component narrows it to its own type
+  const income = useMemo(
+    () => (type ? data.filter((inc) => inc.type === type) : data),
+    [data, type]
+  );
 
   // Add income
   const addIncome = useCallback(
@@ -97,16 +85,31 @@ export const useIncome = (options: UseIncomeOptions = {}): UseIncomeReturn => {
 
       try {
         setError(null);
-        const id = await addIncomeService(user.uid, newIncome);
-        await fetchIncome(); // Refresh list
-        return id;
+        return await addIncomeService(user.uid, newIncome);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Add several income entries at once (e.g. CSV import)
+  const addIncomeEntries = useCallback(
+    async (entries: NewIncome[]): Promise<string[]> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        return await addIncomeEntriesService(user.uid, entries);
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to add income';
         setError(message);
         throw err;
       }
     },
-    [user, fetchIncome]
+    [user]
   );
 
   // Update income
@@ -117,14 +120,13 @@ export const useIncome = (options: UseIncomeOptions = {}): UseIncomeReturn => {
       try {
         setError(null);
         await updateIncomeService(user.uid, id, updates);
-        await fetchIncome(); // Refresh list
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to update income';
         setError(message);
         throw err;
       }
     },
-    [user, fetchIncome]
+    [user]
   );
 
   // Delete income
@@ -135,7 +137,6 @@ export const useIncome = (options: UseIncomeOptions = {}): UseIncomeReturn => {
       try {
         setError(null);
         await deleteIncomeService(user.uid, id);
-        setIncome((prev) => prev.filter((i) => i.id !== id));
       } catch (err) {
         const message = err instanceof Error ? err.message : 'Failed to delete income';
         setError(message);
@@ -145,17 +146,124 @@ export const useIncome = (options: UseIncomeOptions = {}): UseIncomeReturn => {
     [user]
   );
 
-  // Calculate total
-  const totalAmount = income.reduce((sum, i) => sum + i.amount, 0);
+  // Undo a delete
+  const restoreDeletedIncome = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await restoreFromTrash(user.uid, [getTrashId('income', id)]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Apply one change to every selected entry
+  const updateIncomeInBulk = useCallback(
+    async (ids: string[], edit: IncomeBulkEdit): Promise<Income[]> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        return await updateIncomeInBulkService(user.uid, ids, edit);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Undo a bulk edit
+  const revertIncome = useCallback(
+    async (previous: Income[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await revertIncomeService(user.uid, previous);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to revert income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Delete every selected entry
+  const deleteIncomeEntries = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteIncomeEntriesService(user.uid, ids, 'bulk');
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Undo a bulk delete
+  const restoreDeletedIncomeEntries = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await restoreFromTrash(user.uid, ids.map((id) => getTrashId('income', id)));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore income';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Read every income entry in a range, e.g. to check an import for duplicates
+  const getIncomeInRange = useCallback(
+    async (range: DateRange): Promise<Income[]> => {
+      if (!user) throw new Error('Not authenticated');
+      return getIncomeByDateRange(user.uid, range);
+    },
+    [user]
+  );
+
+  // Total in the base currency; records in other currencies are converted first
+  const totalAmount = useMemo(
+    () => toBaseCurrency(income).reduce((sum, i) => sum + i.amount, 0),
+    [income, toBaseCurrency]
+  );
 
   return {
     income,
     isLoading,
-    error,
+    error: error ?? listenError,
     addIncome,
+    addIncomeEntries,
     updateIncome,
     deleteIncome,
-    refresh: fetchIncome,
+    restoreDeletedIncome,
+    updateIncomeInBulk,
+    revertIncome,
+    deleteIncomeEntries,
+    restoreDeletedIncomeEntries,
+    getIncomeInRange,
+    refresh,
     totalAmount,
+    hasMore,
+    isLoadingMore,
+    loadMore,
   };
 };
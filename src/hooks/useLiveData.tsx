@@ -0,0 +1,230 @@
+'use client';
+
+// ============================================
+// Live Data Hook with Context
+// ============================================
+
+import { useMemo, useCallback, useSyncExternalStore, createContext, useContext, ReactNode } from 'react';
+import { CustomCategory, DateWindow, Expense, Income, MonthlyRollup, UserGoals } from '@/types';
+import {
+  subscribeToExpenses,
+  subscribeToIncome,
+  subscribeToCustomCategories,
+  subscribeToGoals,
+  subscribeToRollups,
+} from '@/services/firebase';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+// The collections kept live, and what each one holds
+interface LiveDataValues {
+  expenses: Expense[];
+  income: Income[];
+  customCategories: CustomCategory[];
+  goals: UserGoals | null;
+  rollups: MonthlyRollup[];
+}
+
+export type LiveDataKey = keyof LiveDataValues;
+
+export interface LiveDataState<K extends LiveDataKey> {
+  data: LiveDataValues[K];
+  isLoading: boolean;
+  error: string | null;
+}
+
+interface UseLiveDataReturn<K extends LiveDataKey> extends LiveDataState<K> {
+  refresh: () => Promise<void>;
+}
+
+type LiveDataSource<K extends LiveDataKey> = (
+  userId: string,
+  window: DateWindow,
+  onChange: (data: LiveDataValues[K]) => void,
+  onError: (error: Error) => void
+) => () => void;
+
+interface LiveDataEntry {
+  key: LiveDataKey;
+  window: DateWindow;
+  state: LiveDataState<LiveDataKey>;
+  listeners: Set<() => void>;
+  stop: (() => void) | null;
+}
+
+interface LiveDataStore {
+  subscribe: (key: LiveDataKey, window: DateWindow, listener: () => void) => () => void;
+  getState: <K extends LiveDataKey>(key: K, window: DateWindow) => LiveDataState<K>;
+  // Restarts every window of the collection
+  restart: (key: LiveDataKey) => void;
+}
+
+// ============================================
+// Store
+// ============================================
+
+// Expenses, income and rollups can be narrowed to a window; the rest are small enough to read whole
+const sources: { [K in LiveDataKey]: LiveDataSource<K> } = {
+  expenses: subscribeToExpenses,
+  income: subscribeToIncome,
+  customCategories: (userId, _window, onChange, onError) => subscribeToCustomCategories(userId, onChange, onError),
+  goals: (userId, _window, onChange, onError) => subscribeToGoals(userId, onChange, onError),
+  rollups: subscribeToRollups,
+};
+
+const fullWindow: DateWindow = {};
+
+const getEntryId = (key: LiveDataKey, window: DateWindow): string =>
+  [key, window.start?.getTime() ?? '', window.end?.getTime() ?? ''].join(':');
+
+const emptyValues: LiveDataValues = {
+  expenses: [],
+  income: [],
+  customCategories: [],
+  goals: null,
+  rollups: [],
+};
+
+/**
+ * One listener per collection and window for a user, started by the first
+ * component that reads it and stopped when the last one unmounts. The latest
+ * data is kept so remounting components don't flash back to loading.
+ */
+const createLiveDataStore = (userId: string | null): LiveDataStore => {
+  const entries = new Map<string, LiveDataEntry>();
+
+  const getEntry = (key: LiveDataKey, window: DateWindow): LiveDataEntry => {
+    const id = getEntryId(key, window);
+    if (!entries.has(id)) {
+      entries.set(id, {
+        key,
+        window,
+        state: { data: emptyValues[key], isLoading: userId !== null, error: null },
+        listeners: new Set(),
+        stop: null,
+      });
+    }
+    return entries.get(id)!;
+  };
+
+  const setState = (entry: LiveDataEntry, updates: Partial<LiveDataState<LiveDataKey>>) => {
+    entry.state = { ...entry.state, ...updates };
+    entry.listeners.forEach((listener) => listener());
+  };
+
+  const start = (entry: LiveDataEntry) => {
+    if (!userId) return;
+    const source = sources[entry.key] as LiveDataSource<LiveDataKey>;
+    entry.stop = source(
+      userId,
+      entry.window,
+      (data) => setState(entry, { data, isLoading: false, error: null }),
+      (error) => {
+        console.error(`Error listening to ${entry.key}:`, error);
+        setState(entry, { isLoading: false, error: error.message });
+      }
+    );
+  };
+
+  const stop = (entry: LiveDataEntry) => {
+    entry.stop?.();
+    entry.stop = null;
+  };
+
+  return {
+    subscribe: (key, window, listener) => {
+      const entry = getEntry(key, window);
+      entry.listeners.add(listener);
+      if (!entry.stop) start(entry);
+
+      return () => {
+        entry.listeners.delete(listener);
+        if (entry.listeners.size === 0) stop(entry);
+      };
+    },
+    getState: <K extends LiveDataKey>(key: K, window: DateWindow) =>
+      getEntry(key, window).state as LiveDataState<K>,
+    restart: (key) => {
+      entries.forEach((entry) => {
+        if (entry.key !== key || !entry.stop) return;
+        stop(entry);
+        setState(entry, { isLoading: true });
+        start(entry);
+      });
+    },
+  };
+};
+
+// ============================================
+// Context
+// ============================================
+
+const LiveDataContext = createContext<LiveDataStore | undefined>(undefined);
+
+// ============================================
+// Provider Component
+// ============================================
+
+interface LiveDataProviderProps {
+  children: ReactNode;
+}
+
+export const LiveDataProvider = ({ children }: LiveDataProviderProps) => {
+  const { user } = useAuth();
+  const userId = user?.uid ?? null;
+
+  // A new store per user, so nobody sees the previous user's data
+  const store = useMemo(() => createLiveDataStore(userId), [userId]);
+
+  return <LiveDataContext.Provider value={store}>{children}</LiveDataContext.Provider>;
+};
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Read a live collection. Components reading the same collection and window share one listener.
+ * Pass `enabled: false` to read whatever is already loaded without starting one, and a
+ * `window` to only listen to expenses, income or month summaries within it.
+ */
+export const useLiveData = <K extends LiveDataKey>(
+  key: K,
+  enabled = true,
+  window: DateWindow = fullWindow
+): UseLiveDataReturn<K> => {
+  const store = useContext(LiveDataContext);
+
+  if (store === undefined) {
+    throw new Error('useLiveData must be used within a LiveDataProvider');
+  }
+
+  // Callers often build the window during render, so it's keyed by its bounds rather than its identity
+  const start = window.start?.getTime();
+  const end = window.end?.getTime();
+  const stableWindow = useMemo<DateWindow>(
+    () => ({
+      ...(start !== undefined && { start: new Date(start) }),
+      ...(end !== undefined && { end: new Date(end) }),
+    }),
+    [start, end]
+  );
+
+  const subscribe = useCallback(
+    (listener: () => void) => (enabled ? store.subscribe(key, stableWindow, listener) : () => {}),
+    [store, key, enabled, stableWindow]
+  );
+  const getState = useCallback(() => store.getState(key, stableWindow), [store, key, stableWindow]);
+
+  const state = useSyncExternalStore(subscribe, getState, getState);
+
+  // Drops the listener and starts a fresh one
+  const refresh = useCallback(async (): Promise<void> => {
+    store.restart(key);
+  }, [store, key]);
+
+  return { ...state, refresh };
+};
@@ -0,0 +1,156 @@
+'use client';
+
+// ============================================
+// Paged Live Data Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { DateWindow, Page, PageCursor, PageOptions } from '@/types';
+import { getExpensesPage, getIncomePage } from '@/services/firebase';
+import { useAuth } from './useAuth';
+import { useLiveData, LiveDataState } from './useLiveData';
+
+// ============================================
+// Types
+// ============================================
+
+type PagedKey = 'expenses' | 'income';
+
+type PagedRecord = { id: string };
+
+interface UsePagedLiveDataOptions {
+  enabled?: boolean;
+  window?: DateWindow;
+  // Omit to read the whole window at once
+  pageSize?: number;
+}
+
+interface UsePagedLiveDataReturn<K extends PagedKey> extends LiveDataState<K> {
+  refresh: () => Promise<void>;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  loadMore: () => Promise<void>;
+}
+
+// How far back a paged list reaches so far
+interface PagedState<K extends PagedKey> {
+  userId: string;
+  cursor: PageCursor | null;
+  hasMore: boolean;
+  // Shown while the live listener catches up with a newly loaded page
+  loaded: LiveDataState<K>['data'];
+}
+
+const pageSources: Record<PagedKey, (userId: string, options: PageOptions) => Promise<Page<PagedRecord>>> = {
+  expenses: getExpensesPage,
+  income: getIncomePage,
+};
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Read expenses or income live, one page at a time. The newest page is read
+ * first; each `loadMore` reads the next page by cursor and widens the live
+ * window back to it, so every loaded record stays up to date.
+ */
+export const usePagedLiveData = <K extends PagedKey>(
+  key: K,
+  options: UsePagedLiveDataOptions = {}
+): UsePagedLiveDataReturn<K> => {
+  const { enabled = true, window, pageSize } = options;
+  const { user } = useAuth();
+  const userId = user?.uid ?? null;
+  const isPaged = pageSize !== undefined;
+
+  const [paged, setPaged] = useState<PagedState<K> | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [pageError, setPageError] = useState<string | null>(null);
+
+  const windowStart = window?.start?.getTime();
+  const windowEnd = window?.end?.getTime();
+  const baseWindow = useMemo<DateWindow>(
+    () => ({
+      ...(windowStart !== undefined && { start: new Date(windowStart) }),
+      ...(windowEnd !== undefined && { end: new Date(windowEnd) }),
+    }),
+    [windowStart, windowEnd]
+  );
+
+  // Pages read for a previous user don't count
+  const current = paged && paged.userId === userId ? paged : null;
+
+  // Read the newest page
+  useEffect(() => {
+    if (!isPaged || !enabled || !userId) return;
+
+    let isActive = true;
+    pageSources[key](userId, { window: baseWindow, pageSize })
+      .then((page) => {
+        if (!isActive) return;
+        setPageError(null);
+        setPaged({
+          userId,
+          cursor: page.cursor,
+          hasMore: page.hasMore,
+          loaded: page.items as LiveDataState<K>['data'],
+        });
+      })
+      .catch((err) => {
+        if (!isActive) return;
+        console.error(`Error fetching ${key}:`, err);
+        setPageError(err instanceof Error ? err.message : `Failed to fetch ${key}`);
+      });
+
+    return () => {
+      isActive = false;
+    };
+  }, [key, isPaged, enabled, userId, baseWindow, pageSize]);
+
+  // The live window reaches back to the oldest loaded page
+  const liveWindow = useMemo<DateWindow>(
+    () => (current?.hasMore && current.cursor ? { ...baseWindow, start: current.cursor.date } : baseWindow),
+    [current, baseWindow]
+  );
+
+  const live = useLiveData(key, enabled && (!isPaged || current !== null), liveWindow);
+
+  const loadMore = useCallback(async (): Promise<void> => {
+    if (!userId || !current?.hasMore || isLoadingMore) return;
+
+    try {
+      setIsLoadingMore(true);
+      const page = await pageSources[key](userId, { window: baseWindow, cursor: current.cursor, pageSize });
+      const shown: PagedRecord[] = live.isLoading ? current.loaded : live.data;
+      const shownIds = new Set(shown.map((record) => record.id));
+      setPaged({
+        userId,
+        cursor: page.cursor,
+        hasMore: page.hasMore,
+        loaded: [...shown, ...page.items.filter((record) => !shownIds.has(record.id))] as LiveDataState<K>['data'],
+      });
+    } catch (err) {
+      console.error(`Error fetching more ${key}:`, err);
+      setPageError(err instanceof Error ? err.message : `Failed to fetch ${key}`);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [key, userId, current, isLoadingMore, baseWindow, pageSize, live.isLoading, live.data]);
+
+  if (!isPaged) {
+    return { ...live, hasMore: false, isLoadingMore: false, loadMore };
+  }
+
+  // Until the listener for the widened window answers, the pages read so far stand in for it
+  const isWaiting = current === null || live.isLoading;
+  return {
+    data: isWaiting && current ? current.loaded : live.data,
+    isLoading: current === null && enabled && userId !== null && pageError === null,
+    error: pageError ?? live.error,
+    refresh: live.refresh,
+    hasMore: current?.hasMore ?? false,
+    isLoadingMore,
+    loadMore,
+  };
+};
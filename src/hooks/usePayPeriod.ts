@@ -0,0 +1,68 @@
+'use client';
+
+// ============================================
+// Pay Period Hook
+// ============================================
+
+import { useMemo } from 'react';
+import { Expense, Income, PayPeriodStatus } from '@/types';
+import { calculatePayPeriodStatus } from '@/services/analytics';
+import { useSettings } from './useSettings';
+import { useRecurringRules } from './useRecurring';
+
+// ============================================
+// Types
+// ============================================
+
+interface UsePayPeriodOptions {
+  // Records covering the current and previous pay periods, in any currency
+  expenses: Expense[];
+  income: Income[];
+  // Previous periods to compare against
+  history?: number;
+}
+
+interface UsePayPeriodReturn {
+  status: PayPeriodStatus;
+  isLoading: boolean;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Spending since the last payday and what's safe to spend until the next one,
+ * on the pay schedule from settings
+ */
+export const usePayPeriod = ({ expenses, income, history = 6 }: UsePayPeriodOptions): UsePayPeriodReturn => {
+  const { settings, toBaseCurrency, paySchedule } = useSettings();
+  const { activeRules, isLoading } = useRecurringRules();
+
+  const status = useMemo(
+    () =>
+      calculatePayPeriodStatus({
+        expenses: toBaseCurrency(expenses),
+        income: toBaseCurrency(income),
+        schedule: paySchedule,
+        defaultSalary: settings.defaultSalary,
+        rules: activeRules,
+        currency: settings.currency,
+        rates: settings.exchangeRates,
+        history,
+      }),
+    [
+      expenses,
+      income,
+      toBaseCurrency,
+      paySchedule,
+      settings.defaultSalary,
+      activeRules,
+      settings.currency,
+      settings.exchangeRates,
+      history,
+    ]
+  );
+
+  return { status, isLoading };
+};
@@ -0,0 +1,166 @@
+'use client';
+
+// ============================================
+// Payees Hook
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { Payee, NewPayee } from '@/types';
+import {
+  getPayees,
+  addPayee as addPayeeService,
+  updatePayee as updatePayeeService,
+  deletePayee as deletePayeeService,
+  migrateAmazonCategory,
+} from '@/services/firebase';
+import { matchPayee } from '@/services/analytics';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+interface UsePayeesReturn {
+  payees: Payee[];
+  isLoading: boolean;
+  error: string | null;
+  addPayee: (payee: NewPayee) => Promise<string>;
+  updatePayee: (id: string, updates: Partial<NewPayee>) => Promise<void>;
+  deletePayee: (id: string) => Promise<void>;
+  // The payee a description names, if any
+  findPayee: (description: string) => Payee | undefined;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const usePayees = (): UsePayeesReturn => {
+  const { user, isAuthenticated } = useAuth();
+
+  const [payees, setPayees] = useState<Payee[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch payees
+  const fetchPayees = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setPayees([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setPayees(await getPayees(user.uid));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch payees';
+      setError(message);
+      console.error('Error fetching payees:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchPayees();
+  }, [fetchPayees]);
+
+  const addPayee = useCallback(
+    async (payee: NewPayee): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addPayeeService(user.uid, payee);
+        await fetchPayees();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add payee';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchPayees]
+  );
+
+  const updatePayee = useCallback(
+    async (id: string, updates: Partial<NewPayee>): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updatePayeeService(user.uid, id, updates);
+        await fetchPayees();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update payee';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchPayees]
+  );
+
+  const deletePayee = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deletePayeeService(user.uid, id);
+        setPayees((prev) => prev.filter((payee) => payee.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete payee';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  const findPayee = useCallback((description: string) => matchPayee(description, payees), [payees]);
+
+  return {
+    payees,
+    isLoading,
+    error,
+    addPayee,
+    updatePayee,
+    deletePayee,
+    findPayee,
+    refresh: fetchPayees,
+  };
+};
+
+// ============================================
+// Migration
+// ============================================
+
+/**
+ * Move data off the old Amazon category once per session, before pages load it.
+ * Returns whether it's done (or there's no user yet).
+ */
+export const usePayeeMigration = (): boolean => {
+  const { user } = useAuth();
+  const [migratedFor, setMigratedFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    migrateAmazonCategory(user.uid)
+      .catch((err) => console.error('Error migrating the Amazon category:', err))
+      .finally(() => {
+        if (!cancelled) setMigratedFor(user.uid);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  return !user || migratedFor === user.uid;
+};
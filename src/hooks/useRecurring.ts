@@ -0,0 +1,191 @@
+'use client';
+
+// ============================================
+// Recurring Rules Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Expense, NewExpense, RecurringRule, NewRecurringRule, RecurringEditScope } from '@/types';
+import {
+  getRecurringRules,
+  addRecurringRule as addRecurringRuleService,
+  endRecurringRule as endRecurringRuleService,
+  updateRecurringOccurrence as updateRecurringOccurrenceService,
+  endRecurringOccurrence as endRecurringOccurrenceService,
+  materializeRecurringExpenses,
+} from '@/services/firebase';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseRecurringRulesReturn {
+  rules: RecurringRule[];
+  activeRules: RecurringRule[];
+  isLoading: boolean;
+  error: string | null;
+  addRule: (rule: NewRecurringRule) => Promise<string>;
+  endRule: (id: string, lastDate?: Date) => Promise<void>;
+  updateOccurrence: (expense: Expense, updates: Partial<NewExpense>, scope: RecurringEditScope) => Promise<void>;
+  endOccurrence: (expense: Expense, scope: RecurringEditScope) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useRecurringRules = (): UseRecurringRulesReturn => {
+  const { user, isAuthenticated } = useAuth();
+
+  const [rules, setRules] = useState<RecurringRule[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch rules
+  const fetchRules = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setRules([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const data = await getRecurringRules(user.uid);
+      setRules(data);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch recurring rules';
+      setError(message);
+      console.error('Error fetching recurring rules:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const activeRules = useMemo(() => rules.filter((rule) => rule.isActive), [rules]);
+
+  // Add rule and immediately create any occurrences already due
+  const addRule = useCallback(
+    async (rule: NewRecurringRule): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addRecurringRuleService(user.uid, rule);
+        await materializeRecurringExpenses(user.uid);
+        await fetchRules();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add recurring rule';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  // End rule (defaults to today, keeping already created occurrences)
+  const endRule = useCallback(
+    async (id: string, lastDate: Date = new Date()): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await endRecurringRuleService(user.uid, id, lastDate);
+        await fetchRules();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to end recurring rule';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  // Edit an occurrence, optionally applying the change to the rest of the series
+  const updateOccurrence = useCallback(
+    async (expense: Expense, updates: Partial<NewExpense>, scope: RecurringEditScope): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updateRecurringOccurrenceService(user.uid, expense, updates, scope);
+        if (scope === 'future') await fetchRules();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update recurring expense';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  // Remove an occurrence, optionally ending the rest of the series
+  const endOccurrence = useCallback(
+    async (expense: Expense, scope: RecurringEditScope): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await endRecurringOccurrenceService(user.uid, expense, scope);
+        if (scope === 'future') await fetchRules();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to end recurring expense';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchRules]
+  );
+
+  return {
+    rules,
+    activeRules,
+    isLoading,
+    error,
+    addRule,
+    endRule,
+    updateOccurrence,
+    endOccurrence,
+    refresh: fetchRules,
+  };
+};
+
+// ============================================
+// Materializer Hook
+// ============================================
+
+/**
+ * Create due recurring expenses once per signed-in user.
+ * Returns false until the run has finished so pages load the new rows.
+ * Waits while `enabled` is false, e.g. for a data migration.
+ */
+export const useRecurringMaterializer = (enabled = true): boolean => {
+  const { user } = useAuth();
+  const [materializedFor, setMaterializedFor] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    let cancelled = false;
+    materializeRecurringExpenses(user.uid)
+      .catch((err) => console.error('Error materializing recurring expenses:', err))
+      .finally(() => {
+        if (!cancelled) setMaterializedFor(user.uid);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, enabled]);
+
+  return !user || materializedFor === user.uid;
+};
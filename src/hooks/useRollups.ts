@@ -0,0 +1,73 @@
+'use client';
+
+// ============================================
+// Monthly Rollups Hook
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { DateWindow, MonthlyRollup } from '@/types';
+import { ensureRollups, rebuildRollups } from '@/services/firebase';
+import { useAuth } from './useAuth';
+import { useLiveData } from './useLiveData';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseRollupsOptions {
+  enabled?: boolean;
+  window?: DateWindow;
+}
+
+interface UseRollupsReturn {
+  rollups: MonthlyRollup[];
+  isLoading: boolean;
+  isRebuilding: boolean;
+  error: string | null;
+  rebuild: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Read the stored month summaries live, building them first if this user has none yet
+ */
+export const useRollups = (options: UseRollupsOptions = {}): UseRollupsReturn => {
+  const { enabled = true, window } = options;
+  const { user } = useAuth();
+  const { data: rollups, isLoading, error: liveError } = useLiveData('rollups', enabled, window);
+  const [isRebuilding, setIsRebuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Data saved before rollups existed gets counted the first time they're read
+  useEffect(() => {
+    if (!enabled || !user) return;
+    ensureRollups(user.uid).catch((err) => console.error('Error building rollups:', err));
+  }, [enabled, user]);
+
+  // Recount every month from scratch
+  const rebuild = useCallback(async (): Promise<void> => {
+    if (!user) throw new Error('Not authenticated');
+
+    try {
+      setIsRebuilding(true);
+      setError(null);
+      await rebuildRollups(user.uid);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rebuild analytics');
+      throw err;
+    } finally {
+      setIsRebuilding(false);
+    }
+  }, [user]);
+
+  return {
+    rollups,
+    isLoading,
+    isRebuilding,
+    error: error ?? liveError,
+    rebuild,
+  };
+};
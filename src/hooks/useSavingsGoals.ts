@@ -0,0 +1,201 @@
+'use client';
+
+// ============================================
+// Savings Goals Hook
+// ============================================
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { SavingsGoal, NewSavingsGoal, NewGoalContribution, SavingsGoalProgress, Account, AccountBalance } from '@/types';
+import {
+  getSavingsGoals,
+  addSavingsGoal as addSavingsGoalService,
+  updateSavingsGoal as updateSavingsGoalService,
+  deleteSavingsGoal as deleteSavingsGoalService,
+  addGoalContribution as addGoalContributionService,
+  deleteGoalContribution as deleteGoalContributionService,
+} from '@/services/firebase';
+import { calculateSavingsGoalProgress } from '@/services/analytics';
+import { useAuth } from './useAuth';
+import { useSettings } from './useSettings';
+import { useExpenses } from './useExpenses';
+import { useIncome } from './useIncome';
+import { useAccounts } from './useAccounts';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseSavingsGoalsReturn {
+  goals: SavingsGoal[];
+  progress: SavingsGoalProgress[];
+  // Accounts a goal can follow
+  accounts: Account[];
+  // Their balances now, which a newly linked goal starts from
+  balances: AccountBalance[];
+  isLoading: boolean;
+  error: string | null;
+  addGoal: (goal: NewSavingsGoal) => Promise<string>;
+  updateGoal: (id: string, updates: Partial<NewSavingsGoal>) => Promise<void>;
+  deleteGoal: (id: string) => Promise<void>;
+  addContribution: (goalId: string, contribution: NewGoalContribution) => Promise<void>;
+  deleteContribution: (goalId: string, contributionId: string) => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Savings goals with their progress. Every record is read, since linked
+ * accounts are measured by their balance.
+ */
+export const useSavingsGoals = (): UseSavingsGoalsReturn => {
+  const { user, isAuthenticated } = useAuth();
+  const { toBaseCurrency } = useSettings();
+  const { expenses, isLoading: expensesLoading } = useExpenses();
+  const { income, isLoading: incomeLoading } = useIncome();
+  const { accounts, balances, isLoading: accountsLoading } = useAccounts({ expenses, income, months: 1 });
+
+  const [goals, setGoals] = useState<SavingsGoal[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch savings goals
+  const fetchGoals = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setGoals([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setGoals(await getSavingsGoals(user.uid));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch savings goals';
+      setError(message);
+      console.error('Error fetching savings goals:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchGoals();
+  }, [fetchGoals]);
+
+  const progress = useMemo(() => {
+    const baseExpenses = toBaseCurrency(expenses);
+    return goals.map((goal) =>
+      calculateSavingsGoalProgress(
+        goal,
+        baseExpenses,
+        goal.accountId ? balances.find(({ account }) => account.id === goal.accountId)?.baseBalance : undefined
+      )
+    );
+  }, [goals, expenses, balances, toBaseCurrency]);
+
+  const addGoal = useCallback(
+    async (goal: NewSavingsGoal): Promise<string> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        const id = await addSavingsGoalService(user.uid, goal);
+        await fetchGoals();
+        return id;
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add savings goal';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchGoals]
+  );
+
+  const updateGoal = useCallback(
+    async (id: string, updates: Partial<NewSavingsGoal>): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await updateSavingsGoalService(user.uid, id, updates);
+        await fetchGoals();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to update savings goal';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchGoals]
+  );
+
+  const deleteGoal = useCallback(
+    async (id: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteSavingsGoalService(user.uid, id);
+        setGoals((prev) => prev.filter((goal) => goal.id !== id));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete savings goal';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  const addContribution = useCallback(
+    async (goalId: string, contribution: NewGoalContribution): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await addGoalContributionService(user.uid, goalId, contribution);
+        await fetchGoals();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to add contribution';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchGoals]
+  );
+
+  const deleteContribution = useCallback(
+    async (goalId: string, contributionId: string): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await deleteGoalContributionService(user.uid, goalId, contributionId);
+        await fetchGoals();
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete contribution';
+        setError(message);
+        throw err;
+      }
+    },
+    [user, fetchGoals]
+  );
+
+  return {
+    goals,
+    progress,
+    accounts,
+    balances,
+    isLoading: isLoading || expensesLoading || incomeLoading || accountsLoading,
+    error,
+    addGoal,
+    updateGoal,
+    deleteGoal,
+    addContribution,
+    deleteContribution,
+    refresh: fetchGoals,
+  };
+};
@@ -0,0 +1,73 @@
+'use client';
+
+// ============================================
+// List Selection Hook
+// ============================================
+
+import { useState, useCallback, useMemo, useRef } from 'react';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseSelectionReturn {
+  // Selected ids that are still in the list, in list order
+  selectedIds: string[];
+  isSelected: (id: string) => boolean;
+  // With `extend`, everything between the last toggled row and this one follows it
+  toggle: (id: string, extend?: boolean) => void;
+  selectAll: () => void;
+  clear: () => void;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Multi-select over an ordered list of ids, with shift-click ranges.
+ * Ids that drop out of the list (filtered away or deleted) stop counting as selected.
+ */
+export const useSelection = (ids: string[]): UseSelectionReturn => {
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const selectedIds = useMemo(() => ids.filter((id) => selected.has(id)), [ids, selected]);
+
+  const isSelected = useCallback((id: string) => selected.has(id), [selected]);
+
+  const toggle = useCallback(
+    (id: string, extend = false) => {
+      const anchorIndex = anchorRef.current ? ids.indexOf(anchorRef.current) : -1;
+      const index = ids.indexOf(id);
+
+      setSelected((prev) => {
+        const next = new Set(prev);
+        const shouldSelect = !prev.has(id);
+        const range =
+          extend && anchorIndex !== -1 && index !== -1
+            ? ids.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+            : [id];
+        range.forEach((rangeId) => (shouldSelect ? next.add(rangeId) : next.delete(rangeId)));
+        return next;
+      });
+      anchorRef.current = id;
+    },
+    [ids]
+  );
+
+  const selectAll = useCallback(() => setSelected(new Set(ids)), [ids]);
+
+  const clear = useCallback(() => {
+    setSelected(new Set());
+    anchorRef.current = null;
+  }, []);
+
+  return {
+    selectedIds,
+    isSelected,
+    toggle,
+    selectAll,
+    clear,
+  };
+};
@@ -4,11 +4,31 @@
 // Settings Hook with Context
 // ============================================
 
-import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { useState, useEffect, useCallback, useMemo, createContext, useContext, ReactNode } from 'react';
 import { doc, getDoc, setDoc } from 'firebase/firestore';
 import { db, isDevMode, isFirebaseConfigured } from '@/services/firebase';
 import { useAuth } from './useAuth';
-import { CurrencyCode, CURRENCIES, DEFAULT_CURRENCY } from '@/lib/utils/constants';
+import {
+  CurrencyCode,
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  DEFAULT_PAY_FREQUENCY,
+  DEFAULT_PAY_WEEKDAY,
+  DEFAULT_PAY_MONTH_DAY,
+  DEFAULT_SEMIMONTHLY_PAY_DAYS,
+} from '@/lib/utils/constants';
+import { formatCurrency as formatCurrencyIn, parseCurrencyToCents, parseDateFromInput } from '@/lib/utils/formatters';
+import { convertToBaseCurrency } from '@/services/analytics';
+import {
+  BudgetMode,
+  ExchangeRate,
+  Expense,
+  Income,
+  PayFrequency,
+  PaySchedule,
+  PeriodMode,
+  SavedFilter,
+} from '@/types';
 
 // ============================================
 // Types
@@ -19,23 +39,46 @@ export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
   dateFormat: 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD';
   defaultSalary: number;
-  payFrequency: 'weekly' | 'biweekly' | 'monthly';
+  payFrequency: PayFrequency;
+  payWeekday: number; // Weekly and biweekly pay, 0 = Sunday
+  payMonthDay: number; // Monthly pay, 31 = the last day
+  paySemimonthlyDays: [number, number];
+  nextPayday: string; // yyyy-MM-dd; biweekly pay is counted from it. Empty falls back to the profile's
+  periodMode: PeriodMode;
+  forecastThreshold: number; // Projected balances below this are flagged
+  notifyOnBudgetWarning: boolean;
+  budgetMode: BudgetMode;
+  exchangeRates: ExchangeRate[];
+  savedFilters: SavedFilter[];
 }
 
 interface SettingsContextType {
   settings: UserSettings;
   isLoading: boolean;
   updateSettings: (updates: Partial<UserSettings>) => Promise<void>;
-  formatCurrency: (cents: number, showCents?: boolean) => string;
+  formatCurrency: (cents: number, showCents?: boolean, currency?: CurrencyCode) => string;
+  parseCurrency: (value: string, currency?: CurrencyCode) => number;
+  toBaseCurrency: <T extends Expense | Income>(items: T[]) => T[];
   currencySymbol: string;
+  paySchedule: PaySchedule;
 }
 
 const defaultSettings: UserSettings = {
-  currency: DEFAULT_CURRENCY as CurrencyCode,
+  currency: DEFAULT_CURRENCY,
   theme: 'system',
   dateFormat: 'MM/DD/YYYY',
   defaultSalary: 0, // New users start with $0 until they set their income
-  payFrequency: 'biweekly',
+  payFrequency: DEFAULT_PAY_FREQUENCY,
+  payWeekday: DEFAULT_PAY_WEEKDAY,
+  payMonthDay: DEFAULT_PAY_MONTH_DAY,
+  paySemimonthlyDays: DEFAULT_SEMIMONTHLY_PAY_DAYS,
+  nextPayday: '',
+  periodMode: 'month',
+  forecastThreshold: 0,
+  notifyOnBudgetWarning: true,
+  budgetMode: 'monthly',
+  exchangeRates: [],
+  savedFilters: [],
 };
 
 // ============================================
@@ -119,28 +162,58 @@ export const SettingsProvider = ({ children }: SettingsProviderProps) => {
     }
   }, [settings, user]);
 
-  // Format currency based on current settings
-  const formatCurrency = useCallback((cents: number, showCents = true): string => {
-    const config = CURRENCIES[settings.currency];
-    const dollars = cents / 100;
-
-    return new Intl.NumberFormat(config.locale, {
-      style: 'currency',
-      currency: config.code,
-      minimumFractionDigits: showCents ? config.decimals : 0,
-      maximumFractionDigits: showCents ? config.decimals : 0,
-    }).format(dollars);
-  }, [settings.currency]);
+  // Format currency based on current settings, or in a transaction's own currency
+  const formatCurrency = useCallback(
+    (cents: number, showCents = true, currency?: CurrencyCode): string =>
+      formatCurrencyIn(cents, showCents, currency || settings.currency),
+    [settings.currency]
+  );
+
+  // Parse a typed amount into minor units, defaulting to the base currency
+  const parseCurrency = useCallback(
+    (value: string, currency?: CurrencyCode): number => parseCurrencyToCents(value, currency || settings.currency),
+    [settings.currency]
+  );
+
+  // Convert records into the base currency using the stored exchange rates
+  const toBaseCurrency = useCallback(
+    <T extends Expense | Income>(items: T[]): T[] =>
+      convertToBaseCurrency(items, settings.currency, settings.exchangeRates),
+    [settings.currency, settings.exchangeRates]
+  );
 
   // Get the currency symbol
   const currencySymbol = CURRENCIES[settings.currency]?.symbol || '$';
 
+  // When paychecks land, for pay-period views
+  const paySchedule = useMemo<PaySchedule>(
+    () => ({
+      frequency: settings.payFrequency,
+      weekday: settings.payWeekday,
+      anchor: settings.nextPayday
+        ? parseDateFromInput(settings.nextPayday)
+        : user?.nextPayday?.toDate() ?? new Date(),
+      monthDays: settings.payFrequency === 'semimonthly' ? settings.paySemimonthlyDays : [settings.payMonthDay],
+    }),
+    [
+      settings.payFrequency,
+      settings.payWeekday,
+      settings.payMonthDay,
+      settings.paySemimonthlyDays,
+      settings.nextPayday,
+      user?.nextPayday,
+    ]
+  );
+
   const value: SettingsContextType = {
     settings,
     isLoading,
     updateSettings,
     formatCurrency,
+    parseCurrency,
+    toBaseCurrency,
     currencySymbol,
+    paySchedule,
   };
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
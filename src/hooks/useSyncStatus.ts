@@ -0,0 +1,55 @@
+'use client';
+
+// ============================================
+// Offline Sync Status Hook
+// ============================================
+
+import { useEffect, useCallback, useSyncExternalStore } from 'react';
+import { SyncStatus } from '@/types';
+import {
+  getSyncStatus,
+  subscribeToSyncStatus,
+  startSync,
+  retryFailedWrites,
+  discardFailedWrites,
+} from '@/services/firebase';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseSyncStatusReturn extends SyncStatus {
+  retry: () => Promise<void>;
+  discard: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useSyncStatus = (): UseSyncStatusReturn => {
+  const { user } = useAuth();
+  const status = useSyncExternalStore(subscribeToSyncStatus, getSyncStatus, getSyncStatus);
+
+  // Writes queued in an earlier session are sent as soon as the user is known
+  useEffect(() => {
+    if (user) {
+      startSync(user.uid).catch((err) => console.error('Error starting sync:', err));
+    }
+  }, [user]);
+
+  // Send rejected writes again
+  const retry = useCallback(async (): Promise<void> => {
+    if (!user) throw new Error('Not authenticated');
+    await retryFailedWrites(user.uid);
+  }, [user]);
+
+  // Give up on rejected writes
+  const discard = useCallback(async (): Promise<void> => {
+    if (!user) throw new Error('Not authenticated');
+    await discardFailedWrites(user.uid);
+  }, [user]);
+
+  return { ...status, retry, discard };
+};
@@ -5,8 +5,8 @@
 // ============================================
 
 import { useState, useCallback, createContext, useContext, ReactNode } from 'react';
-import { Toast } from '@/types';
-import { TOAST_DURATION } from '@/lib/utils/constants';
+import { Toast, ToastAction } from '@/types';
+import { TOAST_DURATION, ACTION_TOAST_DURATION } from '@/lib/utils/constants';
 
 // ============================================
 // Types
@@ -16,10 +16,11 @@ interface ToastContextType {
   toasts: Toast[];
   addToast: (toast: Omit<Toast, 'id'>) => void;
   removeToast: (id: string) => void;
-  success: (message: string) => void;
-  error: (message: string) => void;
-  warning: (message: string) => void;
-  info: (message: string) => void;
+  // Pass an action, e.g. Undo, to show a button on the toast
+  success: (message: string, action?: ToastAction) => void;
+  error: (message: string, action?: ToastAction) => void;
+  warning: (message: string, action?: ToastAction) => void;
+  info: (message: string, action?: ToastAction) => void;
 }
 
 // ============================================
@@ -60,29 +61,29 @@ export const ToastProvider = ({ children }: ToastProviderProps) => {
   );
 
   const success = useCallback(
-    (message: string) => {
-      addToast({ type: 'success', message });
+    (message: string, action?: ToastAction) => {
+      addToast({ type: 'success', message, ...(action && { action, duration: ACTION_TOAST_DURATION }) });
     },
     [addToast]
   );
 
   const error = useCallback(
-    (message: string) => {
-      addToast({ type: 'error', message });
+    (message: string, action?: ToastAction) => {
+      addToast({ type: 'error', message, ...(action && { action, duration: ACTION_TOAST_DURATION }) });
     },
     [addToast]
   );
 
   const warning = useCallback(
-    (message: string) => {
-      addToast({ type: 'warning', message });
+    (message: string, action?: ToastAction) => {
+      addToast({ type: 'warning', message, ...(action && { action, duration: ACTION_TOAST_DURATION }) });
     },
     [addToast]
   );
 
   const info = useCallback(
-    (message: string) => {
-      addToast({ type: 'info', message });
+    (message: string, action?: ToastAction) => {
+      addToast({ type: 'info', message, ...(action && { action, duration: ACTION_TOAST_DURATION }) });
     },
     [addToast]
   );
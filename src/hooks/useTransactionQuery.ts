@@ -0,0 +1,27 @@
+'use client';
+
+// ============================================
+// Transaction Query Hook
+// ============================================
+
+import { useMemo } from 'react';
+import { parseTransactionQuery, ParsedQuery } from '@/services/analytics';
+import { useSettings } from './useSettings';
+import { useCategories } from './useCategories';
+
+// ============================================
+// Hook
+// ============================================
+
+/**
+ * Parse a search query against the user's currency and categories
+ */
+export const useTransactionQuery = (query: string): ParsedQuery => {
+  const { settings } = useSettings();
+  const { allCategories } = useCategories();
+
+  return useMemo(
+    () => parseTransactionQuery(query, { currency: settings.currency, categories: allCategories }),
+    [query, settings.currency, allCategories]
+  );
+};
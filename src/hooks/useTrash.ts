@@ -0,0 +1,127 @@
+'use client';
+
+// ============================================
+// Trash Hook
+// ============================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { TrashItem } from '@/types';
+import {
+  getTrash,
+  restoreFromTrash,
+  purgeFromTrash,
+  emptyTrash as emptyTrashService,
+} from '@/services/firebase';
+import { useAuth } from './useAuth';
+
+// ============================================
+// Types
+// ============================================
+
+interface UseTrashReturn {
+  items: TrashItem[];
+  isLoading: boolean;
+  error: string | null;
+  restore: (ids: string[]) => Promise<void>;
+  purge: (ids: string[]) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  refresh: () => Promise<void>;
+}
+
+// ============================================
+// Hook
+// ============================================
+
+export const useTrash = (): UseTrashReturn => {
+  const { user, isAuthenticated } = useAuth();
+
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the trash, dropping anything past the retention period
+  const fetchTrash = useCallback(async () => {
+    if (!isAuthenticated || !user) {
+      setItems([]);
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      setItems(await getTrash(user.uid));
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to fetch trash';
+      setError(message);
+      console.error('Error fetching trash:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, isAuthenticated]);
+
+  // Auto-fetch on mount
+  useEffect(() => {
+    fetchTrash();
+  }, [fetchTrash]);
+
+  // Put items back where they were deleted from
+  const restore = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await restoreFromTrash(user.uid, ids);
+        setItems((prev) => prev.filter((item) => !ids.includes(item.id)));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to restore items';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  // Delete items for good
+  const purge = useCallback(
+    async (ids: string[]): Promise<void> => {
+      if (!user) throw new Error('Not authenticated');
+
+      try {
+        setError(null);
+        await purgeFromTrash(user.uid, ids);
+        setItems((prev) => prev.filter((item) => !ids.includes(item.id)));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to delete items';
+        setError(message);
+        throw err;
+      }
+    },
+    [user]
+  );
+
+  const emptyTrash = useCallback(async (): Promise<void> => {
+    if (!user) throw new Error('Not authenticated');
+
+    try {
+      setError(null);
+      await emptyTrashService(user.uid);
+      setItems([]);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to empty trash';
+      setError(message);
+      throw err;
+    }
+  }, [user]);
+
+  return {
+    items,
+    isLoading,
+    error,
+    restore,
+    purge,
+    emptyTrash,
+    refresh: fetchTrash,
+  };
+};
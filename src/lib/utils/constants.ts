@@ -2,7 +2,7 @@
 // Application Constants
 // ============================================
 
-import { CategoryConfig, ExpenseCategory, GoalCategory, GoalAllocation } from '@/types';
+import { AccountType, CategoryConfig, ExpenseCategory, GoalCategory, GoalAllocation, NewPayee, PayFrequency, RecurrenceFrequency, ExpenseImportField, IncomeImportField } from '@/types';
 
 // ============================================
 // Default Values
@@ -10,20 +10,52 @@ import { CategoryConfig, ExpenseCategory, GoalCategory, GoalAllocation } from '@
 
 export const DEFAULT_SALARY = 0; // New users start with $0 until they set their income
 export const DEFAULT_PAY_FREQUENCY = 'biweekly' as const;
-export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_PAY_WEEKDAY = 5; // Friday
+export const DEFAULT_PAY_MONTH_DAY = 31; // Monthly pay on the last day of the month
+export const DEFAULT_SEMIMONTHLY_PAY_DAYS: [number, number] = [15, 31];
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
 
 // ============================================
 // Currency Configuration
 // ============================================
 
-export type CurrencyCode = 'USD' | 'INR' | 'GBP' | 'EUR';
+export type CurrencyCode =
+  | 'USD'
+  | 'INR'
+  | 'GBP'
+  | 'EUR'
+  | 'CAD'
+  | 'AUD'
+  | 'NZD'
+  | 'CHF'
+  | 'SEK'
+  | 'NOK'
+  | 'DKK'
+  | 'PLN'
+  | 'CNY'
+  | 'HKD'
+  | 'SGD'
+  | 'THB'
+  | 'MXN'
+  | 'BRL'
+  | 'ZAR'
+  | 'AED'
+  | 'JPY'
+  | 'KRW'
+  | 'VND'
+  | 'ISK'
+  | 'BHD'
+  | 'KWD'
+  | 'OMR'
+  | 'JOD'
+  | 'TND';
 
 export interface CurrencyConfig {
   code: CurrencyCode;
   symbol: string;
   name: string;
   locale: string;
-  decimals: number;
+  decimals: number; // Minor units per major unit as a power of ten (JPY 0, USD 2, KWD 3)
 }
 
 export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
@@ -55,8 +87,188 @@ export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
     locale: 'de-DE',
     decimals: 2,
   },
+  CAD: {
+    code: 'CAD',
+    symbol: 'CA$',
+    name: 'Canadian Dollar',
+    locale: 'en-CA',
+    decimals: 2,
+  },
+  AUD: {
+    code: 'AUD',
+    symbol: 'A$',
+    name: 'Australian Dollar',
+    locale: 'en-AU',
+    decimals: 2,
+  },
+  NZD: {
+    code: 'NZD',
+    symbol: 'NZ$',
+    name: 'New Zealand Dollar',
+    locale: 'en-NZ',
+    decimals: 2,
+  },
+  CHF: {
+    code: 'CHF',
+    symbol: 'CHF',
+    name: 'Swiss Franc',
+    locale: 'de-CH',
+    decimals: 2,
+  },
+  SEK: {
+    code: 'SEK',
+    symbol: 'kr',
+    name: 'Swedish Krona',
+    locale: 'sv-SE',
+    decimals: 2,
+  },
+  NOK: {
+    code: 'NOK',
+    symbol: 'kr',
+    name: 'Norwegian Krone',
+    locale: 'nb-NO',
+    decimals: 2,
+  },
+  DKK: {
+    code: 'DKK',
+    symbol: 'kr.',
+    name: 'Danish Krone',
+    locale: 'da-DK',
+    decimals: 2,
+  },
+  PLN: {
+    code: 'PLN',
+    symbol: 'zł',
+    name: 'Polish Złoty',
+    locale: 'pl-PL',
+    decimals: 2,
+  },
+  CNY: {
+    code: 'CNY',
+    symbol: '¥',
+    name: 'Chinese Yuan',
+    locale: 'zh-CN',
+    decimals: 2,
+  },
+  HKD: {
+    code: 'HKD',
+    symbol: 'HK$',
+    name: 'Hong Kong Dollar',
+    locale: 'en-HK',
+    decimals: 2,
+  },
+  SGD: {
+    code: 'SGD',
+    symbol: 'S$',
+    name: 'Singapore Dollar',
+    locale: 'en-SG',
+    decimals: 2,
+  },
+  THB: {
+    code: 'THB',
+    symbol: '฿',
+    name: 'Thai Baht',
+    locale: 'th-TH',
+    decimals: 2,
+  },
+  MXN: {
+    code: 'MXN',
+    symbol: 'MX$',
+    name: 'Mexican Peso',
+    locale: 'es-MX',
+    decimals: 2,
+  },
+  BRL: {
+    code: 'BRL',
+    symbol: 'R$',
+    name: 'Brazilian Real',
+    locale: 'pt-BR',
+    decimals: 2,
+  },
+  ZAR: {
+    code: 'ZAR',
+    symbol: 'R',
+    name: 'South African Rand',
+    locale: 'en-ZA',
+    decimals: 2,
+  },
+  AED: {
+    code: 'AED',
+    symbol: 'د.إ',
+    name: 'UAE Dirham',
+    locale: 'en-AE',
+    decimals: 2,
+  },
+  JPY: {
+    code: 'JPY',
+    symbol: '¥',
+    name: 'Japanese Yen',
+    locale: 'ja-JP',
+    decimals: 0,
+  },
+  KRW: {
+    code: 'KRW',
+    symbol: '₩',
+    name: 'South Korean Won',
+    locale: 'ko-KR',
+    decimals: 0,
+  },
+  VND: {
+    code: 'VND',
+    symbol: '₫',
+    name: 'Vietnamese Dong',
+    locale: 'vi-VN',
+    decimals: 0,
+  },
+  ISK: {
+    code: 'ISK',
+    symbol: 'kr',
+    name: 'Icelandic Króna',
+    locale: 'is-IS',
+    decimals: 0,
+  },
+  BHD: {
+    code: 'BHD',
+    symbol: 'BD',
+    name: 'Bahraini Dinar',
+    locale: 'en-BH',
+    decimals: 3,
+  },
+  KWD: {
+    code: 'KWD',
+    symbol: 'KD',
+    name: 'Kuwaiti Dinar',
+    locale: 'en-KW',
+    decimals: 3,
+  },
+  OMR: {
+    code: 'OMR',
+    symbol: 'OMR',
+    name: 'Omani Rial',
+    locale: 'en-OM',
+    decimals: 3,
+  },
+  JOD: {
+    code: 'JOD',
+    symbol: 'JD',
+    name: 'Jordanian Dinar',
+    locale: 'en-JO',
+    decimals: 3,
+  },
+  TND: {
+    code: 'TND',
+    symbol: 'DT',
+    name: 'Tunisian Dinar',
+    locale: 'fr-TN',
+    decimals: 3,
+  },
 };
 
+export const CURRENCY_OPTIONS = Object.values(CURRENCIES).map((c) => ({
+  value: c.code,
+  label: `${c.code} (${c.symbol}) - ${c.name}`,
+}));
+
 // ============================================
 // Category Configuration
 // ============================================
@@ -102,10 +314,10 @@ export const CATEGORIES: Record<ExpenseCategory, CategoryConfig> = {
     type: 'fixed',
     order: 5,
   },
-  amazon: {
-    id: 'amazon',
-    name: 'Amazon',
-    icon: 'Package',
+  shopping: {
+    id: 'shopping',
+    name: 'Shopping',
+    icon: 'ShoppingBag',
     color: '#FB923C',
     type: 'variable',
     order: 6,
@@ -153,7 +365,28 @@ export const CATEGORIES: Record<ExpenseCategory, CategoryConfig> = {
 };
 
 export const FIXED_CATEGORIES: ExpenseCategory[] = ['rent', 'electricity', 'gas', 'wifi', 'groceries', 'subscriptions'];
-export const VARIABLE_CATEGORIES: ExpenseCategory[] = ['amazon', 'eating_out', 'fuel', 'travel', 'miscellaneous'];
+export const VARIABLE_CATEGORIES: ExpenseCategory[] = ['shopping', 'eating_out', 'fuel', 'travel', 'miscellaneous'];
+
+// ============================================
+// Payee Configuration
+// ============================================
+
+// Amazon used to be a default category; it's now a payee under Shopping
+export const LEGACY_AMAZON_CATEGORY = 'amazon';
+export const AMAZON_PAYEE_ID = 'amazon';
+export const AMAZON_PAYEE: NewPayee = {
+  name: 'Amazon',
+  aliases: ['amazon', 'amzn'],
+  defaultCategory: 'shopping',
+};
+
+// ============================================
+// Budget Configuration
+// ============================================
+
+// Percent of a monthly budget at which the warning / overspent alerts fire
+export const BUDGET_WARNING_PERCENTAGE = 80;
+export const BUDGET_EXCEEDED_PERCENTAGE = 100;
 
 // ============================================
 // Income Type Configuration
@@ -168,6 +401,76 @@ export const INCOME_TYPES = {
   other: { name: 'Other', icon: 'DollarSign', color: '#6B7280' },
 } as const;
 
+// ============================================
+// Account Configuration
+// ============================================
+
+// Fixed id of the account that transactions without one belong to
+export const DEFAULT_ACCOUNT_ID = 'main';
+export const DEFAULT_ACCOUNT_NAME = 'Main';
+
+export const ACCOUNT_TYPES: Record<AccountType, { name: string; icon: string; color: string }> = {
+  checking: { name: 'Checking', icon: 'Landmark', color: '#6366F1' },
+  savings: { name: 'Savings', icon: 'PiggyBank', color: '#22C55E' },
+  credit_card: { name: 'Credit Card', icon: 'CreditCard', color: '#F97316' },
+  cash: { name: 'Cash', icon: 'Banknote', color: '#14B8A6' },
+};
+
+// ============================================
+// Recurrence Configuration
+// ============================================
+
+export const RECURRENCE_FREQUENCIES: Record<RecurrenceFrequency, { name: string; shortName: string }> = {
+  daily: { name: 'Daily', shortName: 'day' },
+  weekly: { name: 'Weekly', shortName: 'week' },
+  biweekly: { name: 'Every 2 weeks', shortName: '2 weeks' },
+  monthly: { name: 'Monthly', shortName: 'month' },
+  yearly: { name: 'Yearly', shortName: 'year' },
+};
+
+// ============================================
+// Pay Schedule Configuration
+// ============================================
+
+export const PAY_FREQUENCIES: Record<PayFrequency, { name: string; description: string }> = {
+  weekly: { name: 'Weekly', description: 'Every week on the same day' },
+  biweekly: { name: 'Bi-weekly', description: 'Every other week on the same day' },
+  semimonthly: { name: 'Semi-monthly', description: 'Twice a month on set days' },
+  monthly: { name: 'Monthly', description: 'Once a month on a set day' },
+};
+
+// ============================================
+// Trash Configuration
+// ============================================
+
+export const TRASH_RETENTION_DAYS = 30; // Deleted transactions can be restored for this long
+
+// ============================================
+// CSV Import Configuration
+// ============================================
+
+export interface ImportFieldConfig<F extends string> {
+  field: F;
+  label: string;
+  required: boolean;
+  headerHints: string[]; // Lowercase header fragments used to auto-map columns
+}
+
+export const EXPENSE_IMPORT_FIELDS: ImportFieldConfig<ExpenseImportField>[] = [
+  { field: 'date', label: 'Date', required: true, headerHints: ['date', 'posted'] },
+  { field: 'amount', label: 'Amount', required: true, headerHints: ['amount', 'debit', 'withdrawal', 'value', 'total'] },
+  { field: 'description', label: 'Description', required: false, headerHints: ['description', 'memo', 'details', 'payee', 'narration', 'merchant', 'name'] },
+  { field: 'category', label: 'Category', required: false, headerHints: ['category'] },
+];
+
+export const INCOME_IMPORT_FIELDS: ImportFieldConfig<IncomeImportField>[] = [
+  { field: 'date', label: 'Date', required: true, headerHints: ['date', 'posted'] },
+  { field: 'amount', label: 'Amount', required: true, headerHints: ['amount', 'credit', 'deposit', 'value', 'total'] },
+  { field: 'source', label: 'Source', required: true, headerHints: ['source', 'payer', 'description', 'details', 'name'] },
+  { field: 'type', label: 'Type', required: false, headerHints: ['type', 'category'] },
+  { field: 'note', label: 'Note', required: false, headerHints: ['note', 'memo'] },
+];
+
 // ============================================
 // Time & Date
 // ============================================
@@ -191,7 +494,9 @@ export const DAYS_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 export const ANIMATION_DURATION = 200;
 export const TOAST_DURATION = 4000;
+export const ACTION_TOAST_DURATION = 8000; // Toasts with a button, like Undo, stay long enough to reach it
 export const DEBOUNCE_DELAY = 300;
+export const LIST_PAGE_SIZE = 50; // Expenses or income read per scroll step
 
 export const BREAKPOINTS = {
   sm: 640,
@@ -0,0 +1,91 @@
+// ============================================
+// CSV Utility Functions
+// ============================================
+
+// ============================================
+// Parsing
+// ============================================
+
+/**
+ * Parse CSV text into rows of cells
+ * Handles quoted cells, escaped quotes ("") and CRLF line endings.
+ * Blank lines are skipped.
+ */
+export const parseCsv = (text: string, delimiter = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.some((value) => value.trim() !== '')) {
+      rows.push(row.map((value) => value.trim()));
+    }
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+/**
+ * Guess the delimiter of a CSV file from its first line
+ */
+export const detectCsvDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+// ============================================
+// Serialization
+// ============================================
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+const escapeCsvCell = (value: CsvValue, delimiter: string): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows of cells into CSV text, quoting cells where needed
+ */
+export const toCsv = (rows: CsvValue[][], delimiter = ','): string => {
+  return rows.map((row) => row.map((value) => escapeCsvCell(value, delimiter)).join(delimiter)).join('\r\n');
+};
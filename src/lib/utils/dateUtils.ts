@@ -17,6 +17,9 @@ import {
   subYears,
   addDays,
   addWeeks,
+  addMonths,
+  addYears,
+  getDaysInMonth,
   eachDayOfInterval,
   eachWeekOfInterval,
   eachMonthOfInterval,
@@ -29,7 +32,7 @@ import {
   getMonth,
   getYear,
 } from 'date-fns';
-import { DateRange, TimePeriod } from '@/types';
+import { DateRange, TimePeriod, RecurrenceFrequency, PaySchedule } from '@/types';
 
 // ============================================
 // Date Range Generators
@@ -115,11 +118,51 @@ export const getPreviousPeriod = (period: TimePeriod, referenceDate = new Date()
 // Pay Period Calculations
 // ============================================
 
+// A day of the month, clamped to that month's length (31 is always the last day)
+const getPayDayInMonth = (month: Date, day: number): Date =>
+  new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)));
+
 /**
- * Calculate next payday from a reference date (bi-weekly)
+ * Get the most recent payday on or before a date
  */
-export const getNextPayday = (lastPayday: Date): Date => {
-  return addDays(lastPayday, 14);
+export const getLastPayday = (schedule: PaySchedule, referenceDate = new Date()): Date => {
+  const today = startOfDay(referenceDate);
+
+  if (schedule.frequency === 'weekly' || schedule.frequency === 'biweekly') {
+    const payday = subDays(today, (getDay(today) - schedule.weekday + 7) % 7);
+    if (schedule.frequency === 'weekly') return payday;
+
+    // Biweekly pay lands in the same weeks as the anchor's payday
+    const anchor = startOfDay(schedule.anchor);
+    const anchorPayday = subDays(anchor, (getDay(anchor) - schedule.weekday + 7) % 7);
+    const weeks = Math.round(differenceInDays(payday, anchorPayday) / 7);
+    return weeks % 2 === 0 ? payday : subWeeks(payday, 1);
+  }
+
+  const candidates = [subMonths(today, 1), today].flatMap((month) =>
+    schedule.monthDays.map((day) => getPayDayInMonth(month, day))
+  );
+  return candidates.filter((date) => date <= today).reduce((latest, date) => (date > latest ? date : latest));
+};
+
+/**
+ * Get the first payday after a date
+ */
+export const getNextPayday = (schedule: PaySchedule, referenceDate = new Date()): Date => {
+  const lastPayday = getLastPayday(schedule, referenceDate);
+
+  switch (schedule.frequency) {
+    case 'weekly':
+      return addWeeks(lastPayday, 1);
+    case 'biweekly':
+      return addWeeks(lastPayday, 2);
+    default: {
+      const candidates = [lastPayday, addMonths(lastPayday, 1)].flatMap((month) =>
+        schedule.monthDays.map((day) => getPayDayInMonth(month, day))
+      );
+      return candidates.filter((date) => date > lastPayday).reduce((first, date) => (date < first ? date : first));
+    }
+  }
 };
 
 /**
@@ -132,12 +175,100 @@ export const getDaysUntilPayday = (nextPayday: Date): number => {
 };
 
 /**
- * Get current pay period
+ * Get the pay period a date falls in: from the last payday to the day before the next
  */
-export const getCurrentPayPeriod = (lastPayday: Date): DateRange => {
-  const start = startOfDay(lastPayday);
-  const end = endOfDay(addDays(start, 13)); // 14 day period
-  return { start, end };
+export const getCurrentPayPeriod = (schedule: PaySchedule, referenceDate = new Date()): DateRange => ({
+  start: getLastPayday(schedule, referenceDate),
+  end: endOfDay(subDays(getNextPayday(schedule, referenceDate), 1)),
+});
+
+/**
+ * Get the pay periods before the current one, oldest first
+ */
+export const getPreviousPayPeriods = (schedule: PaySchedule, count: number, referenceDate = new Date()): DateRange[] => {
+  const periods: DateRange[] = [];
+  let period = getCurrentPayPeriod(schedule, referenceDate);
+
+  for (let i = 0; i < count; i++) {
+    period = getCurrentPayPeriod(schedule, subDays(period.start, 1));
+    periods.unshift(period);
+  }
+
+  return periods;
+};
+
+// ============================================
+// Recurrence Calculations
+// ============================================
+
+/**
+ * Get the nth occurrence of a recurring schedule (index 0 is the first period)
+ * Monthly schedules land on dayOfMonth, clamped to the length of each month
+ */
+export const getRecurrenceDate = (
+  start: Date,
+  frequency: RecurrenceFrequency,
+  index: number,
+  dayOfMonth?: number
+): Date => {
+  const base = startOfDay(start);
+
+  switch (frequency) {
+    case 'daily':
+      return addDays(base, index);
+    case 'weekly':
+      return addWeeks(base, index);
+    case 'biweekly':
+      return addWeeks(base, index * 2);
+    case 'monthly': {
+      const month = addMonths(startOfMonth(base), index);
+      const day = Math.min(dayOfMonth ?? base.getDate(), getDaysInMonth(month));
+      return new Date(month.getFullYear(), month.getMonth(), day);
+    }
+    case 'yearly':
+      return addYears(base, index);
+  }
+};
+
+/**
+ * Get every occurrence of a recurring schedule that falls within a date range
+ */
+export const getRecurrenceOccurrences = (
+  start: Date,
+  frequency: RecurrenceFrequency,
+  range: DateRange,
+  dayOfMonth?: number
+): Date[] => {
+  const firstAllowed = startOfDay(start);
+  const occurrences: Date[] = [];
+
+  for (let index = 0; ; index++) {
+    const date = getRecurrenceDate(start, frequency, index, dayOfMonth);
+    if (date > range.end) break;
+    if (date >= range.start && date >= firstAllowed) {
+      occurrences.push(date);
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Get the first occurrence of a recurring schedule on or after a date
+ */
+export const getNextRecurrenceDate = (
+  start: Date,
+  frequency: RecurrenceFrequency,
+  after: Date,
+  dayOfMonth?: number
+): Date => {
+  const from = startOfDay(after);
+  const firstAllowed = startOfDay(start);
+
+  for (let index = 0; ; index++) {
+    const date = getRecurrenceDate(start, frequency, index, dayOfMonth);
+    if (date >= from && date >= firstAllowed) return date;
+  }
 };
 
 // ============================================
@@ -183,6 +314,14 @@ export const getLastNWeeks = (n: number, referenceDate = new Date()): DateRange
   return { start, end };
 };
 
+/**
+ * Get the smallest range covering every given range
+ */
+export const combineDateRanges = (...ranges: DateRange[]): DateRange => ({
+  start: new Date(Math.min(...ranges.map((range) => range.start.getTime()))),
+  end: new Date(Math.max(...ranges.map((range) => range.end.getTime()))),
+});
+
 // ============================================
 // Date Comparison Helpers
 // ============================================
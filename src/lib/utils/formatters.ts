@@ -2,26 +2,53 @@
 // Formatting Utility Functions
 // ============================================
 
-import { format, formatDistanceToNow, isToday, isYesterday, isTomorrow } from 'date-fns';
+import { format, parse, isValid, formatDistanceToNow, isToday, isYesterday, isTomorrow } from 'date-fns';
 import { Timestamp } from 'firebase/firestore';
+import { CURRENCIES, CurrencyCode, DEFAULT_CURRENCY } from './constants';
 
 // ============================================
 // Currency Formatting
 // ============================================
 
+/**
+ * Number of minor units in one major unit (100 for USD, 1 for JPY, 1000 for KWD)
+ */
+export const getMinorUnitFactor = (currency: CurrencyCode = DEFAULT_CURRENCY): number => {
+  return 10 ** (CURRENCIES[currency]?.decimals ?? 2);
+};
+
+/**
+ * Convert minor units to a major-unit number (e.g., 244800 cents = 2448)
+ */
+export const fromMinorUnits = (amount: number, currency?: CurrencyCode): number => {
+  return amount / getMinorUnitFactor(currency);
+};
+
+/**
+ * Format minor units as a plain decimal string for form inputs
+ */
+export const formatAmountForInput = (amount: number, currency: CurrencyCode = DEFAULT_CURRENCY): string => {
+  return fromMinorUnits(amount, currency).toFixed(CURRENCIES[currency]?.decimals ?? 2);
+};
+
 /**
  * Format cents to currency string
- * @param cents Amount in cents (e.g., 244800 = $2,448.00)
+ * @param cents Amount in minor units of the currency (e.g., 244800 = $2,448.00)
  * @param showCents Whether to show cents
+ * @param currency Currency the amount is in (defaults to USD)
  */
-export const formatCurrency = (cents: number, showCents = true): string => {
-  const dollars = cents / 100;
-  return new Intl.NumberFormat('en-US', {
+export const formatCurrency = (
+  cents: number,
+  showCents = true,
+  currency: CurrencyCode = DEFAULT_CURRENCY
+): string => {
+  const config = CURRENCIES[currency] || CURRENCIES[DEFAULT_CURRENCY];
+  return new Intl.NumberFormat(config.locale, {
     style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: showCents ? 2 : 0,
-    maximumFractionDigits: showCents ? 2 : 0,
-  }).format(dollars);
+    currency: config.code,
+    minimumFractionDigits: showCents ? config.decimals : 0,
+    maximumFractionDigits: showCents ? config.decimals : 0,
+  }).format(fromMinorUnits(cents, config.code));
 };
 
 /**
@@ -39,12 +66,12 @@ export const formatCurrencyCompact = (cents: number): string => {
 };
 
 /**
- * Parse currency string to cents
+ * Parse currency string to cents (minor units of the given currency)
  */
-export const parseCurrencyToCents = (value: string): number => {
+export const parseCurrencyToCents = (value: string, currency?: CurrencyCode): number => {
   const cleaned = value.replace(/[^0-9.-]/g, '');
   const dollars = parseFloat(cleaned) || 0;
-  return Math.round(dollars * 100);
+  return Math.round(dollars * getMinorUnitFactor(currency));
 };
 
 // ============================================
@@ -94,6 +121,42 @@ export const parseDateFromInput = (value: string): Date => {
   return new Date(value + 'T00:00:00');
 };
 
+/**
+ * Format a date in one of the user's date formats
+ */
+export const formatDateByFormat = (
+  date: Date,
+  dateFormat: 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
+): string => {
+  const patterns = {
+    'MM/DD/YYYY': 'MM/dd/yyyy',
+    'DD/MM/YYYY': 'dd/MM/yyyy',
+    'YYYY-MM-DD': 'yyyy-MM-dd',
+  };
+
+  return format(date, patterns[dateFormat]);
+};
+
+/**
+ * Parse a date string written in one of the user's date formats
+ * Accepts '/', '-' or '.' as separators and single-digit days/months
+ */
+export const parseDateByFormat = (
+  value: string,
+  dateFormat: 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYY-MM-DD'
+): Date | null => {
+  const patterns = {
+    'MM/DD/YYYY': 'M/d/yyyy',
+    'DD/MM/YYYY': 'd/M/yyyy',
+    'YYYY-MM-DD': 'yyyy/M/d',
+  };
+
+  // Drop any time component (e.g. "2026-01-31 14:02:11")
+  const normalized = value.trim().split(/[\sT]/)[0].replace(/[.-]/g, '/');
+  const date = parse(normalized, patterns[dateFormat], new Date());
+  return isValid(date) ? date : null;
+};
+
 /**
  * Format month and year
  */
@@ -163,6 +226,28 @@ export const truncate = (str: string, maxLength: number): string => {
   return str.slice(0, maxLength - 3) + '...';
 };
 
+// ============================================
+// Tag Formatting
+// ============================================
+
+/**
+ * Normalize a tag as typed ("#Japan 2026" -> "japan-2026"), so variants are stored once
+ */
+export const normalizeTag = (value: string): string => {
+  return value
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+};
+
+/**
+ * Format a tag for display
+ */
+export const formatTag = (tag: string): string => {
+  return `#${tag}`;
+};
+
 // ============================================
 // Ordinal Formatting
 // ============================================
@@ -6,3 +6,4 @@ export * from './constants';
 export * from './formatters';
 export * from './dateUtils';
 export * from './validators';
+export * from './csv';
@@ -3,6 +3,16 @@
 // ============================================
 
 import { z } from 'zod';
+import {
+  CURRENCIES,
+  CurrencyCode,
+  DEFAULT_PAY_WEEKDAY,
+  DEFAULT_PAY_MONTH_DAY,
+  DEFAULT_SEMIMONTHLY_PAY_DAYS,
+} from './constants';
+
+export const currencyCodes = Object.keys(CURRENCIES) as [CurrencyCode, ...CurrencyCode[]];
+export const payFrequencies = ['weekly', 'biweekly', 'semimonthly', 'monthly'] as const;
 
 // ============================================
 // Expense Validation
@@ -14,7 +24,7 @@ export const expenseCategories = [
   'gas',
   'wifi',
   'groceries',
-  'amazon',
+  'shopping',
   'eating_out',
   'fuel',
   'subscriptions',
@@ -22,6 +32,14 @@ export const expenseCategories = [
   'miscellaneous',
 ] as const;
 
+export const recurrenceFrequencies = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+  'yearly',
+] as const;
+
 export const expenseFormSchema = z.object({
   amount: z
     .string()
@@ -36,13 +54,37 @@ export const expenseFormSchema = z.object({
     }, 'Amount must be less than $1,000,000'),
   // Accept either default categories or custom category IDs (strings starting with 'custom-')
   category: z.string().min(1, 'Please select a category'),
+  currency: z.enum(currencyCodes),
+  accountId: z.string().min(1, 'Please select an account'),
+  // Empty when the expense isn't a debt payment
+  debtId: z.string(),
   description: z.string().max(200, 'Description must be less than 200 characters').optional(),
   date: z.string().min(1, 'Date is required'),
   isRecurring: z.boolean(),
+  frequency: z.enum(recurrenceFrequencies),
 });
 
 export type ExpenseFormSchema = z.infer<typeof expenseFormSchema>;
 
+/**
+ * Check that splits account for exactly the expense amount.
+ * Returns the problem to show, or null when the splits are usable. No splits is valid.
+ */
+export const validateExpenseSplits = (
+  amount: number,
+  splits: { category: string; amount: number }[] = []
+): string | null => {
+  if (splits.length === 0) return null;
+  if (splits.length === 1) return 'A split expense needs at least two splits';
+  if (splits.some((split) => !split.category)) return 'Every split needs a category';
+  if (splits.some((split) => split.amount <= 0)) return 'Split amounts must be greater than 0';
+
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (total !== amount) return 'Splits must add up to the expense total';
+
+  return null;
+};
+
 // ============================================
 // Income Validation
 // ============================================
@@ -68,6 +110,8 @@ export const incomeFormSchema = z.object({
       const num = parseFloat(val);
       return num < 10000000;
     }, 'Amount must be less than $10,000,000'),
+  currency: z.enum(currencyCodes),
+  accountId: z.string().min(1, 'Please select an account'),
   type: z.enum(incomeTypes, {
     message: 'Please select an income type',
   }),
@@ -120,13 +164,329 @@ export const settingsSchema = z.object({
       const num = parseFloat(val);
       return !isNaN(num) && num > 0;
     }, 'Salary must be greater than 0'),
-  payFrequency: z.enum(['weekly', 'biweekly', 'monthly']),
+  payFrequency: z.enum(payFrequencies),
   theme: z.enum(['light', 'dark', 'system']),
   dateFormat: z.enum(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']),
 });
 
 export type SettingsSchema = z.infer<typeof settingsSchema>;
 
+// ============================================
+// Exchange Rate Validation
+// ============================================
+
+export const exchangeRateSchema = z
+  .object({
+    from: z.enum(currencyCodes, { message: 'Unknown currency' }),
+    to: z.enum(currencyCodes, { message: 'Unknown currency' }),
+    rate: z.number().positive('Rate must be greater than 0'),
+    date: z.iso.date({ message: 'Date must be YYYY-MM-DD' }),
+  })
+  .refine((data) => data.from !== data.to, {
+    message: 'Currencies must differ',
+    path: ['to'],
+  });
+
+export type ExchangeRateSchema = z.infer<typeof exchangeRateSchema>;
+
+// ============================================
+// Account Validation
+// ============================================
+
+export const accountTypes = ['checking', 'savings', 'credit_card', 'cash'] as const;
+
+export const accountSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Account name is required')
+    .max(50, 'Account name must be less than 50 characters'),
+  type: z.enum(accountTypes, { message: 'Please select an account type' }),
+  openingBalance: z.number().int('Invalid opening balance'),
+  currency: z.enum(currencyCodes),
+});
+
+export type AccountSchema = z.infer<typeof accountSchema>;
+
+// ============================================
+// Debt Validation
+// ============================================
+
+export const debtSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Debt name is required')
+    .max(50, 'Debt name must be less than 50 characters'),
+  balance: z.number().int().nonnegative('Balance cannot be negative'),
+  apr: z
+    .number({ message: 'Enter an interest rate' })
+    .min(0, 'Interest rate cannot be negative')
+    .max(100, 'Interest rate must be 100% or less'),
+  minimumPayment: z.number().int().nonnegative('Minimum payment cannot be negative'),
+  dueDay: z.number().int().min(1, 'Due day must be 1-31').max(31, 'Due day must be 1-31'),
+});
+
+export type DebtSchema = z.infer<typeof debtSchema>;
+
+// ============================================
+// Backup Validation
+// ============================================
+
+// Bump when the backup layout grows or changes, so older builds refuse files they'd read only in part.
+// 2 added budgets, categorization rules, accounts, payees, savings goals and debts.
+export const BACKUP_VERSION = 2;
+
+export const goalCategories = [
+  'savings',
+  'investments',
+  'needs',
+  'wants',
+  'debt_repayment',
+  'emergency_fund',
+] as const;
+
+// Timestamps are stored as ISO strings in backups
+const backupDate = z.iso.datetime({ message: 'Invalid date' });
+const backupAmount = z.number().int().nonnegative();
+
+const backupExpenseSchema = z.object({
+  id: z.string().min(1),
+  amount: backupAmount,
+  currency: z.enum(currencyCodes).optional(),
+  category: z.string().min(1),
+  description: z.string().default(''),
+  date: backupDate,
+  createdAt: backupDate,
+  updatedAt: backupDate,
+  isRecurring: z.boolean().default(false),
+  recurringId: z.string().optional(),
+  tags: z.array(z.string()).default([]),
+  accountId: z.string().min(1).optional(),
+  payeeId: z.string().min(1).optional(),
+  debtId: z.string().min(1).optional(),
+  splits: z
+    .array(
+      z.object({
+        category: z.string().min(1),
+        amount: backupAmount,
+        note: z.string().optional(),
+      })
+    )
+    .optional(),
+}).refine((exp) => validateExpenseSplits(exp.amount, exp.splits) === null, {
+  message: 'Splits must add up to the expense total',
+  path: ['splits'],
+});
+
+const backupIncomeSchema = z.object({
+  id: z.string().min(1),
+  amount: backupAmount,
+  currency: z.enum(currencyCodes).optional(),
+  type: z.enum(incomeTypes),
+  source: z.string().min(1),
+  date: backupDate,
+  createdAt: backupDate,
+  updatedAt: backupDate,
+  isRegular: z.boolean().default(false),
+  note: z.string().optional(),
+  accountId: z.string().min(1).optional(),
+});
+
+const backupCustomCategorySchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  icon: z.string().min(1),
+  color: z.string().min(1),
+  type: z.enum(['fixed', 'variable']),
+  order: z.number(),
+  isDeleted: z.boolean().optional(),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupRecurringRuleSchema = z.object({
+  id: z.string().min(1),
+  amount: backupAmount,
+  currency: z.enum(currencyCodes).optional(),
+  category: z.string().min(1),
+  description: z.string().default(''),
+  tags: z.array(z.string()).default([]),
+  accountId: z.string().min(1).optional(),
+  frequency: z.enum(recurrenceFrequencies),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  startDate: backupDate,
+  endDate: backupDate.optional(),
+  lastGeneratedDate: backupDate.optional(),
+  isActive: z.boolean(),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupCategorizationRuleSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: z.enum(['expense', 'income']),
+  conditions: z.object({
+    text: z.string().min(1).optional(),
+    textMode: z.enum(['contains', 'regex']),
+    minAmount: backupAmount.optional(),
+    maxAmount: backupAmount.optional(),
+  }),
+  actions: z.object({
+    category: z.string().min(1).optional(),
+    tags: z.array(z.string()).optional(),
+    incomeType: z.enum(incomeTypes).optional(),
+  }),
+  priority: z.number().int(),
+  isActive: z.boolean(),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupBudgetSchema = z.object({
+  category: z.string().min(1),
+  amount: backupAmount,
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupBudgetTransferSchema = z.object({
+  id: z.string().min(1),
+  fromCategory: z.string().min(1),
+  toCategory: z.string().min(1),
+  amount: backupAmount,
+  date: backupDate,
+  note: z.string().optional(),
+  createdAt: backupDate,
+});
+
+const backupAccountSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  type: z.enum(accountTypes),
+  openingBalance: z.number().int(),
+  currency: z.enum(currencyCodes),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupPayeeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  aliases: z.array(z.string()).default([]),
+  defaultCategory: z.string().min(1).optional(),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupSavingsGoalSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  targetAmount: backupAmount,
+  targetDate: backupDate,
+  startingAmount: z.number().int(),
+  accountId: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  contributions: z
+    .array(
+      z.object({
+        id: z.string().min(1),
+        amount: z.number().int(),
+        date: backupDate,
+        note: z.string().optional(),
+      })
+    )
+    .default([]),
+  color: z.string(),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupDebtSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  balance: backupAmount,
+  balanceDate: backupDate,
+  apr: z.number().min(0),
+  minimumPayment: backupAmount,
+  dueDay: z.number().int().min(1).max(31),
+  createdAt: backupDate,
+  updatedAt: backupDate,
+});
+
+const backupAccountTransferSchema = z.object({
+  id: z.string().min(1),
+  fromAccountId: z.string().min(1),
+  toAccountId: z.string().min(1),
+  amount: backupAmount,
+  toAmount: backupAmount.optional(),
+  date: backupDate,
+  note: z.string().optional(),
+  createdAt: backupDate,
+});
+
+const backupGoalsSchema = z.object({
+  allocations: z.array(
+    z.object({
+      category: z.enum(goalCategories),
+      targetPercentage: z.number().min(0).max(100),
+      color: z.string(),
+      icon: z.string(),
+      name: z.string(),
+      description: z.string(),
+    })
+  ),
+  monthlyIncomeTarget: backupAmount,
+});
+
+const backupSettingsSchema = z.object({
+  currency: z.enum(currencyCodes),
+  theme: z.enum(['light', 'dark', 'system']),
+  dateFormat: z.enum(['MM/DD/YYYY', 'DD/MM/YYYY', 'YYYY-MM-DD']),
+  defaultSalary: backupAmount,
+  payFrequency: z.enum(payFrequencies),
+  payWeekday: z.number().int().min(0).max(6).default(DEFAULT_PAY_WEEKDAY),
+  payMonthDay: z.number().int().min(1).max(31).default(DEFAULT_PAY_MONTH_DAY),
+  paySemimonthlyDays: z
+    .tuple([z.number().int().min(1).max(31), z.number().int().min(1).max(31)])
+    .default(DEFAULT_SEMIMONTHLY_PAY_DAYS),
+  nextPayday: z.string().default(''),
+  periodMode: z.enum(['month', 'payPeriod']).default('month'),
+  forecastThreshold: z.number().int().default(0),
+  notifyOnBudgetWarning: z.boolean().default(true),
+  budgetMode: z.enum(['monthly', 'envelope']).default('monthly'),
+  exchangeRates: z.array(exchangeRateSchema).default([]),
+  savedFilters: z.array(z.object({ name: z.string().min(1), query: z.string() })).default([]),
+});
+
+export const backupSchema = z.object({
+  app: z.literal('priz-finance', { message: 'Not a Priz Finance backup file' }),
+  // Older versions still restore; collections they lack default to empty
+  version: z
+    .number()
+    .int()
+    .min(1, 'Unsupported backup version')
+    .max(BACKUP_VERSION, 'This backup is from a newer version of the app; update it before restoring'),
+  exportedAt: backupDate,
+  expenses: z.array(backupExpenseSchema),
+  income: z.array(backupIncomeSchema),
+  customCategories: z.array(backupCustomCategorySchema),
+  recurringRules: z.array(backupRecurringRuleSchema).default([]),
+  categorizationRules: z.array(backupCategorizationRuleSchema).default([]),
+  budgets: z.array(backupBudgetSchema).default([]),
+  budgetTransfers: z.array(backupBudgetTransferSchema).default([]),
+  accounts: z.array(backupAccountSchema).default([]),
+  accountTransfers: z.array(backupAccountTransferSchema).default([]),
+  payees: z.array(backupPayeeSchema).default([]),
+  savingsGoals: z.array(backupSavingsGoalSchema).default([]),
+  debts: z.array(backupDebtSchema).default([]),
+  goals: backupGoalsSchema.nullable(),
+  settings: backupSettingsSchema,
+});
+
+export type BackupSchema = z.infer<typeof backupSchema>;
+
 // ============================================
 // Utility Validators
 // ============================================
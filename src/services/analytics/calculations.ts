@@ -2,9 +2,11 @@
 // Analytics Calculation Functions
 // ============================================
 
-import { Expense, Income, ExpenseCategory, CategoryBreakdown, MonthlyTotal, WeeklyTrend, IncomeVsExpense, DailySpending } from '@/types';
-import { SPENDING_INTENSITY } from '@/lib/utils/constants';
-import { format, startOfWeek, endOfWeek, eachWeekOfInterval, getMonth, getYear, eachDayOfInterval, startOfMonth, endOfMonth } from 'date-fns';
+import { Expense, Income, ExpenseCategory, CategoryBreakdown, MonthlyTotal, WeeklyTrend, IncomeVsExpense, DailySpending, TagBreakdown, CategoryBudget, BudgetProgress, BudgetStatus, BudgetMode, BudgetTransfer, EnvelopeBalance, EnvelopeMonth, ExchangeRate, ExpenseSplit, Account, AccountTransfer, AccountBalance, NetWorthPoint } from '@/types';
+import { SPENDING_INTENSITY, BUDGET_WARNING_PERCENTAGE, BUDGET_EXCEEDED_PERCENTAGE, DEFAULT_ACCOUNT_ID, CurrencyCode } from '@/lib/utils/constants';
+import { fromMinorUnits, getMinorUnitFactor } from '@/lib/utils/formatters';
+import { getMonthYearKey } from '@/lib/utils/dateUtils';
+import { format, startOfWeek, endOfWeek, eachWeekOfInterval, getMonth, getYear, eachDayOfInterval, startOfMonth, endOfMonth, addMonths, min } from 'date-fns';
 
 // ============================================
 // Total Calculations
@@ -49,7 +51,24 @@ export const calculateSavingsRate = (income: Income[], expenses: Expense[]): num
 // ============================================
 
 /**
- * Calculate breakdown by category
+ * The category amounts an expense counts towards: its splits, or the whole amount in its own category
+ */
+export const getExpenseAllocations = (expense: Expense): ExpenseSplit[] => {
+  return expense.splits && expense.splits.length > 0
+    ? expense.splits
+    : [{ category: expense.category, amount: expense.amount }];
+};
+
+/**
+ * Category a split expense is filed under: the one with the largest share
+ */
+export const getPrimarySplitCategory = (splits: ExpenseSplit[]): ExpenseCategory | undefined => {
+  return [...splits].sort((a, b) => b.amount - a.amount)[0]?.category;
+};
+
+/**
+ * Calculate breakdown by category.
+ * Split expenses count each split towards its own category.
  */
 export const calculateCategoryBreakdown = (expenses: Expense[]): CategoryBreakdown[] => {
   const total = calculateTotalExpenses(expenses);
@@ -58,10 +77,12 @@ export const calculateCategoryBreakdown = (expenses: Expense[]): CategoryBreakdo
   const categoryMap = new Map<ExpenseCategory, { amount: number; count: number }>();
 
   expenses.forEach((expense) => {
-    const existing = categoryMap.get(expense.category) || { amount: 0, count: 0 };
-    categoryMap.set(expense.category, {
-      amount: existing.amount + expense.amount,
-      count: existing.count + 1,
+    getExpenseAllocations(expense).forEach(({ category, amount }) => {
+      const existing = categoryMap.get(category) || { amount: 0, count: 0 };
+      categoryMap.set(category, {
+        amount: existing.amount + amount,
+        count: existing.count + 1,
+      });
     });
   });
 
@@ -87,6 +108,59 @@ export const getTopCategory = (expenses: Expense[]): CategoryBreakdown | null =>
   return breakdown.length > 0 ? breakdown[0] : null;
 };
 
+// ============================================
+// Tag Analysis
+// ============================================
+
+/**
+ * Calculate spending per tag. An expense counts in full toward every tag it carries,
+ * so the totals can add up to more than the period's spending
+ */
+export const calculateTagBreakdown = (expenses: Expense[]): TagBreakdown[] => {
+  const total = calculateTotalExpenses(expenses);
+  if (total === 0) return [];
+
+  const tagMap = new Map<string, { amount: number; count: number }>();
+
+  expenses.forEach((expense) => {
+    new Set(expense.tags ?? []).forEach((tag) => {
+      const existing = tagMap.get(tag) || { amount: 0, count: 0 };
+      tagMap.set(tag, {
+        amount: existing.amount + expense.amount,
+        count: existing.count + 1,
+      });
+    });
+  });
+
+  const breakdown: TagBreakdown[] = [];
+
+  tagMap.forEach((data, tag) => {
+    breakdown.push({
+      tag,
+      amount: data.amount,
+      percentage: (data.amount / total) * 100,
+      count: data.count,
+    });
+  });
+
+  return breakdown.sort((a, b) => b.amount - a.amount);
+};
+
+/**
+ * Get every tag in use, most used first, for autocomplete and filters
+ */
+export const getUsedTags = (expenses: Expense[]): string[] => {
+  const counts = new Map<string, number>();
+
+  expenses.forEach((expense) => {
+    (expense.tags ?? []).forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts.entries())
+    .sort(([tagA, countA], [tagB, countB]) => countB - countA || tagA.localeCompare(tagB))
+    .map(([tag]) => tag);
+};
+
 // ============================================
 // Monthly Analysis
 // ============================================
@@ -246,6 +320,17 @@ export const calculateIncomeVsExpenses = (
 // Daily Spending Analysis
 // ============================================
 
+/**
+ * How heavy a day's spending was, for heatmap shading
+ */
+export const getSpendingIntensity = (amount: number): DailySpending['intensity'] => {
+  if (amount <= 0) return 0;
+  if (amount < SPENDING_INTENSITY.LOW) return 1;
+  if (amount < SPENDING_INTENSITY.MEDIUM) return 2;
+  if (amount < SPENDING_INTENSITY.HIGH) return 3;
+  return 4;
+};
+
 /**
  * Calculate daily spending with intensity levels
  */
@@ -267,16 +352,7 @@ export const calculateDailySpending = (
     });
 
     const amount = calculateTotalExpenses(dayExpenses);
-    let intensity: 0 | 1 | 2 | 3 | 4 = 0;
-
-    if (amount > 0) {
-      if (amount < SPENDING_INTENSITY.LOW) intensity = 1;
-      else if (amount < SPENDING_INTENSITY.MEDIUM) intensity = 2;
-      else if (amount < SPENDING_INTENSITY.HIGH) intensity = 3;
-      else intensity = 4;
-    }
-
-    return { date: day, amount, intensity };
+    return { date: day, amount, intensity: getSpendingIntensity(amount) };
   });
 };
 
@@ -319,3 +395,346 @@ export const calculateMoMChange = (expenses: Expense[]): number => {
 
   return calculatePercentageChange(currentTotal, lastTotal);
 };
+
+// ============================================
+// Budget Calculations
+// ============================================
+
+/**
+ * Map a budget usage percentage to its alert status
+ */
+export const getBudgetStatus = (percentage: number): BudgetStatus => {
+  if (percentage >= BUDGET_EXCEEDED_PERCENTAGE) return 'exceeded';
+  if (percentage >= BUDGET_WARNING_PERCENTAGE) return 'warning';
+  return 'ok';
+};
+
+/**
+ * Roll each envelope forward month by month, from the month its budget was
+ * created through the month containing `through`. Unspent money carries into
+ * the next month's opening balance and overspending carries as a deficit.
+ * Months in `pastSpending` use its per-category totals instead of `expenses`.
+ */
+export const calculateEnvelopeHistory = (
+  budgets: CategoryBudget[],
+  expenses: Expense[],
+  transfers: BudgetTransfer[],
+  through: Date = new Date(),
+  pastSpending: Map<string, Map<string, number>> = new Map()
+): EnvelopeMonth[] => {
+  if (budgets.length === 0) return [];
+
+  const expensesByMonth = new Map<string, Expense[]>();
+  expenses.forEach((exp) => {
+    const key = getMonthYearKey(exp.date.toDate());
+    expensesByMonth.set(key, [...(expensesByMonth.get(key) || []), exp]);
+  });
+
+  const transfersByMonth = new Map<string, BudgetTransfer[]>();
+  transfers.forEach((transfer) => {
+    const key = getMonthYearKey(transfer.date.toDate());
+    transfersByMonth.set(key, [...(transfersByMonth.get(key) || []), transfer]);
+  });
+
+  const firstMonth = startOfMonth(Math.min(...budgets.map((budget) => budget.createdAt.toMillis())));
+  const lastMonth = startOfMonth(through);
+  const closing = new Map<string, number>();
+  const history: EnvelopeMonth[] = [];
+
+  for (let month = firstMonth; month <= lastMonth; month = addMonths(month, 1)) {
+    const monthKey = getMonthYearKey(month);
+    const spentByCategory =
+      pastSpending.get(monthKey) ??
+      new Map(
+        calculateCategoryBreakdown(expensesByMonth.get(monthKey) || []).map((item) => [item.category, item.amount])
+      );
+    const monthTransfers = transfersByMonth.get(monthKey) || [];
+
+    const envelopes: EnvelopeBalance[] = budgets
+      .filter((budget) => getMonthYearKey(budget.createdAt.toDate()) <= monthKey)
+      .map((budget) => {
+        const opening = closing.get(budget.category) || 0;
+        const spent = spentByCategory.get(budget.category) || 0;
+        const transferred = monthTransfers.reduce((sum, transfer) => {
+          if (transfer.toCategory === budget.category) return sum + transfer.amount;
+          if (transfer.fromCategory === budget.category) return sum - transfer.amount;
+          return sum;
+        }, 0);
+        const balance = opening + budget.amount + transferred - spent;
+
+        closing.set(budget.category, balance);
+        return {
+          category: budget.category,
+          opening,
+          allocation: budget.amount,
+          transfers: transferred,
+          spent,
+          closing: balance,
+        };
+      });
+
+    history.push({ monthKey, month, envelopes });
+  }
+
+  return history;
+};
+
+interface BudgetProgressOptions {
+  mode?: BudgetMode;
+  transfers?: BudgetTransfer[];
+  // Category spending of earlier months, e.g. from their stored summaries
+  pastSpending?: Map<string, Map<string, number>>;
+}
+
+/**
+ * Calculate spent/remaining for each budget within the month containing `month`.
+ * In envelope mode the amount available includes rollover and transfers.
+ */
+export const calculateBudgetProgress = (
+  budgets: CategoryBudget[],
+  expenses: Expense[],
+  month: Date = new Date(),
+  { mode = 'monthly', transfers = [], pastSpending }: BudgetProgressOptions = {}
+): BudgetProgress[] => {
+  const monthKey = getMonthYearKey(month);
+  const monthExpenses = expenses.filter((exp) => getMonthYearKey(exp.date.toDate()) === monthKey);
+  const spentByCategory = new Map(
+    calculateCategoryBreakdown(monthExpenses).map((item) => [item.category, item.amount])
+  );
+
+  const envelopes = new Map<string, EnvelopeBalance>();
+  if (mode === 'envelope') {
+    const current = calculateEnvelopeHistory(budgets, expenses, transfers, month, pastSpending).find(
+      (entry) => entry.monthKey === monthKey
+    );
+    current?.envelopes.forEach((envelope) => envelopes.set(envelope.category, envelope));
+  }
+
+  return budgets.map((budget) => {
+    const spent = spentByCategory.get(budget.category) || 0;
+    const envelope = envelopes.get(budget.category);
+    const available = envelope
+      ? envelope.opening + envelope.allocation + envelope.transfers
+      : budget.amount;
+
+    // An envelope that starts the month empty or in deficit is already over budget
+    const percentage = available > 0 ? (spent / available) * 100 : spent > 0 || available < 0 ? 100 : 0;
+
+    return {
+      budget,
+      available,
+      spent,
+      remaining: available - spent,
+      percentage,
+      status: getBudgetStatus(percentage),
+    };
+  });
+};
+
+// ============================================
+// Currency Conversion
+// ============================================
+
+/**
+ * Find the rate from one currency to another as of a date.
+ * Uses the latest rate on or before the date, or the earliest one if the date predates them all.
+ */
+export const findExchangeRate = (
+  rates: ExchangeRate[],
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: Date
+): number | null => {
+  if (from === to) return 1;
+
+  // A rate entered in the opposite direction works just as well inverted
+  const candidates = rates
+    .flatMap((entry) => {
+      if (entry.from === from && entry.to === to) return [{ date: entry.date, rate: entry.rate }];
+      if (entry.from === to && entry.to === from && entry.rate > 0) return [{ date: entry.date, rate: 1 / entry.rate }];
+      return [];
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (candidates.length === 0) return null;
+
+  const day = format(date, 'yyyy-MM-dd');
+  const effective = candidates.filter((candidate) => candidate.date <= day).pop() || candidates[0];
+  return effective.rate;
+};
+
+/**
+ * Convert an amount in minor units of one currency into minor units of another.
+ * Without a known rate the face value is kept, see findMissingExchangeRates.
+ */
+export const convertAmount = (
+  amount: number,
+  from: CurrencyCode,
+  to: CurrencyCode,
+  date: Date,
+  rates: ExchangeRate[]
+): number => {
+  if (from === to) return amount;
+
+  const rate = findExchangeRate(rates, from, to, date) ?? 1;
+  return Math.round(fromMinorUnits(amount, from) * rate * getMinorUnitFactor(to));
+};
+
+/**
+ * Express expenses or income in the base currency so their amounts can be summed.
+ * Records without a currency are already in the base currency.
+ */
+export const convertToBaseCurrency = <T extends Expense | Income>(
+  items: T[],
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[]
+): T[] => {
+  return items.map((item) => {
+    if (!item.currency || item.currency === baseCurrency) return item;
+
+    const from = item.currency;
+    const convert = (amount: number) => convertAmount(amount, from, baseCurrency, item.date.toDate(), rates);
+    const amount = convert(item.amount);
+
+    if (!('splits' in item) || !item.splits) return { ...item, amount, currency: baseCurrency };
+
+    // Splits are rounded separately, so any rounding drift goes to the first one to keep the sum exact
+    const splits = item.splits.map((split) => ({ ...split, amount: convert(split.amount) }));
+    const drift = amount - splits.reduce((sum, split) => sum + split.amount, 0);
+    if (splits.length > 0) splits[0].amount += drift;
+
+    return { ...item, amount, currency: baseCurrency, splits };
+  });
+};
+
+/**
+ * Currencies used by these records that have no rate into the base currency
+ */
+export const findMissingExchangeRates = (
+  items: (Expense | Income)[],
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[]
+): CurrencyCode[] => {
+  const missing = new Set<CurrencyCode>();
+  items.forEach(({ currency, date }) => {
+    if (currency && currency !== baseCurrency && findExchangeRate(rates, currency, baseCurrency, date.toDate()) === null) {
+      missing.add(currency);
+    }
+  });
+  return Array.from(missing);
+};
+
+// ============================================
+// Account Balances
+// ============================================
+
+/**
+ * The account a transaction belongs to. Rows from before accounts existed belong to Main.
+ */
+export const getAccountId = (item: Expense | Income): string => item.accountId || DEFAULT_ACCOUNT_ID;
+
+/**
+ * Net money in (+) and out (-) of each account up to and including a moment,
+ * in each account's own currency. Transfers move money without counting as income or expenses.
+ */
+const sumAccountMovements = (
+  accounts: Account[],
+  expenses: Expense[],
+  income: Income[],
+  transfers: AccountTransfer[],
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[],
+  until: Date
+): Map<string, number> => {
+  const byId = new Map(accounts.map((account) => [account.id, account]));
+  const totals = new Map(accounts.map((account) => [account.id, 0]));
+  const cutoff = until.getTime();
+
+  const add = (accountId: string, amount: number, currency: CurrencyCode, date: Date) => {
+    const account = byId.get(accountId);
+    if (!account) return;
+    totals.set(accountId, (totals.get(accountId) || 0) + convertAmount(amount, currency, account.currency, date, rates));
+  };
+
+  expenses.forEach((expense) => {
+    if (expense.date.toMillis() > cutoff) return;
+    add(getAccountId(expense), -expense.amount, expense.currency || baseCurrency, expense.date.toDate());
+  });
+
+  income.forEach((inc) => {
+    if (inc.date.toMillis() > cutoff) return;
+    add(getAccountId(inc), inc.amount, inc.currency || baseCurrency, inc.date.toDate());
+  });
+
+  transfers.forEach((transfer) => {
+    if (transfer.date.toMillis() > cutoff) return;
+    const from = byId.get(transfer.fromAccountId);
+    const to = byId.get(transfer.toAccountId);
+    const date = transfer.date.toDate();
+
+    if (from) add(from.id, -transfer.amount, from.currency, date);
+    if (to) {
+      // Without a recorded received amount, the sent amount is converted at the day's rate
+      if (transfer.toAmount !== undefined) add(to.id, transfer.toAmount, to.currency, date);
+      else add(to.id, transfer.amount, from?.currency || to.currency, date);
+    }
+  });
+
+  return totals;
+};
+
+/**
+ * Current balance of every account, in its own currency and in the base currency
+ */
+export const calculateAccountBalances = (
+  accounts: Account[],
+  expenses: Expense[],
+  income: Income[],
+  transfers: AccountTransfer[],
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[],
+  asOf: Date = new Date()
+): AccountBalance[] => {
+  const movements = sumAccountMovements(accounts, expenses, income, transfers, baseCurrency, rates, asOf);
+
+  return accounts.map((account) => {
+    const balance = account.openingBalance + (movements.get(account.id) || 0);
+    return {
+      account,
+      balance,
+      baseBalance: convertAmount(balance, account.currency, baseCurrency, asOf, rates),
+    };
+  });
+};
+
+/**
+ * Month-end balance of every account and the resulting net worth, oldest month first.
+ * The current month is measured as of today.
+ */
+export const calculateNetWorthHistory = (
+  accounts: Account[],
+  expenses: Expense[],
+  income: Income[],
+  transfers: AccountTransfer[],
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[],
+  months: number = 12,
+  today: Date = new Date()
+): NetWorthPoint[] => {
+  if (accounts.length === 0) return [];
+
+  const firstMonth = startOfMonth(addMonths(today, -(months - 1)));
+
+  return Array.from({ length: months }, (_, index) => {
+    const month = addMonths(firstMonth, index);
+    const asOf = min([endOfMonth(month), today]);
+    const balances = calculateAccountBalances(accounts, expenses, income, transfers, baseCurrency, rates, asOf);
+
+    return {
+      monthKey: getMonthYearKey(month),
+      month,
+      balances: Object.fromEntries(balances.map(({ account, baseBalance }) => [account.id, baseBalance])),
+      netWorth: balances.reduce((sum, { baseBalance }) => sum + baseBalance, 0),
+    };
+  });
+};
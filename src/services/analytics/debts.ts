@@ -0,0 +1,151 @@
+// ============================================
+// Debt Analytics
+// ============================================
+
+import { addMonths, getDaysInMonth, startOfDay, startOfMonth } from 'date-fns';
+import { Debt, DebtStatus, DebtPayoffPlan, Expense, PayoffMonth, PayoffStrategy } from '@/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Plans that haven't cleared the debts in 50 years are reported as never paying off
+const MAX_PAYOFF_MONTHS = 600;
+
+// ============================================
+// Balances
+// ============================================
+
+const getDueDateInMonth = (month: Date, day: number): Date =>
+  new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)));
+
+/**
+ * What is owed on a debt today: its balance less the payments made since.
+ * Expenses should be in the base currency.
+ */
+export const calculateDebtStatus = (debt: Debt, expenses: Expense[], today: Date = new Date()): DebtStatus => {
+  const since = startOfDay(debt.balanceDate.toDate());
+  const payments = expenses
+    .filter((expense) => expense.debtId === debt.id && expense.date.toDate() >= since)
+    .sort((a, b) => b.date.toMillis() - a.date.toMillis());
+  const paid = payments.reduce((sum, expense) => sum + expense.amount, 0);
+
+  const dueThisMonth = getDueDateInMonth(today, debt.dueDay);
+  const nextDueDate =
+    dueThisMonth >= startOfDay(today) ? dueThisMonth : getDueDateInMonth(addMonths(today, 1), debt.dueDay);
+
+  return {
+    debt,
+    balance: Math.max(0, debt.balance - paid),
+    paid,
+    payments,
+    nextDueDate,
+  };
+};
+
+// ============================================
+// Payoff Planner
+// ============================================
+
+/**
+ * The order extra money goes to the debts: smallest balance first for the
+ * snowball, highest rate first for the avalanche.
+ */
+const orderDebts = (statuses: DebtStatus[], strategy: PayoffStrategy): DebtStatus[] =>
+  [...statuses].sort((a, b) =>
+    strategy === 'snowball'
+      ? a.balance - b.balance || b.debt.apr - a.debt.apr
+      : b.debt.apr - a.debt.apr || a.balance - b.balance
+  );
+
+/**
+ * Simulate paying the debts down month by month. Interest accrues monthly at
+ * APR / 12, every debt gets its minimum, and whatever is left of the monthly
+ * payment goes to the first debt in the strategy's order. A paid-off debt's
+ * minimum rolls over to the next one.
+ */
+export const calculateDebtPayoffPlan = (
+  statuses: DebtStatus[],
+  monthlyPayment: number,
+  strategy: PayoffStrategy,
+  today: Date = new Date()
+): DebtPayoffPlan => {
+  const ordered = orderDebts(
+    statuses.filter((status) => status.balance > 0),
+    strategy
+  );
+  const balances = new Map(ordered.map((status) => [status.debt.id, status.balance]));
+  const interestByDebt = new Map(ordered.map((status) => [status.debt.id, 0]));
+  const payoffDates = new Map<string, Date>();
+  // Never less than the minimums, which are owed regardless
+  const budget = Math.max(
+    monthlyPayment,
+    ordered.reduce((sum, status) => sum + status.debt.minimumPayment, 0)
+  );
+
+  const months: PayoffMonth[] = [];
+  let totalBalance = ordered.reduce((sum, status) => sum + status.balance, 0);
+
+  for (let index = 1; totalBalance > 0 && index <= MAX_PAYOFF_MONTHS; index++) {
+    const month = startOfMonth(addMonths(today, index));
+    let interest = 0;
+    let available = budget;
+
+    ordered.forEach(({ debt }) => {
+      const balance = balances.get(debt.id) ?? 0;
+      if (balance === 0) return;
+      const charge = Math.round((balance * debt.apr) / 100 / 12);
+      balances.set(debt.id, balance + charge);
+      interestByDebt.set(debt.id, (interestByDebt.get(debt.id) ?? 0) + charge);
+      interest += charge;
+    });
+
+    const pay = (debtId: string, amount: number) => {
+      const payment = Math.min(amount, available, balances.get(debtId) ?? 0);
+      balances.set(debtId, (balances.get(debtId) ?? 0) - payment);
+      available -= payment;
+    };
+    ordered.forEach(({ debt }) => pay(debt.id, debt.minimumPayment));
+    ordered.forEach(({ debt }) => pay(debt.id, available));
+
+    ordered.forEach(({ debt }) => {
+      if (balances.get(debt.id) === 0 && !payoffDates.has(debt.id)) payoffDates.set(debt.id, month);
+    });
+    totalBalance = Array.from(balances.values()).reduce((sum, balance) => sum + balance, 0);
+
+    months.push({
+      month,
+      payment: budget - available,
+      interest,
+      balances: Object.fromEntries(balances),
+      totalBalance,
+    });
+  }
+
+  const totalInterest = months.reduce((sum, month) => sum + month.interest, 0);
+
+  return {
+    strategy,
+    months,
+    totalInterest,
+    totalPaid: months.reduce((sum, month) => sum + month.payment, 0),
+    payoffDate: totalBalance === 0 ? (months[months.length - 1]?.month ?? startOfMonth(today)) : null,
+    debts: ordered.map(({ debt }) => ({
+      debtId: debt.id,
+      payoffDate: payoffDates.get(debt.id) ?? null,
+      interest: interestByDebt.get(debt.id) ?? 0,
+    })),
+  };
+};
+
+/**
+ * Run the snowball and avalanche plans side by side with the same monthly payment
+ */
+export const compareDebtStrategies = (
+  statuses: DebtStatus[],
+  monthlyPayment: number,
+  today: Date = new Date()
+): Record<PayoffStrategy, DebtPayoffPlan> => ({
+  snowball: calculateDebtPayoffPlan(statuses, monthlyPayment, 'snowball', today),
+  avalanche: calculateDebtPayoffPlan(statuses, monthlyPayment, 'avalanche', today),
+});
@@ -0,0 +1,177 @@
+// ============================================
+// Cash-Flow Forecast
+// ============================================
+
+import { addDays, startOfDay, endOfDay, differenceInCalendarDays, format } from 'date-fns';
+import {
+  Expense,
+  Income,
+  RecurringRule,
+  ExchangeRate,
+  ExpenseCategory,
+  PaySchedule,
+  CashFlowForecast,
+  ForecastPoint,
+} from '@/types';
+import { CurrencyCode } from '@/lib/utils/constants';
+import { getNextPayday, getCurrentPayPeriod, getPreviousPayPeriods, isDateInRange } from '@/lib/utils/dateUtils';
+import { getExpenseAllocations, convertAmount } from './calculations';
+import { getUpcomingRecurringExpenses } from './payPeriods';
+
+// ============================================
+// Types
+// ============================================
+
+interface CashFlowForecastOptions {
+  // What the accounts hold today, in the base currency
+  startingBalance: number;
+  // Base-currency history the averages are learned from
+  expenses: Expense[];
+  income: Income[];
+  rules: RecurringRule[];
+  schedule: PaySchedule;
+  // Expected per payday when no regular income has been recorded
+  defaultSalary: number;
+  currency: CurrencyCode;
+  rates: ExchangeRate[];
+  threshold?: number;
+  days?: number;
+  historyDays?: number;
+  today?: Date;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// The band covers roughly 80% of outcomes if daily spending varies independently
+const BAND_Z_SCORE = 1.28;
+
+// Pay periods, including the current one, averaged for the expected paycheck
+const PAY_HISTORY_PERIODS = 3;
+
+// ============================================
+// Forecast
+// ============================================
+
+/**
+ * Project the balance day by day: regular pay lands on each payday, recurring
+ * bills on their due dates, and everyday spending at its recent daily average
+ * per category. The confidence band grows with the square root of the days
+ * ahead, scaled by how much daily spending has varied.
+ */
+export const calculateCashFlowForecast = ({
+  startingBalance,
+  expenses,
+  income,
+  rules,
+  schedule,
+  defaultSalary,
+  currency,
+  rates,
+  threshold = 0,
+  days = 90,
+  historyDays = 90,
+  today = new Date(),
+}: CashFlowForecastOptions): CashFlowForecast => {
+  const start = startOfDay(today);
+  const end = endOfDay(addDays(start, days));
+
+  // Everyday spending over the full days before today, or since the first record if that's more recent
+  const variable = expenses.filter((expense) => !expense.isRecurring);
+  const earliest = variable.reduce<Date | null>((first, expense) => {
+    const date = expense.date.toDate();
+    return !first || date < first ? date : first;
+  }, null);
+  const windowDays = Math.max(1, Math.min(historyDays, earliest ? differenceInCalendarDays(start, earliest) : 0));
+  const history = { start: addDays(start, -windowDays), end: endOfDay(addDays(start, -1)) };
+
+  const categoryTotals = new Map<ExpenseCategory, number>();
+  const dailyTotals = new Map<string, number>();
+  variable
+    .filter((expense) => isDateInRange(expense.date.toDate(), history))
+    .forEach((expense) => {
+      getExpenseAllocations(expense).forEach(({ category, amount }) => {
+        categoryTotals.set(category, (categoryTotals.get(category) ?? 0) + amount);
+      });
+      const day = format(expense.date.toDate(), 'yyyy-MM-dd');
+      dailyTotals.set(day, (dailyTotals.get(day) ?? 0) + expense.amount);
+    });
+
+  const variableByCategory = Array.from(categoryTotals, ([category, total]) => ({
+    category,
+    dailyAmount: total / windowDays,
+  })).sort((a, b) => b.dailyAmount - a.dailyAmount);
+  const dailyVariable = variableByCategory.reduce((sum, { dailyAmount }) => sum + dailyAmount, 0);
+
+  // Days without spending count as zero
+  const sumOfSquares = Array.from(dailyTotals.values()).reduce(
+    (sum, total) => sum + (total - dailyVariable) ** 2,
+    (windowDays - dailyTotals.size) * dailyVariable ** 2
+  );
+  const dailyDeviation = Math.sqrt(sumOfSquares / windowDays);
+
+  // Regular pay averaged over recent pay periods that had some, or the default salary until there is any
+  const regular = income.filter((item) => item.isRegular);
+  const paidPeriods = [
+    ...getPreviousPayPeriods(schedule, PAY_HISTORY_PERIODS - 1, today),
+    getCurrentPayPeriod(schedule, today),
+  ]
+    .map((period) =>
+      regular
+        .filter((item) => isDateInRange(item.date.toDate(), period))
+        .reduce((sum, item) => sum + item.amount, 0)
+    )
+    .filter((paid) => paid > 0);
+  const expectedPay =
+    paidPeriods.length > 0
+      ? Math.round(paidPeriods.reduce((sum, paid) => sum + paid, 0) / paidPeriods.length)
+      : defaultSalary;
+
+  const paydays = new Set<string>();
+  for (let payday = getNextPayday(schedule, today); payday <= end; payday = getNextPayday(schedule, payday)) {
+    paydays.add(format(payday, 'yyyy-MM-dd'));
+  }
+
+  // Bills from tomorrow on; today's are already in the balance once the materializer has run
+  const bills = new Map<string, number>();
+  getUpcomingRecurringExpenses(rules, { start: addDays(start, 1), end }).forEach(({ rule, date }) => {
+    const day = format(date, 'yyyy-MM-dd');
+    const amount = convertAmount(rule.amount, rule.currency || currency, currency, date, rates);
+    bills.set(day, (bills.get(day) ?? 0) + amount);
+  });
+
+  let balance = startingBalance;
+  const points: ForecastPoint[] = [];
+  for (let offset = 0; offset <= days; offset++) {
+    const date = addDays(start, offset);
+    const day = format(date, 'yyyy-MM-dd');
+    const flows =
+      offset === 0
+        ? { income: 0, bills: 0, variable: 0 }
+        : {
+            income: paydays.has(day) ? expectedPay : 0,
+            bills: bills.get(day) ?? 0,
+            variable: Math.round(dailyVariable),
+          };
+    balance += flows.income - flows.bills - flows.variable;
+    const band = Math.round(BAND_Z_SCORE * dailyDeviation * Math.sqrt(offset));
+
+    points.push({
+      date,
+      ...flows,
+      balance,
+      low: balance - band,
+      high: balance + band,
+      isBelowThreshold: balance < threshold,
+    });
+  }
+
+  return {
+    startingBalance,
+    points,
+    variableByCategory,
+    expectedPay,
+    firstShortfall: points.find((point) => point.isBelowThreshold)?.date ?? null,
+  };
+};
@@ -3,3 +3,10 @@
 // ============================================
 
 export * from './calculations';
+export * from './rollups';
+export * from './query';
+export * from './merchants';
+export * from './payPeriods';
+export * from './forecast';
+export * from './savingsGoals';
+export * from './debts';
@@ -0,0 +1,128 @@
+// ============================================
+// Merchant Analytics
+// ============================================
+
+import { Expense, Payee, MerchantBreakdown, DateRange } from '@/types';
+import { normalizeMerchant } from '@/services/rules';
+import { getMonthsInRange, getMonthYearKey, isDateInRange } from '@/lib/utils/dateUtils';
+
+// ============================================
+// Types
+// ============================================
+
+// Who an expense was paid to, for grouping
+export interface ResolvedMerchant {
+  key: string;
+  name: string;
+  payeeId?: string;
+}
+
+// ============================================
+// Payee Matching
+// ============================================
+
+// Whole words only, so "amzn" doesn't match "amznx"
+const containsPhrase = (text: string, phrase: string): boolean => ` ${text} `.includes(` ${phrase} `);
+
+const toDisplayName = (merchant: string): string =>
+  merchant
+    .split(' ')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * Find the payee a description names. The longest matching alias wins, so a
+ * specific payee beats a broader one.
+ */
+export const matchPayee = (description: string, payees: Payee[]): Payee | undefined => {
+  const merchant = normalizeMerchant(description);
+  if (!merchant) return undefined;
+
+  let best: Payee | undefined;
+  let bestLength = 0;
+  payees.forEach((payee) => {
+    [...payee.aliases, payee.name].map(normalizeMerchant).forEach((alias) => {
+      if (alias && alias.length > bestLength && containsPhrase(merchant, alias)) {
+        best = payee;
+        bestLength = alias.length;
+      }
+    });
+  });
+
+  return best;
+};
+
+/**
+ * The merchant an expense belongs to: its pinned payee, a payee its description
+ * matches, or else the normalized description itself
+ */
+export const resolveMerchant = (expense: Expense, payees: Payee[]): ResolvedMerchant | null => {
+  const payee =
+    (expense.payeeId && payees.find((p) => p.id === expense.payeeId)) ||
+    matchPayee(expense.description || '', payees);
+  if (payee) return { key: `payee:${payee.id}`, name: payee.name, payeeId: payee.id };
+
+  const merchant = normalizeMerchant(expense.description || '');
+  return merchant ? { key: `text:${merchant}`, name: toDisplayName(merchant) } : null;
+};
+
+// ============================================
+// Breakdown
+// ============================================
+
+/**
+ * Spending per merchant within a range, with monthly totals for spend over time.
+ * Expenses before the range only count toward when each merchant was first seen.
+ * Amounts should already be in the base currency.
+ */
+export const calculateMerchantBreakdown = (
+  expenses: Expense[],
+  payees: Payee[],
+  range: DateRange
+): MerchantBreakdown[] => {
+  const monthKeys = getMonthsInRange(range).map(getMonthYearKey);
+  const merchants = new Map<
+    string,
+    ResolvedMerchant & { amount: number; count: number; firstDate: Date; monthly: Map<string, number> }
+  >();
+
+  expenses.forEach((expense) => {
+    const merchant = resolveMerchant(expense, payees);
+    if (!merchant) return;
+
+    const date = expense.date.toDate();
+    const entry = merchants.get(merchant.key) ?? {
+      ...merchant,
+      amount: 0,
+      count: 0,
+      firstDate: date,
+      monthly: new Map<string, number>(),
+    };
+    if (date < entry.firstDate) entry.firstDate = date;
+    if (isDateInRange(date, range)) {
+      const monthKey = getMonthYearKey(date);
+      entry.amount += expense.amount;
+      entry.count += 1;
+      entry.monthly.set(monthKey, (entry.monthly.get(monthKey) ?? 0) + expense.amount);
+    }
+    merchants.set(merchant.key, entry);
+  });
+
+  const inRange = Array.from(merchants.values()).filter((entry) => entry.count > 0);
+  const total = inRange.reduce((sum, entry) => sum + entry.amount, 0);
+  if (total === 0) return [];
+
+  return inRange
+    .map(({ monthly, ...entry }) => ({
+      ...entry,
+      percentage: (entry.amount / total) * 100,
+      monthly: monthKeys.map((monthKey) => ({ monthKey, amount: monthly.get(monthKey) ?? 0 })),
+    }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+/**
+ * Merchants first paid within a range, e.g. new this month
+ */
+export const findNewMerchants = (breakdown: MerchantBreakdown[], range: DateRange): MerchantBreakdown[] =>
+  breakdown.filter((merchant) => isDateInRange(merchant.firstDate, range));
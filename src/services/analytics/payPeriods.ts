@@ -0,0 +1,151 @@
+// ============================================
+// Pay Period Analytics
+// ============================================
+
+import { addDays, endOfDay, startOfDay, differenceInCalendarDays, min } from 'date-fns';
+import {
+  Expense,
+  Income,
+  RecurringRule,
+  ExchangeRate,
+  DateRange,
+  PaySchedule,
+  PayPeriodSummary,
+  PayPeriodStatus,
+} from '@/types';
+import { CurrencyCode } from '@/lib/utils/constants';
+import {
+  getCurrentPayPeriod,
+  getNextPayday,
+  getPreviousPayPeriods,
+  getRecurrenceOccurrences,
+  isDateInRange,
+} from '@/lib/utils/dateUtils';
+import { calculateTotalExpenses, calculateTotalIncome, calculatePercentageChange, convertAmount } from './calculations';
+
+// ============================================
+// Types
+// ============================================
+
+export interface UpcomingRecurringExpense {
+  rule: RecurringRule;
+  date: Date;
+}
+
+interface PayPeriodStatusOptions {
+  // Base-currency records covering the current and previous pay periods
+  expenses: Expense[];
+  income: Income[];
+  schedule: PaySchedule;
+  // Budgeted until this period's pay arrives
+  defaultSalary: number;
+  rules: RecurringRule[];
+  currency: CurrencyCode;
+  rates: ExchangeRate[];
+  // Previous periods to compare against
+  history?: number;
+  today?: Date;
+}
+
+// ============================================
+// Upcoming Bills
+// ============================================
+
+/**
+ * Occurrences of active recurring rules within a range that haven't been added
+ * as expenses yet, soonest first
+ */
+export const getUpcomingRecurringExpenses = (
+  rules: RecurringRule[],
+  range: DateRange
+): UpcomingRecurringExpense[] =>
+  rules
+    .filter((rule) => rule.isActive)
+    .flatMap((rule) => {
+      // The materializer has already added everything up to lastGeneratedDate
+      const generatedUntil = rule.lastGeneratedDate && startOfDay(addDays(rule.lastGeneratedDate.toDate(), 1));
+      const start = generatedUntil && generatedUntil > range.start ? generatedUntil : range.start;
+      const ruleEnd = rule.endDate?.toDate();
+      const end = ruleEnd && ruleEnd < range.end ? ruleEnd : range.end;
+      if (start > end) return [];
+
+      return getRecurrenceOccurrences(rule.startDate.toDate(), rule.frequency, { start, end }, rule.dayOfMonth).map(
+        (date) => ({ rule, date })
+      );
+    })
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+// ============================================
+// Pay Periods
+// ============================================
+
+/**
+ * Spending and income within one pay period. Amounts should already be in the base currency.
+ */
+export const summarizePayPeriod = (period: DateRange, expenses: Expense[], income: Income[]): PayPeriodSummary => ({
+  start: period.start,
+  end: period.end,
+  spent: calculateTotalExpenses(expenses.filter((expense) => isDateInRange(expense.date.toDate(), period))),
+  income: calculateTotalIncome(income.filter((item) => isDateInRange(item.date.toDate(), period))),
+});
+
+/**
+ * Where the current pay period stands: what's been spent since the last payday,
+ * what's safe to spend each day until the next one once upcoming bills are set
+ * aside, and how spending compares with previous periods at the same point
+ */
+export const calculatePayPeriodStatus = ({
+  expenses,
+  income,
+  schedule,
+  defaultSalary,
+  rules,
+  currency,
+  rates,
+  history = 6,
+  today = new Date(),
+}: PayPeriodStatusOptions): PayPeriodStatus => {
+  const period = getCurrentPayPeriod(schedule, today);
+  const nextPayday = getNextPayday(schedule, today);
+  const current = summarizePayPeriod(period, expenses, income);
+
+  const upcomingBills = getUpcomingRecurringExpenses(rules, { start: startOfDay(today), end: period.end }).reduce(
+    (sum, { rule, date }) => sum + convertAmount(rule.amount, rule.currency || currency, currency, date, rates),
+    0
+  );
+
+  const daysLeft = Math.max(1, differenceInCalendarDays(nextPayday, today));
+  const expectedPay = current.income > 0 ? current.income : defaultSalary;
+  const safeToSpend = Math.max(0, expectedPay - current.spent - upcomingBills);
+
+  // Previous periods are compared up to the same number of days in
+  const previous = getPreviousPayPeriods(schedule, history, today).map((range) =>
+    summarizePayPeriod(range, expenses, income)
+  );
+  const elapsedDays = differenceInCalendarDays(today, period.start);
+  const spentToDate = previous.map(
+    (summary) =>
+      summarizePayPeriod(
+        { start: summary.start, end: min([endOfDay(addDays(summary.start, elapsedDays)), summary.end]) },
+        expenses,
+        income
+      ).spent
+  );
+  const averageSpentToDate =
+    spentToDate.length > 0 ? Math.round(spentToDate.reduce((sum, spent) => sum + spent, 0) / spentToDate.length) : 0;
+
+  return {
+    period,
+    nextPayday,
+    daysLeft,
+    spent: current.spent,
+    income: current.income,
+    expectedPay,
+    upcomingBills,
+    safeToSpend,
+    safeToSpendPerDay: Math.floor(safeToSpend / daysLeft),
+    previous,
+    averageSpentToDate,
+    change: calculatePercentageChange(current.spent, averageSpentToDate),
+  };
+};
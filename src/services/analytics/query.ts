@@ -0,0 +1,296 @@
+// ============================================
+// Transaction Search Queries
+// ============================================
+
+import {
+  startOfDay,
+  endOfDay,
+  startOfMonth,
+  endOfMonth,
+  startOfYear,
+  endOfYear,
+  subMonths,
+} from 'date-fns';
+import { Expense, Income, TransactionFilter, AmountBound, DateRange, CategoryId } from '@/types';
+import { CurrencyCode, INCOME_TYPES } from '@/lib/utils/constants';
+import { parseCurrencyToCents, normalizeTag } from '@/lib/utils/formatters';
+import { getExpenseAllocations } from './calculations';
+
+// ============================================
+// Types
+// ============================================
+
+export interface QueryOptions {
+  // Amounts in the query are read in this currency
+  currency: CurrencyCode;
+  // Lets `category:` use the names shown in the app as well as ids
+  categories: { id: CategoryId; name: string }[];
+}
+
+export interface ParsedQuery {
+  filter: TransactionFilter;
+  // Tokens that looked like a condition but couldn't be read
+  errors: string[];
+}
+
+/**
+ * A filter that matches everything
+ */
+export const createTransactionFilter = (): TransactionFilter => ({
+  text: [],
+  amount: {},
+  dateRange: {},
+  categories: [],
+  tags: [],
+  recurringOnly: false,
+});
+
+/**
+ * Whether a filter has no conditions at all
+ */
+export const isFilterEmpty = (filter: TransactionFilter): boolean =>
+  filter.text.length === 0 &&
+  !filter.amount.min &&
+  !filter.amount.max &&
+  !filter.dateRange.start &&
+  !filter.dateRange.end &&
+  filter.categories.length === 0 &&
+  filter.tags.length === 0 &&
+  !filter.recurringOnly;
+
+// ============================================
+// Parsing
+// ============================================
+
+const NUMBER = String.raw`[$£€¥₹]?\d[\d,]*(?:\.\d+)?`;
+const COMPARISON_PATTERN = new RegExp(`^(?:amount:)?(>=|<=|>|<)(${NUMBER})$`);
+const RANGE_PATTERN = new RegExp(`^(?:amount:)?(${NUMBER})?\\.\\.(${NUMBER})?$`);
+const EXACT_PATTERN = new RegExp(`^amount:=?(${NUMBER})$`);
+
+// Words or "quoted phrases"
+const tokenize = (query: string): string[] =>
+  Array.from(query.matchAll(/"([^"]*)"|(\S+)/g), (match) => match[1] ?? match[2]).filter(Boolean);
+
+const toKey = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The days a date value covers: a day (2024-03-15), a month (2024-03), a year
+ * (2024) or one of today, this-month, last-month and this-year
+ */
+const parseDateValue = (value: string): DateRange | null => {
+  const now = new Date();
+  switch (value.toLowerCase()) {
+    case 'today':
+      return { start: startOfDay(now), end: endOfDay(now) };
+    case 'this-month':
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+    case 'last-month': {
+      const lastMonth = subMonths(now, 1);
+      return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) };
+    }
+    case 'this-year':
+      return { start: startOfYear(now), end: endOfYear(now) };
+  }
+
+  const match = value.match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day] = match;
+  const date = new Date(Number(year), month ? Number(month) - 1 : 0, day ? Number(day) : 1);
+  // Rejects values like 2024-02-31, which Date would roll over into March
+  if (
+    date.getFullYear() !== Number(year) ||
+    (month && date.getMonth() !== Number(month) - 1) ||
+    (day && date.getDate() !== Number(day))
+  ) {
+    return null;
+  }
+
+  if (day) return { start: startOfDay(date), end: endOfDay(date) };
+  if (month) return { start: startOfMonth(date), end: endOfMonth(date) };
+  return { start: startOfYear(date), end: endOfYear(date) };
+};
+
+// A single value or an open or closed range of values (2024-01..2024-03, 2024-06.., ..2024-02-15)
+const parseDateRange = (value: string): Partial<DateRange> | null => {
+  if (!value.includes('..')) return parseDateValue(value);
+
+  const [from, to] = value.split('..');
+  if (!from && !to) return null;
+  const start = from ? parseDateValue(from) : null;
+  const end = to ? parseDateValue(to) : null;
+  if ((from && !start) || (to && !end)) return null;
+
+  return { start: start?.start, end: end?.end };
+};
+
+const resolveCategory = (value: string, categories: QueryOptions['categories']): CategoryId | null => {
+  const key = toKey(value);
+  if (!key) return null;
+  const exact = categories.find((category) => toKey(category.id) === key || toKey(category.name) === key);
+  return (exact ?? categories.find((category) => toKey(category.name).startsWith(key)))?.id ?? null;
+};
+
+/**
+ * Read a search query into a filter. Supported conditions:
+ * - amounts: `>50`, `<=20`, `20..100`, `amount:42`
+ * - dates: `date:2024-03`, `date:2024-01-01..2024-03-31`, `after:2024-06-01`, `before:2024-02`, `date:last-month`
+ * - categories: `category:groceries,rent` (ids or names)
+ * - tags: `#work`, `tag:work,travel`
+ * - `is:recurring`
+ * Anything else is free text; quote phrases to keep them together.
+ */
+export const parseTransactionQuery = (query: string, options: QueryOptions): ParsedQuery => {
+  const filter = createTransactionFilter();
+  const errors: string[] = [];
+  const toAmount = (value: string) => parseCurrencyToCents(value, options.currency);
+
+  // Later bounds narrow earlier ones rather than replacing them
+  const setMin = (bound: AmountBound) => {
+    const current = filter.amount.min;
+    if (!current || bound.value > current.value || (bound.value === current.value && !bound.inclusive)) {
+      filter.amount.min = bound;
+    }
+  };
+  const setMax = (bound: AmountBound) => {
+    const current = filter.amount.max;
+    if (!current || bound.value < current.value || (bound.value === current.value && !bound.inclusive)) {
+      filter.amount.max = bound;
+    }
+  };
+  const setDates = (range: Partial<DateRange>) => {
+    const { start, end } = filter.dateRange;
+    if (range.start && (!start || range.start > start)) filter.dateRange.start = range.start;
+    if (range.end && (!end || range.end < end)) filter.dateRange.end = range.end;
+  };
+
+  for (const token of tokenize(query)) {
+    const lower = token.toLowerCase();
+
+    const comparison = token.match(COMPARISON_PATTERN);
+    if (comparison) {
+      const [, operator, value] = comparison;
+      const bound = { value: toAmount(value), inclusive: operator.endsWith('=') };
+      if (operator.startsWith('>')) setMin(bound);
+      else setMax(bound);
+      continue;
+    }
+
+    const range = token.match(RANGE_PATTERN);
+    if (range && (range[1] || range[2])) {
+      if (range[1]) setMin({ value: toAmount(range[1]), inclusive: true });
+      if (range[2]) setMax({ value: toAmount(range[2]), inclusive: true });
+      continue;
+    }
+
+    const exact = token.match(EXACT_PATTERN);
+    if (exact) {
+      const bound = { value: toAmount(exact[1]), inclusive: true };
+      setMin(bound);
+      setMax(bound);
+      continue;
+    }
+
+    const separator = token.indexOf(':');
+    const key = separator > 0 ? lower.slice(0, separator) : '';
+    const value = separator > 0 ? token.slice(separator + 1) : '';
+
+    if (key === 'date' || key === 'after' || key === 'before') {
+      const dates = parseDateRange(value);
+      if (!dates) {
+        errors.push(`Couldn't read the date in "${token}"`);
+      } else if (key === 'after') {
+        setDates({ start: dates.end ? new Date(dates.end.getTime() + 1) : dates.start });
+      } else if (key === 'before') {
+        setDates({ end: dates.start ? new Date(dates.start.getTime() - 1) : dates.end });
+      } else {
+        setDates(dates);
+      }
+      continue;
+    }
+
+    if (key === 'category' || key === 'cat') {
+      value
+        .split(',')
+        .filter(Boolean)
+        .forEach((name) => {
+          const id = resolveCategory(name, options.categories);
+          if (!id) errors.push(`No category called "${name}"`);
+          else if (!filter.categories.includes(id)) filter.categories.push(id);
+        });
+      continue;
+    }
+
+    if (key === 'tag' || (token.startsWith('#') && token.length > 1)) {
+      (key === 'tag' ? value.split(',') : [token])
+        .map(normalizeTag)
+        .filter((tag) => tag && !filter.tags.includes(tag))
+        .forEach((tag) => filter.tags.push(tag));
+      continue;
+    }
+
+    if (key === 'is') {
+      if (value.toLowerCase() === 'recurring') filter.recurringOnly = true;
+      else errors.push(`Unknown condition "${token}"`);
+      continue;
+    }
+
+    filter.text.push(lower);
+  }
+
+  return { filter, errors };
+};
+
+// ============================================
+// Matching
+// ============================================
+
+const meetsMin = (amount: number, bound?: AmountBound): boolean =>
+  !bound || (bound.inclusive ? amount >= bound.value : amount > bound.value);
+
+const meetsMax = (amount: number, bound?: AmountBound): boolean =>
+  !bound || (bound.inclusive ? amount <= bound.value : amount < bound.value);
+
+/**
+ * Whether an expense or income entry meets every condition of a filter.
+ * Amounts are compared as they are, so convert records to the base currency first.
+ */
+export const matchesTransactionFilter = (
+  record: Expense | Income,
+  filter: TransactionFilter,
+  getCategoryName: (id: CategoryId) => string = (id) => id
+): boolean => {
+  if (!meetsMin(record.amount, filter.amount.min) || !meetsMax(record.amount, filter.amount.max)) return false;
+
+  const date = record.date.toDate();
+  if (filter.dateRange.start && date < filter.dateRange.start) return false;
+  if (filter.dateRange.end && date > filter.dateRange.end) return false;
+
+  if ('category' in record) {
+    // A split expense matches any of its categories, not just the primary one
+    const categoryIds = getExpenseAllocations(record).map((allocation) => allocation.category as CategoryId);
+    const tags = record.tags ?? [];
+
+    if (filter.recurringOnly && !record.isRecurring && !record.recurringId) return false;
+    if (filter.categories.length > 0 && !categoryIds.some((id) => filter.categories.includes(id))) return false;
+    if (filter.tags.length > 0 && !tags.some((tag) => filter.tags.includes(tag))) return false;
+
+    const searchable = [
+      record.description,
+      ...categoryIds.map(getCategoryName),
+      ...(record.splits ?? []).map((split) => split.note),
+      ...tags,
+    ]
+      .filter(Boolean)
+      .map((value) => value!.toLowerCase());
+    return filter.text.every((term) => searchable.some((value) => value.includes(term)));
+  }
+
+  if (filter.recurringOnly && !record.isRegular) return false;
+  if (filter.categories.length > 0 || filter.tags.length > 0) return false;
+
+  const searchable = [record.source, record.note, INCOME_TYPES[record.type]?.name]
+    .filter(Boolean)
+    .map((value) => value!.toLowerCase());
+  return filter.text.every((term) => searchable.some((value) => value.includes(term)));
+};
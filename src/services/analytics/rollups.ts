@@ -0,0 +1,333 @@
+// ============================================
+// Monthly Rollup Calculations
+// ============================================
+
+import { format, endOfMonth, endOfWeek, eachDayOfInterval, eachWeekOfInterval } from 'date-fns';
+import {
+  Expense,
+  Income,
+  ExchangeRate,
+  RollupBucket,
+  RollupTotals,
+  RollupChange,
+  CategoryBreakdown,
+  TagBreakdown,
+  MonthlyTotal,
+  IncomeVsExpense,
+  DailySpending,
+  WeeklyTrend,
+  DateRange,
+} from '@/types';
+import { CurrencyCode } from '@/lib/utils/constants';
+import { getMonthYearKey } from '@/lib/utils/dateUtils';
+import { getExpenseAllocations, convertAmount, calculatePercentageChange, getSpendingIntensity } from './calculations';
+
+// Where records without a currency are summed
+export const ROLLUP_BASE_CURRENCY = 'base';
+
+// Month key (yyyy-MM) to that month's totals in the base currency
+export type RollupMonths = Map<string, RollupTotals>;
+
+// ============================================
+// Building
+// ============================================
+
+export const createRollupTotals = (): RollupTotals => ({
+  expenses: { amount: 0, count: 0 },
+  income: { amount: 0, count: 0 },
+  byCategory: {},
+  byTag: {},
+  byIncomeType: {},
+  byDay: {},
+});
+
+const addToBucket = (bucket: RollupBucket | undefined, amount: number, sign: 1 | -1): RollupBucket => ({
+  amount: (bucket?.amount ?? 0) + sign * amount,
+  count: (bucket?.count ?? 0) + sign,
+});
+
+// Buckets emptied by removals are dropped so stored months don't collect zeros
+const addToKey = (buckets: Record<string, RollupBucket>, key: string, amount: number, sign: 1 | -1) => {
+  const next = addToBucket(buckets[key], amount, sign);
+  if (next.count <= 0) {
+    delete buckets[key];
+  } else {
+    buckets[key] = next;
+  }
+};
+
+// Buckets are replaced rather than changed, so copying each map is enough
+const cloneTotals = (totals: RollupTotals): RollupTotals => ({
+  expenses: totals.expenses,
+  income: totals.income,
+  byCategory: { ...totals.byCategory },
+  byTag: { ...totals.byTag },
+  byIncomeType: { ...totals.byIncomeType },
+  byDay: { ...totals.byDay },
+});
+
+const parseMonth = (month: string): Date => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(year, monthNumber - 1, 1);
+};
+
+/**
+ * Whether every day of a month (yyyy-MM) falls inside a date range
+ */
+export const isMonthWithin = (month: string, range: DateRange): boolean => {
+  const start = parseMonth(month);
+  return start >= range.start && endOfMonth(start) <= range.end;
+};
+
+/**
+ * The month a record is rolled up into, as yyyy-MM
+ */
+export const getRollupMonth = (record: Expense | Income): string => getMonthYearKey(record.date.toDate());
+
+/**
+ * Count records into or out of one month's per-currency totals.
+ * Returns new totals and leaves `currencies` untouched.
+ */
+export const applyRollupChanges = (
+  currencies: Record<string, RollupTotals>,
+  changes: RollupChange[]
+): Record<string, RollupTotals> => {
+  const result: Record<string, RollupTotals> = {};
+  Object.entries(currencies).forEach(([currency, totals]) => {
+    result[currency] = cloneTotals(totals);
+  });
+
+  changes.forEach((change) => {
+    const currency = change.record.currency ?? ROLLUP_BASE_CURRENCY;
+    const totals = result[currency] ?? createRollupTotals();
+    const { sign } = change;
+
+    if (change.kind === 'expense') {
+      const expense = change.record;
+      const day = format(expense.date.toDate(), 'dd');
+      totals.expenses = addToBucket(totals.expenses, expense.amount, sign);
+      getExpenseAllocations(expense).forEach(({ category, amount }) =>
+        addToKey(totals.byCategory, category, amount, sign)
+      );
+      new Set(expense.tags ?? []).forEach((tag) => addToKey(totals.byTag, tag, expense.amount, sign));
+
+      const spent = (totals.byDay[day] ?? 0) + sign * expense.amount;
+      if (spent === 0) {
+        delete totals.byDay[day];
+      } else {
+        totals.byDay[day] = spent;
+      }
+    } else {
+      totals.income = addToBucket(totals.income, change.record.amount, sign);
+      addToKey(totals.byIncomeType, change.record.type, change.record.amount, sign);
+    }
+
+    if (totals.expenses.count <= 0 && totals.income.count <= 0) {
+      delete result[currency];
+    } else {
+      result[currency] = totals;
+    }
+  });
+
+  return result;
+};
+
+/**
+ * Build every month's per-currency totals from scratch
+ */
+export const buildRollups = (
+  expenses: Expense[],
+  income: Income[]
+): Map<string, Record<string, RollupTotals>> => {
+  const changesByMonth = new Map<string, RollupChange[]>();
+  const add = (change: RollupChange) => {
+    const month = getRollupMonth(change.record);
+    changesByMonth.set(month, [...(changesByMonth.get(month) ?? []), change]);
+  };
+
+  expenses.forEach((record) => add({ kind: 'expense', record, sign: 1 }));
+  income.forEach((record) => add({ kind: 'income', record, sign: 1 }));
+
+  return new Map(Array.from(changesByMonth, ([month, changes]) => [month, applyRollupChanges({}, changes)]));
+};
+
+// ============================================
+// Combining
+// ============================================
+
+/**
+ * Add several sets of totals together. Day totals are only meaningful
+ * when every set is from the same month.
+ */
+export const mergeRollupTotals = (totalsList: RollupTotals[]): RollupTotals => {
+  const merged = createRollupTotals();
+  const sumBuckets = (a: RollupBucket | undefined, b: RollupBucket): RollupBucket => ({
+    amount: (a?.amount ?? 0) + b.amount,
+    count: (a?.count ?? 0) + b.count,
+  });
+  const mergeBuckets = (target: Record<string, RollupBucket>, source: Record<string, RollupBucket>) => {
+    Object.entries(source).forEach(([key, bucket]) => {
+      target[key] = sumBuckets(target[key], bucket);
+    });
+  };
+
+  totalsList.forEach((totals) => {
+    merged.expenses = sumBuckets(merged.expenses, totals.expenses);
+    merged.income = sumBuckets(merged.income, totals.income);
+    mergeBuckets(merged.byCategory, totals.byCategory);
+    mergeBuckets(merged.byTag, totals.byTag);
+    mergeBuckets(merged.byIncomeType, totals.byIncomeType);
+    Object.entries(totals.byDay).forEach(([day, amount]) => {
+      merged.byDay[day] = (merged.byDay[day] ?? 0) + amount;
+    });
+  });
+
+  return merged;
+};
+
+/**
+ * Sum a month's per-currency totals in the base currency. Day totals convert at
+ * that day's rate; the rest at the rate in effect on the last day of the month.
+ */
+export const toBaseRollupTotals = (
+  currencies: Record<string, RollupTotals>,
+  month: string,
+  baseCurrency: CurrencyCode,
+  rates: ExchangeRate[]
+): RollupTotals => {
+  const monthStart = parseMonth(month);
+  const monthEnd = endOfMonth(monthStart);
+
+  return mergeRollupTotals(
+    Object.entries(currencies).map(([currency, totals]) => {
+      if (currency === ROLLUP_BASE_CURRENCY || currency === baseCurrency) return totals;
+
+      const convert = (amount: number, date = monthEnd) =>
+        convertAmount(amount, currency as CurrencyCode, baseCurrency, date, rates);
+      const convertBuckets = (buckets: Record<string, RollupBucket>) =>
+        Object.fromEntries(
+          Object.entries(buckets).map(([key, bucket]) => [key, { amount: convert(bucket.amount), count: bucket.count }])
+        );
+
+      return {
+        expenses: { amount: convert(totals.expenses.amount), count: totals.expenses.count },
+        income: { amount: convert(totals.income.amount), count: totals.income.count },
+        byCategory: convertBuckets(totals.byCategory),
+        byTag: convertBuckets(totals.byTag),
+        byIncomeType: convertBuckets(totals.byIncomeType),
+        byDay: Object.fromEntries(
+          Object.entries(totals.byDay).map(([day, amount]) => [
+            day,
+            convert(amount, new Date(monthStart.getFullYear(), monthStart.getMonth(), Number(day))),
+          ])
+        ),
+      };
+    })
+  );
+};
+
+// ============================================
+// Analytics From Rollups
+// ============================================
+
+/**
+ * Category breakdown of a period's totals, largest first
+ */
+export const getCategoryBreakdownFromRollup = (totals: RollupTotals): CategoryBreakdown[] => {
+  const total = totals.expenses.amount;
+  if (total === 0) return [];
+
+  return Object.entries(totals.byCategory)
+    .map(([category, { amount, count }]) => ({ category, amount, percentage: (amount / total) * 100, count }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+/**
+ * Tag breakdown of a period's totals, largest first
+ */
+export const getTagBreakdownFromRollup = (totals: RollupTotals): TagBreakdown[] => {
+  const total = totals.expenses.amount;
+  if (total === 0) return [];
+
+  return Object.entries(totals.byTag)
+    .map(([tag, { amount, count }]) => ({ tag, amount, percentage: (amount / total) * 100, count }))
+    .sort((a, b) => b.amount - a.amount);
+};
+
+/**
+ * Spending per month, oldest first, for months with any expenses
+ */
+export const getMonthlyTotalsFromRollups = (months: RollupMonths): MonthlyTotal[] =>
+  Array.from(months)
+    .filter(([, totals]) => totals.expenses.count > 0)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, totals]) => ({
+      month: format(parseMonth(month), 'MMM'),
+      year: parseMonth(month).getFullYear(),
+      total: totals.expenses.amount,
+      count: totals.expenses.count,
+    }));
+
+/**
+ * Income against spending for the last six months, this one included
+ */
+export const getIncomeVsExpensesFromRollups = (
+  months: RollupMonths,
+  referenceDate = new Date()
+): IncomeVsExpense[] =>
+  [5, 4, 3, 2, 1, 0].map((monthsAgo) => {
+    const date = new Date(referenceDate.getFullYear(), referenceDate.getMonth() - monthsAgo, 1);
+    const totals = months.get(getMonthYearKey(date));
+    const income = totals?.income.amount ?? 0;
+    const expenses = totals?.expenses.amount ?? 0;
+    const net = income - expenses;
+
+    return {
+      period: format(date, 'MMM yyyy'),
+      income,
+      expenses,
+      net,
+      savingsRate: income > 0 ? (net / income) * 100 : 0,
+    };
+  });
+
+const getDayAmount = (months: RollupMonths, day: Date): number =>
+  months.get(getMonthYearKey(day))?.byDay[format(day, 'dd')] ?? 0;
+
+/**
+ * Spending for each day between two dates, with intensity levels
+ */
+export const getDailySpendingFromRollups = (months: RollupMonths, startDate: Date, endDate: Date): DailySpending[] =>
+  eachDayOfInterval({ start: startDate, end: endDate }).map((day) => {
+    const amount = getDayAmount(months, day);
+    return { date: day, amount, intensity: getSpendingIntensity(amount) };
+  });
+
+/**
+ * Spending per week between two dates, with a running average
+ */
+export const getWeeklyTrendFromRollups = (months: RollupMonths, startDate: Date, endDate: Date): WeeklyTrend[] => {
+  let runningTotal = 0;
+
+  return eachWeekOfInterval({ start: startDate, end: endDate }, { weekStartsOn: 0 }).map((weekStart, index) => {
+    const weekEnd = endOfWeek(weekStart, { weekStartsOn: 0 });
+    const amount = eachDayOfInterval({ start: weekStart, end: weekEnd }).reduce(
+      (sum, day) => sum + getDayAmount(months, day),
+      0
+    );
+    runningTotal += amount;
+
+    return { week: index + 1, weekStart, weekEnd, amount, average: runningTotal / (index + 1) };
+  });
+};
+
+/**
+ * Change in spending from last month to this one, as a percentage
+ */
+export const getMoMChangeFromRollups = (months: RollupMonths, referenceDate = new Date()): number => {
+  const previous = new Date(referenceDate.getFullYear(), referenceDate.getMonth() - 1, 1);
+  return calculatePercentageChange(
+    months.get(getMonthYearKey(referenceDate))?.expenses.amount ?? 0,
+    months.get(getMonthYearKey(previous))?.expenses.amount ?? 0
+  );
+};
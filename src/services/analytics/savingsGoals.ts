@@ -0,0 +1,101 @@
+// ============================================
+// Savings Goal Analytics
+// ============================================
+
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { Expense, SavingsGoal, SavingsGoalProgress } from '@/types';
+import { getExpenseAllocations } from './calculations';
+
+// ============================================
+// Constants
+// ============================================
+
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// Paces measured over less than this are too noisy to project from
+const MIN_PACE_DAYS = 14;
+
+// ============================================
+// Progress
+// ============================================
+
+/**
+ * How far a savings goal has come, what it needs each month to land on time,
+ * and when it will be reached at the pace so far.
+ * Expenses should be in the base currency. A linked account's balance wins over contributions,
+ * and its pace is measured from the balance recorded when the goal was created.
+ */
+export const calculateSavingsGoalProgress = (
+  goal: SavingsGoal,
+  expenses: Expense[],
+  accountBalance?: number,
+  today: Date = new Date()
+): SavingsGoalProgress => {
+  const createdAt = goal.createdAt.toDate();
+
+  // Spending in the linked category after the goal was set up is money moved into it
+  const categoryHistory = goal.category
+    ? expenses
+        .filter((expense) => expense.date.toDate() >= startOfDay(createdAt))
+        .flatMap((expense) =>
+          getExpenseAllocations(expense)
+            .filter((allocation) => allocation.category === goal.category)
+            .map((allocation) => ({
+              id: expense.id,
+              date: expense.date.toDate(),
+              amount: allocation.amount,
+              note: expense.description || undefined,
+              source: 'category' as const,
+            }))
+        )
+    : [];
+  // Contributions logged before an account was linked no longer count
+  const manualHistory = (goal.accountId ? [] : (goal.contributions ?? [])).map((contribution) => ({
+    id: contribution.id,
+    date: contribution.date.toDate(),
+    amount: contribution.amount,
+    note: contribution.note,
+    source: 'manual' as const,
+  }));
+  const history = [...manualHistory, ...categoryHistory].sort((a, b) => b.date.getTime() - a.date.getTime());
+
+  const currentAmount =
+    accountBalance ?? goal.startingAmount + history.reduce((sum, entry) => sum + entry.amount, 0);
+  const remaining = Math.max(0, goal.targetAmount - currentAmount);
+  const percentage = goal.targetAmount > 0 ? Math.min(100, (currentAmount / goal.targetAmount) * 100) : 100;
+
+  const targetDate = goal.targetDate.toDate();
+  const daysLeft = differenceInCalendarDays(targetDate, today);
+  const requiredMonthly = remaining > 0 ? Math.ceil(remaining / Math.max(1, daysLeft / DAYS_PER_MONTH)) : 0;
+
+  const elapsedDays = differenceInCalendarDays(today, createdAt);
+  const averageMonthly =
+    elapsedDays >= MIN_PACE_DAYS ? Math.round(((currentAmount - goal.startingAmount) / elapsedDays) * DAYS_PER_MONTH) : 0;
+  const projectedDate =
+    remaining === 0
+      ? startOfDay(today)
+      : averageMonthly > 0
+        ? addDays(startOfDay(today), Math.ceil((remaining / averageMonthly) * DAYS_PER_MONTH))
+        : null;
+
+  const status: SavingsGoalProgress['status'] =
+    remaining === 0
+      ? 'completed'
+      : daysLeft < 0
+        ? 'overdue'
+        : projectedDate && projectedDate <= targetDate
+          ? 'on_track'
+          : 'behind';
+
+  return {
+    goal,
+    currentAmount,
+    remaining,
+    percentage,
+    requiredMonthly,
+    averageMonthly,
+    projectedDate,
+    status,
+    history,
+  };
+};
@@ -0,0 +1,589 @@
+// ============================================
+// Account Backup & Restore Functions
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import {
+  Expense,
+  Income,
+  CustomCategory,
+  RecurringRule,
+  CategorizationRule,
+  CategoryBudget,
+  BudgetTransfer,
+  Account,
+  AccountTransfer,
+  Payee,
+  SavingsGoal,
+  Debt,
+  UserGoals,
+  ExpenseCategory,
+  BackupCollection,
+  RestoreMode,
+} from '@/types';
+import { backupSchema, BackupSchema, BACKUP_VERSION } from '@/lib/utils/validators';
+import { toCsv, CsvValue } from '@/lib/utils/csv';
+import { formatDateByFormat, formatAmountForInput } from '@/lib/utils/formatters';
+import { CurrencyCode, DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
+import {
+  restoreExpenses,
+  restoreIncome,
+  restoreCustomCategories,
+  restoreRecurringRules,
+  restoreCategorizationRules,
+  restoreBudgets,
+  restoreBudgetTransfers,
+  restoreAccounts,
+  restoreAccountTransfers,
+  restorePayees,
+  restoreSavingsGoals,
+  restoreDebts,
+  saveGoals,
+  rebuildRollups,
+} from '@/services/firebase';
+
+// ============================================
+// Types
+// ============================================
+
+export interface BackupSource {
+  expenses: Expense[];
+  income: Income[];
+  customCategories: CustomCategory[];
+  recurringRules: RecurringRule[];
+  categorizationRules: CategorizationRule[];
+  budgets: CategoryBudget[];
+  budgetTransfers: BudgetTransfer[];
+  accounts: Account[];
+  accountTransfers: AccountTransfer[];
+  payees: Payee[];
+  savingsGoals: SavingsGoal[];
+  debts: Debt[];
+  goals: UserGoals | null;
+  settings: BackupSchema['settings'];
+}
+
+const toIso = (timestamp: Timestamp): string => timestamp.toDate().toISOString();
+
+const fromIso = (value: string): Timestamp => Timestamp.fromDate(new Date(value));
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Build a versioned backup of everything in the account
+ */
+export const createBackup = (source: BackupSource): BackupSchema => ({
+  app: 'priz-finance',
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  expenses: source.expenses.map((exp) => ({
+    id: exp.id,
+    amount: exp.amount,
+    ...(exp.currency && { currency: exp.currency }),
+    category: exp.category,
+    description: exp.description || '',
+    date: toIso(exp.date),
+    createdAt: toIso(exp.createdAt),
+    updatedAt: toIso(exp.updatedAt),
+    isRecurring: exp.isRecurring,
+    ...(exp.recurringId && { recurringId: exp.recurringId }),
+    tags: exp.tags || [],
+    ...(exp.accountId && { accountId: exp.accountId }),
+    ...(exp.payeeId && { payeeId: exp.payeeId }),
+    ...(exp.debtId && { debtId: exp.debtId }),
+    ...(exp.splits?.length && { splits: exp.splits }),
+  })),
+  income: source.income.map((inc) => ({
+    id: inc.id,
+    amount: inc.amount,
+    ...(inc.currency && { currency: inc.currency }),
+    type: inc.type,
+    source: inc.source,
+    date: toIso(inc.date),
+    createdAt: toIso(inc.createdAt),
+    updatedAt: toIso(inc.updatedAt),
+    isRegular: inc.isRegular,
+    ...(inc.note && { note: inc.note }),
+    ...(inc.accountId && { accountId: inc.accountId }),
+  })),
+  customCategories: source.customCategories.map((cat) => ({
+    id: cat.id,
+    name: cat.name,
+    icon: cat.icon,
+    color: cat.color,
+    type: cat.type,
+    order: cat.order,
+    ...(cat.isDeleted && { isDeleted: true }),
+    createdAt: toIso(cat.createdAt),
+    updatedAt: toIso(cat.updatedAt),
+  })),
+  recurringRules: source.recurringRules.map((rule) => ({
+    id: rule.id,
+    amount: rule.amount,
+    ...(rule.currency && { currency: rule.currency }),
+    category: rule.category,
+    description: rule.description,
+    tags: rule.tags,
+    ...(rule.accountId && { accountId: rule.accountId }),
+    frequency: rule.frequency,
+    ...(rule.dayOfMonth !== undefined && { dayOfMonth: rule.dayOfMonth }),
+    startDate: toIso(rule.startDate),
+    ...(rule.endDate && { endDate: toIso(rule.endDate) }),
+    ...(rule.lastGeneratedDate && { lastGeneratedDate: toIso(rule.lastGeneratedDate) }),
+    isActive: rule.isActive,
+    createdAt: toIso(rule.createdAt),
+    updatedAt: toIso(rule.updatedAt),
+  })),
+  categorizationRules: source.categorizationRules.map((rule) => ({
+    id: rule.id,
+    name: rule.name,
+    kind: rule.kind,
+    conditions: rule.conditions,
+    actions: rule.actions,
+    priority: rule.priority,
+    isActive: rule.isActive,
+    createdAt: toIso(rule.createdAt),
+    updatedAt: toIso(rule.updatedAt),
+  })),
+  budgets: source.budgets.map((budget) => ({
+    category: budget.category,
+    amount: budget.amount,
+    createdAt: toIso(budget.createdAt),
+    updatedAt: toIso(budget.updatedAt),
+  })),
+  budgetTransfers: source.budgetTransfers.map((transfer) => ({
+    id: transfer.id,
+    fromCategory: transfer.fromCategory,
+    toCategory: transfer.toCategory,
+    amount: transfer.amount,
+    date: toIso(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: toIso(transfer.createdAt),
+  })),
+  accounts: source.accounts.map((account) => ({
+    id: account.id,
+    name: account.name,
+    type: account.type,
+    openingBalance: account.openingBalance,
+    currency: account.currency,
+    createdAt: toIso(account.createdAt),
+    updatedAt: toIso(account.updatedAt),
+  })),
+  accountTransfers: source.accountTransfers.map((transfer) => ({
+    id: transfer.id,
+    fromAccountId: transfer.fromAccountId,
+    toAccountId: transfer.toAccountId,
+    amount: transfer.amount,
+    ...(transfer.toAmount !== undefined && { toAmount: transfer.toAmount }),
+    date: toIso(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: toIso(transfer.createdAt),
+  })),
+  payees: source.payees.map((payee) => ({
+    id: payee.id,
+    name: payee.name,
+    aliases: payee.aliases,
+    ...(payee.defaultCategory && { defaultCategory: payee.defaultCategory }),
+    createdAt: toIso(payee.createdAt),
+    updatedAt: toIso(payee.updatedAt),
+  })),
+  savingsGoals: source.savingsGoals.map((goal) => ({
+    id: goal.id,
+    name: goal.name,
+    targetAmount: goal.targetAmount,
+    targetDate: toIso(goal.targetDate),
+    startingAmount: goal.startingAmount,
+    ...(goal.accountId && { accountId: goal.accountId }),
+    ...(goal.category && { category: goal.category }),
+    contributions: goal.contributions.map((contribution) => ({
+      id: contribution.id,
+      amount: contribution.amount,
+      date: toIso(contribution.date),
+      ...(contribution.note && { note: contribution.note }),
+    })),
+    color: goal.color,
+    createdAt: toIso(goal.createdAt),
+    updatedAt: toIso(goal.updatedAt),
+  })),
+  debts: source.debts.map((debt) => ({
+    id: debt.id,
+    name: debt.name,
+    balance: debt.balance,
+    balanceDate: toIso(debt.balanceDate),
+    apr: debt.apr,
+    minimumPayment: debt.minimumPayment,
+    dueDay: debt.dueDay,
+    createdAt: toIso(debt.createdAt),
+    updatedAt: toIso(debt.updatedAt),
+  })),
+  goals: source.goals
+    ? { allocations: source.goals.allocations, monthlyIncomeTarget: source.goals.monthlyIncomeTarget }
+    : null,
+  settings: source.settings,
+});
+
+/**
+ * Serialize a backup for download
+ */
+export const serializeBackup = (backup: BackupSchema): string => {
+  return JSON.stringify(backup, null, 2);
+};
+
+// The rate table has its own CSV, and saved filters are only useful inside the app
+const SETTINGS_WITHOUT_CSV = new Set(['exchangeRates', 'savedFilters']);
+
+/**
+ * Render one part of a backup as CSV.
+ * Dates use the backup's date format so the file can go back through CSV import.
+ */
+export const getBackupCsv = (backup: BackupSchema, collection: BackupCollection): string => {
+  const formatDay = (value: string) => formatDateByFormat(new Date(value), backup.settings.dateFormat);
+  const formatAmount = (cents: number, currency: CurrencyCode = backup.settings.currency) =>
+    formatAmountForInput(cents, currency);
+  const accountsById = new Map(backup.accounts.map((account) => [account.id, account]));
+  const accountName = (accountId: string = DEFAULT_ACCOUNT_ID) => accountsById.get(accountId)?.name ?? accountId;
+  let rows: CsvValue[][];
+
+  switch (collection) {
+    case 'expenses':
+      rows = [
+        ['Date', 'Amount', 'Currency', 'Account', 'Category', 'Description', 'Tags', 'Recurring', 'Splits'],
+        ...backup.expenses.map((exp) => [
+          formatDay(exp.date),
+          formatAmount(exp.amount, exp.currency),
+          exp.currency ?? backup.settings.currency,
+          accountName(exp.accountId),
+          exp.category,
+          exp.description,
+          exp.tags.join(';'),
+          exp.isRecurring,
+          (exp.splits ?? [])
+            .map((split) => `${split.category}:${formatAmount(split.amount, exp.currency)}`)
+            .join(';'),
+        ]),
+      ];
+      break;
+    case 'income':
+      rows = [
+        ['Date', 'Amount', 'Currency', 'Account', 'Source', 'Type', 'Note', 'Regular'],
+        ...backup.income.map((inc) => [
+          formatDay(inc.date),
+          formatAmount(inc.amount, inc.currency),
+          inc.currency ?? backup.settings.currency,
+          accountName(inc.accountId),
+          inc.source,
+          inc.type,
+          inc.note,
+          inc.isRegular,
+        ]),
+      ];
+      break;
+    case 'customCategories':
+      rows = [
+        ['Id', 'Name', 'Type', 'Icon', 'Color', 'Deleted'],
+        ...backup.customCategories.map((cat) => [
+          cat.id,
+          cat.name,
+          cat.type,
+          cat.icon,
+          cat.color,
+          cat.isDeleted ?? false,
+        ]),
+      ];
+      break;
+    case 'budgets':
+      rows = [
+        ['Category', 'Monthly Budget'],
+        ...backup.budgets.map((budget) => [budget.category, formatAmount(budget.amount)]),
+      ];
+      break;
+    case 'goals':
+      rows = [
+        ['Category', 'Name', 'Target %', 'Monthly Income Target'],
+        ...(backup.goals?.allocations ?? []).map((alloc) => [
+          alloc.category,
+          alloc.name,
+          alloc.targetPercentage,
+          formatAmount(backup.goals?.monthlyIncomeTarget ?? 0),
+        ]),
+      ];
+      break;
+    case 'accounts':
+      rows = [
+        ['Id', 'Name', 'Type', 'Currency', 'Opening Balance'],
+        ...backup.accounts.map((account) => [
+          account.id,
+          account.name,
+          account.type,
+          account.currency,
+          formatAmount(account.openingBalance, account.currency),
+        ]),
+      ];
+      break;
+    case 'accountTransfers':
+      rows = [
+        ['Date', 'From', 'To', 'Amount', 'Received', 'Note'],
+        ...backup.accountTransfers.map((transfer) => {
+          const from = accountsById.get(transfer.fromAccountId);
+          const to = accountsById.get(transfer.toAccountId);
+          return [
+            formatDay(transfer.date),
+            accountName(transfer.fromAccountId),
+            accountName(transfer.toAccountId),
+            formatAmount(transfer.amount, from?.currency),
+            transfer.toAmount !== undefined ? formatAmount(transfer.toAmount, to?.currency) : '',
+            transfer.note,
+          ];
+        }),
+      ];
+      break;
+    case 'exchangeRates':
+      rows = [
+        ['Date', 'From', 'To', 'Rate'],
+        ...backup.settings.exchangeRates.map((entry) => [entry.date, entry.from, entry.to, entry.rate]),
+      ];
+      break;
+    case 'settings': {
+      rows = [
+        ['Setting', 'Value'],
+        ...Object.entries(backup.settings)
+          .filter(([key]) => !SETTINGS_WITHOUT_CSV.has(key))
+          .map(([key, value]) => [key, Array.isArray(value) ? value.join(' ') : value]),
+      ];
+      break;
+    }
+  }
+
+  return toCsv(rows);
+};
+
+// ============================================
+// Restore
+// ============================================
+
+/**
+ * Parse and validate a backup file.
+ * Throws with the first problem found if the file isn't a usable backup.
+ */
+export const parseBackup = (text: string): BackupSchema => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  const result = backupSchema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue.path.length > 0 ? ` at ${issue.path.join('.')}` : '';
+    throw new Error(`${issue.message}${path}`);
+  }
+
+  return result.data;
+};
+
+/**
+ * Write a backup into the user's account.
+ * Records keep their ids, so restoring the same file twice in merge mode is a no-op.
+ * Settings live in the settings provider and are restored by the caller.
+ */
+export const restoreBackup = async (
+  userId: string,
+  backup: BackupSchema,
+  mode: RestoreMode
+): Promise<void> => {
+  const expenses: Expense[] = backup.expenses.map((exp) => ({
+    id: exp.id,
+    userId,
+    amount: exp.amount,
+    ...(exp.currency && { currency: exp.currency }),
+    category: exp.category as ExpenseCategory,
+    description: exp.description,
+    date: fromIso(exp.date),
+    createdAt: fromIso(exp.createdAt),
+    updatedAt: fromIso(exp.updatedAt),
+    isRecurring: exp.isRecurring,
+    ...(exp.recurringId && { recurringId: exp.recurringId }),
+    tags: exp.tags,
+    ...(exp.accountId && { accountId: exp.accountId }),
+    ...(exp.payeeId && { payeeId: exp.payeeId }),
+    ...(exp.debtId && { debtId: exp.debtId }),
+    ...(exp.splits && {
+      splits: exp.splits.map((split) => ({ ...split, category: split.category as ExpenseCategory })),
+    }),
+  }));
+
+  const income: Income[] = backup.income.map((inc) => ({
+    id: inc.id,
+    userId,
+    amount: inc.amount,
+    ...(inc.currency && { currency: inc.currency }),
+    type: inc.type,
+    source: inc.source,
+    date: fromIso(inc.date),
+    createdAt: fromIso(inc.createdAt),
+    updatedAt: fromIso(inc.updatedAt),
+    isRegular: inc.isRegular,
+    ...(inc.note && { note: inc.note }),
+    ...(inc.accountId && { accountId: inc.accountId }),
+  }));
+
+  const customCategories: CustomCategory[] = backup.customCategories.map((cat) => ({
+    id: cat.id,
+    userId,
+    name: cat.name,
+    icon: cat.icon,
+    color: cat.color,
+    type: cat.type,
+    order: cat.order,
+    ...(cat.isDeleted && { isDeleted: true }),
+    createdAt: fromIso(cat.createdAt),
+    updatedAt: fromIso(cat.updatedAt),
+  }));
+
+  const recurringRules: RecurringRule[] = backup.recurringRules.map((rule) => ({
+    id: rule.id,
+    userId,
+    amount: rule.amount,
+    ...(rule.currency && { currency: rule.currency }),
+    category: rule.category as ExpenseCategory,
+    description: rule.description,
+    tags: rule.tags,
+    ...(rule.accountId && { accountId: rule.accountId }),
+    frequency: rule.frequency,
+    ...(rule.dayOfMonth !== undefined && { dayOfMonth: rule.dayOfMonth }),
+    startDate: fromIso(rule.startDate),
+    ...(rule.endDate && { endDate: fromIso(rule.endDate) }),
+    ...(rule.lastGeneratedDate && { lastGeneratedDate: fromIso(rule.lastGeneratedDate) }),
+    isActive: rule.isActive,
+    createdAt: fromIso(rule.createdAt),
+    updatedAt: fromIso(rule.updatedAt),
+  }));
+
+  const categorizationRules: CategorizationRule[] = backup.categorizationRules.map((rule) => ({
+    id: rule.id,
+    userId,
+    name: rule.name,
+    kind: rule.kind,
+    conditions: rule.conditions,
+    actions: {
+      ...(rule.actions.category && { category: rule.actions.category as ExpenseCategory }),
+      ...(rule.actions.tags && { tags: rule.actions.tags }),
+      ...(rule.actions.incomeType && { incomeType: rule.actions.incomeType }),
+    },
+    priority: rule.priority,
+    isActive: rule.isActive,
+    createdAt: fromIso(rule.createdAt),
+    updatedAt: fromIso(rule.updatedAt),
+  }));
+
+  const budgets: CategoryBudget[] = backup.budgets.map((budget) => ({
+    id: budget.category,
+    userId,
+    category: budget.category,
+    amount: budget.amount,
+    createdAt: fromIso(budget.createdAt),
+    updatedAt: fromIso(budget.updatedAt),
+  }));
+
+  const budgetTransfers: BudgetTransfer[] = backup.budgetTransfers.map((transfer) => ({
+    id: transfer.id,
+    userId,
+    fromCategory: transfer.fromCategory,
+    toCategory: transfer.toCategory,
+    amount: transfer.amount,
+    date: fromIso(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: fromIso(transfer.createdAt),
+  }));
+
+  const accounts: Account[] = backup.accounts.map((account) => ({
+    id: account.id,
+    userId,
+    name: account.name,
+    type: account.type,
+    openingBalance: account.openingBalance,
+    currency: account.currency,
+    createdAt: fromIso(account.createdAt),
+    updatedAt: fromIso(account.updatedAt),
+  }));
+
+  const accountTransfers: AccountTransfer[] = backup.accountTransfers.map((transfer) => ({
+    id: transfer.id,
+    userId,
+    fromAccountId: transfer.fromAccountId,
+    toAccountId: transfer.toAccountId,
+    amount: transfer.amount,
+    ...(transfer.toAmount !== undefined && { toAmount: transfer.toAmount }),
+    date: fromIso(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: fromIso(transfer.createdAt),
+  }));
+
+  const payees: Payee[] = backup.payees.map((payee) => ({
+    id: payee.id,
+    userId,
+    name: payee.name,
+    aliases: payee.aliases,
+    ...(payee.defaultCategory && { defaultCategory: payee.defaultCategory as ExpenseCategory }),
+    createdAt: fromIso(payee.createdAt),
+    updatedAt: fromIso(payee.updatedAt),
+  }));
+
+  const savingsGoals: SavingsGoal[] = backup.savingsGoals.map((goal) => ({
+    id: goal.id,
+    userId,
+    name: goal.name,
+    targetAmount: goal.targetAmount,
+    targetDate: fromIso(goal.targetDate),
+    startingAmount: goal.startingAmount,
+    ...(goal.accountId && { accountId: goal.accountId }),
+    ...(goal.category && { category: goal.category as ExpenseCategory }),
+    contributions: goal.contributions.map((contribution) => ({
+      id: contribution.id,
+      amount: contribution.amount,
+      date: fromIso(contribution.date),
+      ...(contribution.note && { note: contribution.note }),
+    })),
+    color: goal.color,
+    createdAt: fromIso(goal.createdAt),
+    updatedAt: fromIso(goal.updatedAt),
+  }));
+
+  const debts: Debt[] = backup.debts.map((debt) => ({
+    id: debt.id,
+    userId,
+    name: debt.name,
+    balance: debt.balance,
+    balanceDate: fromIso(debt.balanceDate),
+    apr: debt.apr,
+    minimumPayment: debt.minimumPayment,
+    dueDay: debt.dueDay,
+    createdAt: fromIso(debt.createdAt),
+    updatedAt: fromIso(debt.updatedAt),
+  }));
+
+  // Accounts, payees and debts go first so restored transactions never point at a missing one
+  await restoreAccounts(userId, accounts, mode);
+  await restorePayees(userId, payees, mode);
+  await restoreDebts(userId, debts, mode);
+  await restoreCustomCategories(userId, customCategories, mode);
+  await restoreRecurringRules(userId, recurringRules, mode);
+  await restoreCategorizationRules(userId, categorizationRules, mode);
+  await restoreExpenses(userId, expenses, mode);
+  await restoreIncome(userId, income, mode);
+  await restoreBudgets(userId, budgets, mode);
+  await restoreBudgetTransfers(userId, budgetTransfers, mode);
+  await restoreAccountTransfers(userId, accountTransfers, mode);
+  await restoreSavingsGoals(userId, savingsGoals, mode);
+
+  if (backup.goals) {
+    await saveGoals(userId, backup.goals.allocations, backup.goals.monthlyIncomeTarget);
+  }
+
+  // Restored records bypass the incremental updates, so the month summaries are recounted
+  await rebuildRollups(userId);
+};
@@ -0,0 +1,5 @@
+// ============================================
+// Backup Services Barrel Export
+// ============================================
+
+export * from './backup';
@@ -0,0 +1,204 @@
+// ============================================
+// Accounts & Transfers Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection, FinanceCollection, RepositoryWrite } from './repository';
+import { Account, NewAccount, AccountTransfer, NewAccountTransfer, RestoreMode } from '@/types';
+import { CurrencyCode, DEFAULT_ACCOUNT_ID, DEFAULT_ACCOUNT_NAME } from '@/lib/utils/constants';
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all accounts for a user, Main first
+ */
+export const getAccounts = async (userId: string): Promise<Account[]> => {
+  const accounts = (await repository.list(userId, 'accounts', { orderBy: 'createdAt' })) as unknown as Account[];
+
+  return [...accounts].sort(
+    (a, b) => Number(b.id === DEFAULT_ACCOUNT_ID) - Number(a.id === DEFAULT_ACCOUNT_ID)
+  );
+};
+
+/**
+ * Add a new account
+ */
+export const addAccount = async (userId: string, account: NewAccount): Promise<string> => {
+  const data = {
+    userId,
+    name: account.name.trim(),
+    type: account.type,
+    openingBalance: account.openingBalance,
+    currency: account.currency,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'accounts');
+  await repository.set(userId, 'accounts', id, data);
+
+  return id;
+};
+
+/**
+ * Update an account's details
+ */
+export const updateAccount = async (
+  userId: string,
+  accountId: string,
+  updates: Partial<NewAccount>
+): Promise<void> => {
+  const data = {
+    ...updates,
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    updatedAt: Timestamp.now(),
+  };
+
+  await repository.update(userId, 'accounts', accountId, data);
+};
+
+/**
+ * Whether any transaction or transfer still points at an account
+ */
+const isAccountInUse = async (userId: string, accountId: string): Promise<boolean> => {
+  const references: [FinanceCollection, string][] = [
+    ['expenses', 'accountId'],
+    ['income', 'accountId'],
+    ['accountTransfers', 'fromAccountId'],
+    ['accountTransfers', 'toAccountId'],
+  ];
+  const checks = references.map(async ([collectionName, field]) => {
+    const matches = await repository.list(userId, collectionName, { where: { field, value: accountId }, limit: 1 });
+    return matches.length > 0;
+  });
+
+  return (await Promise.all(checks)).some(Boolean);
+};
+
+/**
+ * Delete an account.
+ * Main can't be deleted, and neither can an account that transactions still belong to.
+ */
+export const deleteAccount = async (userId: string, accountId: string): Promise<void> => {
+  if (accountId === DEFAULT_ACCOUNT_ID) {
+    throw new Error(`The ${DEFAULT_ACCOUNT_NAME} account can't be deleted`);
+  }
+  if (await isAccountInUse(userId, accountId)) {
+    throw new Error('Move or delete the transactions in this account first');
+  }
+
+  await repository.remove(userId, 'accounts', accountId);
+};
+
+// ============================================
+// Transfers
+// ============================================
+
+/**
+ * Record money moving from one account to another
+ */
+export const addAccountTransfer = async (
+  userId: string,
+  transfer: NewAccountTransfer
+): Promise<string> => {
+  if (transfer.fromAccountId === transfer.toAccountId) {
+    throw new Error('Choose two different accounts');
+  }
+
+  const data = {
+    userId,
+    fromAccountId: transfer.fromAccountId,
+    toAccountId: transfer.toAccountId,
+    amount: transfer.amount,
+    ...(transfer.toAmount !== undefined && { toAmount: transfer.toAmount }),
+    date: Timestamp.fromDate(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'accountTransfers');
+  await repository.set(userId, 'accountTransfers', id, data);
+
+  return id;
+};
+
+/**
+ * Get every transfer between accounts, newest first
+ */
+export const getAccountTransfers = async (userId: string): Promise<AccountTransfer[]> => {
+  const transfers = await repository.list(userId, 'accountTransfers', { orderBy: 'date', direction: 'desc' });
+  return transfers as unknown as AccountTransfer[];
+};
+
+/**
+ * Delete a transfer between accounts
+ */
+export const deleteAccountTransfer = async (userId: string, transferId: string): Promise<void> => {
+  await repository.remove(userId, 'accountTransfers', transferId);
+};
+
+// ============================================
+// Migration
+// ============================================
+
+/**
+ * Create the Main account and move every transaction that has no account into it.
+ * Safe to run again: Main has a fixed id and only rows without an account are touched.
+ */
+export const migrateToAccounts = async (userId: string, currency: CurrencyCode): Promise<void> => {
+  const main = {
+    userId,
+    name: DEFAULT_ACCOUNT_NAME,
+    type: 'checking' as const,
+    openingBalance: 0,
+    currency,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  await repository.set(userId, 'accounts', DEFAULT_ACCOUNT_ID, main);
+
+  const collections: FinanceCollection[] = ['expenses', 'income', 'recurringRules'];
+  const writes = await Promise.all(
+    collections.map(async (collectionName): Promise<RepositoryWrite[]> =>
+      (await repository.list(userId, collectionName))
+        .filter((record) => !record.accountId)
+        .map((record) => ({
+          type: 'update',
+          collection: collectionName,
+          id: record.id,
+          data: { accountId: DEFAULT_ACCOUNT_ID },
+        }))
+    )
+  );
+
+  await repository.commit(userId, writes.flat());
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write accounts from a backup, keeping their ids
+ */
+export const restoreAccounts = async (
+  userId: string,
+  accounts: Account[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'accounts', accounts, mode);
+};
+
+/**
+ * Write transfers between accounts from a backup, keeping their ids
+ */
+export const restoreAccountTransfers = async (
+  userId: string,
+  transfers: AccountTransfer[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'accountTransfers', transfers, mode);
+};
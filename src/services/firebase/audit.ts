@@ -0,0 +1,106 @@
+// ============================================
+// Audit Log Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { repository } from './repository';
+import { commitWrites, createRecordId, readCachedRecords, isBrowserOnline } from './sync';
+import { AuditChange, AuditEntry, AuditSource, FieldChange } from '@/types';
+
+// Bookkeeping fields that change on every write and say nothing about the figures
+const IGNORED_FIELDS = new Set(['id', 'userId', 'createdAt', 'updatedAt']);
+
+const toStoredValue = (value: unknown): unknown => (value === undefined ? null : value);
+
+/**
+ * Field-level differences between two versions of a record. A missing side
+ * counts as every field being null, so creates and deletes list each field.
+ */
+export const diffRecords = (previous: object | null, next: object | null): FieldChange[] => {
+  const before = (previous ?? {}) as Record<string, unknown>;
+  const after = (next ?? {}) as Record<string, unknown>;
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .sort();
+
+  return fields
+    .filter((field) => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map((field) => ({ field, from: toStoredValue(before[field]), to: toStoredValue(after[field]) }));
+};
+
+// ============================================
+// Writes
+// ============================================
+
+// Changes made within the same millisecond still sort in the order they happened
+let lastChangedAt = 0;
+
+const nextChangedAt = (): Timestamp => {
+  lastChangedAt = Math.max(Date.now(), lastChangedAt + 1);
+  return Timestamp.fromMillis(lastChangedAt);
+};
+
+/**
+ * Append an entry per changed record. Updates that leave every field as it was
+ * are skipped. Entries are queued like the changes they describe, so edits made
+ * offline are logged when they sync. Failures are logged rather than thrown,
+ * since the records themselves are already saved.
+ */
+export const recordAudit = async (
+  userId: string,
+  source: AuditSource,
+  changes: AuditChange[]
+): Promise<void> => {
+  const changedAt = nextChangedAt();
+  const entries = changes
+    .map((change) => ({
+      kind: change.kind,
+      recordId: change.previous?.id ?? change.next?.id ?? '',
+      action: change.action,
+      changes: diffRecords(change.previous, change.next),
+    }))
+    .filter((entry) => entry.recordId && entry.changes.length > 0);
+  if (entries.length === 0) return;
+
+  try {
+    await commitWrites(
+      userId,
+      entries.map((entry) => ({
+        type: 'set' as const,
+        collection: 'auditLog' as const,
+        id: createRecordId(userId, 'auditLog'),
+        data: { userId, ...entry, source, changedAt },
+      }))
+    );
+  } catch (error) {
+    console.error('Error recording audit log:', error);
+  }
+};
+
+// ============================================
+// Reads
+// ============================================
+
+/**
+ * Get every logged change to one expense or income record, newest first
+ */
+export const getAuditLog = async (
+  userId: string,
+  kind: AuditEntry['kind'],
+  recordId: string
+): Promise<AuditEntry[]> => {
+  // Entries logged on this device may not have reached the server yet
+  const local = await readCachedRecords<AuditEntry>(userId, 'auditLog');
+  const remote = isBrowserOnline()
+    ? ((await repository.list(userId, 'auditLog', {
+        where: { field: 'recordId', value: recordId },
+      })) as unknown as AuditEntry[])
+    : [];
+  const byId = new Map(
+    [...remote, ...local.filter((entry) => entry.recordId === recordId)].map((entry) => [entry.id, entry])
+  );
+
+  return Array.from(byId.values())
+    .filter((entry) => entry.kind === kind)
+    .sort((a, b) => b.changedAt.toMillis() - a.changedAt.toMillis());
+};
@@ -10,10 +10,18 @@ import {
   User,
   updateProfile,
 } from 'firebase/auth';
-import { doc, getDoc, setDoc, Timestamp } from 'firebase/firestore';
-import { auth, db, isDevMode, isFirebaseConfigured } from './config';
-import { UserProfile } from '@/types';
-import { DEFAULT_SALARY, DEFAULT_PAY_FREQUENCY, DEFAULT_CURRENCY } from '@/lib/utils/constants';
+import { Timestamp } from 'firebase/firestore';
+import { auth, isDevMode, isFirebaseConfigured } from './config';
+import { repository } from './repository';
+import { UserProfile, PaySchedule } from '@/types';
+import {
+  DEFAULT_SALARY,
+  DEFAULT_PAY_FREQUENCY,
+  DEFAULT_PAY_WEEKDAY,
+  DEFAULT_PAY_MONTH_DAY,
+  DEFAULT_CURRENCY,
+} from '@/lib/utils/constants';
+import { getNextPayday } from '@/lib/utils/dateUtils';
 
 // ============================================
 // Mock User for Development
@@ -31,6 +39,15 @@ const mockUser: UserProfile = {
   currency: DEFAULT_CURRENCY,
 };
 
+// The profile is a single document in the user's `profile` collection
+const PROFILE_DOC_ID = 'data';
+
+// Local backends have no sign-in, so the dev user's saved profile is layered over the mock one
+const getDevUser = async (): Promise<UserProfile> => ({
+  ...mockUser,
+  ...(await getUserProfile(mockUser.uid)),
+});
+
 // ============================================
 // Authentication Functions
 // ============================================
@@ -40,7 +57,7 @@ const mockUser: UserProfile = {
  */
 export const login = async (email: string, password: string): Promise<UserProfile> => {
   if (isDevMode) {
-    return mockUser;
+    return getDevUser();
   }
 
   if (!isFirebaseConfigured()) {
@@ -71,7 +88,7 @@ export const register = async (
   displayName?: string
 ): Promise<UserProfile> => {
   if (isDevMode) {
-    return mockUser;
+    return getDevUser();
   }
 
   if (!isFirebaseConfigured()) {
@@ -117,8 +134,15 @@ export const subscribeToAuthState = (
 ): (() => void) => {
   if (isDevMode) {
     // In dev mode, immediately call with mock user
-    setTimeout(() => callback(mockUser), 100);
-    return () => {};
+    const timeout = setTimeout(() => {
+      getDevUser()
+        .then(callback)
+        .catch((error) => {
+          console.error('Error loading dev user profile:', error);
+          callback(mockUser);
+        });
+    }, 100);
+    return () => clearTimeout(timeout);
   }
 
   if (!isFirebaseConfigured() || !auth) {
@@ -157,24 +181,23 @@ export const subscribeToAuthState = (
  * Get user profile from Firestore
  */
 export const getUserProfile = async (userId: string): Promise<UserProfile | null> => {
-  if (isDevMode) {
-    return mockUser;
-  }
-
-  if (!isFirebaseConfigured()) {
+  if (!isDevMode && !isFirebaseConfigured()) {
     return null;
   }
 
-  const userRef = doc(db, 'users', userId, 'profile', 'data');
-  const snapshot = await getDoc(userRef);
+  const record = await repository.get(userId, 'profile', PROFILE_DOC_ID);
 
-  if (!snapshot.exists()) {
+  if (!record) {
     return null;
   }
 
+  // The document id isn't part of the profile
+  const data: Partial<UserProfile> & { id?: string } = { ...record };
+  delete data.id;
+
   return {
     uid: userId,
-    ...snapshot.data(),
+    ...data,
   } as UserProfile;
 };
 
@@ -190,12 +213,11 @@ export const createUserProfile = async (user: User): Promise<UserProfile> => {
     lastLoginAt: Timestamp.now(),
     defaultSalary: DEFAULT_SALARY,
     payFrequency: DEFAULT_PAY_FREQUENCY,
-    nextPayday: Timestamp.fromDate(getNextBiweeklyPayday()),
+    nextPayday: Timestamp.fromDate(getDefaultNextPayday()),
     currency: DEFAULT_CURRENCY,
   };
 
-  const userRef = doc(db, 'users', user.uid, 'profile', 'data');
-  await setDoc(userRef, profile);
+  await repository.set(user.uid, 'profile', PROFILE_DOC_ID, profile);
 
   return profile;
 };
@@ -204,8 +226,7 @@ export const createUserProfile = async (user: User): Promise<UserProfile> => {
  * Update last login timestamp
  */
 const updateLastLogin = async (userId: string): Promise<void> => {
-  const userRef = doc(db, 'users', userId, 'profile', 'data');
-  await setDoc(userRef, { lastLoginAt: Timestamp.now() }, { merge: true });
+  await repository.set(userId, 'profile', PROFILE_DOC_ID, { lastLoginAt: Timestamp.now() }, { merge: true });
 };
 
 /**
@@ -215,13 +236,17 @@ export const updateUserProfile = async (
   userId: string,
   updates: Partial<UserProfile>
 ): Promise<void> => {
-  if (isDevMode) {
-    Object.assign(mockUser, updates);
-    return;
-  }
+  await repository.set(userId, 'profile', PROFILE_DOC_ID, updates, { merge: true });
+};
 
-  const userRef = doc(db, 'users', userId, 'profile', 'data');
-  await setDoc(userRef, updates, { merge: true });
+/**
+ * Keep the profile's pay frequency and next payday in step with the pay schedule
+ */
+export const updatePaySchedule = async (userId: string, schedule: PaySchedule): Promise<void> => {
+  await updateUserProfile(userId, {
+    payFrequency: schedule.frequency,
+    nextPayday: Timestamp.fromDate(getNextPayday(schedule)),
+  });
 };
 
 // ============================================
@@ -229,16 +254,12 @@ export const updateUserProfile = async (
 // ============================================
 
 /**
- * Calculate next bi-weekly payday (assuming Friday paydays)
+ * The next payday on the default schedule, until the user sets their own
  */
-const getNextBiweeklyPayday = (): Date => {
-  const today = new Date();
-  const dayOfWeek = today.getDay();
-
-  // Calculate days until next Friday
-  const daysUntilFriday = (5 - dayOfWeek + 7) % 7 || 7;
-  const nextFriday = new Date(today);
-  nextFriday.setDate(today.getDate() + daysUntilFriday);
-
-  return nextFriday;
-};
+const getDefaultNextPayday = (): Date =>
+  getNextPayday({
+    frequency: DEFAULT_PAY_FREQUENCY,
+    weekday: DEFAULT_PAY_WEEKDAY,
+    anchor: new Date(),
+    monthDays: [DEFAULT_PAY_MONTH_DAY],
+  });
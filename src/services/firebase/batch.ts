@@ -0,0 +1,38 @@
+// ============================================
+// Batched Firestore Writes
+// ============================================
+
+import { writeBatch, DocumentReference, DocumentData } from 'firebase/firestore';
+import { db, FIRESTORE_BATCH_LIMIT } from './config';
+
+// ============================================
+// Types
+// ============================================
+
+type BatchOperation =
+  | { type: 'set'; ref: DocumentReference; data: DocumentData }
+  | { type: 'update'; ref: DocumentReference; data: DocumentData }
+  | { type: 'delete'; ref: DocumentReference };
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Commit operations in as many batches as the Firestore write limit requires
+ */
+export const commitInBatches = async (operations: BatchOperation[]): Promise<void> => {
+  for (let i = 0; i < operations.length; i += FIRESTORE_BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + FIRESTORE_BATCH_LIMIT).forEach((operation) => {
+      if (operation.type === 'set') {
+        batch.set(operation.ref, operation.data);
+      } else if (operation.type === 'update') {
+        batch.update(operation.ref, operation.data);
+      } else {
+        batch.delete(operation.ref);
+      }
+    });
+    await batch.commit();
+  }
+};
@@ -0,0 +1,44 @@
+// ============================================
+// Browser Storage Repository
+// ============================================
+
+import { encodeData, decodeData } from './localCache';
+import { createMemoryRepository, RecordPersistence } from './memoryRepository';
+import { RepositoryRecord } from './repository';
+
+const STORAGE_PREFIX = 'priz-finance-data:';
+
+const hasLocalStorage = (): boolean => typeof localStorage !== 'undefined';
+
+// Each collection is one JSON entry; Timestamps are encoded the same way as the offline cache
+const localStoragePersistence: RecordPersistence = {
+  load: (key) => {
+    if (!hasLocalStorage()) return null;
+    const stored = localStorage.getItem(STORAGE_PREFIX + key);
+    if (!stored) return null;
+
+    try {
+      const records = JSON.parse(stored) as Record<string, unknown>[];
+      return records.map((record) => decodeData<RepositoryRecord>(record));
+    } catch (error) {
+      console.error(`Ignoring unreadable local data for ${key}:`, error);
+      return null;
+    }
+  },
+  save: (key, records) => {
+    if (!hasLocalStorage()) return;
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(records.map((record) => encodeData(record))));
+  },
+  // Fired in every other tab when one of them writes
+  watch: (onChange) => {
+    if (typeof window === 'undefined') return () => {};
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key?.startsWith(STORAGE_PREFIX)) onChange(event.key.slice(STORAGE_PREFIX.length));
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  },
+};
+
+// Keeps everything on this device, so the app runs without Firebase and keeps its data across reloads
+export const browserRepository = createMemoryRepository(localStoragePersistence);
@@ -0,0 +1,113 @@
+// ============================================
+// Category Budgets Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection } from './repository';
+import { CategoryBudget, CategoryId, BudgetTransfer, NewBudgetTransfer, RestoreMode } from '@/types';
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all category budgets for a user
+ */
+export const getBudgets = async (userId: string): Promise<CategoryBudget[]> => {
+  const budgets = await repository.list(userId, 'budgets');
+  return budgets as unknown as CategoryBudget[];
+};
+
+/**
+ * Create or update the monthly budget for a category
+ */
+export const setBudget = async (
+  userId: string,
+  category: CategoryId,
+  amount: number
+): Promise<void> => {
+  // Keyed by category so each category can only have one budget
+  const existing = await repository.get(userId, 'budgets', category);
+
+  await repository.set(
+    userId,
+    'budgets',
+    category,
+    {
+      userId,
+      category,
+      amount,
+      ...(!existing && { createdAt: Timestamp.now() }),
+      updatedAt: Timestamp.now(),
+    },
+    { merge: true }
+  );
+};
+
+/**
+ * Remove the budget for a category
+ */
+export const deleteBudget = async (userId: string, category: CategoryId): Promise<void> => {
+  await repository.remove(userId, 'budgets', category);
+};
+
+// ============================================
+// Envelope Transfers
+// ============================================
+
+/**
+ * Record a move of money between two envelopes
+ */
+export const addBudgetTransfer = async (
+  userId: string,
+  transfer: NewBudgetTransfer
+): Promise<string> => {
+  const data = {
+    userId,
+    fromCategory: transfer.fromCategory,
+    toCategory: transfer.toCategory,
+    amount: transfer.amount,
+    date: Timestamp.fromDate(transfer.date),
+    ...(transfer.note && { note: transfer.note }),
+    createdAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'budgetTransfers');
+  await repository.set(userId, 'budgetTransfers', id, data);
+
+  return id;
+};
+
+/**
+ * Get every envelope transfer for a user, newest first
+ */
+export const getBudgetTransfers = async (userId: string): Promise<BudgetTransfer[]> => {
+  const transfers = await repository.list(userId, 'budgetTransfers', { orderBy: 'date', direction: 'desc' });
+  return transfers as unknown as BudgetTransfer[];
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write budgets from a backup, keyed by category
+ */
+export const restoreBudgets = async (
+  userId: string,
+  budgets: CategoryBudget[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'budgets', budgets, mode);
+};
+
+/**
+ * Write envelope transfers from a backup, keeping their ids
+ */
+export const restoreBudgetTransfers = async (
+  userId: string,
+  transfers: BudgetTransfer[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'budgetTransfers', transfers, mode);
+};
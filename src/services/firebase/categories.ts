@@ -2,25 +2,9 @@
 // Custom Categories Firestore Operations
 // ============================================
 
-import {
-  collection,
-  doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  query,
-  orderBy,
-  Timestamp,
-} from 'firebase/firestore';
-import { db, isDevMode } from './config';
-import { CustomCategory, NewCustomCategory } from '@/types';
-
-// ============================================
-// Mock Data for Development Mode
-// ============================================
-
-let mockCategories: CustomCategory[] = [];
+import { Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection } from './repository';
+import { CustomCategory, NewCustomCategory, RestoreMode } from '@/types';
 
 // ============================================
 // CRUD Operations
@@ -33,60 +17,48 @@ export const addCustomCategory = async (
   userId: string,
   category: NewCustomCategory
 ): Promise<string> => {
-  if (isDevMode) {
-    const newCategory: CustomCategory = {
-      id: `custom-${Date.now()}`,
-      userId,
-      name: category.name,
-      icon: category.icon,
-      color: category.color,
-      type: category.type,
-      order: mockCategories.length + 100, // Custom categories start at 100
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    };
-    mockCategories.push(newCategory);
-    return newCategory.id;
-  }
-
-  const categoriesRef = collection(db, 'users', userId, 'customCategories');
-
-  // Get current count to set order
-  const snapshot = await getDocs(categoriesRef);
-  const order = snapshot.size + 100; // Custom categories start at 100
+  // Custom categories are ordered after the built-in ones, starting at 100
+  const existing = await repository.list(userId, 'customCategories');
+  const id = repository.createId(userId, 'customCategories');
 
-  const docRef = await addDoc(categoriesRef, {
+  await repository.set(userId, 'customCategories', id, {
     userId,
     name: category.name,
     icon: category.icon,
     color: category.color,
     type: category.type,
-    order,
+    order: existing.length + 100,
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
   });
 
-  return docRef.id;
+  return id;
 };
 
 /**
  * Get all custom categories for a user
  */
 export const getCustomCategories = async (userId: string): Promise<CustomCategory[]> => {
-  if (isDevMode) {
-    return mockCategories.filter((c) => c.userId === userId);
-  }
-
-  const categoriesRef = collection(db, 'users', userId, 'customCategories');
-  const q = query(categoriesRef, orderBy('order', 'asc'));
-  const snapshot = await getDocs(q);
-
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as CustomCategory[];
+  const categories = await repository.list(userId, 'customCategories', { orderBy: 'order' });
+  return categories as unknown as CustomCategory[];
 };
 
+/**
+ * Listen to a user's custom categories. Returns an unsubscribe function.
+ */
+export const subscribeToCustomCategories = (
+  userId: string,
+  onChange: (categories: CustomCategory[]) => void,
+  onError: (error: Error) => void
+): (() => void) =>
+  repository.subscribe(
+    userId,
+    'customCategories',
+    { orderBy: 'order' },
+    (records) => onChange(records as unknown as CustomCategory[]),
+    onError
+  );
+
 /**
  * Update a custom category
  */
@@ -95,20 +67,7 @@ export const updateCustomCategory = async (
   categoryId: string,
   updates: Partial<NewCustomCategory>
 ): Promise<void> => {
-  if (isDevMode) {
-    const index = mockCategories.findIndex((c) => c.id === categoryId);
-    if (index !== -1) {
-      mockCategories[index] = {
-        ...mockCategories[index],
-        ...updates,
-        updatedAt: Timestamp.now(),
-      };
-    }
-    return;
-  }
-
-  const categoryRef = doc(db, 'users', userId, 'customCategories', categoryId);
-  await updateDoc(categoryRef, {
+  await repository.update(userId, 'customCategories', categoryId, {
     ...updates,
     updatedAt: Timestamp.now(),
   });
@@ -121,21 +80,23 @@ export const deleteCustomCategory = async (
   userId: string,
   categoryId: string
 ): Promise<void> => {
-  if (isDevMode) {
-    const index = mockCategories.findIndex((c) => c.id === categoryId);
-    if (index !== -1) {
-      mockCategories[index] = {
-        ...mockCategories[index],
-        isDeleted: true,
-        updatedAt: Timestamp.now(),
-      };
-    }
-    return;
-  }
-
-  const categoryRef = doc(db, 'users', userId, 'customCategories', categoryId);
-  await updateDoc(categoryRef, {
+  await repository.update(userId, 'customCategories', categoryId, {
     isDeleted: true,
     updatedAt: Timestamp.now(),
   });
 };
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write custom categories from a backup, keeping their ids
+ */
+export const restoreCustomCategories = async (
+  userId: string,
+  categories: CustomCategory[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'customCategories', categories, mode);
+};
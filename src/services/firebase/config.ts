@@ -19,11 +19,40 @@ const firebaseConfig = {
   appId: process.env.NEXT_PUBLIC_FIREBASE_APP_ID,
 };
 
+// ============================================
+// Data Backend Selection
+// ============================================
+
+// Where finance data is stored:
+// - firestore: the signed-in user's Firestore documents
+// - memory: seeded mock data that lasts until the page reloads
+// - browser: the browser's localStorage, so a fully local setup keeps its data
+export type DataBackend = 'firestore' | 'memory' | 'browser';
+
+const DATA_BACKENDS: DataBackend[] = ['firestore', 'memory', 'browser'];
+
+const requestedBackend = process.env.NEXT_PUBLIC_DATA_BACKEND as DataBackend | undefined;
+
+export const dataBackend: DataBackend =
+  requestedBackend && DATA_BACKENDS.includes(requestedBackend)
+    ? requestedBackend
+    : process.env.NEXT_PUBLIC_DEV_MODE === 'true'
+      ? 'memory'
+      : 'firestore';
+
 // ============================================
 // Development Mode Check
 // ============================================
 
-export const isDevMode = process.env.NEXT_PUBLIC_DEV_MODE === 'true';
+// Local backends skip Firebase Auth and sign in as the built-in dev user
+export const isDevMode = dataBackend !== 'firestore';
+
+// ============================================
+// Firestore Limits
+// ============================================
+
+// Maximum number of writes Firestore accepts in a single batch
+export const FIRESTORE_BATCH_LIMIT = 500;
 
 // ============================================
 // Firebase Initialization
@@ -0,0 +1,61 @@
+// ============================================
+// Base Currency Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { repository, RepositoryWrite } from './repository';
+import { readCollection, commitWrites, SyncedWrite } from './sync';
+import { rebuildRollups } from './rollups';
+import { Expense, Income, TrashItem } from '@/types';
+import { CurrencyCode } from '@/lib/utils/constants';
+
+/**
+ * Write `currency` onto every expense, income, recurring rule and trashed record
+ * saved without one. Those are read as being in the base currency, so this runs
+ * before the base currency changes to keep them worth what they were.
+ */
+export const assignLegacyCurrency = async (userId: string, currency: CurrencyCode): Promise<void> => {
+  const [expenses, income, rules, trash] = await Promise.all([
+    readCollection<Expense>(userId, 'expenses'),
+    readCollection<Income>(userId, 'income'),
+    repository.list(userId, 'recurringRules'),
+    repository.list(userId, 'trash'),
+  ]);
+  const updatedAt = Timestamp.now();
+
+  const recordWrites: SyncedWrite[] = [
+    ...expenses
+      .filter((expense) => !expense.currency)
+      .map((expense) => ({
+        type: 'update' as const,
+        collection: 'expenses' as const,
+        id: expense.id,
+        data: { currency, updatedAt },
+      })),
+    ...income
+      .filter((entry) => !entry.currency)
+      .map((entry) => ({
+        type: 'update' as const,
+        collection: 'income' as const,
+        id: entry.id,
+        data: { currency, updatedAt },
+      })),
+    ...(trash as unknown as TrashItem[])
+      .filter((item) => !item.record.currency)
+      .map((item) => ({
+        type: 'update' as const,
+        collection: 'trash' as const,
+        id: item.id,
+        data: { record: { ...item.record, currency } },
+      })),
+  ];
+
+  const ruleWrites: RepositoryWrite[] = rules
+    .filter((rule) => !rule.currency)
+    .map((rule) => ({ type: 'update', collection: 'recurringRules', id: rule.id, data: { currency } }));
+
+  await commitWrites(userId, recordWrites);
+  if (ruleWrites.length > 0) await repository.commit(userId, ruleWrites);
+  // Records without a currency are kept apart in the monthly totals
+  if (recordWrites.length > 0) await rebuildRollups(userId);
+};
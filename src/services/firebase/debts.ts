@@ -0,0 +1,83 @@
+// ============================================
+// Debts Firestore Operations
+// ============================================
+
+import { deleteField, Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection, RepositoryWrite } from './repository';
+import { Debt, NewDebt, RestoreMode } from '@/types';
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all debts for a user, by name
+ */
+export const getDebts = async (userId: string): Promise<Debt[]> => {
+  const debts = await repository.list(userId, 'debts', { orderBy: 'name' });
+  return debts as unknown as Debt[];
+};
+
+/**
+ * Add a debt, owing its balance as of today
+ */
+export const addDebt = async (userId: string, debt: NewDebt): Promise<string> => {
+  const data = {
+    userId,
+    name: debt.name.trim(),
+    balance: debt.balance,
+    balanceDate: Timestamp.now(),
+    apr: debt.apr,
+    minimumPayment: debt.minimumPayment,
+    dueDay: debt.dueDay,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'debts');
+  await repository.set(userId, 'debts', id, data);
+
+  return id;
+};
+
+/**
+ * Update a debt's details. A new balance is taken as of today, so earlier
+ * payments stop counting against it.
+ */
+export const updateDebt = async (userId: string, debtId: string, updates: Partial<NewDebt>): Promise<void> => {
+  await repository.update(userId, 'debts', debtId, {
+    ...updates,
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    ...(updates.balance !== undefined && { balanceDate: Timestamp.now() }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Delete a debt. Its payments stay as ordinary expenses.
+ */
+export const deleteDebt = async (userId: string, debtId: string): Promise<void> => {
+  const payments = await repository.list(userId, 'expenses', { where: { field: 'debtId', value: debtId } });
+  const writes: RepositoryWrite[] = [
+    ...payments.map((expense): RepositoryWrite => ({
+      type: 'update',
+      collection: 'expenses',
+      id: expense.id,
+      data: { debtId: deleteField() },
+    })),
+    { type: 'delete', collection: 'debts', id: debtId },
+  ];
+
+  await repository.commit(userId, writes);
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write debts from a backup, keeping their ids
+ */
+export const restoreDebts = async (userId: string, debts: Debt[], mode: RestoreMode): Promise<void> => {
+  await restoreCollection(userId, 'debts', debts, mode);
+};
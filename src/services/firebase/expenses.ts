@@ -2,31 +2,49 @@
 // Expense Firestore Operations
 // ============================================
 
+import { deleteField, Timestamp } from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { dataBackend } from './config';
+import { restoreCollection } from './repository';
+import { memoryRepository } from './memoryRepository';
 import {
-  collection,
-  doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  query,
-  where,
-  orderBy,
-  Timestamp,
-  writeBatch,
-} from 'firebase/firestore';
-import { db, isDevMode } from './config';
-import { Expense, NewExpense, DateRange } from '@/types';
+  readCollection,
+  readPage,
+  readCachedRecord,
+  readRecord,
+  subscribeToCollection,
+  createRecordId,
+  queueSet,
+  queueUpdate,
+  queueDelete,
+  commitWrites,
+  SyncedWrite,
+} from './sync';
+import { updateRollups } from './rollups';
+import { moveToTrash, getTrashWrites } from './trash';
+import { recordAudit } from './audit';
+import {
+  Expense,
+  NewExpense,
+  ExpenseSplit,
+  DateRange,
+  DateWindow,
+  Page,
+  PageOptions,
+  RestoreMode,
+  AuditSource,
+  ExpenseBulkEdit,
+} from '@/types';
 import { parseCurrencyToCents } from '@/lib/utils/formatters';
+import { validateExpenseSplits } from '@/lib/utils/validators';
+import { DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
 
 // ============================================
 // Mock Data for Development Mode
 // ============================================
 
-let mockExpenses: Expense[] = [];
-
 const generateMockExpenses = (): Expense[] => {
-  const categories = ['rent', 'electricity', 'gas', 'wifi', 'groceries', 'amazon', 'eating_out', 'fuel', 'subscriptions', 'travel', 'miscellaneous'] as const;
+  const categories = ['rent', 'electricity', 'gas', 'wifi', 'groceries', 'shopping', 'eating_out', 'fuel', 'subscriptions', 'travel', 'miscellaneous'] as const;
   const now = new Date();
   const expenses: Expense[] = [];
 
@@ -66,11 +84,27 @@ const generateMockExpenses = (): Expense[] => {
   return expenses.sort((a, b) => b.date.toMillis() - a.date.toMillis());
 };
 
-// Initialize mock data
-if (isDevMode && mockExpenses.length === 0) {
-  mockExpenses = generateMockExpenses();
+// Seed the in-memory repository that stands in for Firestore
+if (dataBackend === 'memory') {
+  memoryRepository.seed('dev-user', 'expenses', generateMockExpenses());
 }
 
+// ============================================
+// Splits
+// ============================================
+
+// Validates splits against the expense amount and drops empty notes, which Firestore can't store as undefined
+const toSplitData = (amount: number, splits: ExpenseSplit[]): ExpenseSplit[] => {
+  const error = validateExpenseSplits(amount, splits);
+  if (error) throw new Error(error);
+
+  return splits.map(({ category, amount: splitAmount, note }) => ({
+    category,
+    amount: splitAmount,
+    ...(note?.trim() && { note: note.trim() }),
+  }));
+};
+
 // ============================================
 // CRUD Operations
 // ============================================
@@ -80,63 +114,113 @@ if (isDevMode && mockExpenses.length === 0) {
  */
 export const addExpense = async (
   userId: string,
-  expense: NewExpense
+  expense: NewExpense,
+  source: AuditSource = 'manual'
 ): Promise<string> => {
-  if (isDevMode) {
-    const newExpense: Expense = {
-      id: `mock-${Date.now()}`,
-      userId,
-      amount: typeof expense.amount === 'string'
-        ? parseCurrencyToCents(expense.amount)
-        : expense.amount,
-      category: expense.category,
-      description: expense.description || '',
-      date: Timestamp.fromDate(expense.date),
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-      isRecurring: expense.isRecurring || false,
-      tags: expense.tags || [],
-    };
-    mockExpenses.unshift(newExpense);
-    return newExpense.id;
-  }
+  const amount = typeof expense.amount === 'string'
+    ? parseCurrencyToCents(expense.amount, expense.currency)
+    : expense.amount;
+  const splits = expense.splits?.length ? toSplitData(amount, expense.splits) : undefined;
 
-  const expensesRef = collection(db, 'users', userId, 'expenses');
-  const docRef = await addDoc(expensesRef, {
+  // Saved on the device first and sent to the server when there's a connection
+  const id = createRecordId(userId, 'expenses');
+  const data = {
     userId,
-    amount: typeof expense.amount === 'string'
-      ? parseCurrencyToCents(expense.amount)
-      : expense.amount,
+    amount,
+    ...(expense.currency && { currency: expense.currency }),
     category: expense.category,
     description: expense.description || '',
     date: Timestamp.fromDate(expense.date),
     createdAt: Timestamp.now(),
     updatedAt: Timestamp.now(),
     isRecurring: expense.isRecurring || false,
+    ...(expense.recurringId && { recurringId: expense.recurringId }),
     tags: expense.tags || [],
-  });
+    accountId: expense.accountId || DEFAULT_ACCOUNT_ID,
+    ...(expense.debtId && { debtId: expense.debtId }),
+    ...(splits && { splits }),
+  };
+  await queueSet(userId, 'expenses', id, data);
+  void updateRollups(userId, [{ kind: 'expense', record: { id, ...data }, sign: 1 }]);
+  void recordAudit(userId, source, [{ kind: 'expense', action: 'create', previous: null, next: { id, ...data } }]);
 
-  return docRef.id;
+  return id;
 };
 
 /**
- * Get all expenses for a user
+ * Add multiple expenses using batched writes
  */
-export const getExpenses = async (userId: string): Promise<Expense[]> => {
-  if (isDevMode) {
-    return mockExpenses;
-  }
+export const addExpenses = async (
+  userId: string,
+  expenses: NewExpense[],
+  source: AuditSource = 'import'
+): Promise<string[]> => {
+  const splitsByIndex = expenses.map((expense) =>
+    expense.splits?.length ? toSplitData(expense.amount, expense.splits) : undefined
+  );
 
-  const expensesRef = collection(db, 'users', userId, 'expenses');
-  const q = query(expensesRef, orderBy('date', 'desc'));
-  const snapshot = await getDocs(q);
+  const records: Expense[] = expenses.map((expense, index) => ({
+    id: createRecordId(userId, 'expenses'),
+    userId,
+    amount: expense.amount,
+    ...(expense.currency && { currency: expense.currency }),
+    category: expense.category,
+    description: expense.description || '',
+    date: Timestamp.fromDate(expense.date),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    isRecurring: expense.isRecurring || false,
+    ...(expense.recurringId && { recurringId: expense.recurringId }),
+    tags: expense.tags || [],
+    accountId: expense.accountId || DEFAULT_ACCOUNT_ID,
+    ...(expense.debtId && { debtId: expense.debtId }),
+    ...(splitsByIndex[index] && { splits: splitsByIndex[index] }),
+  }));
 
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as Expense[];
+  // Saved on the device first and sent to the server in one batch when there's a connection
+  await commitWrites(
+    userId,
+    records.map(({ id, ...data }) => ({ type: 'set' as const, collection: 'expenses' as const, id, data }))
+  );
+  void updateRollups(
+    userId,
+    records.map((record) => ({ kind: 'expense' as const, record, sign: 1 as const }))
+  );
+  void recordAudit(
+    userId,
+    source,
+    records.map((record) => ({ kind: 'expense' as const, action: 'create' as const, previous: null, next: record }))
+  );
+
+  return records.map((record) => record.id);
 };
 
+/**
+ * Get expenses for a user, newest first, from the device cache when offline.
+ * Pass a window to only read expenses dated within it.
+ */
+export const getExpenses = async (userId: string, window: DateWindow = {}): Promise<Expense[]> => {
+  return readCollection<Expense>(userId, 'expenses', window);
+};
+
+/**
+ * Get one page of expenses, newest first. Pass the returned cursor back for the next page.
+ */
+export const getExpensesPage = async (userId: string, options: PageOptions = {}): Promise<Page<Expense>> => {
+  return readPage<Expense>(userId, 'expenses', options);
+};
+
+/**
+ * Listen to expenses for a user, newest first, optionally only those dated within
+ * `window`. Returns an unsubscribe function.
+ */
+export const subscribeToExpenses = (
+  userId: string,
+  window: DateWindow,
+  onChange: (expenses: Expense[]) => void,
+  onError: (error: Error) => void
+): (() => void) => subscribeToCollection<Expense>(userId, 'expenses', window, onChange, onError);
+
 /**
  * Get expenses within a date range
  */
@@ -144,26 +228,18 @@ export const getExpensesByDateRange = async (
   userId: string,
   range: DateRange
 ): Promise<Expense[]> => {
-  if (isDevMode) {
-    return mockExpenses.filter((exp) => {
-      const date = exp.date.toDate();
-      return date >= range.start && date <= range.end;
-    });
-  }
-
-  const expensesRef = collection(db, 'users', userId, 'expenses');
-  const q = query(
-    expensesRef,
-    where('date', '>=', Timestamp.fromDate(range.start)),
-    where('date', '<=', Timestamp.fromDate(range.end)),
-    orderBy('date', 'desc')
-  );
-  const snapshot = await getDocs(q);
+  return getExpenses(userId, range);
+};
 
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as Expense[];
+/**
+ * Get all expenses materialized from a recurring rule
+ */
+export const getExpensesByRecurringId = async (
+  userId: string,
+  recurringId: string
+): Promise<Expense[]> => {
+  const expenses = await getExpenses(userId);
+  return expenses.filter((exp) => exp.recurringId === recurringId);
 };
 
 /**
@@ -172,80 +248,224 @@ export const getExpensesByDateRange = async (
 export const updateExpense = async (
   userId: string,
   expenseId: string,
-  updates: Partial<NewExpense>
+  updates: Partial<NewExpense>,
+  source: AuditSource = 'manual'
 ): Promise<void> => {
-  if (isDevMode) {
-    const index = mockExpenses.findIndex((exp) => exp.id === expenseId);
-    if (index !== -1) {
-      mockExpenses[index] = {
-        ...mockExpenses[index],
-        ...updates,
-        amount: updates.amount
-          ? typeof updates.amount === 'string'
-            ? parseCurrencyToCents(updates.amount)
-            : updates.amount
-          : mockExpenses[index].amount,
-        date: updates.date
-          ? Timestamp.fromDate(updates.date)
-          : mockExpenses[index].date,
-        updatedAt: Timestamp.now(),
-      };
-    }
-    return;
-  }
+  const amount = updates.amount
+    ? typeof updates.amount === 'string'
+      ? parseCurrencyToCents(updates.amount, updates.currency)
+      : updates.amount
+    : undefined;
+
+  // Read once for checking splits and for counting the expense out of its month as it was
+  const previous = await readRecord<Expense>(userId, 'expenses', expenseId);
 
-  const expenseRef = doc(db, 'users', userId, 'expenses', expenseId);
   const updateData: Record<string, unknown> = {
     ...updates,
     updatedAt: Timestamp.now(),
   };
 
-  if (updates.amount) {
-    updateData.amount =
-      typeof updates.amount === 'string'
-        ? parseCurrencyToCents(updates.amount)
-        : updates.amount;
+  if (amount !== undefined) {
+    updateData.amount = amount;
+  }
+
+  if (updates.splits?.length === 0) {
+    // An empty list turns the expense back into a single-category one
+    updateData.splits = deleteField();
+  } else if (updates.splits) {
+    // Splits are checked against the amount the expense will have after this update
+    const nextAmount = amount ?? previous?.amount;
+    if (nextAmount === undefined) throw new Error('Expense not found');
+    updateData.splits = toSplitData(nextAmount, updates.splits);
+  } else if (amount !== undefined) {
+    // Splits that no longer add up to the new amount are dropped, leaving the expense in its main category
+    const splits = previous?.splits;
+    if (splits && validateExpenseSplits(amount, splits) !== null) updateData.splits = deleteField();
   }
 
   if (updates.date) {
     updateData.date = Timestamp.fromDate(updates.date);
   }
 
-  await updateDoc(expenseRef, updateData);
+  if ('debtId' in updates) {
+    // Clearing the debt turns the payment back into an ordinary expense
+    updateData.debtId = updates.debtId || deleteField();
+  }
+
+  // The expense is counted out of its month as it was and back in as it is now
+  await queueUpdate(userId, 'expenses', expenseId, updateData);
+  const next = await readCachedRecord<Expense>(userId, 'expenses', expenseId);
+  if (previous && next) {
+    void updateRollups(userId, [
+      { kind: 'expense', record: previous, sign: -1 },
+      { kind: 'expense', record: next, sign: 1 },
+    ]);
+    void recordAudit(userId, source, [{ kind: 'expense', action: 'update', previous, next }]);
+  }
 };
 
 /**
- * Delete an expense
+ * Delete an expense. A copy is kept in the trash so it can be restored.
  */
 export const deleteExpense = async (
   userId: string,
-  expenseId: string
+  expenseId: string,
+  source: AuditSource = 'manual'
 ): Promise<void> => {
-  if (isDevMode) {
-    mockExpenses = mockExpenses.filter((exp) => exp.id !== expenseId);
-    return;
+  const previous = await readRecord<Expense>(userId, 'expenses', expenseId);
+  if (previous) await moveToTrash(userId, [{ kind: 'expense', record: previous }]);
+  await queueDelete(userId, 'expenses', expenseId);
+  if (previous) {
+    void updateRollups(userId, [{ kind: 'expense', record: previous, sign: -1 }]);
+    void recordAudit(userId, source, [{ kind: 'expense', action: 'delete', previous, next: null }]);
   }
-
-  const expenseRef = doc(db, 'users', userId, 'expenses', expenseId);
-  await deleteDoc(expenseRef);
 };
 
 /**
- * Delete multiple expenses
+ * Delete multiple expenses in one batch, keeping copies in the trash
  */
 export const deleteExpenses = async (
   userId: string,
-  expenseIds: string[]
+  expenseIds: string[],
+  source: AuditSource = 'manual'
 ): Promise<void> => {
-  if (isDevMode) {
-    mockExpenses = mockExpenses.filter((exp) => !expenseIds.includes(exp.id));
-    return;
+  const deleted: Expense[] = [];
+  for (const id of expenseIds) {
+    const previous = await readRecord<Expense>(userId, 'expenses', id);
+    if (previous) deleted.push(previous);
   }
+  // The copies and the deletes go in one batch, queued together when offline
+  await commitWrites(userId, [
+    ...getTrashWrites(userId, deleted.map((record) => ({ kind: 'expense' as const, record }))),
+    ...expenseIds.map((id) => ({ type: 'delete' as const, collection: 'expenses' as const, id })),
+  ]);
+  void updateRollups(
+    userId,
+    deleted.map((record) => ({ kind: 'expense' as const, record, sign: -1 as const }))
+  );
+  void recordAudit(
+    userId,
+    source,
+    deleted.map((record) => ({ kind: 'expense' as const, action: 'delete' as const, previous: record, next: null }))
+  );
+};
 
-  const batch = writeBatch(db);
-  expenseIds.forEach((id) => {
-    const expenseRef = doc(db, 'users', userId, 'expenses', id);
-    batch.delete(expenseRef);
-  });
-  await batch.commit();
+// ============================================
+// Bulk Edits
+// ============================================
+
+// The fields a bulk edit changes on one expense
+const getBulkUpdate = (expense: Expense, edit: ExpenseBulkEdit): Record<string, unknown> => {
+  switch (edit.type) {
+    case 'category':
+      // A single category replaces any split
+      return { category: edit.category, ...(expense.splits && { splits: deleteField() }) };
+    case 'addTags':
+      return { tags: [...new Set([...(expense.tags ?? []), ...edit.tags])] };
+    case 'removeTags':
+      return { tags: (expense.tags ?? []).filter((tag) => !edit.tags.includes(tag)) };
+    case 'shiftDate':
+      return { date: Timestamp.fromDate(addDays(expense.date.toDate(), edit.days)) };
+    case 'recurring':
+      return { isRecurring: edit.isRecurring };
+  }
+};
+
+const readExpenses = async (userId: string, expenseIds: string[]): Promise<Expense[]> => {
+  const expenses: Expense[] = [];
+  for (const id of expenseIds) {
+    const expense = await readRecord<Expense>(userId, 'expenses', id);
+    if (expense) expenses.push(expense);
+  }
+  return expenses;
+};
+
+// Write new versions of existing expenses in one batch, keeping the rollups and audit log in step
+const writeBulkChanges = async (userId: string, previous: Expense[], writes: SyncedWrite[]): Promise<void> => {
+  await commitWrites(userId, writes);
+
+  const changed: { previous: Expense; next: Expense }[] = [];
+  for (const record of previous) {
+    const next = await readCachedRecord<Expense>(userId, 'expenses', record.id);
+    if (next) changed.push({ previous: record, next });
+  }
+  void updateRollups(
+    userId,
+    changed.flatMap(({ previous: before, next }) => [
+      { kind: 'expense' as const, record: before, sign: -1 as const },
+      { kind: 'expense' as const, record: next, sign: 1 as const },
+    ])
+  );
+  void recordAudit(
+    userId,
+    'bulk',
+    changed.map(({ previous: before, next }) => ({
+      kind: 'expense' as const,
+      action: 'update' as const,
+      previous: before,
+      next,
+    }))
+  );
+};
+
+/**
+ * Apply one change to several expenses in a single batch. Returns the expenses
+ * as they were, which `revertExpenses` can put back.
+ */
+export const updateExpensesInBulk = async (
+  userId: string,
+  expenseIds: string[],
+  edit: ExpenseBulkEdit
+): Promise<Expense[]> => {
+  const previous = await readExpenses(userId, expenseIds);
+  const updatedAt = Timestamp.now();
+
+  await writeBulkChanges(
+    userId,
+    previous,
+    previous.map((expense) => ({
+      type: 'update' as const,
+      collection: 'expenses' as const,
+      id: expense.id,
+      data: { ...getBulkUpdate(expense, edit), updatedAt },
+    }))
+  );
+  return previous;
+};
+
+/**
+ * Put expenses back as they were before a bulk edit. Any deleted since stay deleted.
+ */
+export const revertExpenses = async (userId: string, expenses: Expense[]): Promise<void> => {
+  const current = await readExpenses(userId, expenses.map((expense) => expense.id));
+  const remaining = new Set(current.map((expense) => expense.id));
+  const updatedAt = Timestamp.now();
+
+  await writeBulkChanges(
+    userId,
+    current,
+    expenses
+      .filter((expense) => remaining.has(expense.id))
+      .map(({ id, ...data }) => ({
+        type: 'set' as const,
+        collection: 'expenses' as const,
+        id,
+        data: { ...data, updatedAt },
+      }))
+  );
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write expenses from a backup, keeping their ids
+ */
+export const restoreExpenses = async (
+  userId: string,
+  expenses: Expense[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'expenses', expenses, mode);
 };
@@ -0,0 +1,98 @@
+// ============================================
+// Firestore Repository
+// ============================================
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  documentId,
+  onSnapshot,
+  runTransaction,
+  Query,
+  QueryConstraint,
+  QuerySnapshot,
+} from 'firebase/firestore';
+import { db } from './config';
+import { commitInBatches } from './batch';
+import { FinanceCollection, FinanceRepository, ListOptions, RepositoryRecord } from './repository';
+
+// Every collection lives under users/{uid}
+const collectionRef = (userId: string, collectionName: FinanceCollection) =>
+  collection(db, 'users', userId, collectionName);
+
+const docRef = (userId: string, collectionName: FinanceCollection, id: string) =>
+  doc(db, 'users', userId, collectionName, id);
+
+const buildQuery = (userId: string, collectionName: FinanceCollection, options: ListOptions): Query => {
+  const constraints: QueryConstraint[] = [];
+  if (options.where) constraints.push(where(options.where.field, '==', options.where.value));
+  if (options.orderBy) {
+    const field = options.orderBy;
+    const direction = options.direction ?? 'asc';
+    if (options.range?.start !== undefined) constraints.push(where(field, '>=', options.range.start));
+    if (options.range?.end !== undefined) constraints.push(where(field, '<=', options.range.end));
+    constraints.push(orderBy(field, direction));
+    if (options.startAfter) {
+      // Ties are already broken by document id; naming it lets the cursor include the id
+      constraints.push(orderBy(documentId(), direction), startAfter(options.startAfter[field], options.startAfter.id));
+    }
+  }
+  if (options.limit !== undefined) constraints.push(limit(options.limit));
+  return query(collectionRef(userId, collectionName), ...constraints);
+};
+
+// The document id wins over any `id` field stored in the data
+const toRecords = (snapshot: QuerySnapshot): RepositoryRecord[] =>
+  snapshot.docs.map((snap) => ({ ...snap.data(), id: snap.id }) as RepositoryRecord);
+
+export const firestoreRepository: FinanceRepository = {
+  // Firestore ids are generated on the device, so they're available offline
+  createId: (userId, collectionName) => doc(collectionRef(userId, collectionName)).id,
+  list: async (userId, collectionName, options = {}) =>
+    toRecords(await getDocs(buildQuery(userId, collectionName, options))),
+  get: async (userId, collectionName, id) => {
+    const snap = await getDoc(docRef(userId, collectionName, id));
+    return snap.exists() ? ({ ...snap.data(), id: snap.id } as RepositoryRecord) : null;
+  },
+  set: (userId, collectionName, id, data, options = {}) =>
+    setDoc(docRef(userId, collectionName, id), data, { merge: options.merge ?? false }),
+  update: (userId, collectionName, id, data) => updateDoc(docRef(userId, collectionName, id), data),
+  remove: (userId, collectionName, id) => deleteDoc(docRef(userId, collectionName, id)),
+  commit: (userId, writes) =>
+    commitInBatches(
+      writes.map((write) => ({ ...write, ref: docRef(userId, write.collection, write.id) }))
+    ),
+  transact: (userId, reads, apply) =>
+    runTransaction(db, async (transaction) => {
+      const snaps = await Promise.all(reads.map((read) => transaction.get(docRef(userId, read.collection, read.id))));
+      const writes = apply(
+        snaps.map((snap) => (snap.exists() ? ({ ...snap.data(), id: snap.id } as RepositoryRecord) : null))
+      );
+      writes.forEach((write) => {
+        const ref = docRef(userId, write.collection, write.id);
+        if (write.type === 'set') {
+          transaction.set(ref, write.data);
+        } else if (write.type === 'update') {
+          transaction.update(ref, write.data);
+        } else {
+          transaction.delete(ref);
+        }
+      });
+    }),
+  subscribe: (userId, collectionName, options, onChange, onError) =>
+    onSnapshot(
+      buildQuery(userId, collectionName, options),
+      (snapshot) => onChange(toRecords(snapshot)),
+      onError
+    ),
+};
@@ -2,23 +2,17 @@
 // Goals Firestore Operations
 // ============================================
 
-import {
-  collection,
-  doc,
-  setDoc,
-  getDoc,
-  updateDoc,
-  Timestamp,
-} from 'firebase/firestore';
-import { db, isDevMode } from './config';
+import { Timestamp } from 'firebase/firestore';
+import { repository } from './repository';
 import { UserGoals, GoalAllocation } from '@/types';
 import { DEFAULT_GOAL_ALLOCATIONS } from '@/lib/utils/constants';
 
 // ============================================
-// Mock Data for Development Mode
+// Defaults
 // ============================================
 
-let mockGoals: UserGoals | null = null;
+// Each user has a single goals document
+const GOALS_DOC_ID = 'current';
 
 const getDefaultGoals = (userId: string): UserGoals => ({
   id: 'default',
@@ -37,29 +31,43 @@ const getDefaultGoals = (userId: string): UserGoals => ({
  * Get user goals
  */
 export const getGoals = async (userId: string): Promise<UserGoals> => {
-  if (isDevMode) {
-    if (!mockGoals) {
-      mockGoals = getDefaultGoals(userId);
-    }
-    return mockGoals;
-  }
-
-  const goalsRef = doc(db, 'users', userId, 'goals', 'current');
-  const snapshot = await getDoc(goalsRef);
+  const goals = await repository.get(userId, 'goals', GOALS_DOC_ID);
 
-  if (!snapshot.exists()) {
+  if (!goals) {
     // Create default goals if none exist
     const defaultGoals = getDefaultGoals(userId);
-    await setDoc(goalsRef, defaultGoals);
+    await repository.set(userId, 'goals', GOALS_DOC_ID, defaultGoals);
     return defaultGoals;
   }
 
-  return {
-    id: snapshot.id,
-    ...snapshot.data(),
-  } as UserGoals;
+  return goals as unknown as UserGoals;
 };
 
+/**
+ * Listen to a user's goals, creating the defaults on first use.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToGoals = (
+  userId: string,
+  onChange: (goals: UserGoals) => void,
+  onError: (error: Error) => void
+): (() => void) =>
+  repository.subscribe(
+    userId,
+    'goals',
+    {},
+    (records) => {
+      const goals = records.find((record) => record.id === GOALS_DOC_ID);
+      if (goals) {
+        onChange(goals as unknown as UserGoals);
+      } else {
+        // The saved defaults arrive as the next snapshot
+        getGoals(userId).catch(onError);
+      }
+    },
+    onError
+  );
+
 /**
  * Save/Update user goals
  */
@@ -68,29 +76,16 @@ export const saveGoals = async (
   allocations: GoalAllocation[],
   monthlyIncomeTarget: number
 ): Promise<void> => {
-  if (isDevMode) {
-    mockGoals = {
-      id: 'default',
-      userId,
-      allocations,
-      monthlyIncomeTarget,
-      createdAt: mockGoals?.createdAt || Timestamp.now(),
-      updatedAt: Timestamp.now(),
-    };
-    return;
-  }
+  const existing = await repository.get(userId, 'goals', GOALS_DOC_ID);
 
-  const goalsRef = doc(db, 'users', userId, 'goals', 'current');
-  const snapshot = await getDoc(goalsRef);
-
-  if (snapshot.exists()) {
-    await updateDoc(goalsRef, {
+  if (existing) {
+    await repository.update(userId, 'goals', GOALS_DOC_ID, {
       allocations,
       monthlyIncomeTarget,
       updatedAt: Timestamp.now(),
     });
   } else {
-    await setDoc(goalsRef, {
+    await repository.set(userId, 'goals', GOALS_DOC_ID, {
       userId,
       allocations,
       monthlyIncomeTarget,
@@ -124,12 +119,6 @@ export const updateAllocation = async (
 export const resetGoals = async (userId: string): Promise<UserGoals> => {
   const defaultGoals = getDefaultGoals(userId);
 
-  if (isDevMode) {
-    mockGoals = defaultGoals;
-    return mockGoals;
-  }
-
-  const goalsRef = doc(db, 'users', userId, 'goals', 'current');
-  await setDoc(goalsRef, defaultGoals);
+  await repository.set(userId, 'goals', GOALS_DOC_ID, defaultGoals);
   return defaultGoals;
 };
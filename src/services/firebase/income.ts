@@ -2,29 +2,45 @@
 // Income Firestore Operations
 // ============================================
 
+import { Timestamp } from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { dataBackend } from './config';
+import { restoreCollection } from './repository';
+import { memoryRepository } from './memoryRepository';
 import {
-  collection,
-  doc,
-  addDoc,
-  updateDoc,
-  deleteDoc,
-  getDocs,
-  query,
-  where,
-  orderBy,
-  Timestamp,
-} from 'firebase/firestore';
-import { db, isDevMode } from './config';
-import { Income, NewIncome, DateRange } from '@/types';
+  readCollection,
+  readPage,
+  readRecord,
+  readCachedRecord,
+  subscribeToCollection,
+  createRecordId,
+  queueSet,
+  queueUpdate,
+  queueDelete,
+  commitWrites,
+  SyncedWrite,
+} from './sync';
+import { updateRollups } from './rollups';
+import { moveToTrash, getTrashWrites } from './trash';
+import { recordAudit } from './audit';
+import {
+  Income,
+  NewIncome,
+  DateRange,
+  DateWindow,
+  Page,
+  PageOptions,
+  RestoreMode,
+  AuditSource,
+  IncomeBulkEdit,
+} from '@/types';
 import { parseCurrencyToCents } from '@/lib/utils/formatters';
-import { DEFAULT_SALARY } from '@/lib/utils/constants';
+import { DEFAULT_SALARY, DEFAULT_ACCOUNT_ID } from '@/lib/utils/constants';
 
 // ============================================
 // Mock Data for Development Mode
 // ============================================
 
-let mockIncome: Income[] = [];
-
 const generateMockIncome = (): Income[] => {
   const now = new Date();
   const income: Income[] = [];
@@ -67,9 +83,9 @@ const generateMockIncome = (): Income[] => {
   return income.sort((a, b) => b.date.toMillis() - a.date.toMillis());
 };
 
-// Initialize mock data
-if (isDevMode && mockIncome.length === 0) {
-  mockIncome = generateMockIncome();
+// Seed the in-memory repository that stands in for Firestore
+if (dataBackend === 'memory') {
+  memoryRepository.seed('dev-user', 'income', generateMockIncome());
 }
 
 // ============================================
@@ -81,35 +97,18 @@ if (isDevMode && mockIncome.length === 0) {
  */
 export const addIncome = async (
   userId: string,
-  income: NewIncome
+  income: NewIncome,
+  source: AuditSource = 'manual'
 ): Promise<string> => {
-  if (isDevMode) {
-    const newIncome: Income = {
-      id: `mock-${Date.now()}`,
-      userId,
-      amount:
-        typeof income.amount === 'string'
-          ? parseCurrencyToCents(income.amount)
-          : income.amount,
-      type: income.type,
-      source: income.source,
-      date: Timestamp.fromDate(income.date),
-      createdAt: Timestamp.now(),
-      updatedAt: Timestamp.now(),
-      isRegular: income.isRegular || false,
-      note: income.note,
-    };
-    mockIncome.unshift(newIncome);
-    return newIncome.id;
-  }
-
-  const incomeRef = collection(db, 'users', userId, 'income');
-  const docRef = await addDoc(incomeRef, {
+  // Saved on the device first and sent to the server when there's a connection
+  const id = createRecordId(userId, 'income');
+  const data = {
     userId,
     amount:
       typeof income.amount === 'string'
-        ? parseCurrencyToCents(income.amount)
+        ? parseCurrencyToCents(income.amount, income.currency)
         : income.amount,
+    ...(income.currency && { currency: income.currency }),
     type: income.type,
     source: income.source,
     date: Timestamp.fromDate(income.date),
@@ -117,29 +116,82 @@ export const addIncome = async (
     updatedAt: Timestamp.now(),
     isRegular: income.isRegular || false,
     note: income.note || '',
-  });
+    accountId: income.accountId || DEFAULT_ACCOUNT_ID,
+  };
+  await queueSet(userId, 'income', id, data);
+  void updateRollups(userId, [{ kind: 'income', record: { id, ...data }, sign: 1 }]);
+  void recordAudit(userId, source, [{ kind: 'income', action: 'create', previous: null, next: { id, ...data } }]);
 
-  return docRef.id;
+  return id;
 };
 
 /**
- * Get all income for a user
+ * Add multiple income entries using batched writes
  */
-export const getIncome = async (userId: string): Promise<Income[]> => {
-  if (isDevMode) {
-    return mockIncome;
-  }
+export const addIncomeEntries = async (
+  userId: string,
+  entries: NewIncome[],
+  source: AuditSource = 'import'
+): Promise<string[]> => {
+  const records: Income[] = entries.map((income) => ({
+    id: createRecordId(userId, 'income'),
+    userId,
+    amount: income.amount,
+    ...(income.currency && { currency: income.currency }),
+    type: income.type,
+    source: income.source,
+    date: Timestamp.fromDate(income.date),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+    isRegular: income.isRegular || false,
+    note: income.note || '',
+    accountId: income.accountId || DEFAULT_ACCOUNT_ID,
+  }));
 
-  const incomeRef = collection(db, 'users', userId, 'income');
-  const q = query(incomeRef, orderBy('date', 'desc'));
-  const snapshot = await getDocs(q);
+  // Saved on the device first and sent to the server in one batch when there's a connection
+  await commitWrites(
+    userId,
+    records.map(({ id, ...data }) => ({ type: 'set' as const, collection: 'income' as const, id, data }))
+  );
+  void updateRollups(
+    userId,
+    records.map((record) => ({ kind: 'income' as const, record, sign: 1 as const }))
+  );
+  void recordAudit(
+    userId,
+    source,
+    records.map((record) => ({ kind: 'income' as const, action: 'create' as const, previous: null, next: record }))
+  );
 
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as Income[];
+  return records.map((record) => record.id);
 };
 
+/**
+ * Get income for a user, newest first, from the device cache when offline.
+ * Pass a window to only read income dated within it.
+ */
+export const getIncome = async (userId: string, window: DateWindow = {}): Promise<Income[]> => {
+  return readCollection<Income>(userId, 'income', window);
+};
+
+/**
+ * Get one page of income, newest first. Pass the returned cursor back for the next page.
+ */
+export const getIncomePage = async (userId: string, options: PageOptions = {}): Promise<Page<Income>> => {
+  return readPage<Income>(userId, 'income', options);
+};
+
+/**
+ * Listen to income for a user, newest first, optionally only those dated within
+ * `window`. Returns an unsubscribe function.
+ */
+export const subscribeToIncome = (
+  userId: string,
+  window: DateWindow,
+  onChange: (income: Income[]) => void,
+  onError: (error: Error) => void
+): (() => void) => subscribeToCollection<Income>(userId, 'income', window, onChange, onError);
+
 /**
  * Get income within a date range
  */
@@ -147,26 +199,7 @@ export const getIncomeByDateRange = async (
   userId: string,
   range: DateRange
 ): Promise<Income[]> => {
-  if (isDevMode) {
-    return mockIncome.filter((inc) => {
-      const date = inc.date.toDate();
-      return date >= range.start && date <= range.end;
-    });
-  }
-
-  const incomeRef = collection(db, 'users', userId, 'income');
-  const q = query(
-    incomeRef,
-    where('date', '>=', Timestamp.fromDate(range.start)),
-    where('date', '<=', Timestamp.fromDate(range.end)),
-    orderBy('date', 'desc')
-  );
-  const snapshot = await getDocs(q);
-
-  return snapshot.docs.map((doc) => ({
-    id: doc.id,
-    ...doc.data(),
-  })) as Income[];
+  return getIncome(userId, range);
 };
 
 /**
@@ -175,29 +208,9 @@ export const getIncomeByDateRange = async (
 export const updateIncome = async (
   userId: string,
   incomeId: string,
-  updates: Partial<NewIncome>
+  updates: Partial<NewIncome>,
+  source: AuditSource = 'manual'
 ): Promise<void> => {
-  if (isDevMode) {
-    const index = mockIncome.findIndex((inc) => inc.id === incomeId);
-    if (index !== -1) {
-      mockIncome[index] = {
-        ...mockIncome[index],
-        ...updates,
-        amount: updates.amount
-          ? typeof updates.amount === 'string'
-            ? parseCurrencyToCents(updates.amount)
-            : updates.amount
-          : mockIncome[index].amount,
-        date: updates.date
-          ? Timestamp.fromDate(updates.date)
-          : mockIncome[index].date,
-        updatedAt: Timestamp.now(),
-      };
-    }
-    return;
-  }
-
-  const incomeRef = doc(db, 'users', userId, 'income', incomeId);
   const updateData: Record<string, unknown> = {
     ...updates,
     updatedAt: Timestamp.now(),
@@ -206,7 +219,7 @@ export const updateIncome = async (
   if (updates.amount) {
     updateData.amount =
       typeof updates.amount === 'string'
-        ? parseCurrencyToCents(updates.amount)
+        ? parseCurrencyToCents(updates.amount, updates.currency)
         : updates.amount;
   }
 
@@ -214,23 +227,59 @@ export const updateIncome = async (
     updateData.date = Timestamp.fromDate(updates.date);
   }
 
-  await updateDoc(incomeRef, updateData);
+  // The entry is counted out of its month as it was and back in as it is now
+  const previous = await readRecord<Income>(userId, 'income', incomeId);
+  await queueUpdate(userId, 'income', incomeId, updateData);
+  const next = await readCachedRecord<Income>(userId, 'income', incomeId);
+  if (previous && next) {
+    void updateRollups(userId, [
+      { kind: 'income', record: previous, sign: -1 },
+      { kind: 'income', record: next, sign: 1 },
+    ]);
+    void recordAudit(userId, source, [{ kind: 'income', action: 'update', previous, next }]);
+  }
 };
 
 /**
- * Delete an income entry
+ * Delete an income entry. A copy is kept in the trash so it can be restored.
  */
 export const deleteIncome = async (
   userId: string,
-  incomeId: string
+  incomeId: string,
+  source: AuditSource = 'manual'
 ): Promise<void> => {
-  if (isDevMode) {
-    mockIncome = mockIncome.filter((inc) => inc.id !== incomeId);
-    return;
+  const previous = await readRecord<Income>(userId, 'income', incomeId);
+  if (previous) await moveToTrash(userId, [{ kind: 'income', record: previous }]);
+  await queueDelete(userId, 'income', incomeId);
+  if (previous) {
+    void updateRollups(userId, [{ kind: 'income', record: previous, sign: -1 }]);
+    void recordAudit(userId, source, [{ kind: 'income', action: 'delete', previous, next: null }]);
   }
+};
 
-  const incomeRef = doc(db, 'users', userId, 'income', incomeId);
-  await deleteDoc(incomeRef);
+/**
+ * Delete multiple income entries in one batch, keeping copies in the trash
+ */
+export const deleteIncomeEntries = async (
+  userId: string,
+  incomeIds: string[],
+  source: AuditSource = 'manual'
+): Promise<void> => {
+  const deleted = await readIncomeEntries(userId, incomeIds);
+  // The copies and the deletes go in one batch, queued together when offline
+  await commitWrites(userId, [
+    ...getTrashWrites(userId, deleted.map((record) => ({ kind: 'income' as const, record }))),
+    ...incomeIds.map((id) => ({ type: 'delete' as const, collection: 'income' as const, id })),
+  ]);
+  void updateRollups(
+    userId,
+    deleted.map((record) => ({ kind: 'income' as const, record, sign: -1 as const }))
+  );
+  void recordAudit(
+    userId,
+    source,
+    deleted.map((record) => ({ kind: 'income' as const, action: 'delete' as const, previous: record, next: null }))
+  );
 };
 
 /**
@@ -244,3 +293,118 @@ export const getMonthlyIncomeTotal = async (userId: string): Promise<number> =>
   const income = await getIncomeByDateRange(userId, { start, end });
   return income.reduce((sum, inc) => sum + inc.amount, 0);
 };
+
+// ============================================
+// Bulk Edits
+// ============================================
+
+// The fields a bulk edit changes on one income entry
+const getBulkUpdate = (income: Income, edit: IncomeBulkEdit): Record<string, unknown> => {
+  switch (edit.type) {
+    case 'incomeType':
+      return { type: edit.incomeType };
+    case 'shiftDate':
+      return { date: Timestamp.fromDate(addDays(income.date.toDate(), edit.days)) };
+    case 'regular':
+      return { isRegular: edit.isRegular };
+  }
+};
+
+const readIncomeEntries = async (userId: string, incomeIds: string[]): Promise<Income[]> => {
+  const entries: Income[] = [];
+  for (const id of incomeIds) {
+    const income = await readRecord<Income>(userId, 'income', id);
+    if (income) entries.push(income);
+  }
+  return entries;
+};
+
+// Write new versions of existing entries in one batch, keeping the rollups and audit log in step
+const writeBulkChanges = async (userId: string, previous: Income[], writes: SyncedWrite[]): Promise<void> => {
+  await commitWrites(userId, writes);
+
+  const changed: { previous: Income; next: Income }[] = [];
+  for (const record of previous) {
+    const next = await readCachedRecord<Income>(userId, 'income', record.id);
+    if (next) changed.push({ previous: record, next });
+  }
+  void updateRollups(
+    userId,
+    changed.flatMap(({ previous: before, next }) => [
+      { kind: 'income' as const, record: before, sign: -1 as const },
+      { kind: 'income' as const, record: next, sign: 1 as const },
+    ])
+  );
+  void recordAudit(
+    userId,
+    'bulk',
+    changed.map(({ previous: before, next }) => ({
+      kind: 'income' as const,
+      action: 'update' as const,
+      previous: before,
+      next,
+    }))
+  );
+};
+
+/**
+ * Apply one change to several income entries in a single batch. Returns the
+ * entries as they were, which `revertIncome` can put back.
+ */
+export const updateIncomeInBulk = async (
+  userId: string,
+  incomeIds: string[],
+  edit: IncomeBulkEdit
+): Promise<Income[]> => {
+  const previous = await readIncomeEntries(userId, incomeIds);
+  const updatedAt = Timestamp.now();
+
+  await writeBulkChanges(
+    userId,
+    previous,
+    previous.map((income) => ({
+      type: 'update' as const,
+      collection: 'income' as const,
+      id: income.id,
+      data: { ...getBulkUpdate(income, edit), updatedAt },
+    }))
+  );
+  return previous;
+};
+
+/**
+ * Put income entries back as they were before a bulk edit. Any deleted since stay deleted.
+ */
+export const revertIncome = async (userId: string, entries: Income[]): Promise<void> => {
+  const current = await readIncomeEntries(userId, entries.map((income) => income.id));
+  const remaining = new Set(current.map((income) => income.id));
+  const updatedAt = Timestamp.now();
+
+  await writeBulkChanges(
+    userId,
+    current,
+    entries
+      .filter((income) => remaining.has(income.id))
+      .map(({ id, ...data }) => ({
+        type: 'set' as const,
+        collection: 'income' as const,
+        id,
+        data: { ...data, updatedAt },
+      }))
+  );
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write income entries from a backup, keeping their ids
+ */
+export const restoreIncome = async (
+  userId: string,
+  income: Income[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'income', income, mode);
+};
@@ -3,8 +3,22 @@
 // ============================================
 
 export * from './config';
+export * from './batch';
+export * from './repository';
+export * from './sync';
 export * from './auth';
 export * from './expenses';
 export * from './income';
+export * from './rollups';
+export * from './currencies';
+export * from './trash';
+export * from './audit';
 export * from './goals';
 export * from './categories';
+export * from './recurring';
+export * from './rules';
+export * from './budgets';
+export * from './accounts';
+export * from './payees';
+export * from './savingsGoals';
+export * from './debts';
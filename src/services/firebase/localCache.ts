@@ -0,0 +1,301 @@
+// ============================================
+// Local Record Cache & Write Queue
+// ============================================
+
+import { Timestamp, FieldValue, deleteField } from 'firebase/firestore';
+import { SyncedCollection } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+export type LocalRecord = Record<string, unknown> & { id: string; userId: string };
+
+export interface QueuedWrite {
+  seq?: number; // Assigned by the store; writes are sent in this order
+  userId: string;
+  collection: SyncedCollection;
+  docId: string;
+  type: 'set' | 'update' | 'delete';
+  data?: Record<string, unknown>; // Encoded, for set and update; a delete keeps the record's date
+  updatedAt: number; // When the change was made locally, in millis
+  batch?: string; // Writes queued together share this and are sent in one commit
+  status: 'pending' | 'failed';
+  error?: string;
+}
+
+interface LocalStore {
+  getRecords: (userId: string, collectionName: SyncedCollection) => Promise<LocalRecord[]>;
+  getRecord: (userId: string, collectionName: SyncedCollection, id: string) => Promise<LocalRecord | null>;
+  putRecord: (collectionName: SyncedCollection, record: LocalRecord) => Promise<void>;
+  deleteRecord: (userId: string, collectionName: SyncedCollection, id: string) => Promise<void>;
+  // Swaps the cached records `isReplaced` selects (all of them by default) for `records`
+  replaceRecords: (
+    userId: string,
+    collectionName: SyncedCollection,
+    records: LocalRecord[],
+    isReplaced?: (record: LocalRecord) => boolean
+  ) => Promise<void>;
+  getQueuedWrites: (userId: string) => Promise<QueuedWrite[]>;
+  saveQueuedWrite: (write: QueuedWrite) => Promise<void>;
+  removeQueuedWrite: (seq: number) => Promise<void>;
+}
+
+const SYNCED_COLLECTIONS: SyncedCollection[] = ['expenses', 'income', 'trash', 'auditLog'];
+
+// ============================================
+// Encoding
+// ============================================
+
+// Timestamps and delete sentinels are class instances, which IndexedDB can't store as is
+const TIMESTAMP_KEY = '__timestamp';
+const DELETE_KEY = '__delete';
+
+const encodeValue = (value: unknown): unknown => {
+  if (value instanceof Timestamp) return { [TIMESTAMP_KEY]: value.toMillis() };
+  // deleteField() is the only sentinel that is ever queued
+  if (value instanceof FieldValue) return { [DELETE_KEY]: true };
+  if (Array.isArray(value)) return value.map(encodeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, encodeValue(entry)])
+    );
+  }
+  return value;
+};
+
+const decodeValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(decodeValue);
+  if (value && typeof value === 'object') {
+    if (TIMESTAMP_KEY in value) return Timestamp.fromMillis((value as Record<string, number>)[TIMESTAMP_KEY]);
+    if (DELETE_KEY in value) return deleteField();
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, decodeValue(entry)]));
+  }
+  return value;
+};
+
+export const encodeData = (data: Record<string, unknown>): Record<string, unknown> =>
+  encodeValue(data) as Record<string, unknown>;
+
+export const decodeData = <T = Record<string, unknown>>(data: Record<string, unknown>): T => decodeValue(data) as T;
+
+/**
+ * Whether an encoded value marks a field for deletion
+ */
+export const isDeleteMarker = (value: unknown): boolean =>
+  Boolean(value && typeof value === 'object' && DELETE_KEY in value);
+
+/**
+ * Apply encoded field updates to an encoded record
+ */
+export const mergeEncoded = (record: LocalRecord, updates: Record<string, unknown>): LocalRecord => {
+  const merged: LocalRecord = { ...record };
+  Object.entries(updates).forEach(([key, value]) => {
+    if (isDeleteMarker(value)) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  });
+  return merged;
+};
+
+// ============================================
+// IndexedDB Store
+// ============================================
+
+const DB_NAME = 'priz-finance-offline';
+const DB_VERSION = 3;
+const QUEUE_STORE = 'writeQueue';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const database = request.result;
+        // Stores added since the version the device has are created; existing ones keep their data
+        SYNCED_COLLECTIONS.filter((name) => !database.objectStoreNames.contains(name)).forEach((name) => {
+          database.createObjectStore(name, { keyPath: ['userId', 'id'] }).createIndex('userId', 'userId');
+        });
+        if (!database.objectStoreNames.contains(QUEUE_STORE)) {
+          database
+            .createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true })
+            .createIndex('userId', 'userId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return databasePromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves once the transaction commits, so callers know the write is durable
+const runTransaction = async (
+  storeName: string,
+  run: (store: IDBObjectStore) => void
+): Promise<void> => {
+  const database = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = database.transaction(storeName, 'readwrite');
+    run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const getAllForUser = async <T>(storeName: string, userId: string): Promise<T[]> => {
+  const database = await openDatabase();
+  const index = database.transaction(storeName).objectStore(storeName).index('userId');
+  return requestToPromise(index.getAll(userId) as IDBRequest<T[]>);
+};
+
+// Every [userId, id] key sorts between [userId] and [userId, []]
+const userKeyRange = (userId: string) => IDBKeyRange.bound([userId], [userId, []]);
+
+const indexedDbStore: LocalStore = {
+  getRecords: (userId, collectionName) => getAllForUser<LocalRecord>(collectionName, userId),
+  getRecord: async (userId, collectionName, id) => {
+    const database = await openDatabase();
+    const store = database.transaction(collectionName).objectStore(collectionName);
+    return (await requestToPromise(store.get([userId, id]) as IDBRequest<LocalRecord | undefined>)) ?? null;
+  },
+  putRecord: (collectionName, record) => runTransaction(collectionName, (store) => store.put(record)),
+  deleteRecord: (userId, collectionName, id) =>
+    runTransaction(collectionName, (store) => store.delete([userId, id])),
+  replaceRecords: (userId, collectionName, records, isReplaced) =>
+    runTransaction(collectionName, (store) => {
+      if (!isReplaced) {
+        store.delete(userKeyRange(userId));
+        records.forEach((record) => store.put(record));
+        return;
+      }
+
+      // Puts wait until the cursor is done so it never visits the new records
+      const request = store.openCursor(userKeyRange(userId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          if (isReplaced(cursor.value as LocalRecord)) cursor.delete();
+          cursor.continue();
+        } else {
+          records.forEach((record) => store.put(record));
+        }
+      };
+    }),
+  getQueuedWrites: async (userId) =>
+    (await getAllForUser<QueuedWrite>(QUEUE_STORE, userId)).sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0)),
+  saveQueuedWrite: (write) =>
+    runTransaction(QUEUE_STORE, (store) => {
+      // A present-but-undefined key is rejected, so new writes leave it off for the key generator
+      const { seq, ...rest } = write;
+      store.put(seq === undefined ? rest : write);
+    }),
+  removeQueuedWrite: (seq) => runTransaction(QUEUE_STORE, (store) => store.delete(seq)),
+};
+
+// ============================================
+// In-Memory Store
+// ============================================
+
+// Used where IndexedDB isn't available (server rendering, some private browsing modes)
+const memoryRecords = new Map<string, Map<string, LocalRecord>>();
+let memoryQueue: QueuedWrite[] = [];
+let nextSeq = 1;
+
+const getMemoryCollection = (userId: string, collectionName: SyncedCollection) => {
+  const key = `${userId}/${collectionName}`;
+  if (!memoryRecords.has(key)) memoryRecords.set(key, new Map());
+  return memoryRecords.get(key)!;
+};
+
+const memoryStore: LocalStore = {
+  getRecords: async (userId, collectionName) => Array.from(getMemoryCollection(userId, collectionName).values()),
+  getRecord: async (userId, collectionName, id) => getMemoryCollection(userId, collectionName).get(id) ?? null,
+  putRecord: async (collectionName, record) => {
+    getMemoryCollection(record.userId, collectionName).set(record.id, record);
+  },
+  deleteRecord: async (userId, collectionName, id) => {
+    getMemoryCollection(userId, collectionName).delete(id);
+  },
+  replaceRecords: async (userId, collectionName, records, isReplaced = () => true) => {
+    const cached = getMemoryCollection(userId, collectionName);
+    Array.from(cached.values())
+      .filter(isReplaced)
+      .forEach((record) => cached.delete(record.id));
+    records.forEach((record) => cached.set(record.id, record));
+  },
+  getQueuedWrites: async (userId) => memoryQueue.filter((write) => write.userId === userId),
+  saveQueuedWrite: async (write) => {
+    if (write.seq === undefined) {
+      memoryQueue.push({ ...write, seq: nextSeq++ });
+    } else {
+      memoryQueue = memoryQueue.map((queued) => (queued.seq === write.seq ? write : queued));
+    }
+  },
+  removeQueuedWrite: async (seq) => {
+    memoryQueue = memoryQueue.filter((write) => write.seq !== seq);
+  },
+};
+
+// ============================================
+// Store Selection
+// ============================================
+
+let storePromise: Promise<LocalStore> | null = null;
+
+const getStore = (): Promise<LocalStore> => {
+  if (!storePromise) {
+    storePromise =
+      typeof indexedDB === 'undefined'
+        ? Promise.resolve(memoryStore)
+        : openDatabase()
+            .then(() => indexedDbStore)
+            .catch((error) => {
+              console.warn('IndexedDB unavailable, keeping offline data in memory:', error);
+              return memoryStore;
+            });
+  }
+  return storePromise;
+};
+
+// ============================================
+// Exports
+// ============================================
+
+export const getCachedRecords = async (userId: string, collectionName: SyncedCollection) =>
+  (await getStore()).getRecords(userId, collectionName);
+
+export const getCachedRecord = async (userId: string, collectionName: SyncedCollection, id: string) =>
+  (await getStore()).getRecord(userId, collectionName, id);
+
+export const putCachedRecord = async (collectionName: SyncedCollection, record: LocalRecord) =>
+  (await getStore()).putRecord(collectionName, record);
+
+export const deleteCachedRecord = async (userId: string, collectionName: SyncedCollection, id: string) =>
+  (await getStore()).deleteRecord(userId, collectionName, id);
+
+export const replaceCachedRecords = async (
+  userId: string,
+  collectionName: SyncedCollection,
+  records: LocalRecord[],
+  isReplaced?: (record: LocalRecord) => boolean
+) => (await getStore()).replaceRecords(userId, collectionName, records, isReplaced);
+
+export const getQueuedWrites = async (userId: string) => (await getStore()).getQueuedWrites(userId);
+
+export const saveQueuedWrite = async (write: QueuedWrite) => (await getStore()).saveQueuedWrite(write);
+
+export const removeQueuedWrite = async (seq: number) => (await getStore()).removeQueuedWrite(seq);
@@ -0,0 +1,255 @@
+// ============================================
+// In-Memory Repository
+// ============================================
+
+import { DocumentData, FieldValue, Timestamp } from 'firebase/firestore';
+import {
+  FinanceCollection,
+  FinanceRepository,
+  ListOptions,
+  RepositoryRecord,
+  RepositoryWrite,
+} from './repository';
+
+// ============================================
+// Types
+// ============================================
+
+// Lets a memory repository keep its collections somewhere that outlives the page
+export interface RecordPersistence {
+  load: (key: string) => RepositoryRecord[] | null;
+  save: (key: string, records: RepositoryRecord[]) => void;
+  // Reports keys changed from outside this page, e.g. by another tab
+  watch?: (onChange: (key: string) => void) => () => void;
+}
+
+type RecordMap = Map<string, RepositoryRecord>;
+
+export interface MemoryRepository extends FinanceRepository {
+  // Fills an empty collection without going through writes; used for mock data
+  seed: <T extends { id: string }>(userId: string, collectionName: FinanceCollection, records: T[]) => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const collectionKey = (userId: string, collectionName: FinanceCollection) => `${userId}/${collectionName}`;
+
+const toComparable = (value: unknown): unknown => (value instanceof Timestamp ? value.toMillis() : value);
+
+const compareValues = (a: unknown, b: unknown): number => {
+  const left = toComparable(a);
+  const right = toComparable(b);
+  // Like Firestore, documents missing the field sort first
+  if (left === undefined || left === null) return right === undefined || right === null ? 0 : -1;
+  if (right === undefined || right === null) return 1;
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  return String(left).localeCompare(String(right));
+};
+
+// Firestore orders document ids by their bytes, not by locale
+const compareIds = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const applyList = (records: RepositoryRecord[], options: ListOptions): RepositoryRecord[] => {
+  let result = records;
+
+  if (options.where) {
+    const { field, value } = options.where;
+    result = result.filter((record) => record[field] === value);
+  }
+  if (options.orderBy) {
+    const field = options.orderBy;
+    const sign = options.direction === 'desc' ? -1 : 1;
+    // Ties fall back to the id, as Firestore orders them, so cursors land in the same place
+    const compare = (a: RepositoryRecord, b: RepositoryRecord) =>
+      sign * (compareValues(a[field], b[field]) || compareIds(a.id, b.id));
+    const { range, startAfter } = options;
+
+    if (range?.start !== undefined) result = result.filter((record) => compareValues(record[field], range.start) >= 0);
+    if (range?.end !== undefined) result = result.filter((record) => compareValues(record[field], range.end) <= 0);
+    result = [...result].sort(compare);
+    if (startAfter) result = result.filter((record) => compare(record, startAfter) > 0);
+  }
+  if (options.limit !== undefined) {
+    result = result.slice(0, options.limit);
+  }
+
+  return result;
+};
+
+// deleteField() is the only sentinel these collections use
+const mergeFields = (record: RepositoryRecord, data: DocumentData): RepositoryRecord => {
+  const merged: RepositoryRecord = { ...record };
+  Object.entries(data).forEach(([key, value]) => {
+    if (value instanceof FieldValue) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  });
+  return merged;
+};
+
+// ============================================
+// Change Events
+// ============================================
+
+type ChangeListener = () => void;
+
+// Tells subscribers of a collection key that its records changed
+const createEmitter = () => {
+  const listeners = new Map<string, Set<ChangeListener>>();
+
+  return {
+    on: (key: string, listener: ChangeListener): (() => void) => {
+      if (!listeners.has(key)) listeners.set(key, new Set());
+      listeners.get(key)!.add(listener);
+      return () => {
+        listeners.get(key)?.delete(listener);
+      };
+    },
+    emit: (key: string) => {
+      listeners.get(key)?.forEach((listener) => listener());
+    },
+    hasListeners: (): boolean => Array.from(listeners.values()).some((set) => set.size > 0),
+  };
+};
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Create a repository that keeps every collection in memory, optionally
+ * loading and saving each one through `persistence`
+ */
+export const createMemoryRepository = (persistence?: RecordPersistence): MemoryRepository => {
+  const collections = new Map<string, RecordMap>();
+  const changes = createEmitter();
+  let stopWatching: (() => void) | null = null;
+  let idCounter = 0;
+
+  const getCollection = (userId: string, collectionName: FinanceCollection): RecordMap => {
+    const key = collectionKey(userId, collectionName);
+    if (!collections.has(key)) {
+      const stored = persistence?.load(key) ?? [];
+      collections.set(key, new Map(stored.map((record) => [record.id, record])));
+    }
+    return collections.get(key)!;
+  };
+
+  // Persists a changed collection and tells its subscribers
+  const save = (userId: string, collectionName: FinanceCollection) => {
+    const key = collectionKey(userId, collectionName);
+    persistence?.save(key, Array.from(getCollection(userId, collectionName).values()));
+    changes.emit(key);
+  };
+
+  // Changes made elsewhere are reloaded from persistence while anyone is listening
+  const watchPersistence = () => {
+    if (stopWatching || !persistence?.watch) return;
+    // Anything loaded while nobody was watching may be out of date
+    collections.clear();
+    stopWatching = persistence.watch((key) => {
+      collections.delete(key);
+      changes.emit(key);
+    });
+  };
+
+  const unwatchPersistence = () => {
+    if (changes.hasListeners()) return;
+    stopWatching?.();
+    stopWatching = null;
+  };
+
+  const setRecord = (userId: string, write: Extract<RepositoryWrite, { type: 'set' }>, merge = false) => {
+    const records = getCollection(userId, write.collection);
+    const existing = records.get(write.id);
+    const base: RepositoryRecord = merge && existing ? existing : { id: write.id };
+    records.set(write.id, { ...mergeFields(base, write.data), id: write.id });
+  };
+
+  const updateRecord = (userId: string, write: Extract<RepositoryWrite, { type: 'update' }>) => {
+    const records = getCollection(userId, write.collection);
+    records.set(write.id, { ...mergeFields(records.get(write.id)!, write.data), id: write.id });
+  };
+
+  const assertExists = (userId: string, collectionName: FinanceCollection, id: string) => {
+    if (!getCollection(userId, collectionName).has(id)) {
+      throw new Error('No document to update');
+    }
+  };
+
+  const applyWrites = (userId: string, writes: RepositoryWrite[]) => {
+    // Checked up front so a failing batch leaves nothing half-written
+    writes
+      .filter((write) => write.type === 'update')
+      .forEach((write) => assertExists(userId, write.collection, write.id));
+
+    writes.forEach((write) => {
+      if (write.type === 'set') {
+        setRecord(userId, write);
+      } else if (write.type === 'update') {
+        updateRecord(userId, write);
+      } else {
+        getCollection(userId, write.collection).delete(write.id);
+      }
+    });
+    new Set(writes.map((write) => write.collection)).forEach((collectionName) => save(userId, collectionName));
+  };
+
+  return {
+    seed: (userId, collectionName, records) => {
+      const existing = getCollection(userId, collectionName);
+      if (existing.size > 0) return;
+      records.forEach((record) => existing.set(record.id, record as unknown as RepositoryRecord));
+      changes.emit(collectionKey(userId, collectionName));
+    },
+    createId: () => `local-${Date.now()}-${idCounter++}`,
+    list: async (userId, collectionName, options = {}) =>
+      applyList(Array.from(getCollection(userId, collectionName).values()), options),
+    get: async (userId, collectionName, id) => getCollection(userId, collectionName).get(id) ?? null,
+    set: async (userId, collectionName, id, data, options = {}) => {
+      setRecord(userId, { type: 'set', collection: collectionName, id, data }, options.merge);
+      save(userId, collectionName);
+    },
+    update: async (userId, collectionName, id, data) => {
+      assertExists(userId, collectionName, id);
+      updateRecord(userId, { type: 'update', collection: collectionName, id, data });
+      save(userId, collectionName);
+    },
+    remove: async (userId, collectionName, id) => {
+      getCollection(userId, collectionName).delete(id);
+      save(userId, collectionName);
+    },
+    commit: async (userId, writes) => applyWrites(userId, writes),
+    // Reads and writes happen in one synchronous step, so nothing can change in between
+    transact: async (userId, reads, apply) =>
+      applyWrites(userId, apply(reads.map((read) => getCollection(userId, read.collection).get(read.id) ?? null))),
+    subscribe: (userId, collectionName, options, onChange) => {
+      let isActive = true;
+      const send = () => {
+        if (isActive) onChange(applyList(Array.from(getCollection(userId, collectionName).values()), options));
+      };
+
+      watchPersistence();
+      const off = changes.on(collectionKey(userId, collectionName), send);
+      // The first snapshot arrives asynchronously, as it does from Firestore
+      void Promise.resolve().then(send);
+
+      return () => {
+        isActive = false;
+        off();
+        unwatchPersistence();
+      };
+    },
+  };
+};
+
+// ============================================
+// Shared Instance
+// ============================================
+
+// Dev mode's stand-in for Firestore; contents last until the page reloads
+export const memoryRepository = createMemoryRepository();
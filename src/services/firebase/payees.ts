@@ -0,0 +1,235 @@
+// ============================================
+// Payees Firestore Operations
+// ============================================
+
+import { deleteField, DocumentData, Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection, FinanceCollection, RepositoryWrite } from './repository';
+import { rebuildRollups } from './rollups';
+import { commitWrites, readCollection, SyncedWrite } from './sync';
+import { Payee, NewPayee, RestoreMode } from '@/types';
+import { AMAZON_PAYEE, AMAZON_PAYEE_ID, LEGACY_AMAZON_CATEGORY } from '@/lib/utils/constants';
+import { normalizeMerchant } from '@/services/rules';
+
+// ============================================
+// Helpers
+// ============================================
+
+// Aliases are stored normalized, so they read the way they're matched
+const toAliases = (aliases: string[]): string[] =>
+  Array.from(new Set(aliases.map(normalizeMerchant).filter(Boolean)));
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all payees for a user, by name
+ */
+export const getPayees = async (userId: string): Promise<Payee[]> => {
+  const payees = await repository.list(userId, 'payees', { orderBy: 'name' });
+  return payees as unknown as Payee[];
+};
+
+/**
+ * Add a payee
+ */
+export const addPayee = async (userId: string, payee: NewPayee, id?: string): Promise<string> => {
+  const data = {
+    userId,
+    name: payee.name.trim(),
+    aliases: toAliases(payee.aliases),
+    ...(payee.defaultCategory && { defaultCategory: payee.defaultCategory }),
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const payeeId = id ?? repository.createId(userId, 'payees');
+  await repository.set(userId, 'payees', payeeId, data);
+
+  return payeeId;
+};
+
+/**
+ * Update a payee's details. Clearing the default category removes it.
+ */
+export const updatePayee = async (userId: string, payeeId: string, updates: Partial<NewPayee>): Promise<void> => {
+  await repository.update(userId, 'payees', payeeId, {
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    ...(updates.aliases && { aliases: toAliases(updates.aliases) }),
+    ...('defaultCategory' in updates && { defaultCategory: updates.defaultCategory ?? deleteField() }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Delete a payee. Expenses pinned to it fall back to matching by description.
+ */
+export const deletePayee = async (userId: string, payeeId: string): Promise<void> => {
+  const pinned = await repository.list(userId, 'expenses', { where: { field: 'payeeId', value: payeeId } });
+  const writes: RepositoryWrite[] = [
+    ...pinned.map((expense): RepositoryWrite => ({
+      type: 'update',
+      collection: 'expenses',
+      id: expense.id,
+      data: { payeeId: deleteField() },
+    })),
+    { type: 'delete', collection: 'payees', id: payeeId },
+  ];
+
+  await repository.commit(userId, writes);
+};
+
+// ============================================
+// Migration
+// ============================================
+
+// Set on the device once every expense has been read for Amazon splits
+const AMAZON_SPLITS_STORAGE_PREFIX = 'priz-finance-amazon-splits-checked:';
+
+const haveAmazonSplitsBeenChecked = (userId: string): boolean =>
+  typeof localStorage !== 'undefined' && localStorage.getItem(AMAZON_SPLITS_STORAGE_PREFIX + userId) !== null;
+
+const markAmazonSplitsChecked = (userId: string) => {
+  if (typeof localStorage === 'undefined') return;
+  localStorage.setItem(AMAZON_SPLITS_STORAGE_PREFIX + userId, new Date().toISOString());
+};
+
+// An expense as stored, which may still name the old category
+interface LegacyExpense {
+  id: string;
+  category: string;
+  payeeId?: string;
+  splits?: { category: string }[];
+}
+
+const hasAmazonSplit = (expense: LegacyExpense): boolean =>
+  (expense.splits ?? []).some((split) => split.category === LEGACY_AMAZON_CATEGORY);
+
+/**
+ * Whether anything still uses the old Amazon category. Splits can't be queried
+ * for, so every expense is read for them once per device.
+ */
+const usesAmazonCategory = async (userId: string): Promise<boolean> => {
+  const references: FinanceCollection[] = ['expenses', 'recurringRules'];
+  const checks = references.map(async (collectionName) => {
+    const matches = await repository.list(userId, collectionName, {
+      where: { field: 'category', value: LEGACY_AMAZON_CATEGORY },
+      limit: 1,
+    });
+    return matches.length > 0;
+  });
+
+  if (
+    (await Promise.all(checks)).some(Boolean) ||
+    (await repository.get(userId, 'budgets', LEGACY_AMAZON_CATEGORY)) !== null
+  ) {
+    return true;
+  }
+
+  if (haveAmazonSplitsBeenChecked(userId)) return false;
+  const inSplits = (await readCollection<LegacyExpense>(userId, 'expenses')).some(hasAmazonSplit);
+  if (!inSplits) markAmazonSplitsChecked(userId);
+  return inSplits;
+};
+
+/**
+ * Turn the old Amazon category into the Amazon payee under Shopping.
+ * Expenses keep pointing at Amazon through payeeId, since many have no description to match.
+ * Returns whether anything was migrated; safe to run again.
+ */
+export const migrateAmazonCategory = async (userId: string): Promise<boolean> => {
+  if (!(await usesAmazonCategory(userId))) return false;
+
+  const shopping = AMAZON_PAYEE.defaultCategory!;
+  const swap = <T>(category: T): T => (category === LEGACY_AMAZON_CATEGORY ? (shopping as T) : category);
+
+  if (!(await repository.get(userId, 'payees', AMAZON_PAYEE_ID))) {
+    await addPayee(userId, AMAZON_PAYEE, AMAZON_PAYEE_ID);
+  }
+
+  // Expenses are read and written through the device cache and sync queue, like any other edit
+  const [expenses, recurringRules, categorizationRules, budgets, budgetTransfers] = await Promise.all([
+    readCollection<LegacyExpense>(userId, 'expenses'),
+    repository.list(userId, 'recurringRules'),
+    repository.list(userId, 'categorizationRules'),
+    repository.list(userId, 'budgets'),
+    repository.list(userId, 'budgetTransfers'),
+  ]);
+  const expenseWrites: SyncedWrite[] = [];
+  const writes: RepositoryWrite[] = [];
+
+  expenses.forEach((expense) => {
+    const inSplits = hasAmazonSplit(expense);
+    if (expense.category !== LEGACY_AMAZON_CATEGORY && !inSplits) return;
+    expenseWrites.push({
+      type: 'update',
+      collection: 'expenses',
+      id: expense.id,
+      data: {
+        category: swap(expense.category),
+        ...(inSplits && { splits: expense.splits!.map((split) => ({ ...split, category: swap(split.category) })) }),
+        ...(expense.category === LEGACY_AMAZON_CATEGORY && !expense.payeeId && { payeeId: AMAZON_PAYEE_ID }),
+        // A newer updatedAt keeps an older cached or queued copy from undoing the change
+        updatedAt: Timestamp.now(),
+      },
+    });
+  });
+
+  recurringRules
+    .filter((rule) => rule.category === LEGACY_AMAZON_CATEGORY)
+    .forEach((rule) =>
+      writes.push({ type: 'update', collection: 'recurringRules', id: rule.id, data: { category: shopping } })
+    );
+
+  categorizationRules
+    .filter((rule) => (rule.actions as { category?: string }).category === LEGACY_AMAZON_CATEGORY)
+    .forEach((rule) =>
+      writes.push({
+        type: 'update',
+        collection: 'categorizationRules',
+        id: rule.id,
+        data: { actions: { ...(rule.actions as object), category: shopping } },
+      })
+    );
+
+  // Budgets are keyed by category, so Amazon's moves to Shopping unless Shopping already has one
+  const amazonBudget = budgets.find((budget) => budget.id === LEGACY_AMAZON_CATEGORY);
+  if (amazonBudget) {
+    // The id is the document key, not part of its data
+    const data: DocumentData = { ...amazonBudget };
+    delete data.id;
+    if (!budgets.some((budget) => budget.id === shopping)) {
+      writes.push({ type: 'set', collection: 'budgets', id: shopping, data: { ...data, category: shopping } });
+    }
+    writes.push({ type: 'delete', collection: 'budgets', id: LEGACY_AMAZON_CATEGORY });
+  }
+
+  budgetTransfers
+    .filter((transfer) => transfer.fromCategory === LEGACY_AMAZON_CATEGORY || transfer.toCategory === LEGACY_AMAZON_CATEGORY)
+    .forEach((transfer) =>
+      writes.push({
+        type: 'update',
+        collection: 'budgetTransfers',
+        id: transfer.id,
+        data: { fromCategory: swap(transfer.fromCategory), toCategory: swap(transfer.toCategory) },
+      })
+    );
+
+  await commitWrites(userId, expenseWrites);
+  await repository.commit(userId, writes);
+  markAmazonSplitsChecked(userId);
+  // Monthly totals are kept per category
+  await rebuildRollups(userId);
+  return true;
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write payees from a backup, keeping their ids
+ */
+export const restorePayees = async (userId: string, payees: Payee[], mode: RestoreMode): Promise<void> => {
+  await restoreCollection(userId, 'payees', payees, mode);
+};
@@ -0,0 +1,283 @@
+// ============================================
+// Recurring Rules Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { startOfDay, endOfDay, addDays, subDays } from 'date-fns';
+import { repository, restoreCollection } from './repository';
+import {
+  addExpenses,
+  updateExpense,
+  deleteExpense,
+  deleteExpenses,
+  getExpensesByRecurringId,
+} from './expenses';
+import {
+  Expense,
+  NewExpense,
+  RecurringRule,
+  NewRecurringRule,
+  RecurringEditScope,
+  RestoreMode,
+} from '@/types';
+import { getRecurrenceOccurrences } from '@/lib/utils/dateUtils';
+
+// ============================================
+// Helpers
+// ============================================
+
+// Only these fields carry over from an occurrence edit to the rule itself
+type RuleEditableFields = Pick<NewExpense, 'amount' | 'currency' | 'category' | 'description' | 'tags' | 'accountId'>;
+
+const pickRuleFields = (updates: Partial<NewExpense>): Partial<RuleEditableFields> => {
+  const fields: Partial<RuleEditableFields> = {};
+  if (updates.amount !== undefined) fields.amount = updates.amount;
+  if (updates.currency !== undefined) fields.currency = updates.currency;
+  if (updates.category !== undefined) fields.category = updates.category;
+  if (updates.description !== undefined) fields.description = updates.description;
+  if (updates.tags !== undefined) fields.tags = updates.tags;
+  if (updates.accountId !== undefined) fields.accountId = updates.accountId;
+  return fields;
+};
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Add a new recurring rule
+ */
+export const addRecurringRule = async (
+  userId: string,
+  rule: NewRecurringRule
+): Promise<string> => {
+  const data = {
+    userId,
+    amount: rule.amount,
+    ...(rule.currency && { currency: rule.currency }),
+    category: rule.category,
+    description: rule.description || '',
+    tags: rule.tags || [],
+    ...(rule.accountId && { accountId: rule.accountId }),
+    frequency: rule.frequency,
+    ...(rule.frequency === 'monthly' && {
+      dayOfMonth: rule.dayOfMonth ?? rule.startDate.getDate(),
+    }),
+    startDate: Timestamp.fromDate(startOfDay(rule.startDate)),
+    ...(rule.endDate && { endDate: Timestamp.fromDate(endOfDay(rule.endDate)) }),
+    isActive: true,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'recurringRules');
+  await repository.set(userId, 'recurringRules', id, data);
+
+  return id;
+};
+
+/**
+ * Get all recurring rules for a user
+ */
+export const getRecurringRules = async (userId: string): Promise<RecurringRule[]> => {
+  const rules = await repository.list(userId, 'recurringRules', { orderBy: 'startDate' });
+  return rules as unknown as RecurringRule[];
+};
+
+/**
+ * Update a recurring rule
+ */
+export const updateRecurringRule = async (
+  userId: string,
+  ruleId: string,
+  updates: Partial<Omit<RecurringRule, 'id' | 'userId' | 'createdAt' | 'updatedAt'>>
+): Promise<void> => {
+  await repository.update(userId, 'recurringRules', ruleId, {
+    ...updates,
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * End a recurring rule so no occurrences are generated after the given date
+ */
+export const endRecurringRule = async (
+  userId: string,
+  ruleId: string,
+  lastDate: Date
+): Promise<void> => {
+  await updateRecurringRule(userId, ruleId, {
+    endDate: Timestamp.fromDate(endOfDay(lastDate)),
+    isActive: false,
+  });
+};
+
+// ============================================
+// Materializer
+// ============================================
+
+/**
+ * Move a rule's lastGeneratedDate on to `end`, unless another run already has.
+ * Returns whether this run claimed the occurrences up to `end`.
+ */
+const claimOccurrences = async (
+  userId: string,
+  rule: RecurringRule,
+  end: Date,
+  isActive: boolean
+): Promise<boolean> => {
+  let claimed = false;
+  await repository.transact(userId, [{ collection: 'recurringRules', id: rule.id }], ([current]) => {
+    const lastGenerated = (current?.lastGeneratedDate as Timestamp | undefined)?.toMillis();
+    claimed = current !== null && lastGenerated === rule.lastGeneratedDate?.toMillis();
+    if (!claimed) return [];
+
+    return [
+      {
+        type: 'update',
+        collection: 'recurringRules',
+        id: rule.id,
+        data: { lastGeneratedDate: Timestamp.fromDate(startOfDay(end)), isActive, updatedAt: Timestamp.now() },
+      },
+    ];
+  });
+  return claimed;
+};
+
+/**
+ * Create the expense rows that have come due for every active rule.
+ * Each rule remembers the last day it processed, so running this on every
+ * app load only ever creates the occurrences since the previous run. That day
+ * is claimed before the rows are added, so runs in other tabs or on other
+ * devices never add the same occurrence twice.
+ * Returns the number of expenses created.
+ */
+export const materializeRecurringExpenses = async (
+  userId: string,
+  now: Date = new Date()
+): Promise<number> => {
+  const rules = await getRecurringRules(userId);
+  const today = endOfDay(now);
+  let created = 0;
+
+  for (const rule of rules) {
+    if (!rule.isActive) continue;
+
+    const start = rule.lastGeneratedDate
+      ? startOfDay(addDays(rule.lastGeneratedDate.toDate(), 1))
+      : rule.startDate.toDate();
+    const ruleEnd = rule.endDate?.toDate();
+    const end = ruleEnd && ruleEnd < today ? ruleEnd : today;
+
+    if (start > end) continue;
+
+    // Rules whose end date has passed have nothing left to generate
+    const isActive = !ruleEnd || ruleEnd > today;
+    if (!(await claimOccurrences(userId, rule, end, isActive))) continue;
+
+    const dates = getRecurrenceOccurrences(
+      rule.startDate.toDate(),
+      rule.frequency,
+      { start, end },
+      rule.dayOfMonth
+    );
+
+    if (dates.length > 0) {
+      await addExpenses(
+        userId,
+        dates.map((date) => ({
+          amount: rule.amount,
+          ...(rule.currency && { currency: rule.currency }),
+          category: rule.category,
+          description: rule.description,
+          date,
+          isRecurring: true,
+          recurringId: rule.id,
+          tags: rule.tags,
+          ...(rule.accountId && { accountId: rule.accountId }),
+        })),
+        'recurring'
+      );
+      created += dates.length;
+    }
+  }
+
+  return created;
+};
+
+// ============================================
+// Occurrence Operations
+// ============================================
+
+/**
+ * Edit a materialized occurrence, either on its own or together with every
+ * later occurrence of the same rule. Date changes only ever move the single
+ * occurrence; the rule's schedule is left untouched.
+ */
+export const updateRecurringOccurrence = async (
+  userId: string,
+  expense: Expense,
+  updates: Partial<NewExpense>,
+  scope: RecurringEditScope
+): Promise<void> => {
+  if (scope === 'occurrence' || !expense.recurringId) {
+    await updateExpense(userId, expense.id, updates);
+    return;
+  }
+
+  const ruleFields = pickRuleFields(updates);
+  await updateRecurringRule(userId, expense.recurringId, ruleFields);
+
+  const from = startOfDay(expense.date.toDate());
+  const series = await getExpensesByRecurringId(userId, expense.recurringId);
+  await Promise.all(
+    series
+      .filter((occurrence) => occurrence.date.toDate() >= from)
+      .map((occurrence) =>
+        // Only the edited occurrence was changed by hand; the rest follow the rule
+        occurrence.id === expense.id
+          ? updateExpense(userId, occurrence.id, updates)
+          : updateExpense(userId, occurrence.id, ruleFields, 'recurring')
+      )
+  );
+};
+
+/**
+ * End a recurring series at an occurrence. "occurrence" removes just this
+ * row; "future" also stops the rule and removes every later occurrence.
+ */
+export const endRecurringOccurrence = async (
+  userId: string,
+  expense: Expense,
+  scope: RecurringEditScope
+): Promise<void> => {
+  if (scope === 'occurrence' || !expense.recurringId) {
+    await deleteExpense(userId, expense.id);
+    return;
+  }
+
+  const from = startOfDay(expense.date.toDate());
+  await endRecurringRule(userId, expense.recurringId, subDays(from, 1));
+
+  const series = await getExpensesByRecurringId(userId, expense.recurringId);
+  await deleteExpenses(
+    userId,
+    series.filter((occurrence) => occurrence.date.toDate() >= from).map((occurrence) => occurrence.id),
+    'recurring'
+  );
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write recurring rules from a backup, keeping their ids
+ */
+export const restoreRecurringRules = async (
+  userId: string,
+  rules: RecurringRule[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'recurringRules', rules, mode);
+};
@@ -0,0 +1,141 @@
+// ============================================
+// Finance Data Repository
+// ============================================
+
+import { DocumentData } from 'firebase/firestore';
+import { dataBackend } from './config';
+import { firestoreRepository } from './firestoreRepository';
+import { memoryRepository } from './memoryRepository';
+import { browserRepository } from './browserRepository';
+import { RestoreMode } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+// Every collection kept under a user
+export type FinanceCollection =
+  | 'profile'
+  | 'expenses'
+  | 'income'
+  | 'goals'
+  | 'customCategories'
+  | 'recurringRules'
+  | 'categorizationRules'
+  | 'budgets'
+  | 'budgetTransfers'
+  | 'accounts'
+  | 'accountTransfers'
+  | 'payees'
+  | 'savingsGoals'
+  | 'debts'
+  | 'rollups'
+  | 'trash'
+  | 'auditLog';
+
+// A stored document with its id alongside its data
+export type RepositoryRecord = Record<string, unknown> & { id: string };
+
+export interface ListOptions {
+  orderBy?: string;
+  direction?: 'asc' | 'desc';
+  where?: { field: string; value: unknown };
+  // Inclusive bounds on the orderBy field
+  range?: { start?: unknown; end?: unknown };
+  // Continue after this record; ties on the orderBy field are broken by id
+  startAfter?: RepositoryRecord;
+  limit?: number;
+}
+
+export type RepositoryWrite =
+  | { type: 'set'; collection: FinanceCollection; id: string; data: DocumentData }
+  | { type: 'update'; collection: FinanceCollection; id: string; data: DocumentData }
+  | { type: 'delete'; collection: FinanceCollection; id: string };
+
+export interface RepositoryRead {
+  collection: FinanceCollection;
+  id: string;
+}
+
+/**
+ * Document storage for one user's finance data. Field values are Firestore
+ * types (Timestamps, deleteField()) whichever implementation is behind it.
+ */
+export interface FinanceRepository {
+  createId: (userId: string, collectionName: FinanceCollection) => string;
+  list: (userId: string, collectionName: FinanceCollection, options?: ListOptions) => Promise<RepositoryRecord[]>;
+  get: (userId: string, collectionName: FinanceCollection, id: string) => Promise<RepositoryRecord | null>;
+  set: (
+    userId: string,
+    collectionName: FinanceCollection,
+    id: string,
+    data: DocumentData,
+    options?: { merge?: boolean }
+  ) => Promise<void>;
+  // Fails when the document doesn't exist
+  update: (userId: string, collectionName: FinanceCollection, id: string, data: DocumentData) => Promise<void>;
+  remove: (userId: string, collectionName: FinanceCollection, id: string) => Promise<void>;
+  // Applies every write, in as few round trips as the backend allows
+  commit: (userId: string, writes: RepositoryWrite[]) => Promise<void>;
+  // Reads documents and applies the writes `apply` returns for them atomically. `apply` runs
+  // again if the documents change underneath it; fails rather than waits when offline.
+  transact: (
+    userId: string,
+    reads: RepositoryRead[],
+    apply: (records: (RepositoryRecord | null)[]) => RepositoryWrite[]
+  ) => Promise<void>;
+  // Calls onChange with the whole list now and after every change. Returns an unsubscribe function.
+  subscribe: (
+    userId: string,
+    collectionName: FinanceCollection,
+    options: ListOptions,
+    onChange: (records: RepositoryRecord[]) => void,
+    onError: (error: Error) => void
+  ) => () => void;
+}
+
+// ============================================
+// Active Repository
+// ============================================
+
+const repositories: Record<typeof dataBackend, FinanceRepository> = {
+  firestore: firestoreRepository,
+  memory: memoryRepository,
+  browser: browserRepository,
+};
+
+export const repository: FinanceRepository = repositories[dataBackend];
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Write records into a user collection under their own ids.
+ * In replace mode, documents that aren't in `records` are deleted.
+ */
+export const restoreCollection = async <T extends { id: string }>(
+  userId: string,
+  collectionName: FinanceCollection,
+  records: T[],
+  mode: RestoreMode
+): Promise<void> => {
+  const writes: RepositoryWrite[] = [];
+
+  if (mode === 'replace') {
+    const ids = new Set(records.map((record) => record.id));
+    const existing = await repository.list(userId, collectionName);
+    existing
+      .filter((record) => !ids.has(record.id))
+      .forEach((record) => writes.push({ type: 'delete', collection: collectionName, id: record.id }));
+  }
+
+  records.forEach((record) => {
+    // The id is the document key, not part of its data
+    const data: DocumentData = { ...record };
+    delete data.id;
+    writes.push({ type: 'set', collection: collectionName, id: record.id, data });
+  });
+
+  await repository.commit(userId, writes);
+};
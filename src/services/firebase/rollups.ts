@@ -0,0 +1,233 @@
+// ============================================
+// Monthly Rollup Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { endOfMonth } from 'date-fns';
+import { dataBackend } from './config';
+import { repository, restoreCollection, RepositoryWrite } from './repository';
+import { readCollection, subscribeToFlushes, isBrowserOnline } from './sync';
+import { DateWindow, Expense, Income, MonthlyRollup, RollupChange, RollupTotals } from '@/types';
+import { getMonthYearKey } from '@/lib/utils/dateUtils';
+import { applyRollupChanges, buildRollups, getRollupMonth } from '@/services/analytics/rollups';
+
+// Kept alongside the months; its presence means the rollups have been built at least once
+const ROLLUP_STATUS_ID = 'status';
+
+// ============================================
+// Dirty Months
+// ============================================
+
+// Months whose stored summary may be wrong, kept on the device until they're recounted
+const DIRTY_STORAGE_PREFIX = 'priz-finance-dirty-rollups:';
+
+const getDirtyMonths = (userId: string): Set<string> => {
+  if (typeof localStorage === 'undefined') return new Set();
+  try {
+    return new Set(JSON.parse(localStorage.getItem(DIRTY_STORAGE_PREFIX + userId) || '[]') as string[]);
+  } catch {
+    return new Set();
+  }
+};
+
+const saveDirtyMonths = (userId: string, months: Set<string>) => {
+  if (typeof localStorage === 'undefined') return;
+  if (months.size === 0) {
+    localStorage.removeItem(DIRTY_STORAGE_PREFIX + userId);
+  } else {
+    localStorage.setItem(DIRTY_STORAGE_PREFIX + userId, JSON.stringify([...months]));
+  }
+};
+
+const markMonthsDirty = (userId: string, months: string[]) => {
+  if (months.length === 0) return;
+  saveDirtyMonths(userId, new Set([...getDirtyMonths(userId), ...months]));
+};
+
+// ============================================
+// Reads
+// ============================================
+
+/**
+ * Listen to the stored month summaries, oldest first, optionally only the months
+ * overlapping `window`. Returns an unsubscribe function.
+ */
+export const subscribeToRollups = (
+  userId: string,
+  window: DateWindow,
+  onChange: (rollups: MonthlyRollup[]) => void,
+  onError: (error: Error) => void
+): (() => void) =>
+  repository.subscribe(
+    userId,
+    'rollups',
+    {
+      orderBy: 'month',
+      direction: 'asc',
+      range: {
+        start: window.start && getMonthYearKey(window.start),
+        end: window.end && getMonthYearKey(window.end),
+      },
+    },
+    (records) =>
+      onChange(records.filter((record) => record.id !== ROLLUP_STATUS_ID) as unknown as MonthlyRollup[]),
+    onError
+  );
+
+// ============================================
+// Incremental Updates
+// ============================================
+
+// Updates, recounts and rebuilds run one at a time, so none of them lands on top of another
+let updating: Promise<void> = Promise.resolve();
+
+const enqueueRollupWork = (work: () => Promise<void>): Promise<void> => {
+  const run = updating.then(work);
+  updating = run.catch(() => undefined);
+  return run;
+};
+
+// A month with nothing left in it isn't stored
+const toMonthWrite = (month: string, currencies: Record<string, RollupTotals>): RepositoryWrite =>
+  Object.keys(currencies).length === 0
+    ? { type: 'delete', collection: 'rollups', id: month }
+    : { type: 'set', collection: 'rollups', id: month, data: { month, currencies, updatedAt: Timestamp.now() } };
+
+// Counts changes into their months in a transaction, so edits from other tabs or
+// devices can't overwrite each other. Months that can't be written are marked
+// dirty; months already dirty are left for the recount.
+const writeMonths = async (userId: string, changes: RollupChange[]): Promise<void> => {
+  const dirty = getDirtyMonths(userId);
+  const changesByMonth = new Map<string, RollupChange[]>();
+  changes.forEach((change) => {
+    const month = getRollupMonth(change.record);
+    if (!dirty.has(month)) changesByMonth.set(month, [...(changesByMonth.get(month) ?? []), change]);
+  });
+
+  const months = Array.from(changesByMonth.keys());
+  if (months.length === 0) return;
+
+  try {
+    await repository.transact(
+      userId,
+      months.map((month) => ({ collection: 'rollups', id: month })),
+      (existing) =>
+        months.map((month, index) => {
+          const stored = existing[index] as unknown as MonthlyRollup | null;
+          const currencies = applyRollupChanges(stored?.currencies ?? {}, changesByMonth.get(month)!);
+
+          return toMonthWrite(month, currencies);
+        })
+    );
+  } catch (error) {
+    markMonthsDirty(userId, months);
+    throw error;
+  }
+};
+
+// Recount every dirty month from its records, as read from the server with any
+// queued writes laid over them. Waits for a connection, since the records and
+// the summaries both live on the server.
+const recountDirtyMonths = async (userId: string): Promise<void> => {
+  const dirty = getDirtyMonths(userId);
+  if (dirty.size === 0 || !isBrowserOnline()) return;
+
+  const writes: RepositoryWrite[] = [];
+  for (const month of dirty) {
+    const [year, monthNumber] = month.split('-').map(Number);
+    const start = new Date(year, monthNumber - 1, 1);
+    const window = { start, end: endOfMonth(start) };
+    const [expenses, income] = await Promise.all([
+      readCollection<Expense>(userId, 'expenses', window),
+      readCollection<Income>(userId, 'income', window),
+    ]);
+    writes.push(toMonthWrite(month, buildRollups(expenses, income).get(month) ?? {}));
+  }
+
+  await repository.commit(userId, writes);
+  const remaining = getDirtyMonths(userId);
+  dirty.forEach((month) => remaining.delete(month));
+  saveDirtyMonths(userId, remaining);
+};
+
+/**
+ * Count added, changed or deleted records into their months' summaries. Failures
+ * are logged rather than thrown, since the records themselves are already saved;
+ * the months left behind are recounted once there's a connection.
+ */
+export const updateRollups = (userId: string, changes: RollupChange[]): Promise<void> => {
+  if (changes.length === 0) return updating;
+
+  return enqueueRollupWork(async () => {
+    await writeMonths(userId, changes);
+    await recountDirtyMonths(userId);
+  }).catch((error) => console.error('Error updating rollups:', error));
+};
+
+/**
+ * Recount the months of these records, plus any already marked dirty. Failures are logged.
+ */
+export const repairRollups = (userId: string, records: Record<string, unknown>[] = []): Promise<void> => {
+  const months = records.flatMap((record) =>
+    record.date instanceof Timestamp ? [getMonthYearKey(record.date.toDate())] : []
+  );
+
+  return enqueueRollupWork(async () => {
+    markMonthsDirty(userId, months);
+    await recountDirtyMonths(userId);
+  }).catch((error) => console.error('Error repairing rollups:', error));
+};
+
+// Writes that lost a conflict or were discarded were already counted as made
+subscribeToFlushes((userId, records) => {
+  void repairRollups(userId, records);
+});
+
+// ============================================
+// Rebuild
+// ============================================
+
+/**
+ * Recount every month from the user's expenses and income, replacing what's stored
+ */
+export const rebuildRollups = async (userId: string): Promise<void> => {
+  const rebuild = async () => {
+    const [expenses, income] = await Promise.all([
+      readCollection<Expense>(userId, 'expenses'),
+      readCollection<Income>(userId, 'income'),
+    ]);
+    const updatedAt = Timestamp.now();
+    const months = Array.from(buildRollups(expenses, income), ([month, currencies]) => ({
+      id: month,
+      month,
+      currencies,
+      updatedAt,
+    }));
+
+    await restoreCollection(userId, 'rollups', [...months, { id: ROLLUP_STATUS_ID, builtAt: updatedAt }], 'replace');
+  };
+
+  // Everything is recounted, so nothing is left dirty
+  await enqueueRollupWork(async () => {
+    await rebuild();
+    saveDirtyMonths(userId, new Set());
+  });
+};
+
+/**
+ * Build the rollups if they never have been, e.g. for data saved before they
+ * existed, and recount any months left dirty by an earlier session
+ */
+export const ensureRollups = async (userId: string): Promise<void> => {
+  const status = await repository.get(userId, 'rollups', ROLLUP_STATUS_ID);
+  if (!status) {
+    await rebuildRollups(userId);
+  } else {
+    await repairRollups(userId);
+  }
+};
+
+// Development mode starts from seeded data, so count it up front
+if (dataBackend === 'memory') {
+  void ensureRollups('dev-user');
+}
@@ -0,0 +1,119 @@
+// ============================================
+// Categorization Rules Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection, RepositoryWrite } from './repository';
+import { CategorizationRule, NewCategorizationRule, RuleConditions, RuleActions, RestoreMode } from '@/types';
+import { normalizeTag } from '@/lib/utils/formatters';
+
+// ============================================
+// Helpers
+// ============================================
+
+// Firestore rejects undefined, so unset conditions and actions are left out
+const toConditionsData = (conditions: RuleConditions): RuleConditions => ({
+  textMode: conditions.textMode,
+  ...(conditions.text?.trim() && { text: conditions.text.trim() }),
+  ...(conditions.minAmount !== undefined && { minAmount: conditions.minAmount }),
+  ...(conditions.maxAmount !== undefined && { maxAmount: conditions.maxAmount }),
+});
+
+const toActionsData = (actions: RuleActions): RuleActions => {
+  const tags = (actions.tags ?? []).map(normalizeTag).filter(Boolean);
+  return {
+    ...(actions.category && { category: actions.category }),
+    ...(tags.length > 0 && { tags }),
+    ...(actions.incomeType && { incomeType: actions.incomeType }),
+  };
+};
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all categorization rules for a user, in the order they run
+ */
+export const getCategorizationRules = async (userId: string): Promise<CategorizationRule[]> => {
+  const rules = await repository.list(userId, 'categorizationRules', { orderBy: 'priority' });
+  return rules as unknown as CategorizationRule[];
+};
+
+/**
+ * Add a rule. New rules run after every existing one.
+ */
+export const addCategorizationRule = async (userId: string, rule: NewCategorizationRule): Promise<string> => {
+  const existing = await getCategorizationRules(userId);
+  const data = {
+    userId,
+    name: rule.name.trim(),
+    kind: rule.kind,
+    conditions: toConditionsData(rule.conditions),
+    actions: toActionsData(rule.actions),
+    priority: existing.reduce((max, r) => Math.max(max, r.priority + 1), 0),
+    isActive: rule.isActive ?? true,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'categorizationRules');
+  await repository.set(userId, 'categorizationRules', id, data);
+
+  return id;
+};
+
+/**
+ * Update a rule's details
+ */
+export const updateCategorizationRule = async (
+  userId: string,
+  ruleId: string,
+  updates: Partial<NewCategorizationRule>
+): Promise<void> => {
+  await repository.update(userId, 'categorizationRules', ruleId, {
+    ...(updates.name !== undefined && { name: updates.name.trim() }),
+    ...(updates.kind && { kind: updates.kind }),
+    ...(updates.conditions && { conditions: toConditionsData(updates.conditions) }),
+    ...(updates.actions && { actions: toActionsData(updates.actions) }),
+    ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Delete a rule
+ */
+export const deleteCategorizationRule = async (userId: string, ruleId: string): Promise<void> => {
+  await repository.remove(userId, 'categorizationRules', ruleId);
+};
+
+/**
+ * Renumber rules so they run in the given order
+ */
+export const reorderCategorizationRules = async (userId: string, orderedIds: string[]): Promise<void> => {
+  const updatedAt = Timestamp.now();
+  const writes: RepositoryWrite[] = orderedIds.map((id, priority) => ({
+    type: 'update',
+    collection: 'categorizationRules',
+    id,
+    data: { priority, updatedAt },
+  }));
+
+  await repository.commit(userId, writes);
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write categorization rules from a backup, keeping their ids
+ */
+export const restoreCategorizationRules = async (
+  userId: string,
+  rules: CategorizationRule[],
+  mode: RestoreMode
+): Promise<void> => {
+  await restoreCollection(userId, 'categorizationRules', rules, mode);
+};
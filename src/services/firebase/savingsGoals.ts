@@ -0,0 +1,141 @@
+// ============================================
+// Savings Goals Firestore Operations
+// ============================================
+
+import { deleteField, Timestamp } from 'firebase/firestore';
+import { repository, restoreCollection } from './repository';
+import { SavingsGoal, NewSavingsGoal, NewGoalContribution, RestoreMode } from '@/types';
+
+// ============================================
+// CRUD Operations
+// ============================================
+
+/**
+ * Get all savings goals for a user, soonest deadline first
+ */
+export const getSavingsGoals = async (userId: string): Promise<SavingsGoal[]> => {
+  const goals = await repository.list(userId, 'savingsGoals', { orderBy: 'targetDate' });
+  return goals as unknown as SavingsGoal[];
+};
+
+/**
+ * Add a savings goal
+ */
+export const addSavingsGoal = async (userId: string, goal: NewSavingsGoal): Promise<string> => {
+  const data = {
+    userId,
+    name: goal.name.trim(),
+    targetAmount: goal.targetAmount,
+    targetDate: Timestamp.fromDate(goal.targetDate),
+    startingAmount: goal.startingAmount,
+    ...(goal.accountId && { accountId: goal.accountId }),
+    ...(goal.category && { category: goal.category }),
+    contributions: [],
+    color: goal.color,
+    createdAt: Timestamp.now(),
+    updatedAt: Timestamp.now(),
+  };
+
+  const id = repository.createId(userId, 'savingsGoals');
+  await repository.set(userId, 'savingsGoals', id, data);
+
+  return id;
+};
+
+/**
+ * Update a savings goal's details. Clearing the linked account or category removes it.
+ */
+export const updateSavingsGoal = async (
+  userId: string,
+  goalId: string,
+  updates: Partial<NewSavingsGoal>
+): Promise<void> => {
+  const { targetDate, accountId, category, ...rest } = updates;
+
+  await repository.update(userId, 'savingsGoals', goalId, {
+    ...rest,
+    ...(rest.name !== undefined && { name: rest.name.trim() }),
+    ...(targetDate && { targetDate: Timestamp.fromDate(targetDate) }),
+    ...('accountId' in updates && { accountId: accountId || deleteField() }),
+    ...('category' in updates && { category: category || deleteField() }),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+/**
+ * Delete a savings goal and its contribution history
+ */
+export const deleteSavingsGoal = async (userId: string, goalId: string): Promise<void> => {
+  await repository.remove(userId, 'savingsGoals', goalId);
+};
+
+// ============================================
+// Contributions
+// ============================================
+
+/**
+ * Read a goal so a contribution can be added or removed
+ */
+const getGoal = async (userId: string, goalId: string): Promise<SavingsGoal> => {
+  const goal = (await repository.get(userId, 'savingsGoals', goalId)) as unknown as SavingsGoal | null;
+  if (!goal) throw new Error('Savings goal not found');
+  return goal;
+};
+
+/**
+ * Record money put toward a goal, or taken out of it with a negative amount
+ */
+export const addGoalContribution = async (
+  userId: string,
+  goalId: string,
+  contribution: NewGoalContribution
+): Promise<string> => {
+  const goal = await getGoal(userId, goalId);
+  // A linked account's balance is the progress, so contributions would never count
+  if (goal.accountId) throw new Error('Contributions cannot be logged on a goal linked to an account');
+
+  const contributions = goal.contributions ?? [];
+  const id = repository.createId(userId, 'savingsGoals');
+
+  await repository.update(userId, 'savingsGoals', goalId, {
+    contributions: [
+      ...contributions,
+      {
+        id,
+        amount: contribution.amount,
+        date: Timestamp.fromDate(contribution.date),
+        ...(contribution.note && { note: contribution.note }),
+      },
+    ],
+    updatedAt: Timestamp.now(),
+  });
+
+  return id;
+};
+
+/**
+ * Remove a contribution from a goal's history
+ */
+export const deleteGoalContribution = async (
+  userId: string,
+  goalId: string,
+  contributionId: string
+): Promise<void> => {
+  const contributions = (await getGoal(userId, goalId)).contributions ?? [];
+
+  await repository.update(userId, 'savingsGoals', goalId, {
+    contributions: contributions.filter((contribution) => contribution.id !== contributionId),
+    updatedAt: Timestamp.now(),
+  });
+};
+
+// ============================================
+// Backup Restore
+// ============================================
+
+/**
+ * Write savings goals from a backup, keeping their ids
+ */
+export const restoreSavingsGoals = async (userId: string, goals: SavingsGoal[], mode: RestoreMode): Promise<void> => {
+  await restoreCollection(userId, 'savingsGoals', goals, mode);
+};
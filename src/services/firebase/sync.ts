@@ -0,0 +1,666 @@
+// ============================================
+// Offline-First Reads & Queued Writes
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { DateWindow, Page, PageCursor, PageOptions, SyncedCollection, SyncStatus } from '@/types';
+import {
+  LocalRecord,
+  QueuedWrite,
+  encodeData,
+  decodeData,
+  mergeEncoded,
+  getCachedRecords,
+  getCachedRecord,
+  putCachedRecord,
+  deleteCachedRecord,
+  replaceCachedRecords,
+  getQueuedWrites,
+  saveQueuedWrite,
+  removeQueuedWrite,
+} from './localCache';
+import { ListOptions, RepositoryWrite, repository } from './repository';
+
+// ============================================
+// Status
+// ============================================
+
+/**
+ * Whether the browser reports a connection
+ */
+export const isBrowserOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine !== false;
+
+let status: SyncStatus = { isOnline: true, isSyncing: false, pending: 0, failed: 0 };
+const listeners = new Set<() => void>();
+
+const setStatus = (updates: Partial<SyncStatus>) => {
+  status = { ...status, ...updates };
+  listeners.forEach((listener) => listener());
+};
+
+/**
+ * Current sync status; the same object is returned until something changes
+ */
+export const getSyncStatus = (): SyncStatus => status;
+
+/**
+ * Listen for sync status changes. Returns an unsubscribe function.
+ */
+export const subscribeToSyncStatus = (listener: () => void): (() => void) => {
+  watchConnectivity();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Live reads re-merge whenever the local copy or queue of a collection changes
+const localChangeListeners = new Set<(collectionName: SyncedCollection) => void>();
+
+const notifyLocalChange = (collectionName: SyncedCollection) => {
+  localChangeListeners.forEach((listener) => listener(collectionName));
+};
+
+// Told which records had queued writes that didn't land as they were made
+const droppedWriteListeners = new Set<(userId: string, records: LocalRecord[]) => void>();
+
+const notifyDroppedWrites = (userId: string, records: LocalRecord[]) => {
+  droppedWriteListeners.forEach((listener) => listener(userId, records));
+};
+
+/**
+ * Listen for the end of every flush of the queue, with the records whose queued
+ * writes lost to a newer server copy or were discarded after failing. Each is
+ * sent as it was locally and as the server has it. Returns an unsubscribe function.
+ */
+export const subscribeToFlushes = (listener: (userId: string, records: LocalRecord[]) => void): (() => void) => {
+  droppedWriteListeners.add(listener);
+  return () => {
+    droppedWriteListeners.delete(listener);
+  };
+};
+
+const refreshQueueCounts = async (userId: string) => {
+  const writes = await getQueuedWrites(userId);
+  const failed = writes.filter((write) => write.status === 'failed');
+  setStatus({
+    pending: writes.length - failed.length,
+    failed: failed.length,
+    lastError: failed[failed.length - 1]?.error,
+  });
+};
+
+// ============================================
+// Connectivity
+// ============================================
+
+// The user whose queue is flushed when the connection comes back
+let activeUserId: string | null = null;
+let isWatching = false;
+
+const watchConnectivity = () => {
+  if (isWatching || typeof window === 'undefined') return;
+  isWatching = true;
+  setStatus({ isOnline: isBrowserOnline() });
+
+  window.addEventListener('online', () => {
+    setStatus({ isOnline: true });
+    if (activeUserId) void flushQueue(activeUserId);
+  });
+  window.addEventListener('offline', () => setStatus({ isOnline: false }));
+};
+
+// Connection failures leave a write queued; anything else means the server rejected it
+const isNetworkError = (error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  return !isBrowserOnline() || code === 'unavailable' || code === 'deadline-exceeded';
+};
+
+const getUpdatedAtMillis = (record: Record<string, unknown> | null): number =>
+  (record?.updatedAt as Timestamp | undefined)?.toMillis() ?? 0;
+
+// ============================================
+// Ordering & Windows
+// ============================================
+
+const DEFAULT_PAGE_SIZE = 50;
+
+type DatedRecord = Record<string, unknown> & { id: string };
+
+const getDateMillis = (record: DatedRecord): number => (record.date as Timestamp | undefined)?.toMillis() ?? 0;
+
+// Newest first by `date`, then by id as the server breaks ties. Every synced list is shown and paged in this order.
+const compareNewestFirst = (a: DatedRecord, b: DatedRecord): number =>
+  getDateMillis(b) - getDateMillis(a) || (b.id < a.id ? -1 : b.id > a.id ? 1 : 0);
+
+const sortNewestFirst = <T extends DatedRecord>(records: T[]): T[] => [...records].sort(compareNewestFirst);
+
+const isInWindow = (record: DatedRecord, window: DateWindow): boolean => {
+  const millis = getDateMillis(record);
+  return (!window.start || millis >= window.start.getTime()) && (!window.end || millis <= window.end.getTime());
+};
+
+// Every synced read is ordered by date; a window narrows it on the server
+const toListOptions = (window: DateWindow): ListOptions => ({
+  orderBy: 'date',
+  direction: 'desc',
+  range: {
+    start: window.start && Timestamp.fromDate(window.start),
+    end: window.end && Timestamp.fromDate(window.end),
+  },
+});
+
+const toCursor = (record: DatedRecord): PageCursor => ({ date: new Date(getDateMillis(record)), id: record.id });
+
+const fromCursor = (cursor: PageCursor): DatedRecord => ({ id: cursor.id, date: Timestamp.fromDate(cursor.date) });
+
+const decodeRecords = (records: LocalRecord[]): LocalRecord[] =>
+  records.map((record) => decodeData<LocalRecord>(record));
+
+// ============================================
+// Sync
+// ============================================
+
+/**
+ * Check a queued update or delete against the server copy. Conflicts are resolved
+ * by `updatedAt`: when the server copy changed after the local edit was made, the
+ * server copy is kept. Returns the versions of the record a skipped write leaves
+ * behind, or null when the write should be sent.
+ */
+const findConflict = async (write: QueuedWrite): Promise<LocalRecord[] | null> => {
+  const { userId, collection: collectionName, docId } = write;
+  const current = await repository.get(userId, collectionName, docId);
+  if (current && getUpdatedAtMillis(current) <= write.updatedAt) return null;
+
+  // A deleted record is no longer cached, so its queued delete carries its date
+  const local = (await getCachedRecord(userId, collectionName, docId)) ?? { ...write.data, id: docId, userId };
+
+  // Replace the local copy with the winner
+  if (current) {
+    await putCachedRecord(collectionName, encodeData(current) as LocalRecord);
+  } else {
+    await deleteCachedRecord(userId, collectionName, docId);
+  }
+  return [decodeData<LocalRecord>(local), ...(current ? [current as LocalRecord] : [])];
+};
+
+const toRepositoryWrite = (write: QueuedWrite): RepositoryWrite =>
+  write.type === 'delete'
+    ? { type: 'delete', collection: write.collection, id: write.docId }
+    : { type: write.type, collection: write.collection, id: write.docId, data: decodeData(write.data ?? {}) };
+
+/**
+ * Send queued writes in one commit, leaving out those that lose a conflict.
+ * Returns the versions of the records the skipped writes leave behind.
+ */
+const pushWrites = async (userId: string, writes: QueuedWrite[]): Promise<LocalRecord[]> => {
+  const dropped: LocalRecord[] = [];
+  const sent: QueuedWrite[] = [];
+
+  for (const write of writes) {
+    // A record created earlier in the same commit isn't on the server yet
+    const isCreatedHere = sent.some(
+      (earlier) => earlier.type === 'set' && earlier.collection === write.collection && earlier.docId === write.docId
+    );
+    const skipped = write.type === 'set' || isCreatedHere ? null : await findConflict(write);
+    if (skipped) {
+      dropped.push(...skipped);
+    } else {
+      sent.push(write);
+    }
+  }
+
+  if (sent.length > 0) await repository.commit(userId, sent.map(toRepositoryWrite));
+  return dropped;
+};
+
+let flushPromise: Promise<void> | null = null;
+
+const runFlush = async (userId: string): Promise<void> => {
+  if (!isBrowserOnline()) return;
+
+  setStatus({ isSyncing: true });
+  try {
+    // The queue is re-read each time so writes added while flushing are sent too
+    const attempted = new Set<number>();
+    const dropped: LocalRecord[] = [];
+    for (;;) {
+      const pending = (await getQueuedWrites(userId)).filter(
+        (queued) => queued.status === 'pending' && !attempted.has(queued.seq!)
+      );
+      const write = pending[0];
+      if (!write) break;
+      // Writes queued together land together or not at all
+      const group = write.batch ? pending.filter((queued) => queued.batch === write.batch) : [write];
+      group.forEach((queued) => attempted.add(queued.seq!));
+
+      try {
+        dropped.push(...(await pushWrites(userId, group)));
+        for (const queued of group) await removeQueuedWrite(queued.seq!);
+      } catch (error) {
+        // Later writes may depend on these, so stop and wait for the connection
+        if (isNetworkError(error)) break;
+        for (const queued of group) {
+          await saveQueuedWrite({
+            ...queued,
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Sync failed',
+          });
+        }
+      }
+      new Set(group.map((queued) => queued.collection)).forEach(notifyLocalChange);
+    }
+    setStatus({ lastSyncedAt: new Date() });
+    notifyDroppedWrites(userId, dropped);
+  } finally {
+    await refreshQueueCounts(userId);
+    setStatus({ isSyncing: false });
+  }
+};
+
+/**
+ * Send every pending write for a user, oldest first. Concurrent calls share one run.
+ */
+export const flushQueue = (userId: string): Promise<void> => {
+  activeUserId = userId;
+  if (!flushPromise) {
+    flushPromise = runFlush(userId).finally(() => {
+      flushPromise = null;
+    });
+  }
+  return flushPromise;
+};
+
+/**
+ * Load the queue left from a previous session and start sending it
+ */
+export const startSync = async (userId: string): Promise<void> => {
+  activeUserId = userId;
+  watchConnectivity();
+  await refreshQueueCounts(userId);
+  await flushQueue(userId);
+};
+
+/**
+ * Put rejected writes back in the queue and try them again
+ */
+export const retryFailedWrites = async (userId: string): Promise<void> => {
+  const failed = (await getQueuedWrites(userId)).filter((write) => write.status === 'failed');
+  for (const write of failed) {
+    await saveQueuedWrite({ ...write, status: 'pending', error: undefined });
+  }
+  await flushQueue(userId);
+};
+
+/**
+ * Drop rejected writes. The local copies are replaced on the next read from the server.
+ */
+export const discardFailedWrites = async (userId: string): Promise<void> => {
+  const failed = (await getQueuedWrites(userId)).filter((write) => write.status === 'failed');
+  const dropped: LocalRecord[] = [];
+  for (const write of failed) {
+    const local = await getCachedRecord(userId, write.collection, write.docId);
+    if (local) dropped.push(decodeData<LocalRecord>(local));
+    if (write.data) dropped.push(decodeData<LocalRecord>({ ...write.data, id: write.docId, userId }));
+    try {
+      const current = await repository.get(userId, write.collection, write.docId);
+      if (current) dropped.push(current as LocalRecord);
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+    await removeQueuedWrite(write.seq!);
+  }
+  new Set(failed.map((write) => write.collection)).forEach(notifyLocalChange);
+  notifyDroppedWrites(userId, dropped);
+  await refreshQueueCounts(userId);
+};
+
+// ============================================
+// Queued Writes
+// ============================================
+
+type QueuedChange = Omit<QueuedWrite, 'status'>;
+
+const enqueue = async (userId: string, changes: QueuedChange[]) => {
+  activeUserId = userId;
+  watchConnectivity();
+  for (const change of changes) await saveQueuedWrite({ ...change, status: 'pending' });
+  new Set(changes.map((change) => change.collection)).forEach(notifyLocalChange);
+  await refreshQueueCounts(userId);
+  // Callers don't wait on the network; the writes are already durable
+  void flushQueue(userId);
+};
+
+export type SyncedWrite =
+  | { type: 'set' | 'update'; collection: SyncedCollection; id: string; data: Record<string, unknown> }
+  | { type: 'delete'; collection: SyncedCollection; id: string };
+
+// Apply a write to the local cache and describe it for the queue
+const applyLocally = async (userId: string, write: SyncedWrite): Promise<QueuedChange> => {
+  const base = { userId, collection: write.collection, docId: write.id };
+
+  if (write.type === 'delete') {
+    const cached = await getCachedRecord(userId, write.collection, write.id);
+    await deleteCachedRecord(userId, write.collection, write.id);
+    return {
+      ...base,
+      type: 'delete',
+      // Kept so a delete that doesn't land can still say which month the record was in
+      ...(cached?.date !== undefined && { data: { date: cached.date } }),
+      updatedAt: Date.now(),
+    };
+  }
+
+  const encoded = encodeData(write.data);
+  if (write.type === 'set') {
+    await putCachedRecord(write.collection, { ...encoded, id: write.id, userId });
+  } else {
+    const cached = await getCachedRecord(userId, write.collection, write.id);
+    if (cached) await putCachedRecord(write.collection, mergeEncoded(cached, encoded));
+  }
+  return { ...base, type: write.type, data: encoded, updatedAt: getUpdatedAtMillis(write.data) || Date.now() };
+};
+
+/**
+ * Create a record locally and queue it for the server
+ */
+export const queueSet = async (
+  userId: string,
+  collectionName: SyncedCollection,
+  id: string,
+  data: Record<string, unknown>
+): Promise<void> => {
+  await enqueue(userId, [await applyLocally(userId, { type: 'set', collection: collectionName, id, data })]);
+};
+
+/**
+ * Update a record locally and queue the change for the server
+ */
+export const queueUpdate = async (
+  userId: string,
+  collectionName: SyncedCollection,
+  id: string,
+  data: Record<string, unknown>
+): Promise<void> => {
+  await enqueue(userId, [await applyLocally(userId, { type: 'update', collection: collectionName, id, data })]);
+};
+
+/**
+ * Delete a record locally and queue the deletion for the server
+ */
+export const queueDelete = async (
+  userId: string,
+  collectionName: SyncedCollection,
+  id: string
+): Promise<void> => {
+  await enqueue(userId, [await applyLocally(userId, { type: 'delete', collection: collectionName, id })]);
+};
+
+let batchCount = 0;
+
+/**
+ * Apply several writes locally and queue them to be sent to the server in one
+ * commit, so they land together. Like a single edit, this doesn't wait on the network.
+ */
+export const commitWrites = async (userId: string, writes: SyncedWrite[]): Promise<void> => {
+  if (writes.length === 0) return;
+
+  const batch = `${Date.now()}-${batchCount++}`;
+  const changes: QueuedChange[] = [];
+  for (const write of writes) changes.push({ ...(await applyLocally(userId, write)), batch });
+  await enqueue(userId, changes);
+};
+
+// ============================================
+// Reads
+// ============================================
+
+// Lay queued writes over server records so unsent changes still show
+const applyQueuedWrites = (records: LocalRecord[], writes: QueuedWrite[]): LocalRecord[] => {
+  const byId = new Map(records.map((record) => [record.id, record]));
+
+  writes.forEach((write) => {
+    const existing = byId.get(write.docId);
+    const isStale = existing !== undefined && getUpdatedAtMillis(decodeData(existing)) > write.updatedAt;
+
+    if (write.type === 'set') {
+      byId.set(write.docId, { ...write.data, id: write.docId, userId: write.userId });
+    } else if (write.type === 'update' && existing && !isStale) {
+      byId.set(write.docId, mergeEncoded(existing, write.data ?? {}));
+    } else if (write.type === 'delete' && !isStale) {
+      byId.delete(write.docId);
+    }
+  });
+
+  return Array.from(byId.values());
+};
+
+/**
+ * Lay queued writes over records read from the server for one span of the
+ * collection, and make them the cached copy of that span
+ */
+const cacheSpan = async (
+  userId: string,
+  collectionName: SyncedCollection,
+  remote: DatedRecord[],
+  writes: QueuedWrite[],
+  isInSpan: (record: DatedRecord) => boolean
+): Promise<LocalRecord[]> => {
+  const merged = applyQueuedWrites(
+    remote.map((record) => encodeData(record) as LocalRecord),
+    writes
+  ).filter((record) => isInSpan(decodeData<LocalRecord>(record)));
+  await replaceCachedRecords(userId, collectionName, merged, (record) => isInSpan(decodeData<LocalRecord>(record)));
+  return merged;
+};
+
+/**
+ * Read a collection offline-first, optionally only the records dated within
+ * `window`. Online, the server copy refreshes that part of the local cache;
+ * offline, or when the server can't be reached, the cache is returned.
+ */
+export const readCollection = async <T>(
+  userId: string,
+  collectionName: SyncedCollection,
+  window: DateWindow = {}
+): Promise<T[]> => {
+  activeUserId = userId;
+  watchConnectivity();
+
+  if (isBrowserOnline()) {
+    try {
+      // Taken before the server read, so writes sent in between are still applied
+      const writes = (await getQueuedWrites(userId)).filter((write) => write.collection === collectionName);
+      const remote = await repository.list(userId, collectionName, toListOptions(window));
+      const merged = await cacheSpan(userId, collectionName, remote, writes, (record) => isInWindow(record, window));
+      void flushQueue(userId);
+      return sortNewestFirst(decodeRecords(merged)) as T[];
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const cached = decodeRecords(await getCachedRecords(userId, collectionName));
+  return sortNewestFirst(cached.filter((record) => isInWindow(record, window))) as T[];
+};
+
+/**
+ * Read one page of a collection, newest first, offline-first like `readCollection`.
+ * Pass the returned cursor back to read the page after it.
+ */
+export const readPage = async <T>(
+  userId: string,
+  collectionName: SyncedCollection,
+  options: PageOptions = {}
+): Promise<Page<T>> => {
+  const { window = {}, cursor = null, pageSize = DEFAULT_PAGE_SIZE } = options;
+  const after = cursor ? fromCursor(cursor) : null;
+  const isAfterCursor = (record: DatedRecord) => !after || compareNewestFirst(record, after) > 0;
+
+  activeUserId = userId;
+  watchConnectivity();
+
+  if (isBrowserOnline()) {
+    try {
+      const writes = (await getQueuedWrites(userId)).filter((write) => write.collection === collectionName);
+      // One extra record says whether another page follows
+      const remote = await repository.list(userId, collectionName, {
+        ...toListOptions(window),
+        ...(after && { startAfter: after }),
+        limit: pageSize + 1,
+      });
+      const hasMore = remote.length > pageSize;
+      const last = hasMore ? remote[pageSize - 1] : null;
+
+      // The page spans from the cursor down to its last record, or to the end of the window
+      const isInPage = (record: DatedRecord) =>
+        isInWindow(record, window) && isAfterCursor(record) && (!last || compareNewestFirst(record, last) <= 0);
+      const merged = await cacheSpan(userId, collectionName, remote.slice(0, pageSize), writes, isInPage);
+      void flushQueue(userId);
+
+      return {
+        items: sortNewestFirst(decodeRecords(merged)) as T[],
+        cursor: last ? toCursor(last) : null,
+        hasMore,
+      };
+    } catch (error) {
+      if (!isNetworkError(error)) throw error;
+    }
+  }
+
+  const cached = sortNewestFirst(decodeRecords(await getCachedRecords(userId, collectionName))).filter(
+    (record) => isInWindow(record, window) && isAfterCursor(record)
+  );
+  const items = cached.slice(0, pageSize);
+  const hasMore = cached.length > pageSize;
+  return {
+    items: items as T[],
+    cursor: hasMore ? toCursor(items[items.length - 1]) : null,
+    hasMore,
+  };
+};
+
+/**
+ * Read every record of a collection in the local cache, including those not sent yet
+ */
+export const readCachedRecords = async <T>(userId: string, collectionName: SyncedCollection): Promise<T[]> =>
+  decodeRecords(await getCachedRecords(userId, collectionName)) as T[];
+
+/**
+ * Read one record from the local cache
+ */
+export const readCachedRecord = async <T>(
+  userId: string,
+  collectionName: SyncedCollection,
+  id: string
+): Promise<T | null> => {
+  const cached = await getCachedRecord(userId, collectionName, id);
+  return cached ? decodeData<T>(cached) : null;
+};
+
+/**
+ * Read one record from the local cache, falling back to the server when it
+ * isn't cached. A copy read from the server is cached, so local edits apply to it.
+ */
+export const readRecord = async <T>(
+  userId: string,
+  collectionName: SyncedCollection,
+  id: string
+): Promise<T | null> => {
+  const cached = await readCachedRecord<T>(userId, collectionName, id);
+  if (cached || !isBrowserOnline()) return cached;
+
+  try {
+    const remote = await repository.get(userId, collectionName, id);
+    if (!remote) return null;
+    await putCachedRecord(collectionName, encodeData(remote) as LocalRecord);
+    return remote as unknown as T;
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    return null;
+  }
+};
+
+/**
+ * Generate an id for a new record without a round trip to the server
+ */
+export const createRecordId = (userId: string, collectionName: SyncedCollection): string =>
+  repository.createId(userId, collectionName);
+
+// ============================================
+// Live Reads
+// ============================================
+
+/**
+ * Listen to a collection offline-first, optionally only the records dated
+ * within `window`. Cached records are sent straight away, then every server
+ * snapshot and local edit sends the merged list again.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToCollection = <T>(
+  userId: string,
+  collectionName: SyncedCollection,
+  window: DateWindow,
+  onChange: (records: T[]) => void,
+  onError: (error: Error) => void
+): (() => void) => {
+  activeUserId = userId;
+  watchConnectivity();
+
+  let remote: DatedRecord[] | null = null;
+  let isActive = true;
+  let merging: Promise<void> = Promise.resolve();
+
+  // Merges run one at a time so a slow one can't overwrite a newer result
+  const emit = () => {
+    merging = merging
+      .then(async () => {
+        const writes = (await getQueuedWrites(userId)).filter((write) => write.collection === collectionName);
+        let records: LocalRecord[];
+
+        if (remote) {
+          records = decodeRecords(
+            await cacheSpan(userId, collectionName, remote, writes, (record) => isInWindow(record, window))
+          );
+        } else {
+          records = decodeRecords(await getCachedRecords(userId, collectionName)).filter((record) =>
+            isInWindow(record, window)
+          );
+          // An empty cache online just means the server hasn't answered yet
+          if (records.length === 0 && isBrowserOnline()) return;
+        }
+
+        if (isActive) onChange(sortNewestFirst(records) as T[]);
+      })
+      .catch((error) => {
+        if (isActive) onError(error instanceof Error ? error : new Error('Failed to read local data'));
+      });
+  };
+
+  const handleLocalChange = (changed: SyncedCollection) => {
+    if (changed === collectionName) emit();
+  };
+  localChangeListeners.add(handleLocalChange);
+  emit();
+
+  const unsubscribe = repository.subscribe(
+    userId,
+    collectionName,
+    toListOptions(window),
+    (records) => {
+      remote = records;
+      emit();
+      void flushQueue(userId);
+    },
+    (error) => {
+      // Offline, the cached copy keeps being shown
+      if (isActive && !isNetworkError(error)) onError(error);
+    }
+  );
+
+  return () => {
+    isActive = false;
+    localChangeListeners.delete(handleLocalChange);
+    unsubscribe();
+  };
+};
@@ -0,0 +1,125 @@
+// ============================================
+// Trash Firestore Operations
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { subDays } from 'date-fns';
+import { repository } from './repository';
+import { commitWrites, readRecord, SyncedWrite } from './sync';
+import { updateRollups } from './rollups';
+import { recordAudit } from './audit';
+import { AuditChange, RollupChange, TrashedRecord, TrashItem } from '@/types';
+import { TRASH_RETENTION_DAYS } from '@/lib/utils/constants';
+
+const collections = { expense: 'expenses', income: 'income' } as const;
+
+const toRollupChange = (item: TrashedRecord): RollupChange =>
+  item.kind === 'expense'
+    ? { kind: 'expense', record: item.record, sign: 1 }
+    : { kind: 'income', record: item.record, sign: 1 };
+
+const toAuditChange = (item: TrashedRecord): AuditChange =>
+  item.kind === 'expense'
+    ? { kind: 'expense', action: 'restore', previous: null, next: item.record }
+    : { kind: 'income', action: 'restore', previous: null, next: item.record };
+
+/**
+ * Id of a record's trash entry. Expense and income ids are only unique within
+ * their own collection, so the kind keeps them apart.
+ */
+export const getTrashId = (kind: TrashedRecord['kind'], recordId: string): string => `${kind}-${recordId}`;
+
+// ============================================
+// Moving to Trash
+// ============================================
+
+/**
+ * Writes that keep copies of records about to be deleted, for sending in the
+ * same batch as the deletes
+ */
+export const getTrashWrites = (userId: string, items: TrashedRecord[]): SyncedWrite[] => {
+  const deletedAt = Timestamp.now();
+  return items.map((item) => ({
+    type: 'set' as const,
+    collection: 'trash' as const,
+    id: getTrashId(item.kind, item.record.id),
+    data: { userId, kind: item.kind, record: item.record, deletedAt },
+  }));
+};
+
+/**
+ * Keep copies of records that are about to be deleted. Offline, they're queued
+ * like the deletes themselves.
+ */
+export const moveToTrash = async (userId: string, items: TrashedRecord[]): Promise<void> => {
+  await commitWrites(userId, getTrashWrites(userId, items));
+};
+
+// ============================================
+// Reads
+// ============================================
+
+/**
+ * Permanently delete everything trashed longer ago than the retention period
+ */
+export const purgeExpiredTrash = async (userId: string): Promise<void> => {
+  const cutoff = Timestamp.fromDate(subDays(new Date(), TRASH_RETENTION_DAYS));
+  const expired = await repository.list(userId, 'trash', { orderBy: 'deletedAt', range: { end: cutoff } });
+  await purgeFromTrash(userId, expired.map((item) => item.id));
+};
+
+/**
+ * Get everything in the trash, most recently deleted first.
+ * Entries past the retention period are purged on the way.
+ */
+export const getTrash = async (userId: string): Promise<TrashItem[]> => {
+  await purgeExpiredTrash(userId);
+  const items = await repository.list(userId, 'trash', { orderBy: 'deletedAt', direction: 'desc' });
+  return items as unknown as TrashItem[];
+};
+
+// ============================================
+// Restore & Purge
+// ============================================
+
+/**
+ * Put trashed records back under their original ids
+ */
+export const restoreFromTrash = async (userId: string, trashIds: string[]): Promise<void> => {
+  const restored: TrashItem[] = [];
+  for (const trashId of trashIds) {
+    // Entries trashed on this device are cached, so an undo works offline
+    const item = await readRecord<TrashItem>(userId, 'trash', trashId);
+    if (item) restored.push(item);
+  }
+
+  // The records come back and leave the trash in one batch
+  await commitWrites(userId, [
+    ...restored.map((item) => {
+      const { id, ...data } = item.record;
+      return { type: 'set' as const, collection: collections[item.kind], id, data };
+    }),
+    ...restored.map((item) => ({ type: 'delete' as const, collection: 'trash' as const, id: item.id })),
+  ]);
+
+  void updateRollups(userId, restored.map(toRollupChange));
+  void recordAudit(userId, 'manual', restored.map(toAuditChange));
+};
+
+/**
+ * Permanently delete trashed records
+ */
+export const purgeFromTrash = async (userId: string, trashIds: string[]): Promise<void> => {
+  await commitWrites(
+    userId,
+    trashIds.map((id) => ({ type: 'delete' as const, collection: 'trash' as const, id }))
+  );
+};
+
+/**
+ * Permanently delete everything in the trash
+ */
+export const emptyTrash = async (userId: string): Promise<void> => {
+  const items = await repository.list(userId, 'trash');
+  await purgeFromTrash(userId, items.map((item) => item.id));
+};
@@ -0,0 +1,217 @@
+// ============================================
+// CSV Import Functions
+// ============================================
+
+import { format, startOfDay, endOfDay } from 'date-fns';
+import {
+  Expense,
+  Income,
+  NewExpense,
+  NewIncome,
+  ExpenseCategory,
+  IncomeType,
+  ColumnMapping,
+  DateFormat,
+  DateRange,
+  ImportField,
+  ImportPreviewRow,
+  RuleResult,
+} from '@/types';
+import { ImportFieldConfig, CurrencyCode } from '@/lib/utils/constants';
+import { parseCurrencyToCents, parseDateByFormat } from '@/lib/utils/formatters';
+
+// ============================================
+// Column Mapping
+// ============================================
+
+/**
+ * Guess which CSV column feeds each field from the header row.
+ * Each column is used at most once; earlier fields get first pick.
+ */
+export const guessColumnMapping = <F extends ImportField>(
+  headers: string[],
+  fields: ImportFieldConfig<F>[]
+): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map((header) => header.trim().toLowerCase());
+
+  fields.forEach(({ field, headerHints }) => {
+    for (const hint of headerHints) {
+      const index = normalized.findIndex((header, i) => !used.has(i) && header.includes(hint));
+      if (index !== -1) {
+        mapping[field] = index;
+        used.add(index);
+        return;
+      }
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Check that every required field has a column
+ */
+export const isMappingComplete = <F extends ImportField>(
+  mapping: ColumnMapping,
+  fields: ImportFieldConfig<F>[]
+): boolean => {
+  return fields.every(({ field, required }) => !required || mapping[field] !== undefined);
+};
+
+const readCell = (row: string[], mapping: ColumnMapping, field: ImportField): string => {
+  const index = mapping[field];
+  return index === undefined ? '' : (row[index] ?? '').trim();
+};
+
+// Bank exports often write debits as negative or (parenthesised) amounts
+const parseImportAmount = (value: string, currency: CurrencyCode): number => {
+  return Math.abs(parseCurrencyToCents(value, currency));
+};
+
+// ============================================
+// Duplicate Detection
+// ============================================
+
+/**
+ * Key used to spot rows that already exist: same day, amount and description
+ */
+export const getDuplicateKey = (date: Date, amount: number, description: string): string => {
+  return `${format(date, 'yyyy-MM-dd')}|${amount}|${description.trim().toLowerCase()}`;
+};
+
+/**
+ * The days the rows' dates cover, which is where any duplicate of them would be.
+ * Null when no row has a readable date.
+ */
+export const getImportDateRange = (rows: string[][], mapping: ColumnMapping, dateFormat: DateFormat): DateRange | null => {
+  let range: DateRange | null = null;
+  rows.forEach((row) => {
+    const date = parseDateByFormat(readCell(row, mapping, 'date'), dateFormat);
+    if (!date) return;
+    range = {
+      start: range && range.start < date ? range.start : startOfDay(date),
+      end: range && range.end > date ? range.end : endOfDay(date),
+    };
+  });
+  return range;
+};
+
+// ============================================
+// Row Builders
+// ============================================
+
+// Runs categorization rules over a row; the amount is in the import currency
+type RowCategorizer = (text: string, amount: number, date: Date) => RuleResult;
+
+interface ExpenseImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  currency: CurrencyCode; // Imported amounts are read in this currency
+  accountId: string; // Every imported row goes into this account
+  resolveCategory: (value: string) => ExpenseCategory | null;
+  defaultCategory: ExpenseCategory;
+  existing: Expense[];
+  categorize?: RowCategorizer;
+}
+
+/**
+ * Turn CSV data rows (header excluded) into expense previews
+ */
+export const buildExpenseImportRows = (
+  rows: string[][],
+  { mapping, dateFormat, currency, accountId, resolveCategory, defaultCategory, existing, categorize }: ExpenseImportOptions
+): ImportPreviewRow<NewExpense>[] => {
+  const existingKeys = new Set(
+    existing.map((exp) => getDuplicateKey(exp.date.toDate(), exp.amount, exp.description || ''))
+  );
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const date = parseDateByFormat(readCell(row, mapping, 'date'), dateFormat);
+    const amount = parseImportAmount(readCell(row, mapping, 'amount'), currency);
+    const description = readCell(row, mapping, 'description');
+    const categoryValue = readCell(row, mapping, 'category');
+
+    if (!date) {
+      return { rowNumber, data: null, error: `Unrecognized date (expected ${dateFormat})`, isDuplicate: false };
+    }
+    if (amount <= 0) {
+      return { rowNumber, data: null, error: 'Missing amount', isDuplicate: false };
+    }
+
+    // A category column wins over rules, which win over the default
+    const rules = categorize?.(description, amount, date);
+
+    return {
+      rowNumber,
+      data: {
+        amount,
+        currency,
+        category: (categoryValue && resolveCategory(categoryValue)) || rules?.category || defaultCategory,
+        description,
+        date,
+        ...(rules?.tags.length && { tags: rules.tags }),
+        accountId,
+      },
+      isDuplicate: existingKeys.has(getDuplicateKey(date, amount, description)),
+    };
+  });
+};
+
+interface IncomeImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: DateFormat;
+  currency: CurrencyCode; // Imported amounts are read in this currency
+  accountId: string; // Every imported row goes into this account
+  resolveType: (value: string) => IncomeType | null;
+  defaultType: IncomeType;
+  existing: Income[];
+  categorize?: RowCategorizer;
+}
+
+/**
+ * Turn CSV data rows (header excluded) into income previews
+ */
+export const buildIncomeImportRows = (
+  rows: string[][],
+  { mapping, dateFormat, currency, accountId, resolveType, defaultType, existing, categorize }: IncomeImportOptions
+): ImportPreviewRow<NewIncome>[] => {
+  const existingKeys = new Set(
+    existing.map((inc) => getDuplicateKey(inc.date.toDate(), inc.amount, inc.source))
+  );
+
+  return rows.map((row, index) => {
+    const rowNumber = index + 2;
+    const date = parseDateByFormat(readCell(row, mapping, 'date'), dateFormat);
+    const amount = parseImportAmount(readCell(row, mapping, 'amount'), currency);
+    const source = readCell(row, mapping, 'source');
+    const typeValue = readCell(row, mapping, 'type');
+    const note = readCell(row, mapping, 'note');
+
+    if (!date) {
+      return { rowNumber, data: null, error: `Unrecognized date (expected ${dateFormat})`, isDuplicate: false };
+    }
+    if (amount <= 0) {
+      return { rowNumber, data: null, error: 'Missing amount', isDuplicate: false };
+    }
+    if (!source) {
+      return { rowNumber, data: null, error: 'Missing source', isDuplicate: false };
+    }
+
+    return {
+      rowNumber,
+      data: {
+        amount,
+        currency,
+        type: (typeValue && resolveType(typeValue)) || categorize?.(source, amount, date).incomeType || defaultType,
+        source,
+        date,
+        ...(note && { note }),
+        accountId,
+      },
+      isDuplicate: existingKeys.has(getDuplicateKey(date, amount, source)),
+    };
+  });
+};
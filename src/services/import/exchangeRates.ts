@@ -0,0 +1,96 @@
+// ============================================
+// Exchange Rate Import Functions
+// ============================================
+
+import { ExchangeRate } from '@/types';
+import { exchangeRateSchema } from '@/lib/utils/validators';
+import { parseCsv, detectCsvDelimiter } from '@/lib/utils/csv';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExchangeRateImportResult {
+  rates: ExchangeRate[];
+  errors: string[]; // One message per rejected row
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const validateRate = (value: unknown, label: string): ExchangeRate | string => {
+  const result = exchangeRateSchema.safeParse(value);
+  if (result.success) return result.data;
+
+  const issue = result.error.issues[0];
+  const field = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+  return `${label}: ${issue.message}${field}`;
+};
+
+/**
+ * Read a rate table from a file.
+ * Accepts a JSON array of { from, to, rate, date } or a CSV with Date, From, To, Rate columns,
+ * which is also what the Exchange Rates CSV export writes.
+ */
+export const parseExchangeRateFile = (text: string): ExchangeRateImportResult => {
+  const rates: ExchangeRate[] = [];
+  const errors: string[] = [];
+  const collect = (result: ExchangeRate | string) => {
+    if (typeof result === 'string') errors.push(result);
+    else rates.push(result);
+  };
+
+  if (text.trim().startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      return { rates, errors: ['File is not valid JSON'] };
+    }
+    if (!Array.isArray(json)) return { rates, errors: ['Expected a list of rates'] };
+
+    json.forEach((entry, index) => collect(validateRate(entry, `Entry ${index + 1}`)));
+    return { rates, errors };
+  }
+
+  const rows = parseCsv(text, detectCsvDelimiter(text));
+  if (rows.length === 0) return { rates, errors: ['File is empty'] };
+
+  // Columns are found by header name, falling back to Date, From, To, Rate order
+  const headers = rows[0].map((header) => header.trim().toLowerCase());
+  const hasHeader = headers.includes('rate');
+  const column = (name: string, fallback: number) => (hasHeader ? headers.indexOf(name) : fallback);
+  const columns = { date: column('date', 0), from: column('from', 1), to: column('to', 2), rate: column('rate', 3) };
+
+  rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+    const cell = (i: number) => (row[i] ?? '').trim();
+    collect(
+      validateRate(
+        {
+          date: cell(columns.date),
+          from: cell(columns.from).toUpperCase(),
+          to: cell(columns.to).toUpperCase(),
+          rate: parseFloat(cell(columns.rate)),
+        },
+        `Row ${index + (hasHeader ? 2 : 1)}`
+      )
+    );
+  });
+
+  return { rates, errors };
+};
+
+/**
+ * Add rates to a table. A rate for the same pair and day replaces the old one.
+ */
+export const mergeExchangeRates = (existing: ExchangeRate[], incoming: ExchangeRate[]): ExchangeRate[] => {
+  const byKey = new Map<string, ExchangeRate>();
+  [...existing, ...incoming].forEach((entry) => {
+    byKey.set(`${entry.from}-${entry.to}-${entry.date}`, entry);
+  });
+
+  return Array.from(byKey.values()).sort(
+    (a, b) => b.date.localeCompare(a.date) || a.from.localeCompare(b.from) || a.to.localeCompare(b.to)
+  );
+};
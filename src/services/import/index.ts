@@ -0,0 +1,6 @@
+// ============================================
+// Import Services Barrel Export
+// ============================================
+
+export * from './csvImport';
+export * from './exchangeRates';
@@ -0,0 +1,210 @@
+// ============================================
+// Suggestion Fixture Histories
+// ============================================
+
+import { Timestamp } from 'firebase/firestore';
+import { Expense, ExpenseCategory } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+// One spending habit: the ways a statement writes it, where it belongs and what it costs
+interface Habit {
+  descriptions: string[];
+  category: ExpenseCategory;
+  amount: [number, number]; // Minor units, lowest and highest
+  perMonth: number;
+}
+
+interface HistoryOptions {
+  months: number;
+  habits: Habit[];
+  // Share of expenses saved without a description
+  blankShare: number;
+  // Places visited once, one a month in turn, which the history can't have seen
+  oneOffs: { descriptions: string[]; category: ExpenseCategory; amount: [number, number] }[];
+}
+
+// ============================================
+// Generation
+// ============================================
+
+// A small seeded generator, so every run builds the same history
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+};
+
+const START = new Date(2025, 0, 1);
+
+const buildHistory = (seed: number, { months, habits, blankShare, oneOffs }: HistoryOptions): Expense[] => {
+  const random = createRandom(seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const between = ([low, high]: [number, number]) => Math.round(low + random() * (high - low));
+  const expenses: Expense[] = [];
+
+  const add = (description: string, category: ExpenseCategory, amount: number, month: number) => {
+    const day = 1 + Math.floor(random() * 28);
+    const date = Timestamp.fromDate(new Date(START.getFullYear(), START.getMonth() + month, day));
+    expenses.push({
+      id: `fixture-${seed}-${expenses.length}`,
+      userId: 'fixture-user',
+      amount,
+      category,
+      description: random() < blankShare ? '' : description,
+      date,
+      createdAt: date,
+      updatedAt: date,
+      isRecurring: false,
+      tags: [],
+    });
+  };
+
+  for (let month = 0; month < months; month++) {
+    habits.forEach((habit) => {
+      for (let i = 0; i < habit.perMonth; i++) {
+        // Store numbers change between visits, as they do on real statements
+        const description = pick(habit.descriptions).replace('#', `#${between([100, 9999])}`);
+        add(description, habit.category, between(habit.amount), month);
+      }
+    });
+    oneOffs.forEach(({ descriptions, category, amount }) =>
+      add(descriptions[month % descriptions.length], category, between(amount), month)
+    );
+  }
+
+  return expenses;
+};
+
+// ============================================
+// Histories
+// ============================================
+
+// A renter who commutes by car, eats out often and shops at the same few places
+const commuter = buildHistory(1, {
+  months: 12,
+  blankShare: 0.05,
+  habits: [
+    { descriptions: ['RENT PAYMENT OAK APTS'], category: 'rent', amount: [185000, 185000], perMonth: 1 },
+    { descriptions: ['CITY POWER & LIGHT'], category: 'electricity', amount: [6000, 14000], perMonth: 1 },
+    { descriptions: ['COMCAST INTERNET'], category: 'wifi', amount: [7999, 7999], perMonth: 1 },
+    { descriptions: ['NETFLIX.COM', 'SPOTIFY USA'], category: 'subscriptions', amount: [999, 1799], perMonth: 2 },
+    {
+      descriptions: ['SHELL OIL #', 'CHEVRON #', 'SHELL SERVICE STATION #'],
+      category: 'fuel',
+      amount: [3500, 7000],
+      perMonth: 4,
+    },
+    {
+      descriptions: ['WHOLE FOODS MKT #', 'TRADER JOE S #', 'SAFEWAY #'],
+      category: 'groceries',
+      amount: [2500, 16000],
+      perMonth: 6,
+    },
+    {
+      descriptions: ['SQ *BLUE BOTTLE COFFEE', 'STARBUCKS STORE #', 'CHIPOTLE #', 'DOORDASH*THAI PALACE'],
+      category: 'eating_out',
+      amount: [450, 4500],
+      perMonth: 8,
+    },
+    {
+      descriptions: ['AMAZON MKTPLACE PMTS', 'BEST BUY #', 'UNIQLO USA'],
+      category: 'shopping',
+      amount: [1500, 25000],
+      perMonth: 3,
+    },
+    // The same store for food some weeks and household things others
+    { descriptions: ['TARGET #'], category: 'groceries', amount: [3000, 9000], perMonth: 2 },
+    { descriptions: ['TARGET #'], category: 'shopping', amount: [2000, 12000], perMonth: 1 },
+  ],
+  oneOffs: [
+    {
+      descriptions: [
+        'PARKMOBILE',
+        'CITY MUSEUM',
+        'HOME DEPOT #',
+        'USPS PO #',
+        'PETCO #',
+        'DMV RENEWAL',
+        'FLORIST ON MAIN',
+        'DRY CLEANERS',
+        'GOODWILL #',
+        'BARBER SHOP',
+        'ZOO ADMISSION',
+        'LOCKSMITH',
+      ],
+      category: 'miscellaneous',
+      amount: [1000, 5000],
+    },
+  ],
+});
+
+// A household that travels, pays for gas heating and writes its own short descriptions
+const household = buildHistory(2, {
+  months: 12,
+  blankShare: 0.15,
+  habits: [
+    { descriptions: ['Rent', 'rent for flat'], category: 'rent', amount: [210000, 210000], perMonth: 1 },
+    { descriptions: ['Electric bill'], category: 'electricity', amount: [5000, 11000], perMonth: 1 },
+    { descriptions: ['Gas bill', 'heating gas'], category: 'gas', amount: [3000, 12000], perMonth: 1 },
+    { descriptions: ['Internet', 'wifi'], category: 'wifi', amount: [5500, 5500], perMonth: 1 },
+    {
+      descriptions: ['Weekly groceries', 'groceries at Aldi', 'Costco groceries', 'farmers market'],
+      category: 'groceries',
+      amount: [4000, 22000],
+      perMonth: 5,
+    },
+    {
+      descriptions: ['Dinner out', 'pizza night', 'lunch with team', 'coffee'],
+      category: 'eating_out',
+      amount: [500, 9000],
+      perMonth: 6,
+    },
+    {
+      descriptions: ['Uber ride', 'train tickets', 'Delta flight', 'hotel booking'],
+      category: 'travel',
+      amount: [1500, 60000],
+      perMonth: 2,
+    },
+    { descriptions: ['Petrol', 'fuel for car', 'Costco gas'], category: 'fuel', amount: [4000, 8000], perMonth: 3 },
+    // One shop for several things, told apart only by what they cost
+    { descriptions: ['Amazon order'], category: 'shopping', amount: [1500, 20000], perMonth: 2 },
+    { descriptions: ['Amazon order'], category: 'groceries', amount: [2000, 6000], perMonth: 1 },
+    { descriptions: ['Disney plus', 'gym membership'], category: 'subscriptions', amount: [799, 4500], perMonth: 2 },
+    {
+      descriptions: ['clothes', 'kids shoes', 'home decor', 'new headphones'],
+      category: 'shopping',
+      amount: [2000, 30000],
+      perMonth: 2,
+    },
+  ],
+  oneOffs: [
+    {
+      descriptions: [
+        'birthday present',
+        'vet visit',
+        'dentist',
+        'charity donation',
+        'school trip',
+        'haircut',
+        'parking fine',
+        'concert tickets',
+        'hardware store',
+        'wedding gift',
+        'dry cleaning',
+        'passport renewal',
+      ],
+      category: 'miscellaneous',
+      amount: [2000, 20000],
+    },
+  ],
+});
+
+/**
+ * Year-long expense histories to measure category suggestions against
+ */
+export const SUGGESTION_HISTORIES: Record<string, Expense[]> = { commuter, household };
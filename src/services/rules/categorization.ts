@@ -0,0 +1,150 @@
+// ============================================
+// Categorization Rule Functions
+// ============================================
+
+import {
+  Expense,
+  Income,
+  ImportKind,
+  CategorizationRule,
+  NewCategorizationRule,
+  RuleConditions,
+  RuleResult,
+  ExpenseCategory,
+} from '@/types';
+import { normalizeTag } from '@/lib/utils/formatters';
+
+// ============================================
+// Types
+// ============================================
+
+// The parts of a transaction rules look at
+export interface RuleSubject {
+  text: string; // Expense description or income source
+  amount: number; // Minor units of the base currency
+}
+
+// Rule fields a preview needs; drafts being edited have no id yet
+export type RuleDraft = Pick<CategorizationRule, 'kind' | 'conditions' | 'actions'>;
+
+export interface RulePreview<T> {
+  matches: T[];
+  // Matches whose category, tags or type the rule would actually change
+  changed: T[];
+}
+
+// ============================================
+// Matching
+// ============================================
+
+/**
+ * Why a regex pattern can't be used, or null when it compiles
+ */
+export const getPatternError = (pattern: string): string | null => {
+  try {
+    new RegExp(pattern, 'i');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+};
+
+/**
+ * Whether a transaction meets every condition of a rule.
+ * A rule with a broken regex never matches rather than matching everything.
+ */
+export const matchesRuleConditions = (conditions: RuleConditions, subject: RuleSubject): boolean => {
+  if (conditions.minAmount !== undefined && subject.amount < conditions.minAmount) return false;
+  if (conditions.maxAmount !== undefined && subject.amount > conditions.maxAmount) return false;
+
+  const pattern = conditions.text?.trim();
+  if (!pattern) return true;
+
+  if (conditions.textMode === 'regex') {
+    if (getPatternError(pattern)) return false;
+    return new RegExp(pattern, 'i').test(subject.text);
+  }
+  return subject.text.toLowerCase().includes(pattern.toLowerCase());
+};
+
+/**
+ * Rules in the order they run: by priority, oldest first on ties
+ */
+export const sortRules = (rules: CategorizationRule[]): CategorizationRule[] =>
+  [...rules].sort((a, b) => a.priority - b.priority || a.createdAt.toMillis() - b.createdAt.toMillis());
+
+/**
+ * Run the active rules of one kind over a transaction. Each field goes to the
+ * first matching rule that sets it; tags from every matching rule are combined.
+ */
+export const applyRules = (rules: CategorizationRule[], kind: ImportKind, subject: RuleSubject): RuleResult => {
+  const result: RuleResult = { tags: [], matchedRules: [] };
+
+  sortRules(rules)
+    .filter((rule) => rule.isActive && rule.kind === kind && matchesRuleConditions(rule.conditions, subject))
+    .forEach((rule) => {
+      result.matchedRules.push(rule);
+      if (kind === 'expense') {
+        if (!result.category && rule.actions.category) result.category = rule.actions.category;
+        (rule.actions.tags ?? [])
+          .map(normalizeTag)
+          .filter((tag) => tag && !result.tags.includes(tag))
+          .forEach((tag) => result.tags.push(tag));
+      } else if (!result.incomeType && rule.actions.incomeType) {
+        result.incomeType = rule.actions.incomeType;
+      }
+    });
+
+  return result;
+};
+
+// ============================================
+// History Preview
+// ============================================
+
+/**
+ * Test a rule against existing transactions (already in the base currency)
+ */
+export const previewRule = <T extends Expense | Income>(rule: RuleDraft, records: T[]): RulePreview<T> => {
+  const matches = records.filter((record) =>
+    matchesRuleConditions(rule.conditions, {
+      text: 'category' in record ? record.description || '' : record.source,
+      amount: record.amount,
+    })
+  );
+
+  const changed = matches.filter((record) => {
+    if (!('category' in record)) return Boolean(rule.actions.incomeType && rule.actions.incomeType !== record.type);
+    const tags = record.tags ?? [];
+    return (
+      Boolean(rule.actions.category && rule.actions.category !== record.category) ||
+      (rule.actions.tags ?? []).some((tag) => !tags.includes(normalizeTag(tag)))
+    );
+  });
+
+  return { matches, changed };
+};
+
+// ============================================
+// Suggestions
+// ============================================
+
+/**
+ * A rule that would have given an expense the category the user just moved it to.
+ * Only worth offering when the description has something to match on.
+ */
+export const suggestRuleFromEdit = (
+  expense: Pick<Expense, 'description' | 'category'>,
+  category: ExpenseCategory,
+  categoryName: string
+): NewCategorizationRule | null => {
+  const text = expense.description.trim();
+  if (!text || expense.category === category) return null;
+
+  return {
+    name: `${text} → ${categoryName}`,
+    kind: 'expense',
+    conditions: { text, textMode: 'contains' },
+    actions: { category },
+  };
+};
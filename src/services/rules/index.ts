@@ -0,0 +1,6 @@
+// ============================================
+// Rule Services Barrel Export
+// ============================================
+
+export * from './categorization';
+export * from './suggestions';
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { Timestamp } from 'firebase/firestore';
+import { Expense, ExpenseCategory } from '@/types';
+import { buildCategoryModel, evaluateCategorySuggestions, suggestCategories } from './suggestions';
+import { SUGGESTION_HISTORIES } from './__fixtures__/suggestionHistories';
+
+// Top suggestions must be right at least this often on every fixture history
+const PRECISION_FLOOR = 0.85;
+
+const expense = (description: string, category: ExpenseCategory, amount: number, day: number): Expense => {
+  const date = Timestamp.fromDate(new Date(2025, 0, day));
+  return {
+    id: `expense-${day}`,
+    userId: 'test-user',
+    amount,
+    category,
+    description,
+    date,
+    createdAt: date,
+    updatedAt: date,
+    isRecurring: false,
+    tags: [],
+  };
+};
+
+describe('suggestCategories', () => {
+  it('suggests the category a merchant was used for', () => {
+    const model = buildCategoryModel([
+      expense('SHELL OIL #1234', 'fuel', 5000, 1),
+      expense('WHOLE FOODS MKT #10', 'groceries', 8000, 2),
+    ]);
+
+    expect(suggestCategories(model, { description: 'SHELL OIL #5678' })[0].category).toBe('fuel');
+  });
+
+  it('suggests nothing for words the history has never seen', () => {
+    const model = buildCategoryModel([expense('SHELL OIL #1234', 'fuel', 5000, 1)]);
+
+    expect(suggestCategories(model, { description: 'Bookshop' })).toEqual([]);
+  });
+});
+
+describe('evaluateCategorySuggestions', () => {
+  it('learns from the oldest expenses and checks the newest', () => {
+    const history = [
+      expense('Corner shop', 'groceries', 2000, 1),
+      expense('Corner shop', 'groceries', 2500, 2),
+      expense('Corner shop', 'groceries', 1800, 3),
+      expense('Cinema', 'miscellaneous', 1500, 4),
+      // Held out: the first is known, the second has never been seen
+      expense('Corner shop', 'groceries', 2200, 5),
+      expense('Bookshop', 'shopping', 3000, 6),
+    ];
+
+    const evaluation = evaluateCategorySuggestions([...history].reverse(), { trainShare: 4 / 6 });
+
+    expect(evaluation).toEqual({ evaluated: 2, coverage: 0.5, precision: 1, topKAccuracy: 0.5 });
+  });
+
+  it.each(Object.entries(SUGGESTION_HISTORIES))('keeps precision above the floor on the %s history', (_, history) => {
+    const evaluation = evaluateCategorySuggestions(history);
+
+    expect(evaluation.evaluated).toBeGreaterThan(0);
+    expect(evaluation.coverage).toBeGreaterThan(0.5);
+    expect(evaluation.precision).toBeGreaterThanOrEqual(PRECISION_FLOOR);
+    expect(evaluation.topKAccuracy).toBeGreaterThanOrEqual(evaluation.precision * evaluation.coverage);
+  });
+});
@@ -0,0 +1,232 @@
+// ============================================
+// Learned Category Suggestions
+// ============================================
+
+import { Expense, ExpenseCategory } from '@/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface CategoryStats {
+  count: number;
+  tokenCounts: Map<string, number>;
+  tokenTotal: number;
+  // Typical amount, as the mean and spread of log amounts
+  logAmountMean: number;
+  logAmountSpread: number;
+}
+
+// Everything suggestions are ranked from, built once per history
+export interface CategoryModel {
+  total: number;
+  categories: Map<ExpenseCategory, CategoryStats>;
+  vocabulary: Set<string>;
+  // Normalized merchant -> how often each category was used for it
+  merchants: Map<string, Map<ExpenseCategory, number>>;
+}
+
+export interface CategorySuggestion {
+  category: ExpenseCategory;
+  confidence: number; // 0-1, summing to at most 1 across suggestions
+}
+
+export interface SuggestionInput {
+  description: string;
+  amount?: number; // Minor units of the base currency
+}
+
+export interface SuggestionEvaluation {
+  evaluated: number; // Held-out expenses with a description
+  coverage: number; // Share of those that got any suggestion
+  precision: number; // Share of suggested ones whose top suggestion was right
+  topKAccuracy: number; // Share of evaluated ones with the right category anywhere in the suggestions
+}
+
+// Additive smoothing for unseen token/category pairs
+const SMOOTHING = 0.5;
+// A merchant seen before says more than any single word
+const MERCHANT_WEIGHT = 2;
+const AMOUNT_WEIGHT = 0.5;
+const MIN_AMOUNT_SPREAD = 0.25;
+const MIN_CONFIDENCE = 0.05;
+
+// ============================================
+// Merchant Normalization
+// ============================================
+
+// Card processor prefixes, payment words and company suffixes that vary between statements of the same merchant
+const MERCHANT_NOISE =
+  /\b(pos|debit|credit|purchase|card|visa|mastercard|payment|sq|tst|paypal|pp|ach|recurring|inc|llc|ltd|co|corp|com|www)\b/g;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'at', 'of', 'to', 'in', 'on', 'my', 'with']);
+
+/**
+ * Reduce a description to the merchant it names, e.g. "SQ *BLUE BOTTLE #1234" -> "blue bottle"
+ */
+export const normalizeMerchant = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/\.(com|net|org|co)\b/g, ' ')
+    .replace(/\d+/g, ' ')
+    .replace(/[^\p{L}\s]/gu, ' ')
+    .replace(MERCHANT_NOISE, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * The distinct words of a description that are worth matching on
+ */
+export const tokenizeDescription = (text: string): string[] =>
+  Array.from(
+    new Set(
+      normalizeMerchant(text)
+        .split(' ')
+        .filter((token) => token.length >= 2 && !STOP_WORDS.has(token))
+    )
+  );
+
+// ============================================
+// Model
+// ============================================
+
+/**
+ * Learn how descriptions, merchants and amounts map to categories from past expenses.
+ * Amounts should already be in the base currency.
+ */
+export const buildCategoryModel = (expenses: Expense[]): CategoryModel => {
+  const model: CategoryModel = { total: 0, categories: new Map(), vocabulary: new Set(), merchants: new Map() };
+  const logAmounts = new Map<ExpenseCategory, number[]>();
+
+  expenses.forEach((expense) => {
+    const stats = model.categories.get(expense.category) ?? {
+      count: 0,
+      tokenCounts: new Map(),
+      tokenTotal: 0,
+      logAmountMean: 0,
+      logAmountSpread: MIN_AMOUNT_SPREAD,
+    };
+    stats.count += 1;
+    model.total += 1;
+    model.categories.set(expense.category, stats);
+
+    if (expense.amount > 0) {
+      const values = logAmounts.get(expense.category) ?? [];
+      values.push(Math.log(expense.amount));
+      logAmounts.set(expense.category, values);
+    }
+
+    const tokens = tokenizeDescription(expense.description || '');
+    tokens.forEach((token) => {
+      stats.tokenCounts.set(token, (stats.tokenCounts.get(token) ?? 0) + 1);
+      stats.tokenTotal += 1;
+      model.vocabulary.add(token);
+    });
+
+    const merchant = normalizeMerchant(expense.description || '');
+    if (merchant) {
+      const counts = model.merchants.get(merchant) ?? new Map<ExpenseCategory, number>();
+      counts.set(expense.category, (counts.get(expense.category) ?? 0) + 1);
+      model.merchants.set(merchant, counts);
+    }
+  });
+
+  logAmounts.forEach((values, category) => {
+    const stats = model.categories.get(category)!;
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    stats.logAmountMean = mean;
+    stats.logAmountSpread = Math.max(Math.sqrt(variance), MIN_AMOUNT_SPREAD);
+  });
+
+  return model;
+};
+
+/**
+ * Rank categories for a description being typed. Nothing is suggested until the
+ * description shares a word or merchant with the history; the amount only reorders.
+ */
+export const suggestCategories = (
+  model: CategoryModel,
+  { description, amount }: SuggestionInput,
+  limit = 3
+): CategorySuggestion[] => {
+  const tokens = tokenizeDescription(description).filter((token) => model.vocabulary.has(token));
+  const merchantCounts = model.merchants.get(normalizeMerchant(description));
+  if (tokens.length === 0 && !merchantCounts) return [];
+
+  const categoryCount = model.categories.size;
+  const vocabularySize = model.vocabulary.size;
+  const merchantTotal = merchantCounts ? Array.from(merchantCounts.values()).reduce((sum, n) => sum + n, 0) : 0;
+
+  const scores = Array.from(model.categories, ([category, stats]) => {
+    let score = Math.log((stats.count + 1) / (model.total + categoryCount));
+
+    tokens.forEach((token) => {
+      score += Math.log(
+        ((stats.tokenCounts.get(token) ?? 0) + SMOOTHING) / (stats.tokenTotal + SMOOTHING * vocabularySize)
+      );
+    });
+
+    if (merchantCounts) {
+      score +=
+        MERCHANT_WEIGHT *
+        Math.log(((merchantCounts.get(category) ?? 0) + SMOOTHING) / (merchantTotal + SMOOTHING * categoryCount));
+    }
+
+    if (amount && amount > 0 && stats.count > 1) {
+      const distance = (Math.log(amount) - stats.logAmountMean) / stats.logAmountSpread;
+      score -= AMOUNT_WEIGHT * (distance ** 2 / 2 + Math.log(stats.logAmountSpread));
+    }
+
+    return { category, score };
+  });
+
+  // Softmax turns log scores into shares of confidence
+  const best = Math.max(...scores.map((entry) => entry.score));
+  const weights = scores.map((entry) => ({ category: entry.category, weight: Math.exp(entry.score - best) }));
+  const totalWeight = weights.reduce((sum, entry) => sum + entry.weight, 0);
+
+  return weights
+    .map((entry) => ({ category: entry.category, confidence: entry.weight / totalWeight }))
+    .filter((entry) => entry.confidence >= MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Measure suggestion quality on a history: learn from the oldest expenses and
+ * check the suggestions for the newest, the way they'd be met in practice.
+ */
+export const evaluateCategorySuggestions = (
+  expenses: Expense[],
+  { trainShare = 0.8, limit = 3 }: { trainShare?: number; limit?: number } = {}
+): SuggestionEvaluation => {
+  const sorted = [...expenses].sort((a, b) => a.date.toMillis() - b.date.toMillis());
+  const split = Math.floor(sorted.length * trainShare);
+  const model = buildCategoryModel(sorted.slice(0, split));
+  const held = sorted.slice(split).filter((expense) => expense.description?.trim());
+
+  let suggested = 0;
+  let correct = 0;
+  let inTopK = 0;
+
+  held.forEach((expense) => {
+    const suggestions = suggestCategories(model, { description: expense.description, amount: expense.amount }, limit);
+    if (suggestions.length === 0) return;
+    suggested += 1;
+    if (suggestions[0].category === expense.category) correct += 1;
+    if (suggestions.some((suggestion) => suggestion.category === expense.category)) inTopK += 1;
+  });
+
+  return {
+    evaluated: held.length,
+    coverage: held.length === 0 ? 0 : suggested / held.length,
+    precision: suggested === 0 ? 0 : correct / suggested,
+    topKAccuracy: held.length === 0 ? 0 : inTopK / held.length,
+  };
+};
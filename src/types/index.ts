@@ -3,12 +3,25 @@
 // ============================================
 
 import { Timestamp } from 'firebase/firestore';
+import { CurrencyCode } from '@/lib/utils/constants';
 
 // ============================================
 // User Types
 // ============================================
 
-export type PayFrequency = 'weekly' | 'biweekly' | 'monthly';
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly';
+
+// When paychecks land. Weekly and biweekly pay falls on `weekday`, biweekly in the weeks
+// `anchor` falls in; semimonthly and monthly pay on `monthDays`, clamped to short months.
+export interface PaySchedule {
+  frequency: PayFrequency;
+  weekday: number; // 0 = Sunday
+  anchor: Date; // Any payday
+  monthDays: number[]; // Two days for semimonthly, one for monthly
+}
+
+// Whether period views follow calendar months or pay periods
+export type PeriodMode = 'month' | 'payPeriod';
 
 export interface UserProfile {
   uid: string;
@@ -44,7 +57,7 @@ export type ExpenseCategory =
   | 'gas'
   | 'wifi'
   | 'groceries'
-  | 'amazon'
+  | 'shopping'
   | 'eating_out'
   | 'fuel'
   | 'subscriptions'
@@ -65,7 +78,8 @@ export interface CategoryConfig {
 export interface Expense {
   id: string;
   userId: string;
-  amount: number;
+  amount: number; // Minor units of `currency`
+  currency?: CurrencyCode; // Missing on older records, which are in the base currency
   category: ExpenseCategory;
   description: string;
   date: Timestamp;
@@ -74,15 +88,135 @@ export interface Expense {
   isRecurring: boolean;
   recurringId?: string;
   tags: string[];
+  splits?: ExpenseSplit[]; // When present, these amounts add up to `amount`
+  accountId?: string; // Missing on records from before accounts, which belong to the Main account
+  payeeId?: string; // Pins the payee when the description can't name it; otherwise it's matched by alias
+  debtId?: string; // A payment toward this debt, which lowers its balance
+}
+
+// Part of an expense attributed to its own category
+export interface ExpenseSplit {
+  category: ExpenseCategory;
+  amount: number;
+  note?: string;
 }
 
 export interface NewExpense {
   amount: number;
+  currency?: CurrencyCode;
   category: ExpenseCategory;
   description?: string;
   date: Date;
   isRecurring?: boolean;
+  recurringId?: string;
+  tags?: string[];
+  splits?: ExpenseSplit[];
+  accountId?: string; // Defaults to the Main account
+  debtId?: string;
+}
+
+// ============================================
+// Recurring Expense Types
+// ============================================
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'yearly';
+
+export interface RecurringRule {
+  id: string;
+  userId: string;
+  amount: number;
+  currency?: CurrencyCode;
+  category: ExpenseCategory;
+  description: string;
+  tags: string[];
+  accountId?: string;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number; // Only used by monthly rules (1-31, clamped to month length)
+  startDate: Timestamp;
+  endDate?: Timestamp;
+  lastGeneratedDate?: Timestamp; // Last day the materializer has processed
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewRecurringRule {
+  amount: number;
+  currency?: CurrencyCode;
+  category: ExpenseCategory;
+  description?: string;
   tags?: string[];
+  accountId?: string;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number;
+  startDate: Date;
+  endDate?: Date;
+}
+
+// Whether an edit/end on a materialized occurrence applies to it alone or to the rest of the series
+export type RecurringEditScope = 'occurrence' | 'future';
+
+// ============================================
+// Budget Types
+// ============================================
+
+// One budget per category; the document id is the category id
+export interface CategoryBudget {
+  id: string;
+  userId: string;
+  category: CategoryId; // Default or custom category ID
+  amount: number; // Monthly limit in cents
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export type BudgetStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface BudgetProgress {
+  budget: CategoryBudget;
+  available: number; // The budget amount, or the envelope balance before spending in envelope mode
+  spent: number;
+  remaining: number; // Negative once overspent
+  percentage: number;
+  status: BudgetStatus;
+}
+
+// monthly: every month starts fresh; envelope: leftovers and deficits roll into the next month
+export type BudgetMode = 'monthly' | 'envelope';
+
+// A recorded move of money from one envelope to another
+export interface BudgetTransfer {
+  id: string;
+  userId: string;
+  fromCategory: CategoryId;
+  toCategory: CategoryId;
+  amount: number;
+  date: Timestamp;
+  note?: string;
+  createdAt: Timestamp;
+}
+
+export interface NewBudgetTransfer {
+  fromCategory: CategoryId;
+  toCategory: CategoryId;
+  amount: number;
+  date: Date;
+  note?: string;
+}
+
+export interface EnvelopeBalance {
+  category: CategoryId;
+  opening: number; // Previous month's closing balance (negative for a carried deficit)
+  allocation: number;
+  transfers: number; // Net money moved in (+) or out (-) this month
+  spent: number;
+  closing: number;
+}
+
+export interface EnvelopeMonth {
+  monthKey: string; // yyyy-MM, see getMonthYearKey
+  month: Date;
+  envelopes: EnvelopeBalance[];
 }
 
 // ============================================
@@ -100,7 +234,8 @@ export type IncomeType =
 export interface Income {
   id: string;
   userId: string;
-  amount: number;
+  amount: number; // Minor units of `currency`
+  currency?: CurrencyCode; // Missing on older records, which are in the base currency
   type: IncomeType;
   source: string;
   date: Timestamp;
@@ -108,17 +243,371 @@ export interface Income {
   updatedAt: Timestamp;
   isRegular: boolean;
   note?: string;
+  accountId?: string; // Missing on records from before accounts, which belong to the Main account
 }
 
 export interface NewIncome {
   amount: number;
+  currency?: CurrencyCode;
   type: IncomeType;
   source: string;
   date: Date;
   isRegular?: boolean;
   note?: string;
+  accountId?: string; // Defaults to the Main account
+}
+
+// ============================================
+// Account Types
+// ============================================
+
+export type AccountType = 'checking' | 'savings' | 'credit_card' | 'cash';
+
+export interface Account {
+  id: string;
+  userId: string;
+  name: string;
+  type: AccountType;
+  openingBalance: number; // Minor units of `currency`; negative for money owed, e.g. a credit card
+  currency: CurrencyCode;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewAccount {
+  name: string;
+  type: AccountType;
+  openingBalance: number;
+  currency: CurrencyCode;
+}
+
+// Money moved between two of the user's accounts; neither income nor an expense
+export interface AccountTransfer {
+  id: string;
+  userId: string;
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // Minor units of the source account's currency
+  toAmount?: number; // Amount received, when the destination account uses another currency
+  date: Timestamp;
+  note?: string;
+  createdAt: Timestamp;
+}
+
+export interface NewAccountTransfer {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;
+  toAmount?: number;
+  date: Date;
+  note?: string;
+}
+
+export interface AccountBalance {
+  account: Account;
+  balance: number; // Minor units of the account's currency
+  baseBalance: number; // The same balance in the base currency
+}
+
+// Month-end balances, for net worth over time
+export interface NetWorthPoint {
+  monthKey: string; // yyyy-MM, see getMonthYearKey
+  month: Date;
+  balances: Record<string, number>; // Account id -> balance in the base currency
+  netWorth: number;
+}
+
+// ============================================
+// Payee Types
+// ============================================
+
+// A merchant that raw statement descriptions like "AMZN Mktp US*2K3" resolve to
+export interface Payee {
+  id: string;
+  userId: string;
+  name: string;
+  aliases: string[]; // Matched against descriptions after normalizeMerchant
+  defaultCategory?: ExpenseCategory;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewPayee {
+  name: string;
+  aliases: string[];
+  defaultCategory?: ExpenseCategory;
+}
+
+// ============================================
+// Currency Types
+// ============================================
+
+// 1 unit of `from` is worth `rate` units of `to`, effective from `date` until a newer rate
+export interface ExchangeRate {
+  from: CurrencyCode;
+  to: CurrencyCode;
+  rate: number;
+  date: string; // yyyy-MM-dd
+}
+
+// ============================================
+// Import Types
+// ============================================
+
+export type ImportKind = 'expense' | 'income';
+
+// Target fields a CSV column can be mapped onto
+export type ExpenseImportField = 'amount' | 'date' | 'description' | 'category';
+export type IncomeImportField = 'amount' | 'date' | 'source' | 'type' | 'note';
+export type ImportField = ExpenseImportField | IncomeImportField;
+
+// Field -> index of the CSV column it is read from
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export interface ImportPreviewRow<T> {
+  rowNumber: number; // 1-based line in the file, including the header
+  data: T | null; // null when the row could not be parsed
+  error?: string;
+  isDuplicate: boolean;
+}
+
+export type DateFormat = UserSettings['dateFormat'];
+
+// ============================================
+// Categorization Rule Types
+// ============================================
+
+export type RuleMatchMode = 'contains' | 'regex';
+
+// A rule applies when every condition that is set holds
+export interface RuleConditions {
+  text?: string; // Matched against an expense's description or an income entry's source, ignoring case
+  textMode: RuleMatchMode;
+  minAmount?: number; // Inclusive bounds in minor units of the base currency
+  maxAmount?: number;
+}
+
+// What a matching rule fills in; expense rules set category and tags, income rules set the type
+export interface RuleActions {
+  category?: ExpenseCategory;
+  tags?: string[];
+  incomeType?: IncomeType;
+}
+
+export interface CategorizationRule {
+  id: string;
+  userId: string;
+  name: string;
+  kind: ImportKind;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  priority: number; // Lower runs first; the first matching rule to set a field wins it
+  isActive: boolean;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewCategorizationRule {
+  name: string;
+  kind: ImportKind;
+  conditions: RuleConditions;
+  actions: RuleActions;
+  isActive?: boolean;
+}
+
+// What every matching rule filled in between them
+export interface RuleResult {
+  category?: ExpenseCategory;
+  incomeType?: IncomeType;
+  tags: string[];
+  matchedRules: CategorizationRule[];
+}
+
+// ============================================
+// Backup Types
+// ============================================
+
+// merge: backup records win on id conflicts, everything else is kept
+// replace: anything not in the backup is removed
+export type RestoreMode = 'merge' | 'replace';
+
+export type BackupCollection =
+  | 'expenses'
+  | 'income'
+  | 'customCategories'
+  | 'budgets'
+  | 'goals'
+  | 'exchangeRates'
+  | 'accounts'
+  | 'accountTransfers'
+  | 'settings';
+
+// ============================================
+// Offline Sync Types
+// ============================================
+
+// Collections that are cached on the device and written through the sync queue
+export type SyncedCollection = 'expenses' | 'income' | 'trash' | 'auditLog';
+
+export interface SyncStatus {
+  isOnline: boolean;
+  isSyncing: boolean;
+  pending: number; // Local writes waiting to be sent
+  failed: number; // Local writes the server rejected
+  lastError?: string;
+  lastSyncedAt?: Date;
+}
+
+// ============================================
+// Pagination Types
+// ============================================
+
+// A date window over a synced collection; a missing bound leaves that side open
+export type DateWindow = Partial<DateRange>;
+
+// Where a page ended: the date and id of its last (oldest) record
+export interface PageCursor {
+  date: Date;
+  id: string;
+}
+
+export interface PageOptions {
+  window?: DateWindow;
+  cursor?: PageCursor | null; // Start after this record; omit for the newest page
+  pageSize?: number;
+}
+
+export interface Page<T> {
+  items: T[]; // Newest first
+  cursor: PageCursor | null; // Pass back to get the next page
+  hasMore: boolean;
+}
+
+// ============================================
+// Rollup Types
+// ============================================
+
+export interface RollupBucket {
+  amount: number;
+  count: number;
+}
+
+// One month's sums in one currency
+export interface RollupTotals {
+  expenses: RollupBucket;
+  income: RollupBucket;
+  byCategory: Record<string, RollupBucket>; // Split expenses count toward each split's category
+  byTag: Record<string, RollupBucket>;
+  byIncomeType: Record<string, RollupBucket>;
+  byDay: Record<string, number>; // Day of the month ('01'-'31') to amount spent
+}
+
+// A stored summary of one month, kept up to date as expenses and income change
+export interface MonthlyRollup {
+  id: string; // The month, yyyy-MM
+  month: string;
+  // Keyed by the currency records were entered in; records without one are under 'base'
+  currencies: Record<string, RollupTotals>;
+  updatedAt: Timestamp;
+}
+
+// A record being counted into (1) or out of (-1) its month
+export type RollupChange =
+  | { kind: 'expense'; record: Expense; sign: 1 | -1 }
+  | { kind: 'income'; record: Income; sign: 1 | -1 };
+
+// ============================================
+// Trash Types
+// ============================================
+
+export type TrashedRecord =
+  | { kind: 'expense'; record: Expense }
+  | { kind: 'income'; record: Income };
+
+// A deleted transaction, kept whole so it can be put back
+export type TrashItem = TrashedRecord & {
+  id: string; // `${kind}-${record.id}`
+  userId: string;
+  deletedAt: Timestamp;
+};
+
+// ============================================
+// Bulk Edit Types
+// ============================================
+
+// One change applied to every selected expense
+export type ExpenseBulkEdit =
+  | { type: 'category'; category: ExpenseCategory }
+  | { type: 'addTags'; tags: string[] }
+  | { type: 'removeTags'; tags: string[] }
+  | { type: 'shiftDate'; days: number }
+  | { type: 'recurring'; isRecurring: boolean };
+
+// One change applied to every selected income entry
+export type IncomeBulkEdit =
+  | { type: 'incomeType'; incomeType: IncomeType }
+  | { type: 'shiftDate'; days: number }
+  | { type: 'regular'; isRegular: boolean };
+
+// ============================================
+// Search Types
+// ============================================
+
+// One end of an amount range, in minor units of the base currency
+export interface AmountBound {
+  value: number;
+  inclusive: boolean;
+}
+
+// A parsed search query. A transaction matches when it meets every condition that is set.
+export interface TransactionFilter {
+  text: string[]; // Lowercased words or quoted phrases, each found somewhere in the transaction
+  amount: { min?: AmountBound; max?: AmountBound };
+  dateRange: DateWindow;
+  categories: CategoryId[]; // Any of these; income never matches a category
+  tags: string[]; // Any of these; income never matches a tag
+  recurringOnly: boolean; // Recurring expenses, or regular income
 }
 
+// A query the user named so it can be applied again from a chip
+export interface SavedFilter {
+  name: string;
+  query: string;
+}
+
+// ============================================
+// Audit Types
+// ============================================
+
+// Where a change to an expense or income record came from
+export type AuditSource = 'manual' | 'import' | 'recurring' | 'bulk';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore';
+
+// One field's value before and after a change. Missing values are stored as null.
+export interface FieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+// An append-only log entry for a single change to an expense or income record
+export interface AuditEntry {
+  id: string;
+  userId: string;
+  kind: 'expense' | 'income';
+  recordId: string;
+  action: AuditAction;
+  source: AuditSource;
+  changes: FieldChange[];
+  changedAt: Timestamp;
+}
+
+// A record as it was before (null when created) and after (null when deleted) a change
+export type AuditChange =
+  | { kind: 'expense'; action: AuditAction; previous: Expense | null; next: Expense | null }
+  | { kind: 'income'; action: AuditAction; previous: Income | null; next: Income | null };
+
 // ============================================
 // Analytics Types
 // ============================================
@@ -137,6 +626,69 @@ export interface CategoryBreakdown {
   count: number;
 }
 
+// Tags cut across categories, so an expense with several tags counts toward each
+export interface TagBreakdown {
+  tag: string;
+  amount: number;
+  percentage: number; // Share of all spending in the period
+  count: number;
+}
+
+// Spending at one merchant: a saved payee, or a normalized description no payee claims
+export interface MerchantBreakdown {
+  key: string; // Payee id, or the normalized description
+  name: string;
+  payeeId?: string;
+  amount: number;
+  percentage: number; // Share of spending with a known merchant
+  count: number;
+  firstDate: Date;
+  monthly: { monthKey: string; amount: number }[]; // Oldest first, one entry per month in the window
+}
+
+export interface PayPeriodSummary {
+  start: Date;
+  end: Date;
+  spent: number;
+  income: number;
+}
+
+// Where the current pay period stands, in the base currency
+export interface PayPeriodStatus {
+  period: DateRange;
+  nextPayday: Date;
+  daysLeft: number; // Days before the next payday, counting today
+  spent: number;
+  income: number; // Received since the last payday
+  expectedPay: number; // What the period is budgeted from: the pay received, or the default salary until it arrives
+  upcomingBills: number; // Recurring expenses still due before the next payday
+  safeToSpend: number;
+  safeToSpendPerDay: number;
+  previous: PayPeriodSummary[]; // Oldest first
+  averageSpentToDate: number; // What previous periods had spent by the same day
+  change: number; // Percent versus that average
+}
+
+// One day of the cash-flow forecast, in the base currency
+export interface ForecastPoint {
+  date: Date;
+  income: number; // Regular pay expected that day
+  bills: number; // Recurring expenses due
+  variable: number; // Average everyday spending
+  balance: number; // Projected balance at the end of the day
+  low: number; // Confidence band, widening with how much daily spending has varied
+  high: number;
+  isBelowThreshold: boolean;
+}
+
+export interface CashFlowForecast {
+  startingBalance: number;
+  points: ForecastPoint[]; // Today first, one per day
+  variableByCategory: { category: ExpenseCategory; dailyAmount: number }[]; // Largest first
+  expectedPay: number; // Per payday
+  firstShortfall: Date | null; // First day the balance is projected below the threshold
+}
+
 export interface WeeklyTrend {
   week: number;
   weekStart: Date;
@@ -170,11 +722,17 @@ export type DateRange = {
 
 export type TimePeriod = 'week' | 'month' | 'quarter' | 'year' | 'custom';
 
+export interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 export interface Toast {
   id: string;
   type: 'success' | 'error' | 'warning' | 'info';
   message: string;
   duration?: number;
+  action?: ToastAction;
 }
 
 export interface QuickStat {
@@ -279,6 +837,118 @@ export interface GoalInsight {
   action?: string;
 }
 
+// ============================================
+// Savings Goal Types
+// ============================================
+
+// Money put toward a savings goal by hand; negative amounts are withdrawals
+export interface GoalContribution {
+  id: string;
+  amount: number; // Minor units of the base currency
+  date: Timestamp;
+  note?: string;
+}
+
+// A sinking fund, e.g. $5,000 for a laptop by June. Progress is the starting
+// amount plus contributions, or the balance of a linked account.
+export interface SavingsGoal {
+  id: string;
+  userId: string;
+  name: string;
+  targetAmount: number;
+  targetDate: Timestamp;
+  startingAmount: number; // Saved before the goal was created, or the linked account's balance then
+  accountId?: string; // Progress follows this account's balance
+  category?: ExpenseCategory; // Expenses here, e.g. transfers into savings, count as contributions
+  contributions: GoalContribution[];
+  color: string;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewSavingsGoal {
+  name: string;
+  targetAmount: number;
+  targetDate: Date;
+  startingAmount: number;
+  accountId?: string;
+  category?: ExpenseCategory;
+  color: string;
+}
+
+export interface NewGoalContribution {
+  amount: number;
+  date: Date;
+  note?: string;
+}
+
+export interface SavingsGoalProgress {
+  goal: SavingsGoal;
+  currentAmount: number;
+  remaining: number;
+  percentage: number;
+  requiredMonthly: number; // To reach the target by its date
+  averageMonthly: number; // Saved per month since the goal was created
+  projectedDate: Date | null; // At the average pace; null without progress
+  status: 'completed' | 'on_track' | 'behind' | 'overdue';
+  // Newest first; manual entries carry their contribution id, category entries their expense id
+  history: { id: string; date: Date; amount: number; note?: string; source: 'manual' | 'category' }[];
+}
+
+// ============================================
+// Debt Types
+// ============================================
+
+// A loan or card balance being paid down. Payments are expenses that point at
+// the debt, and those dated on or after the balance date come off the balance.
+export interface Debt {
+  id: string;
+  userId: string;
+  name: string;
+  balance: number; // Owed as of balanceDate, in the base currency
+  balanceDate: Timestamp;
+  apr: number; // Annual percentage rate, e.g. 19.99
+  minimumPayment: number;
+  dueDay: number; // Day of the month (1-31, clamped to month length)
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface NewDebt {
+  name: string;
+  balance: number;
+  apr: number;
+  minimumPayment: number;
+  dueDay: number;
+}
+
+export interface DebtStatus {
+  debt: Debt;
+  balance: number; // Owed today, after payments
+  paid: number; // Paid since the balance date
+  payments: Expense[]; // Newest first
+  nextDueDate: Date;
+}
+
+export type PayoffStrategy = 'snowball' | 'avalanche';
+
+export interface PayoffMonth {
+  month: Date; // First day of the month
+  payment: number;
+  interest: number;
+  balances: Record<string, number>; // By debt id, after this month's payment
+  totalBalance: number;
+}
+
+export interface DebtPayoffPlan {
+  strategy: PayoffStrategy;
+  months: PayoffMonth[];
+  totalInterest: number;
+  totalPaid: number;
+  payoffDate: Date | null; // Null when the payments never catch up with the interest
+  debts: { debtId: string; payoffDate: Date | null; interest: number }[]; // In the order they're targeted
+}
+
 // ============================================
 // Custom Categories Types
 // ============================================